@@ -0,0 +1,42 @@
+-- Full-text search documents for videos and series.
+--
+-- Prisma cannot express triggers, so this file keeps the search_vector
+-- columns (declared in schema.prisma) up to date. Run it after
+-- `prisma db push`, with `yarn db:search`. It is safe to run again; it also
+-- fills search_vector for rows that existed before.
+--
+-- Weights: A = title/name, B = tags, C = description, D = script.
+
+CREATE OR REPLACE FUNCTION videos_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(NEW.tags, ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(NEW.script, '')), 'D');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS videos_search_vector_update ON videos;
+CREATE TRIGGER videos_search_vector_update
+  BEFORE INSERT OR UPDATE OF title, tags, description, script ON videos
+  FOR EACH ROW EXECUTE FUNCTION videos_search_vector_update();
+
+CREATE OR REPLACE FUNCTION user_series_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS user_series_search_vector_update ON user_series;
+CREATE TRIGGER user_series_search_vector_update
+  BEFORE INSERT OR UPDATE OF name, description ON user_series
+  FOR EACH ROW EXECUTE FUNCTION user_series_search_vector_update();
+
+-- Backfill; the triggers fire on these no-op updates
+UPDATE videos SET title = title WHERE search_vector IS NULL;
+UPDATE user_series SET name = name WHERE search_vector IS NULL;
@@ -0,0 +1,74 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnalyticsRollupService } from './analytics-rollup.service';
+
+// Rolls up each user's previous day shortly after midnight in their own
+// timezone. The check runs every few minutes for all users; a user is only
+// processed once per day because their row for yesterday then exists.
+@Injectable()
+export class AnalyticsRollupScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(AnalyticsRollupScheduler.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly analyticsRollupService: AnalyticsRollupService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (
+      this.configService.get<string>('ANALYTICS_ROLLUP_ENABLED') === 'false'
+    ) {
+      this.logger.log('Analytics rollup disabled');
+      return;
+    }
+
+    const intervalMs = Number(
+      this.configService.get('ANALYTICS_ROLLUP_INTERVAL_MS') ?? 10 * 60 * 1000,
+    );
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    this.timer.unref();
+    this.logger.log(
+      `Analytics rollup scheduler started (every ${intervalMs}ms)`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async tick(now = new Date()): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const lookbackDays = Number(
+        this.configService.get('ANALYTICS_ROLLUP_LOOKBACK_DAYS') ?? 7,
+      );
+      const processed = await this.analyticsRollupService.rollupCompletedDays(
+        now,
+        Math.max(1, lookbackDays),
+      );
+      if (processed > 0) {
+        this.logger.log(`Rolled up daily analytics for ${processed} user(s)`);
+      }
+    } catch (error) {
+      this.logger.error(`Analytics rollup run failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AnalyticsDaily } from '@prisma/client';
+import { AnalyticsService } from '../database/analytics.service';
+import { UsageLedgerService } from '../database/usage-ledger.service';
+import { UserService } from '../database/user.service';
+import {
+  addDays,
+  isValidTimeZone,
+  zonedDate,
+  zonedDayBounds,
+} from '../common/timezone';
+import { computeDailyRollup } from './daily-rollup';
+
+// Writes AnalyticsDaily rows. A user's day runs from midnight to midnight
+// in their profile timezone (UTC when unset or unknown). Every run fully
+// recomputes its rows, so days can be rolled up again at any time.
+@Injectable()
+export class AnalyticsRollupService {
+  private readonly logger = new Logger(AnalyticsRollupService.name);
+
+  constructor(
+    private readonly analyticsService: AnalyticsService,
+    private readonly userService: UserService,
+    private readonly usageLedgerService: UsageLedgerService,
+  ) {}
+
+  // Recompute one user's row for a calendar date (YYYY-MM-DD)
+  async rollupDay(
+    userId: string,
+    timeZone: string | null,
+    date: string,
+  ): Promise<AnalyticsDaily> {
+    const { start, end } = zonedDayBounds(date, resolveTimeZone(timeZone));
+    const [videos, posts, costs] = await Promise.all([
+      this.analyticsService.getVideosCreatedBetween(userId, start, end),
+      this.analyticsService.getPostsPublishedBetween(userId, start, end),
+      this.usageLedgerService.getUserCostBetween(userId, start, end),
+    ]);
+
+    return this.analyticsService.upsertDailyAnalytics(
+      userId,
+      new Date(`${date}T00:00:00.000Z`),
+      computeDailyRollup(videos, posts, costs),
+    );
+  }
+
+  // Roll up yesterday, in each user's timezone, for users without a row for
+  // it yet. The rest of the lookback window is recomputed too because post
+  // counters keep growing after publishing. Returns the users processed.
+  async rollupCompletedDays(now: Date, lookbackDays: number): Promise<number> {
+    const profiles = await this.userService.getActiveProfileTimezones();
+    const yesterdays = profiles.map((profile) =>
+      addDays(zonedDate(now, resolveTimeZone(profile.timezone)), -1),
+    );
+    const existing = await this.analyticsService.getExistingDays([
+      ...new Set(yesterdays),
+    ]);
+
+    let processed = 0;
+    for (const [index, profile] of profiles.entries()) {
+      const yesterday = yesterdays[index];
+      if (existing.has(`${profile.id}:${yesterday}`)) {
+        continue;
+      }
+
+      try {
+        for (let offset = lookbackDays - 1; offset >= 0; offset--) {
+          await this.rollupDay(
+            profile.id,
+            profile.timezone,
+            addDays(yesterday, -offset),
+          );
+        }
+        processed++;
+      } catch (error) {
+        this.logger.error(
+          `Analytics rollup failed for user ${profile.id}: ${error.message}`,
+        );
+      }
+    }
+    return processed;
+  }
+
+  // Recompute a date range (inclusive) for one user or every active user
+  async backfill(options: {
+    from: string;
+    to: string;
+    userId?: string;
+  }): Promise<number> {
+    const profiles = (
+      await this.userService.getActiveProfileTimezones()
+    ).filter((profile) => !options.userId || profile.id === options.userId);
+
+    let rows = 0;
+    for (const profile of profiles) {
+      for (
+        let date = options.from;
+        date <= options.to;
+        date = addDays(date, 1)
+      ) {
+        await this.rollupDay(profile.id, profile.timezone, date);
+        rows++;
+      }
+    }
+    return rows;
+  }
+}
+
+function resolveTimeZone(timeZone: string | null): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+}
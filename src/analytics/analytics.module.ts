@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { AnalyticsRollupService } from './analytics-rollup.service';
+import { AnalyticsRollupScheduler } from './analytics-rollup.scheduler';
+
+@Module({
+  imports: [ConfigModule, DatabaseModule],
+  providers: [AnalyticsRollupService, AnalyticsRollupScheduler],
+  exports: [AnalyticsRollupService],
+})
+export class AnalyticsModule {}
@@ -0,0 +1,64 @@
+import { zonedDayBounds } from '../common/timezone';
+import { computeDailyRollup } from './daily-rollup';
+
+describe('computeDailyRollup', () => {
+  const post = (platform: string, overrides: Record<string, any> = {}) => ({
+    videoId: 'video-1',
+    platform,
+    viewsCount: 1000,
+    likesCount: 80,
+    commentsCount: 15,
+    sharesCount: 5,
+    ...overrides,
+  });
+
+  it('splits platform counters and totals every platform', () => {
+    const row = computeDailyRollup(
+      [
+        { id: 'video-1', duration: 45 },
+        { id: 'video-2', duration: null },
+      ],
+      [
+        post('tiktok'),
+        post('youtube', { viewsCount: 3000, likesCount: 120 }),
+        post('twitter', { videoId: 'video-2', viewsCount: 1000 }),
+      ],
+      0.12504,
+    );
+
+    expect(row).toMatchObject({
+      videosGenerated: 2,
+      videosPublished: 2,
+      totalVideoDuration: 45,
+      tiktokViews: 1000,
+      tiktokLikes: 80,
+      youtubeViews: 3000,
+      youtubeLikes: 120,
+      instagramViews: 0,
+      totalViews: 5000,
+      totalLikes: 280,
+      totalComments: 45,
+      totalShares: 15,
+      avgEngagementRate: 0.068,
+      generationCosts: 0.125,
+    });
+  });
+
+  it('returns an all-zero row for a quiet day', () => {
+    const row = computeDailyRollup([], []);
+
+    expect(Object.values(row).every((value) => value === 0)).toBe(true);
+  });
+
+  it('uses local midnight as the day boundary', () => {
+    // New York is UTC-5 in January and UTC-4 after the March DST change
+    expect(zonedDayBounds('2025-01-15', 'America/New_York')).toEqual({
+      start: new Date('2025-01-15T05:00:00.000Z'),
+      end: new Date('2025-01-16T05:00:00.000Z'),
+    });
+    expect(zonedDayBounds('2025-03-09', 'America/New_York')).toEqual({
+      start: new Date('2025-03-09T05:00:00.000Z'),
+      end: new Date('2025-03-10T04:00:00.000Z'),
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { AnalyticsDailyData } from '../database/analytics.service';
+
+export interface RollupVideo {
+  id: string;
+  duration: number | null;
+}
+
+export interface RollupPost {
+  videoId: string;
+  platform: string;
+  viewsCount: number;
+  likesCount: number;
+  commentsCount: number;
+  sharesCount: number;
+}
+
+// Platforms with their own AnalyticsDaily columns
+const PLATFORM_COLUMNS = {
+  tiktok: { views: 'tiktokViews', likes: 'tiktokLikes' },
+  youtube: { views: 'youtubeViews', likes: 'youtubeLikes' },
+  instagram: { views: 'instagramViews', likes: 'instagramLikes' },
+} as const;
+
+// Upper bound of AnalyticsDaily.avgEngagementRate (Decimal(5, 4))
+const MAX_ENGAGEMENT_RATE = 9.9999;
+
+// Build one AnalyticsDaily row from the videos created and the posts
+// published on that day, plus the usage ledger cost incurred that day. Post
+// counters are lifetime totals, so a day shows everything its posts have
+// earned so far; re-running the rollup picks up the latest synced numbers.
+export function computeDailyRollup(
+  videos: RollupVideo[],
+  posts: RollupPost[],
+  generationCosts = 0,
+): AnalyticsDailyData {
+  const row = {
+    videosGenerated: videos.length,
+    videosPublished: new Set(posts.map((post) => post.videoId)).size,
+    totalVideoDuration: videos.reduce(
+      (sum, video) => sum + (video.duration ?? 0),
+      0,
+    ),
+    tiktokViews: 0,
+    tiktokLikes: 0,
+    youtubeViews: 0,
+    youtubeLikes: 0,
+    instagramViews: 0,
+    instagramLikes: 0,
+    totalViews: 0,
+    totalLikes: 0,
+    totalComments: 0,
+    totalShares: 0,
+    avgEngagementRate: 0,
+    generationCosts: 0,
+  };
+
+  for (const post of posts) {
+    const columns = PLATFORM_COLUMNS[post.platform];
+    if (columns) {
+      row[columns.views] += post.viewsCount;
+      row[columns.likes] += post.likesCount;
+    }
+    row.totalViews += post.viewsCount;
+    row.totalLikes += post.likesCount;
+    row.totalComments += post.commentsCount;
+    row.totalShares += post.sharesCount;
+  }
+
+  if (row.totalViews > 0) {
+    const rate =
+      (row.totalLikes + row.totalComments + row.totalShares) / row.totalViews;
+    row.avgEngagementRate = Math.min(
+      Math.round(rate * 10000) / 10000,
+      MAX_ENGAGEMENT_RATE,
+    );
+  }
+
+  row.generationCosts = Math.round(generationCosts * 10000) / 10000;
+
+  return row;
+}
@@ -1,4 +1,4 @@
-import { Controller, Get, Req, UseGuards } from '@nestjs/common';
+import { Controller, Get, UseGuards } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
@@ -7,6 +7,8 @@ import {
 } from '@nestjs/swagger';
 import { AppService } from './app.service';
 import { JwtAuthGuard } from './auth/guards/jwt.auth.guard';
+import { CurrentUser } from './auth/decorators/current-user.decorator';
+import { AuthUser } from './auth/auth-user';
 
 @ApiTags('App')
 @Controller()
@@ -42,7 +44,7 @@ export class AppController {
         message: { type: 'string', example: 'AuthGuard works 🎉' },
         authenticated_user: {
           type: 'object',
-          description: 'User information from JWT token',
+          description: 'The authenticated user built from the JWT claims',
         },
       },
     },
@@ -51,10 +53,10 @@ export class AppController {
     status: 401,
     description: 'Unauthorized - Invalid or missing JWT token',
   })
-  async protected(@Req() req) {
+  async protected(@CurrentUser() user: AuthUser) {
     return {
       message: 'AuthGuard works 🎉',
-      authenticated_user: req.user,
+      authenticated_user: user,
     };
   }
 }
@@ -9,6 +9,16 @@ import { UsersModule } from './users/users.module';
 import { SeriesModule } from './series/series.module';
 import { VideosModule } from './videos/videos.module';
 import { SocialModule } from './social/social.module';
+import { SubscriptionsModule } from './subscriptions/subscriptions.module';
+import { CatalogModule } from './catalog/catalog.module';
+import { PublishingModule } from './publishing/publishing.module';
+import { JobsModule } from './jobs/jobs.module';
+import { GenerationModule } from './generation/generation.module';
+import { AutoPostModule } from './auto-post/auto-post.module';
+import { AnalyticsModule } from './analytics/analytics.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { StorageModule } from './storage/storage.module';
+import { SearchModule } from './search/search.module';
 
 @Module({
   imports: [
@@ -22,12 +32,24 @@ import { SocialModule } from './social/social.module';
     PrismaModule,
     DatabaseModule,
 
+    // Background processing
+    JobsModule,
+    GenerationModule,
+    AutoPostModule,
+    AnalyticsModule,
+    NotificationsModule,
+    StorageModule,
+
     // Feature modules
     AuthModule,
     UsersModule,
     SeriesModule,
     VideosModule,
     SocialModule,
+    PublishingModule,
+    SubscriptionsModule,
+    CatalogModule,
+    SearchModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,40 @@
+import { ConfigService } from '@nestjs/config';
+
+// Who issues access tokens: Supabase, this API (email and password), or both
+export type AuthMode = 'supabase' | 'local' | 'both';
+
+// Passport strategy names
+export const SUPABASE_STRATEGY = 'supabase';
+export const LOCAL_JWT_STRATEGY = 'local-jwt';
+
+// Issuer and audience of the access tokens local auth signs
+export const LOCAL_JWT_ISSUER = 'easy-reals';
+export const LOCAL_JWT_AUDIENCE = 'authenticated';
+
+export function authMode(configService: ConfigService): AuthMode {
+  const mode = configService.get<string>('AUTH_MODE') || 'supabase';
+  switch (mode) {
+    case 'supabase':
+    case 'local':
+    case 'both':
+      return mode;
+    default:
+      throw new Error(`Unknown auth mode "${mode}"`);
+  }
+}
+
+export function supabaseAuthEnabled(configService: ConfigService): boolean {
+  return authMode(configService) !== 'local';
+}
+
+export function localAuthEnabled(configService: ConfigService): boolean {
+  return authMode(configService) !== 'supabase';
+}
+
+// Secret local access tokens are signed with
+export function localJwtSecret(configService: ConfigService): string {
+  return (
+    configService.get<string>('LOCAL_JWT_SECRET') ||
+    configService.get<string>('JWT_SECRET')
+  );
+}
@@ -0,0 +1,49 @@
+// Claims of a Supabase access token that the API relies on
+export interface SupabaseJwtPayload {
+  sub: string;
+  email?: string;
+  role?: string;
+  aal?: string;
+  iat?: number;
+  // Sign-in methods of the session, with when each was used (Unix seconds)
+  amr?: { method: string; timestamp: number }[];
+  app_metadata?: { role?: string; [key: string]: unknown };
+  user_metadata?: {
+    full_name?: string;
+    name?: string;
+    avatar_url?: string;
+    [key: string]: unknown;
+  };
+}
+
+// The authenticated user, as controllers see it in req.user
+export interface AuthUser {
+  id: string;
+  email: string | null;
+  // Postgres role of the token: 'authenticated' for signed-in users
+  role: string;
+  // Authenticator assurance level: 'aal1' (password, OAuth) or 'aal2' (MFA)
+  aal: string;
+  isAdmin: boolean;
+  // When the user signed in to this session, or when the token was issued
+  // if the token does not say
+  signedInAt: Date | null;
+  fullName?: string;
+  avatarUrl?: string;
+}
+
+// Build the principal from verified token claims
+export function authUserFromClaims(payload: SupabaseJwtPayload): AuthUser {
+  const signIns = (payload.amr ?? []).map((entry) => entry.timestamp);
+  const signedIn = signIns.length > 0 ? Math.max(...signIns) : payload.iat;
+  return {
+    id: payload.sub,
+    email: payload.email || null,
+    role: payload.role ?? 'authenticated',
+    aal: payload.aal ?? 'aal1',
+    isAdmin: payload.app_metadata?.role === 'admin',
+    signedInAt: signedIn ? new Date(signedIn * 1000) : null,
+    fullName: payload.user_metadata?.full_name ?? payload.user_metadata?.name,
+    avatarUrl: payload.user_metadata?.avatar_url,
+  };
+}
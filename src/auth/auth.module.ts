@@ -4,11 +4,20 @@ import { PassportModule } from '@nestjs/passport';
 import { JwtModule } from '@nestjs/jwt';
 import { JwtAuthGuard } from './guards/jwt.auth.guard';
 import { SupabaseStrategy } from './strategies/supabase.strategy';
+import { LocalJwtStrategy } from './strategies/local-jwt.strategy';
+import { ProfileProvisioningService } from './profile-provisioning.service';
+import { LocalAuthService } from './local-auth.service';
+import { LocalAuthController } from './local-auth.controller';
+import { localAuthEnabled, supabaseAuthEnabled } from './auth-mode';
+import { DatabaseModule } from '../database/database.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [
     PassportModule,
     ConfigModule,
+    DatabaseModule,
+    NotificationsModule,
     JwtModule.registerAsync({
       useFactory: (configService: ConfigService) => {
         return {
@@ -20,7 +29,33 @@ import { SupabaseStrategy } from './strategies/supabase.strategy';
       inject: [ConfigService],
     }),
   ],
-  providers: [JwtAuthGuard, SupabaseStrategy],
+  controllers: [LocalAuthController],
+  providers: [
+    JwtAuthGuard,
+    // Strategies register themselves with passport when created, so only
+    // the ones AUTH_MODE enables are
+    {
+      provide: SupabaseStrategy,
+      useFactory: (
+        configService: ConfigService,
+        profileProvisioning: ProfileProvisioningService,
+      ) =>
+        supabaseAuthEnabled(configService)
+          ? new SupabaseStrategy(configService, profileProvisioning)
+          : null,
+      inject: [ConfigService, ProfileProvisioningService],
+    },
+    {
+      provide: LocalJwtStrategy,
+      useFactory: (configService: ConfigService) =>
+        localAuthEnabled(configService)
+          ? new LocalJwtStrategy(configService)
+          : null,
+      inject: [ConfigService],
+    },
+    ProfileProvisioningService,
+    LocalAuthService,
+  ],
   exports: [JwtAuthGuard, JwtModule],
 })
 export class AuthModule {}
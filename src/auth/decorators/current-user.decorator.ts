@@ -0,0 +1,11 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthUser } from '../auth-user';
+
+// The authenticated user, or one of its fields: @CurrentUser('id').
+// Only use on routes behind JwtAuthGuard.
+export const CurrentUser = createParamDecorator(
+  (field: keyof AuthUser | undefined, context: ExecutionContext) => {
+    const user: AuthUser = context.switchToHttp().getRequest().user;
+    return field ? user?.[field] : user;
+  },
+);
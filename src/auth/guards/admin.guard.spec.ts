@@ -0,0 +1,29 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { AdminGuard } from './admin.guard';
+
+const contextFor = (user: unknown) =>
+  ({
+    switchToHttp: () => ({ getRequest: () => ({ user }) }),
+  }) as unknown as ExecutionContext;
+
+describe('AdminGuard', () => {
+  const guard = new AdminGuard();
+
+  it('lets admins through', () => {
+    expect(guard.canActivate(contextFor({ id: 'u1', isAdmin: true }))).toBe(
+      true,
+    );
+  });
+
+  it('rejects signed-in users who are not admins', () => {
+    expect(() =>
+      guard.canActivate(contextFor({ id: 'u1', isAdmin: false })),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('rejects requests without a user', () => {
+    expect(() => guard.canActivate(contextFor(undefined))).toThrow(
+      ForbiddenException,
+    );
+  });
+});
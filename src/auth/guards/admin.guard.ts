@@ -0,0 +1,22 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { AuthUser } from '../auth-user';
+
+// Allows requests whose Supabase JWT carries app_metadata.role = 'admin'.
+// Must run after JwtAuthGuard so that req.user is populated.
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const user: AuthUser = context.switchToHttp().getRequest().user;
+
+    if (!user?.isAdmin) {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    return true;
+  }
+}
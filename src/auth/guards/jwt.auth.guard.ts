@@ -1,3 +1,34 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Optional,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { AuthGuard } from '@nestjs/passport';
+import {
+  LOCAL_JWT_STRATEGY,
+  localAuthEnabled,
+  SUPABASE_STRATEGY,
+  supabaseAuthEnabled,
+} from '../auth-mode';
 
-export class JwtAuthGuard extends AuthGuard('jwt') {}
+// Accepts access tokens from every issuer AUTH_MODE enables; each strategy
+// is tried in turn until one verifies the token
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  private readonly guard: CanActivate;
+
+  // Modules without ConfigModule (unit tests) read the environment directly
+  constructor(@Optional() configService: ConfigService = new ConfigService()) {
+    const PassportGuard = AuthGuard([
+      ...(supabaseAuthEnabled(configService) ? [SUPABASE_STRATEGY] : []),
+      ...(localAuthEnabled(configService) ? [LOCAL_JWT_STRATEGY] : []),
+    ]);
+    this.guard = new PassportGuard();
+  }
+
+  canActivate(context: ExecutionContext) {
+    return this.guard.canActivate(context);
+  }
+}
@@ -0,0 +1,87 @@
+import { generateKeyPairSync, JsonWebKey } from 'crypto';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { JwksClient } from './jwks-client';
+
+describe('JwksClient', () => {
+  let server: Server;
+  let url: string;
+  let keys: JsonWebKey[];
+  let requests: number;
+  let failing: boolean;
+
+  const publicJwk = (kid: string) => ({
+    ...generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey.export({
+      format: 'jwk',
+    }),
+    kid,
+    use: 'sig',
+    alg: 'ES256',
+  });
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests++;
+      if (failing) {
+        res.writeHead(503).end();
+        return;
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ keys }));
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/jwks.json`;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  beforeEach(() => {
+    keys = [publicJwk('key-1')];
+    requests = 0;
+    failing = false;
+  });
+
+  it('caches keys between tokens', async () => {
+    const client = new JwksClient(url);
+
+    const key = await client.getSigningKey('key-1');
+    expect(key.asymmetricKeyType).toBe('ec');
+    await client.getSigningKey('key-1');
+
+    expect(requests).toBe(1);
+  });
+
+  it('fetches the keys again when a token names a rotated-in key', async () => {
+    const client = new JwksClient(url, { minRefetchIntervalMs: 0 });
+    await client.getSigningKey('key-1');
+
+    keys = [publicJwk('key-2'), ...keys];
+    await expect(client.getSigningKey('key-2')).resolves.toBeDefined();
+    expect(requests).toBe(2);
+  });
+
+  it('fetches unknown key IDs at most once per interval', async () => {
+    const client = new JwksClient(url, { minRefetchIntervalMs: 60_000 });
+    await client.getSigningKey('key-1');
+
+    await expect(client.getSigningKey('made-up')).rejects.toThrow(
+      'No signing key with ID "made-up"',
+    );
+    await expect(client.getSigningKey('made-up')).rejects.toThrow();
+    expect(requests).toBe(1);
+  });
+
+  it('keeps using cached keys while the endpoint is down', async () => {
+    const client = new JwksClient(url, {
+      cacheTtlMs: 0,
+      minRefetchIntervalMs: 0,
+    });
+    await client.getSigningKey('key-1');
+
+    failing = true;
+    await expect(client.getSigningKey('key-1')).resolves.toBeDefined();
+    await expect(client.getSigningKey('key-2')).rejects.toThrow('503');
+  });
+});
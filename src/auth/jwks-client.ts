@@ -0,0 +1,93 @@
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+export interface JwksClientOptions {
+  // How long fetched keys are used before fetching them again
+  cacheTtlMs?: number;
+  // Least time between two fetches, however many unknown key IDs show up
+  minRefetchIntervalMs?: number;
+  requestTimeoutMs?: number;
+}
+
+// Public signing keys published at a JWKS endpoint, cached by key ID. A token
+// signed with a key that is not cached yet (the keys were rotated) makes the
+// keys be fetched early, at most once per minRefetchIntervalMs, so tokens
+// with made-up key IDs cannot flood the endpoint.
+export class JwksClient {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private attemptedAt = 0;
+  private pending: Promise<void> | null = null;
+  private readonly cacheTtlMs: number;
+  private readonly minRefetchIntervalMs: number;
+  private readonly requestTimeoutMs: number;
+
+  constructor(
+    private readonly url: string,
+    options: JwksClientOptions = {},
+  ) {
+    this.cacheTtlMs = options.cacheTtlMs ?? 10 * 60 * 1000;
+    this.minRefetchIntervalMs = options.minRefetchIntervalMs ?? 30 * 1000;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 5000;
+  }
+
+  // Key a token with the given key ID was signed with
+  async getSigningKey(kid: string): Promise<KeyObject> {
+    const now = Date.now();
+    const stale =
+      now - this.fetchedAt >= this.cacheTtlMs || !this.keys.has(kid);
+    if (stale && now - this.attemptedAt >= this.minRefetchIntervalMs) {
+      try {
+        await this.refresh();
+      } catch (error) {
+        // Keep using the cached keys while the endpoint is unreachable
+        if (!this.keys.has(kid)) {
+          throw error;
+        }
+      }
+    }
+
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new Error(`No signing key with ID "${kid}" at ${this.url}`);
+    }
+    return key;
+  }
+
+  // Concurrent requests share one fetch
+  private refresh(): Promise<void> {
+    this.pending ??= this.fetchKeys().finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    this.attemptedAt = Date.now();
+    const response = await fetch(this.url, {
+      signal: AbortSignal.timeout(this.requestTimeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`JWKS request to ${this.url} failed: ${response.status}`);
+    }
+    const { keys } = (await response.json()) as { keys?: Jwk[] };
+
+    const next = new Map<string, KeyObject>();
+    for (const jwk of keys ?? []) {
+      if (!jwk.kid || (jwk.use && jwk.use !== 'sig')) {
+        continue;
+      }
+      try {
+        next.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch {
+        // Key types Node cannot load are of no use for verification
+      }
+    }
+    this.keys = next;
+    this.fetchedAt = Date.now();
+  }
+}
@@ -0,0 +1,209 @@
+import {
+  Body,
+  ClassSerializerInterceptor,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { plainToClass } from 'class-transformer';
+import {
+  AuthSessionResponseDto,
+  SignUpResponseDto,
+} from '../dto/auth/auth-session-response.dto';
+import {
+  LoginDto,
+  RefreshTokenDto,
+  SignUpDto,
+} from '../dto/auth/credentials.dto';
+import {
+  ResendVerificationDto,
+  VerifyEmailDto,
+} from '../dto/auth/email-verification.dto';
+import {
+  RequestPasswordResetDto,
+  ResetPasswordDto,
+} from '../dto/auth/password-reset.dto';
+import { ErrorResponseDto } from '../dto/common/error-response.dto';
+import { LocalAuthService } from './local-auth.service';
+
+// Email and password sign-in, available when AUTH_MODE is local or both.
+// The access tokens it returns are accepted wherever Supabase ones are.
+@ApiTags('Auth')
+@Controller('api/v1/auth')
+@UseInterceptors(ClassSerializerInterceptor)
+export class LocalAuthController {
+  constructor(private readonly localAuthService: LocalAuthService) {}
+
+  @Post('signup')
+  @ApiOperation({
+    summary: 'Create an account',
+    description:
+      'Creates an account with email and password and emails a link to confirm the address. Signing in works once the address is confirmed.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Account created, verification email sent',
+    type: SignUpResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Email and password sign-in is not enabled',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'An account with this email already exists',
+    type: ErrorResponseDto,
+  })
+  async signUp(@Body() signUpDto: SignUpDto): Promise<SignUpResponseDto> {
+    const pending = await this.localAuthService.signUp(signUpDto);
+    return plainToClass(SignUpResponseDto, pending);
+  }
+
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm the email address',
+    description:
+      'Confirms the address with the token from the verification email and signs in.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Email confirmed and signed in',
+    type: AuthSessionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid or expired verification token',
+    type: ErrorResponseDto,
+  })
+  async verifyEmail(
+    @Body() verifyEmailDto: VerifyEmailDto,
+  ): Promise<AuthSessionResponseDto> {
+    const session = await this.localAuthService.verifyEmail(
+      verifyEmailDto.token,
+    );
+    return plainToClass(AuthSessionResponseDto, session);
+  }
+
+  @Post('verify-email/resend')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Send the verification email again',
+    description:
+      'Emails a new link when an unconfirmed account with the email exists. The response is the same either way.',
+  })
+  @ApiResponse({ status: 202, description: 'Request accepted' })
+  async resendVerificationEmail(
+    @Body() resendVerificationDto: ResendVerificationDto,
+  ): Promise<void> {
+    await this.localAuthService.resendVerificationEmail(
+      resendVerificationDto.email,
+    );
+  }
+
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Sign in with email and password' })
+  @ApiResponse({
+    status: 200,
+    description: 'Signed in',
+    type: AuthSessionResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid email or password',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Email address not confirmed yet',
+    type: ErrorResponseDto,
+  })
+  async login(@Body() loginDto: LoginDto): Promise<AuthSessionResponseDto> {
+    const session = await this.localAuthService.login(
+      loginDto.email,
+      loginDto.password,
+    );
+    return plainToClass(AuthSessionResponseDto, session);
+  }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Refresh the access token',
+    description:
+      'Returns a new access token and a new refresh token. Refresh tokens work once; using one twice signs the session out.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tokens refreshed',
+    type: AuthSessionResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Refresh token invalid, expired or already used',
+    type: ErrorResponseDto,
+  })
+  async refresh(
+    @Body() refreshTokenDto: RefreshTokenDto,
+  ): Promise<AuthSessionResponseDto> {
+    const session = await this.localAuthService.refresh(
+      refreshTokenDto.refreshToken,
+    );
+    return plainToClass(AuthSessionResponseDto, session);
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Sign out',
+    description:
+      'Revokes the refresh token and every token refreshed from the same sign-in. Access tokens stay valid until they expire.',
+  })
+  @ApiResponse({ status: 204, description: 'Signed out' })
+  async logout(@Body() refreshTokenDto: RefreshTokenDto): Promise<void> {
+    await this.localAuthService.logout(refreshTokenDto.refreshToken);
+  }
+
+  @Post('password-reset')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Request a password reset',
+    description:
+      'Emails a reset link when an account with the email exists. The response is the same either way.',
+  })
+  @ApiResponse({ status: 202, description: 'Request accepted' })
+  async requestPasswordReset(
+    @Body() requestPasswordResetDto: RequestPasswordResetDto,
+  ): Promise<void> {
+    await this.localAuthService.requestPasswordReset(
+      requestPasswordResetDto.email,
+    );
+  }
+
+  @Post('password-reset/confirm')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Set a new password',
+    description:
+      'Sets the password with the token from the reset email and signs out all sessions.',
+  })
+  @ApiResponse({ status: 204, description: 'Password changed' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid or expired reset token',
+    type: ErrorResponseDto,
+  })
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+  ): Promise<void> {
+    await this.localAuthService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.password,
+    );
+  }
+}
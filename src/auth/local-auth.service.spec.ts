@@ -0,0 +1,252 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createHash } from 'crypto';
+import { CredentialService } from '../database/credential.service';
+import { UserService } from '../database/user.service';
+import { NotificationChannel } from '../notifications/notification-channel.interface';
+import { LocalAuthService } from './local-auth.service';
+import { hashPassword, verifyPassword } from './password-hash';
+
+describe('LocalAuthService', () => {
+  const jwtService = new JwtService();
+  let service: LocalAuthService;
+  let credentialService: Record<string, jest.Mock>;
+  let emailChannel: { name: string; send: jest.Mock };
+
+  const profile = {
+    id: 'user-1',
+    email: 'ada@example.com',
+    fullName: 'Ada Lovelace',
+    isActive: true,
+    notificationWebhookUrl: null,
+  };
+  const sha256 = (token: string) =>
+    createHash('sha256').update(token).digest('hex');
+  const config = {
+    AUTH_MODE: 'local',
+    JWT_SECRET: 'secret',
+    PASSWORD_RESET_URL: 'https://app.example.com/reset',
+    EMAIL_VERIFICATION_URL: 'https://app.example.com/verify?source=email',
+  };
+  const createService = (
+    overrides: Record<string, string | undefined> = {},
+    channels: unknown[] = [emailChannel],
+  ) =>
+    new LocalAuthService(
+      credentialService as unknown as CredentialService,
+      { updateLastLogin: jest.fn() } as unknown as UserService,
+      jwtService,
+      new ConfigService({ ...config, ...overrides }),
+      channels as NotificationChannel[],
+    );
+
+  beforeEach(() => {
+    credentialService = {
+      createLocalUser: jest.fn().mockResolvedValue(profile),
+      findByEmail: jest.fn().mockResolvedValue(null),
+      createRefreshToken: jest.fn().mockResolvedValue({}),
+      findRefreshToken: jest.fn(),
+      rotateRefreshToken: jest.fn(),
+      revokeRefreshTokenFamily: jest.fn(),
+      createPasswordReset: jest.fn().mockResolvedValue({}),
+      consumePasswordReset: jest.fn(),
+      updatePassword: jest.fn(),
+      createEmailVerification: jest.fn().mockResolvedValue({}),
+      consumeEmailVerification: jest.fn(),
+    };
+    emailChannel = { name: 'email', send: jest.fn() };
+    service = createService();
+  });
+
+  it('signs up with a hashed password and emails a verification link instead of signing in', async () => {
+    const pending = await service.signUp({
+      email: ' Ada@Example.com ',
+      password: 'correct horse',
+    });
+
+    const { passwordHash, email } =
+      credentialService.createLocalUser.mock.calls[0][0];
+    expect(email).toBe('ada@example.com');
+    await expect(verifyPassword('correct horse', passwordHash)).resolves.toBe(
+      true,
+    );
+    expect(pending).toEqual({
+      user: {
+        id: 'user-1',
+        email: 'ada@example.com',
+        fullName: 'Ada Lovelace',
+      },
+      emailVerificationRequired: true,
+    });
+    expect(credentialService.createRefreshToken).not.toHaveBeenCalled();
+
+    const [recipient, message] = emailChannel.send.mock.calls[0];
+    const link = new URL(message.actionUrl);
+    expect(recipient.email).toBe('ada@example.com');
+    expect(link.origin + link.pathname).toBe('https://app.example.com/verify');
+    expect(link.searchParams.get('source')).toBe('email');
+    expect(credentialService.createEmailVerification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        tokenHash: sha256(link.searchParams.get('token')),
+      }),
+    );
+  });
+
+  it('signs in with tokens carrying Supabase claims once the email is verified', async () => {
+    credentialService.consumeEmailVerification.mockResolvedValue(profile);
+
+    const session = await service.verifyEmail('verify-1');
+
+    expect(credentialService.consumeEmailVerification).toHaveBeenCalledWith(
+      sha256('verify-1'),
+    );
+    expect(
+      jwtService.verify(session.accessToken, {
+        secret: 'secret',
+        issuer: 'easy-reals',
+        audience: 'authenticated',
+      }),
+    ).toMatchObject({
+      sub: 'user-1',
+      email: 'ada@example.com',
+      role: 'authenticated',
+      user_metadata: { full_name: 'Ada Lovelace' },
+    });
+    expect(credentialService.createRefreshToken).toHaveBeenCalledWith(
+      expect.objectContaining({ tokenHash: sha256(session.refreshToken) }),
+    );
+  });
+
+  it('rejects used or expired verification tokens', async () => {
+    credentialService.consumeEmailVerification.mockResolvedValue(null);
+
+    await expect(service.verifyEmail('verify-1')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(credentialService.createRefreshToken).not.toHaveBeenCalled();
+  });
+
+  it('refuses to sign in before the email is verified', async () => {
+    credentialService.findByEmail.mockResolvedValue({
+      ...profile,
+      localCredential: {
+        passwordHash: await hashPassword('correct horse'),
+        emailVerifiedAt: null,
+      },
+    });
+
+    await expect(
+      service.login('ada@example.com', 'correct horse'),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(service.login('ada@example.com', 'wrong')).rejects.toThrow(
+      'Invalid email or password',
+    );
+  });
+
+  it('rejects unknown emails and wrong passwords alike', async () => {
+    await expect(service.login('nobody@example.com', 'x')).rejects.toThrow(
+      'Invalid email or password',
+    );
+
+    credentialService.findByEmail.mockResolvedValue({
+      ...profile,
+      localCredential: {
+        passwordHash: await hashPassword('correct horse'),
+        emailVerifiedAt: new Date(),
+      },
+    });
+    await expect(service.login('ada@example.com', 'wrong')).rejects.toThrow(
+      'Invalid email or password',
+    );
+    await expect(
+      service.login('ada@example.com', 'correct horse'),
+    ).resolves.toMatchObject({ user: { id: 'user-1' } });
+  });
+
+  it('rotates refresh tokens and revokes the session when one is reused', async () => {
+    const stored = {
+      id: 'token-1',
+      userId: 'user-1',
+      familyId: 'family-1',
+      expiresAt: new Date(Date.now() + 60_000),
+      rotatedAt: null,
+      revokedAt: null,
+    };
+    credentialService.findRefreshToken.mockResolvedValue(stored);
+    credentialService.rotateRefreshToken.mockResolvedValue({ user: profile });
+
+    const session = await service.refresh('refresh-1');
+    expect(credentialService.findRefreshToken).toHaveBeenCalledWith(
+      sha256('refresh-1'),
+    );
+    expect(credentialService.rotateRefreshToken).toHaveBeenCalledWith(
+      'token-1',
+      expect.objectContaining({ tokenHash: sha256(session.refreshToken) }),
+    );
+
+    credentialService.findRefreshToken.mockResolvedValue({
+      ...stored,
+      rotatedAt: new Date(),
+    });
+    await expect(service.refresh('refresh-1')).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(credentialService.revokeRefreshTokenFamily).toHaveBeenCalledWith(
+      'family-1',
+    );
+  });
+
+  it('emails a reset link only to existing accounts', async () => {
+    await service.requestPasswordReset('nobody@example.com');
+    expect(emailChannel.send).not.toHaveBeenCalled();
+
+    credentialService.findByEmail.mockResolvedValue({
+      ...profile,
+      localCredential: { passwordHash: 'hash' },
+    });
+    await service.requestPasswordReset('ada@example.com');
+
+    const [recipient, message] = emailChannel.send.mock.calls[0];
+    const token = new URL(message.actionUrl).searchParams.get('token');
+    expect(recipient.email).toBe('ada@example.com');
+    expect(message.actionUrl).toMatch(/^https:\/\/app\.example\.com\/reset\?/);
+    expect(credentialService.createPasswordReset).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', tokenHash: sha256(token) }),
+    );
+  });
+
+  it('rejects used or expired reset tokens', async () => {
+    credentialService.consumePasswordReset.mockResolvedValue(null);
+
+    await expect(
+      service.resetPassword('token', 'new password'),
+    ).rejects.toThrow(BadRequestException);
+    expect(credentialService.updatePassword).not.toHaveBeenCalled();
+  });
+
+  it('requires absolute email link pages and an email channel when enabled', () => {
+    expect(() => createService({ PASSWORD_RESET_URL: undefined })).toThrow(
+      /PASSWORD_RESET_URL must be set/,
+    );
+    expect(() =>
+      createService({ EMAIL_VERIFICATION_URL: '/verify-email' }),
+    ).toThrow(/EMAIL_VERIFICATION_URL must be set/);
+    expect(() => createService({}, [])).toThrow(/SMTP_HOST/);
+    expect(() =>
+      createService(
+        {
+          AUTH_MODE: 'supabase',
+          PASSWORD_RESET_URL: undefined,
+          EMAIL_VERIFICATION_URL: undefined,
+        },
+        [],
+      ),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,395 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Profile } from '@prisma/client';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { CredentialService } from '../database/credential.service';
+import { UserService } from '../database/user.service';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+} from '../notifications/notification-channel.interface';
+import {
+  emailVerificationMessage,
+  passwordResetMessage,
+} from '../notifications/notification-messages';
+import {
+  LOCAL_JWT_AUDIENCE,
+  LOCAL_JWT_ISSUER,
+  localAuthEnabled,
+  localJwtSecret,
+} from './auth-mode';
+import { SupabaseJwtPayload } from './auth-user';
+import { hashPassword, verifyPassword } from './password-hash';
+
+export interface PendingSignUp {
+  user: AuthSession['user'];
+  emailVerificationRequired: true;
+}
+
+export interface AuthSession {
+  accessToken: string;
+  tokenType: 'bearer';
+  expiresIn: number;
+  refreshToken: string;
+  user: { id: string; email: string; fullName?: string };
+}
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+
+// Compared against when the email is unknown, so a failed login takes as
+// long whether or not the account exists
+const UNKNOWN_USER_HASH = hashPassword(randomUUID());
+
+// Email and password sign-in for deployments without Supabase (AUTH_MODE
+// local or both). Access tokens are short-lived JWTs with the claims of a
+// Supabase token; refresh tokens are opaque, single use and stored hashed.
+// New accounts cannot sign in until their email address is confirmed.
+@Injectable()
+export class LocalAuthService {
+  private readonly logger = new Logger(LocalAuthService.name);
+  private readonly emailChannel?: NotificationChannel;
+  private readonly passwordResetUrl?: string;
+  private readonly emailVerificationUrl?: string;
+
+  // Links in emails point at the web app, so their pages must be configured
+  // whenever local sign-in is enabled; startup fails otherwise
+  constructor(
+    private readonly credentialService: CredentialService,
+    private readonly userService: UserService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    @Inject(NOTIFICATION_CHANNELS)
+    channels: NotificationChannel[],
+  ) {
+    if (!localAuthEnabled(configService)) {
+      return;
+    }
+    this.passwordResetUrl = requiredPageUrl(
+      configService,
+      'PASSWORD_RESET_URL',
+    );
+    this.emailVerificationUrl = requiredPageUrl(
+      configService,
+      'EMAIL_VERIFICATION_URL',
+    );
+    this.emailChannel = channels.find((c) => c.name === 'email');
+    if (!this.emailChannel) {
+      throw new Error(
+        'Email and password sign-in sends verification and password reset emails: enable the email notification channel (SMTP_HOST)',
+      );
+    }
+  }
+
+  // Create an account and email a link that confirms its address. The
+  // account can sign in once the link has been opened.
+  async signUp(data: {
+    email: string;
+    password: string;
+    fullName?: string;
+  }): Promise<PendingSignUp> {
+    this.assertEnabled();
+    const passwordHash = await hashPassword(data.password);
+
+    let profile: Profile;
+    try {
+      profile = await this.credentialService.createLocalUser({
+        id: randomUUID(),
+        email: normalizeEmail(data.email),
+        fullName: data.fullName,
+        passwordHash,
+      });
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException(
+          'An account with this email already exists',
+        );
+      }
+      throw error;
+    }
+
+    await this.sendVerificationEmail(profile);
+    return {
+      user: sessionUser(profile),
+      emailVerificationRequired: true,
+    };
+  }
+
+  // Confirm an email address with the token from the verification email and
+  // sign in
+  async verifyEmail(token: string): Promise<AuthSession> {
+    this.assertEnabled();
+    const profile = await this.credentialService.consumeEmailVerification(
+      hashToken(token),
+    );
+    if (!profile) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+    if (!profile.isActive) {
+      throw new UnauthorizedException('Account is disabled');
+    }
+    return this.startSession(profile);
+  }
+
+  // Send the verification email again. Callers are not told whether the
+  // account exists, so this never fails for unknown or verified emails.
+  async resendVerificationEmail(email: string): Promise<void> {
+    this.assertEnabled();
+    const user = await this.credentialService.findByEmail(
+      normalizeEmail(email),
+    );
+    if (
+      !user?.localCredential ||
+      user.localCredential.emailVerifiedAt ||
+      !user.isActive
+    ) {
+      return;
+    }
+    await this.sendVerificationEmail(user);
+  }
+
+  // Sign in with email and password
+  async login(email: string, password: string): Promise<AuthSession> {
+    this.assertEnabled();
+    const user = await this.credentialService.findByEmail(
+      normalizeEmail(email),
+    );
+    const valid = await verifyPassword(
+      password,
+      user?.localCredential?.passwordHash ?? (await UNKNOWN_USER_HASH),
+    );
+    if (!user?.localCredential || !valid || !user.isActive) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+    // Only told after the password matched, so it does not reveal accounts
+    if (!user.localCredential.emailVerifiedAt) {
+      throw new ForbiddenException(
+        'Confirm your email address with the link we sent before signing in',
+      );
+    }
+
+    await this.userService.updateLastLogin(user.id);
+    return this.startSession(user);
+  }
+
+  // Exchange a refresh token for a new access token and refresh token
+  async refresh(refreshToken: string): Promise<AuthSession> {
+    this.assertEnabled();
+    const stored = await this.credentialService.findRefreshToken(
+      hashToken(refreshToken),
+    );
+    if (!stored || stored.revokedAt || stored.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const next = newToken();
+    const rotated = stored.rotatedAt
+      ? null
+      : await this.credentialService.rotateRefreshToken(stored.id, {
+          tokenHash: hashToken(next),
+          expiresAt: this.refreshTokenExpiry(),
+        });
+    if (!rotated) {
+      // Only a copy of the token can be used twice: sign out everyone using
+      // this session, the legitimate user included
+      await this.credentialService.revokeRefreshTokenFamily(stored.familyId);
+      this.logger.warn(
+        `Refresh token of user ${stored.userId} was reused; revoked its session`,
+      );
+      throw new UnauthorizedException('Refresh token was already used');
+    }
+    if (!rotated.user.isActive) {
+      throw new UnauthorizedException('Account is disabled');
+    }
+
+    return this.issueSession(rotated.user, next);
+  }
+
+  // End the session a refresh token belongs to. Unknown tokens are ignored.
+  async logout(refreshToken: string): Promise<void> {
+    this.assertEnabled();
+    const stored = await this.credentialService.findRefreshToken(
+      hashToken(refreshToken),
+    );
+    if (stored) {
+      await this.credentialService.revokeRefreshTokenFamily(stored.familyId);
+    }
+  }
+
+  // Email a password reset link. Callers are not told whether the account
+  // exists, so this never fails for unknown emails.
+  async requestPasswordReset(email: string): Promise<void> {
+    this.assertEnabled();
+    const user = await this.credentialService.findByEmail(
+      normalizeEmail(email),
+    );
+    if (!user?.localCredential || !user.isActive) {
+      return;
+    }
+
+    const token = newToken();
+    await this.credentialService.createPasswordReset({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+    });
+
+    try {
+      await this.emailChannel.send(
+        user,
+        passwordResetMessage(
+          withToken(this.passwordResetUrl, token),
+          PASSWORD_RESET_TTL_MINUTES,
+        ),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send password reset email to user ${user.id}: ${error.message}`,
+      );
+    }
+  }
+
+  // Set a new password with a reset token. Signs out all sessions.
+  async resetPassword(token: string, password: string): Promise<void> {
+    this.assertEnabled();
+    const reset = await this.credentialService.consumePasswordReset(
+      hashToken(token),
+    );
+    if (!reset) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+    await this.credentialService.updatePassword(
+      reset.userId,
+      await hashPassword(password),
+    );
+  }
+
+  // A failed send is only logged: the user can ask for the email again
+  private async sendVerificationEmail(profile: Profile): Promise<void> {
+    const token = newToken();
+    await this.credentialService.createEmailVerification({
+      userId: profile.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(
+        Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000,
+      ),
+    });
+
+    try {
+      await this.emailChannel.send(
+        profile,
+        emailVerificationMessage(
+          withToken(this.emailVerificationUrl, token),
+          EMAIL_VERIFICATION_TTL_HOURS,
+        ),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send verification email to user ${profile.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private assertEnabled() {
+    if (!localAuthEnabled(this.configService)) {
+      throw new NotFoundException('Email and password sign-in is not enabled');
+    }
+  }
+
+  // Start a new refresh token family for a fresh sign-in
+  private async startSession(profile: Profile): Promise<AuthSession> {
+    const refreshToken = newToken();
+    await this.credentialService.createRefreshToken({
+      userId: profile.id,
+      familyId: randomUUID(),
+      tokenHash: hashToken(refreshToken),
+      expiresAt: this.refreshTokenExpiry(),
+    });
+    return this.issueSession(profile, refreshToken);
+  }
+
+  private issueSession(profile: Profile, refreshToken: string): AuthSession {
+    const expiresIn = Number(
+      this.configService.get('LOCAL_ACCESS_TOKEN_TTL_SECONDS') ?? 15 * 60,
+    );
+    const claims: SupabaseJwtPayload = {
+      sub: profile.id,
+      email: profile.email,
+      role: 'authenticated',
+      aal: 'aal1',
+      app_metadata: { provider: 'email' },
+      user_metadata: profile.fullName ? { full_name: profile.fullName } : {},
+    };
+    const accessToken = this.jwtService.sign(claims, {
+      secret: localJwtSecret(this.configService),
+      expiresIn,
+      issuer: LOCAL_JWT_ISSUER,
+      audience: LOCAL_JWT_AUDIENCE,
+    });
+
+    return {
+      accessToken,
+      tokenType: 'bearer',
+      expiresIn,
+      refreshToken,
+      user: sessionUser(profile),
+    };
+  }
+
+  private refreshTokenExpiry(): Date {
+    const days = Number(
+      this.configService.get('LOCAL_REFRESH_TOKEN_TTL_DAYS') ?? 30,
+    );
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function sessionUser(profile: Profile): AuthSession['user'] {
+  return {
+    id: profile.id,
+    email: profile.email,
+    fullName: profile.fullName ?? undefined,
+  };
+}
+
+// Absolute URL of a web app page from config
+function requiredPageUrl(configService: ConfigService, name: string): string {
+  const value = configService.get<string>(name);
+  try {
+    return new URL(value).toString();
+  } catch {
+    throw new Error(
+      `${name} must be set to the absolute URL of the web app page when email and password sign-in is enabled`,
+    );
+  }
+}
+
+function withToken(page: string, token: string): string {
+  const url = new URL(page);
+  url.searchParams.set('token', token);
+  return url.toString();
+}
+
+// Refresh, reset and verification tokens are random; only their SHA-256
+// is stored
+function newToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
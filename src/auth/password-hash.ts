@@ -0,0 +1,51 @@
+import { randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'crypto';
+
+// Stored as scrypt$N$r$p$salt$hash, so the cost can be raised later without
+// breaking existing hashes
+const COST = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: ScryptOptions,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    scrypt(password, salt, keyLength, options, (error, key) =>
+      error ? reject(error) : resolve(key),
+    ),
+  );
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, KEY_LENGTH, COST);
+  return [
+    'scrypt',
+    COST.N,
+    COST.r,
+    COST.p,
+    salt.toString('base64url'),
+    key.toString('base64url'),
+  ].join('$');
+}
+
+// Whether a password matches a hash made by hashPassword
+export async function verifyPassword(
+  password: string,
+  hash: string,
+): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = hash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, 'base64url');
+  const actual = await deriveKey(
+    password,
+    Buffer.from(salt, 'base64url'),
+    expected.length,
+    { N: Number(N), r: Number(r), p: Number(p) },
+  );
+  return timingSafeEqual(expected, actual);
+}
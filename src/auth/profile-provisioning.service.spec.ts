@@ -0,0 +1,87 @@
+import { UserService } from '../database/user.service';
+import { authUserFromClaims } from './auth-user';
+import { ProfileProvisioningService } from './profile-provisioning.service';
+
+describe('ProfileProvisioningService', () => {
+  let service: ProfileProvisioningService;
+  let userService: Record<string, jest.Mock>;
+
+  const claims = {
+    sub: 'user-1',
+    email: 'ada@example.com',
+    role: 'authenticated',
+    aal: 'aal1',
+    iat: 1_780_003_600,
+    amr: [{ method: 'password', timestamp: 1_780_000_000 }],
+    user_metadata: { full_name: 'Ada Lovelace' },
+  };
+
+  beforeEach(() => {
+    userService = {
+      provisionProfile: jest.fn().mockResolvedValue({
+        id: 'user-1',
+        lastLoginAt: null,
+      }),
+      updateLastLogin: jest.fn().mockResolvedValue({}),
+    };
+    service = new ProfileProvisioningService(
+      userService as unknown as UserService,
+    );
+  });
+
+  it('maps Supabase claims to the principal', () => {
+    expect(
+      authUserFromClaims({ ...claims, app_metadata: { role: 'admin' } }),
+    ).toEqual({
+      id: 'user-1',
+      email: 'ada@example.com',
+      role: 'authenticated',
+      aal: 'aal1',
+      isAdmin: true,
+      signedInAt: new Date(1_780_000_000 * 1000),
+      fullName: 'Ada Lovelace',
+      avatarUrl: undefined,
+    });
+  });
+
+  it('creates the profile and records the sign-in once per session', async () => {
+    const user = authUserFromClaims(claims);
+
+    await service.ensureProfile(user);
+    await service.ensureProfile(user);
+
+    expect(userService.provisionProfile).toHaveBeenCalledTimes(1);
+    expect(userService.provisionProfile).toHaveBeenCalledWith({
+      id: 'user-1',
+      email: 'ada@example.com',
+      fullName: 'Ada Lovelace',
+      avatarUrl: undefined,
+    });
+    expect(userService.updateLastLogin).toHaveBeenCalledTimes(1);
+
+    // A new sign-in is recorded even while the profile is cached
+    userService.provisionProfile.mockResolvedValue({
+      id: 'user-1',
+      lastLoginAt: new Date(1_780_000_000 * 1000),
+    });
+    await service.ensureProfile(
+      authUserFromClaims({
+        ...claims,
+        amr: [{ method: 'password', timestamp: 1_780_090_000 }],
+      }),
+    );
+    expect(userService.updateLastLogin).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves users alone whose profile cannot be created', async () => {
+    userService.provisionProfile.mockRejectedValue({ code: 'P2002' });
+
+    await service.ensureProfile(authUserFromClaims(claims));
+    await service.ensureProfile(
+      authUserFromClaims({ ...claims, sub: 'anon', email: undefined }),
+    );
+
+    expect(userService.provisionProfile).toHaveBeenCalledTimes(1);
+    expect(userService.updateLastLogin).not.toHaveBeenCalled();
+  });
+});
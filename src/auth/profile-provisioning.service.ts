@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Profile } from '@prisma/client';
+import { UserService } from '../database/user.service';
+import { AuthUser } from './auth-user';
+
+// How long a user's profile is trusted to exist without asking the database
+const RECHECK_AFTER_MS = 5 * 60 * 1000;
+const MAX_TRACKED_USERS = 10_000;
+
+// Creates the profile of a Supabase user on their first authenticated
+// request and records sign-ins, so clients never have to create profiles.
+@Injectable()
+export class ProfileProvisioningService {
+  private readonly logger = new Logger(ProfileProvisioningService.name);
+  // User ID -> sign-in already recorded, for users checked recently
+  private readonly recent = new Map<
+    string,
+    { signedInAt: number; checkedAt: number }
+  >();
+
+  constructor(private readonly userService: UserService) {}
+
+  // Make sure the user has a profile and that its last login is current
+  async ensureProfile(user: AuthUser): Promise<void> {
+    const signedInAt = user.signedInAt?.getTime() ?? 0;
+    const known = this.recent.get(user.id);
+    if (
+      known &&
+      known.signedInAt >= signedInAt &&
+      Date.now() - known.checkedAt < RECHECK_AFTER_MS
+    ) {
+      return;
+    }
+
+    const profile = await this.findOrCreateProfile(user);
+    if (
+      profile &&
+      (!profile.lastLoginAt || profile.lastLoginAt.getTime() < signedInAt)
+    ) {
+      await this.userService.updateLastLogin(user.id);
+    }
+
+    if (this.recent.size >= MAX_TRACKED_USERS) {
+      this.recent.clear();
+    }
+    this.recent.set(user.id, { signedInAt, checkedAt: Date.now() });
+  }
+
+  private async findOrCreateProfile(user: AuthUser): Promise<Profile | null> {
+    // Profile.email is required, so users without one (anonymous sign-ins)
+    // only get a profile some other way
+    if (!user.email) {
+      return null;
+    }
+    try {
+      return await this.userService.provisionProfile({
+        id: user.id,
+        email: user.email,
+        fullName: user.fullName,
+        avatarUrl: user.avatarUrl,
+      });
+    } catch (error) {
+      if (error.code === 'P2002') {
+        this.logger.warn(
+          `Cannot create a profile for user ${user.id}: another profile uses ${user.email}`,
+        );
+        return null;
+      }
+      throw error;
+    }
+  }
+}
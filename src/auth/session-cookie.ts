@@ -0,0 +1,77 @@
+// Name of the cookie @supabase/ssr keeps a project's session in
+export function sessionCookieName(projectRef: string): string {
+  return `sb-${projectRef}-auth-token`;
+}
+
+// Access token from the Supabase session cookie in a Cookie header. Sessions
+// too large for one cookie are split over name.0, name.1, ... cookies, which
+// are joined in order. Null when there is no readable session.
+export function accessTokenFromCookies(
+  cookieHeader: string | undefined,
+  cookieName: string,
+): string | null {
+  if (!cookieHeader) {
+    return null;
+  }
+  const cookies = parseCookies(cookieHeader);
+
+  let value = cookies.get(cookieName);
+  if (value === undefined) {
+    const chunks: string[] = [];
+    for (let i = 0; cookies.has(`${cookieName}.${i}`); i++) {
+      chunks.push(cookies.get(`${cookieName}.${i}`));
+    }
+    if (chunks.length === 0) {
+      return null;
+    }
+    value = chunks.join('');
+  }
+  return accessTokenFromSession(value);
+}
+
+// Cookies in a Cookie header by name; the first of duplicate names wins
+export function parseCookies(cookieHeader: string): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const pair of cookieHeader.split(';')) {
+    // Values may contain "=", e.g. base64 padding
+    const separator = pair.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+    const name = pair.slice(0, separator).trim();
+    if (!cookies.has(name)) {
+      cookies.set(name, pair.slice(separator + 1).trim());
+    }
+  }
+  return cookies;
+}
+
+// Current @supabase/ssr versions store "base64-" and the base64url encoded
+// session JSON; older ones stored the JSON URL-encoded or plain base64, some
+// as an [access_token, refresh_token, ...] array
+function accessTokenFromSession(value: string): string | null {
+  let json: string;
+  if (value.startsWith('base64-')) {
+    json = Buffer.from(value.slice('base64-'.length), 'base64url').toString();
+  } else {
+    try {
+      json = decodeURIComponent(value);
+    } catch {
+      return null;
+    }
+    if (!json.startsWith('{') && !json.startsWith('[')) {
+      json = Buffer.from(json, 'base64').toString();
+    }
+  }
+
+  let session: unknown;
+  try {
+    session = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  const token = Array.isArray(session)
+    ? session[0]
+    : (session as { access_token?: unknown } | null)?.access_token;
+  return typeof token === 'string' ? token : null;
+}
@@ -0,0 +1,38 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { ExtractJwt, Strategy } from 'passport-jwt';
+import { ConfigService } from '@nestjs/config';
+import { AuthUser, authUserFromClaims, SupabaseJwtPayload } from '../auth-user';
+import {
+  LOCAL_JWT_AUDIENCE,
+  LOCAL_JWT_ISSUER,
+  LOCAL_JWT_STRATEGY,
+  localJwtSecret,
+} from '../auth-mode';
+
+// Verifies the access tokens LocalAuthService signs. They carry the same
+// claims as Supabase tokens, so controllers cannot tell them apart.
+@Injectable()
+export class LocalJwtStrategy extends PassportStrategy(
+  Strategy,
+  LOCAL_JWT_STRATEGY,
+) {
+  public constructor(configService: ConfigService) {
+    super({
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      ignoreExpiration: false,
+      secretOrKey: localJwtSecret(configService),
+      algorithms: ['HS256'],
+      issuer: LOCAL_JWT_ISSUER,
+      audience: LOCAL_JWT_AUDIENCE,
+    });
+  }
+
+  // The returned principal becomes req.user
+  validate(payload: SupabaseJwtPayload): AuthUser {
+    if (!payload.sub) {
+      throw new UnauthorizedException('Token has no subject');
+    }
+    return authUserFromClaims(payload);
+  }
+}
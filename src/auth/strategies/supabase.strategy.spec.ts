@@ -0,0 +1,167 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { generateKeyPairSync } from 'crypto';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ProfileProvisioningService } from '../profile-provisioning.service';
+import { SupabaseStrategy } from './supabase.strategy';
+
+describe('SupabaseStrategy', () => {
+  const jwtService = new JwtService();
+  const signingKey = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const legacySecret = 'legacy-secret';
+  let server: Server;
+  let supabaseUrl: string;
+  let profileProvisioning: { ensureProfile: jest.Mock };
+
+  beforeAll(async () => {
+    const jwks = {
+      keys: [
+        {
+          ...signingKey.publicKey.export({ format: 'jwk' }),
+          kid: 'key-1',
+          use: 'sig',
+          alg: 'ES256',
+        },
+      ],
+    };
+    server = createServer((req, res) => {
+      if (req.url !== '/auth/v1/.well-known/jwks.json') {
+        res.writeHead(404).end();
+        return;
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(jwks));
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    supabaseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  beforeEach(() => {
+    profileProvisioning = { ensureProfile: jest.fn() };
+  });
+
+  const createStrategy = (config: Record<string, string> = {}) =>
+    new SupabaseStrategy(
+      new ConfigService({
+        SUPABASE_URL: supabaseUrl,
+        JWT_SECRET: legacySecret,
+        ...config,
+      }),
+      profileProvisioning as unknown as ProfileProvisioningService,
+    );
+
+  const sign = (options: Record<string, unknown> = {}) =>
+    jwtService.sign(
+      { sub: 'user-1', email: 'ada@example.com', role: 'authenticated' },
+      {
+        privateKey: signingKey.privateKey.export({
+          type: 'pkcs8',
+          format: 'pem',
+        }),
+        algorithm: 'ES256',
+        keyid: 'key-1',
+        issuer: `${supabaseUrl}/auth/v1`,
+        audience: 'authenticated',
+        expiresIn: 60,
+        ...options,
+      },
+    );
+
+  // Run the strategy the way passport does and report how it ended
+  const authenticate = (
+    strategy: SupabaseStrategy,
+    headers: Record<string, string>,
+  ) =>
+    new Promise<{ user?: { id: string }; failure?: unknown }>(
+      (resolve, reject) => {
+        Object.assign(strategy, {
+          success: (user) => resolve({ user }),
+          fail: (failure) => resolve({ failure }),
+          error: reject,
+        });
+        strategy.authenticate({ headers });
+      },
+    );
+
+  it('accepts tokens signed with a key from the JWKS endpoint', async () => {
+    const { user } = await authenticate(createStrategy(), {
+      authorization: `Bearer ${sign()}`,
+    });
+
+    expect(user).toMatchObject({ id: 'user-1', email: 'ada@example.com' });
+    expect(profileProvisioning.ensureProfile).toHaveBeenCalledWith(user);
+  });
+
+  it('rejects tokens for another audience or issuer', async () => {
+    const strategy = createStrategy();
+
+    for (const options of [
+      { audience: 'anon' },
+      { issuer: 'https://other.supabase.co/auth/v1' },
+    ]) {
+      const result = await authenticate(strategy, {
+        authorization: `Bearer ${sign(options)}`,
+      });
+      expect(result.user).toBeUndefined();
+    }
+  });
+
+  it('rejects tokens signed with a key the endpoint does not publish', async () => {
+    const { user } = await authenticate(createStrategy(), {
+      authorization: `Bearer ${sign({
+        privateKey: generateKeyPairSync('ec', {
+          namedCurve: 'P-256',
+        }).privateKey.export({ type: 'pkcs8', format: 'pem' }),
+      })}`,
+    });
+
+    expect(user).toBeUndefined();
+  });
+
+  it('accepts legacy HS256 tokens only while JWT_SECRET is set', async () => {
+    const token = sign({
+      privateKey: undefined,
+      secret: legacySecret,
+      algorithm: 'HS256',
+      keyid: 'legacy',
+    });
+
+    expect(
+      (
+        await authenticate(createStrategy(), {
+          authorization: `Bearer ${token}`,
+        })
+      ).user,
+    ).toMatchObject({ id: 'user-1' });
+    expect(
+      (
+        await authenticate(createStrategy({ JWT_SECRET: '' }), {
+          authorization: `Bearer ${token}`,
+        })
+      ).user,
+    ).toBeUndefined();
+  });
+
+  it('reads the token from chunked session cookies of the configured project', async () => {
+    const session = `base64-${Buffer.from(
+      JSON.stringify({ access_token: sign(), refresh_token: 'refresh' }),
+    ).toString('base64url')}`;
+    const cookie = [
+      `sb-other-auth-token=${session}`,
+      `sb-abcdef-auth-token.1=${session.slice(40)}`,
+      `sb-abcdef-auth-token.0=${session.slice(0, 40)}`,
+    ].join('; ');
+
+    const { user } = await authenticate(
+      createStrategy({ SUPABASE_PROJECT_REF: 'abcdef' }),
+      { cookie },
+    );
+
+    expect(user).toMatchObject({ id: 'user-1' });
+  });
+});
@@ -1,50 +1,125 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
-import { ExtractJwt, Strategy } from 'passport-jwt';
+import { ExtractJwt, JwtFromRequestFunction, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
+import { KeyObject } from 'crypto';
+import { AuthUser, authUserFromClaims, SupabaseJwtPayload } from '../auth-user';
+import { ProfileProvisioningService } from '../profile-provisioning.service';
+import { SUPABASE_STRATEGY } from '../auth-mode';
+import { JwksClient } from '../jwks-client';
+import { accessTokenFromCookies, sessionCookieName } from '../session-cookie';
 
+// Algorithms of the asymmetric keys Supabase publishes in its JWKS
+const JWKS_ALGORITHMS = ['RS256', 'ES256'];
+
+// Verifies Supabase access tokens. Tokens signed with the project's
+// asymmetric keys are checked against its JWKS endpoint; tokens signed with
+// the legacy shared secret against JWT_SECRET, while it is set.
 @Injectable()
-export class SupabaseStrategy extends PassportStrategy(Strategy) {
-  public constructor(private readonly configService: ConfigService) {
+export class SupabaseStrategy extends PassportStrategy(
+  Strategy,
+  SUPABASE_STRATEGY,
+) {
+  public constructor(
+    configService: ConfigService,
+    private readonly profileProvisioning: ProfileProvisioningService,
+  ) {
+    const supabaseUrl = configService
+      .get<string>('SUPABASE_URL')
+      ?.replace(/\/+$/, '');
+    const jwksUrl =
+      configService.get<string>('SUPABASE_JWKS_URL') ||
+      (supabaseUrl && `${supabaseUrl}/auth/v1/.well-known/jwks.json`);
+    const secret = configService.get<string>('JWT_SECRET');
+    if (!jwksUrl && !secret) {
+      throw new Error(
+        'Set SUPABASE_URL, SUPABASE_JWKS_URL or JWT_SECRET to verify Supabase tokens',
+      );
+    }
+    const jwks = jwksUrl
+      ? new JwksClient(jwksUrl, {
+          cacheTtlMs: Number(
+            configService.get('SUPABASE_JWKS_CACHE_TTL_MS') ?? 10 * 60 * 1000,
+          ),
+        })
+      : null;
+
+    const extractors: JwtFromRequestFunction[] = [
+      ExtractJwt.fromAuthHeaderAsBearerToken(),
+      ExtractJwt.fromHeader('authorization'),
+    ];
+    const projectRef =
+      configService.get<string>('SUPABASE_PROJECT_REF') ||
+      supabaseUrl?.match(/^https:\/\/([a-z0-9]+)\.supabase\.co$/)?.[1];
+    if (projectRef) {
+      const cookieName = sessionCookieName(projectRef);
+      extractors.push((req) =>
+        accessTokenFromCookies(req.headers.cookie, cookieName),
+      );
+    }
+
     super({
-      jwtFromRequest: ExtractJwt.fromExtractors([
-        ExtractJwt.fromAuthHeaderAsBearerToken(),
-        ExtractJwt.fromHeader('authorization'),
-        // Custom extractor for Supabase session cookie format
-        (req) => {
-          if (req.headers.cookie) {
-            const cookies = req.headers.cookie.split(';');
-            for (const cookie of cookies) {
-              const [name, value] = cookie.trim().split('=');
-              if (name === 'sb-dyfvtuxmimsufvsshozi-auth-token') {
-                try {
-                  // Extract the access_token from the base64 encoded cookie
-                  const decodedCookie = Buffer.from(value, 'base64').toString();
-                  const sessionData = JSON.parse(decodedCookie);
-                  return sessionData.access_token;
-                } catch (error) {
-                  console.error(
-                    'Error parsing Supabase session cookie:',
-                    error,
-                  );
-                  return null;
-                }
-              }
-            }
-          }
-          return null;
-        },
-      ]),
+      jwtFromRequest: ExtractJwt.fromExtractors(extractors),
       ignoreExpiration: false,
-      secretOrKey: configService.get<string>('JWT_SECRET'),
+      algorithms: [
+        ...(jwks ? JWKS_ALGORITHMS : []),
+        ...(secret ? ['HS256'] : []),
+      ],
+      issuer:
+        configService.get<string>('SUPABASE_JWT_ISSUER') ||
+        (supabaseUrl && `${supabaseUrl}/auth/v1`) ||
+        undefined,
+      audience:
+        configService.get<string>('SUPABASE_JWT_AUDIENCE') || 'authenticated',
+      secretOrKeyProvider: (_req, rawJwtToken: string, done) => {
+        verificationKey(rawJwtToken, jwks, secret).then(
+          (key) => done(null, key),
+          (error) => done(error),
+        );
+      },
     });
   }
 
-  async validate(payload: any): Promise<any> {
-    return payload;
+  // The returned principal becomes req.user
+  async validate(payload: SupabaseJwtPayload): Promise<AuthUser> {
+    if (!payload.sub) {
+      throw new UnauthorizedException('Token has no subject');
+    }
+    const user = authUserFromClaims(payload);
+    await this.profileProvisioning.ensureProfile(user);
+    return user;
   }
 
   authenticate(req) {
     super.authenticate(req);
   }
 }
+
+// Key for the algorithm and key ID in the token header. The signature and
+// the algorithm allow-list are checked by passport-jwt afterwards.
+async function verificationKey(
+  rawJwtToken: string,
+  jwks: JwksClient | null,
+  secret: string | undefined,
+): Promise<string | KeyObject> {
+  let header: { alg?: unknown; kid?: unknown };
+  try {
+    header = JSON.parse(
+      Buffer.from(rawJwtToken.split('.')[0], 'base64url').toString(),
+    );
+  } catch {
+    throw new Error('Malformed token header');
+  }
+
+  if (header.alg === 'HS256' && secret) {
+    return secret;
+  }
+  if (
+    jwks &&
+    JWKS_ALGORITHMS.includes(header.alg as string) &&
+    typeof header.kid === 'string'
+  ) {
+    return jwks.getSigningKey(header.kid);
+  }
+  throw new Error(`Tokens signed with ${header.alg} are not accepted`);
+}
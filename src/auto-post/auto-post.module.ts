@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { GenerationModule } from '../generation/generation.module';
+import { PublishingModule } from '../publishing/publishing.module';
+import { AutoPostScheduler } from './auto-post.scheduler';
+
+@Module({
+  imports: [ConfigModule, DatabaseModule, GenerationModule, PublishingModule],
+  providers: [AutoPostScheduler],
+})
+export class AutoPostModule {}
@@ -0,0 +1,83 @@
+import { ConfigService } from '@nestjs/config';
+import { SeriesService } from '../database/series.service';
+import { SocialAccountService } from '../database/social-account.service';
+import { VideoService } from '../database/video.service';
+import { VideoGenerationService } from '../generation/video-generation.service';
+import { PostPublishingService } from '../publishing/post-publishing.service';
+import { PostSchedulingService } from '../publishing/post-scheduling.service';
+import { AutoPostScheduler } from './auto-post.scheduler';
+
+describe('AutoPostScheduler', () => {
+  const now = new Date('2026-03-16T08:30:00Z');
+  const series = {
+    id: 'series-1',
+    userId: 'user-1',
+    isActive: true,
+    postingFrequency: 14,
+    postingSchedule: { times: ['09:00', '10:00'] },
+    totalVideosGenerated: 4,
+    user: { isActive: true, timezone: 'UTC' },
+  };
+
+  let scheduler: AutoPostScheduler;
+  let seriesService: Record<string, jest.Mock>;
+  let videoService: Record<string, jest.Mock>;
+  let videoGenerationService: { queueVideo: jest.Mock };
+
+  beforeEach(() => {
+    let generated = series.totalVideosGenerated;
+    seriesService = {
+      getActiveSeries: jest.fn().mockResolvedValue([series]),
+      findSeriesById: jest.fn().mockImplementation(async () => ({
+        ...series,
+        totalVideosGenerated: generated,
+      })),
+    };
+    videoService = {
+      findAutoPostVideo: jest.fn().mockResolvedValue(null),
+      getVideosAwaitingAutoPost: jest.fn().mockResolvedValue([]),
+    };
+    videoGenerationService = {
+      queueVideo: jest.fn().mockImplementation(async () => {
+        generated++;
+        return { id: `video-${generated}` };
+      }),
+    };
+    scheduler = new AutoPostScheduler(
+      seriesService as unknown as SeriesService,
+      videoService as unknown as VideoService,
+      {
+        getActiveAccountsForPosting: jest
+          .fn()
+          .mockResolvedValue([{ id: 'account-1', platform: 'youtube' }]),
+      } as unknown as SocialAccountService,
+      videoGenerationService as unknown as VideoGenerationService,
+      {} as PostSchedulingService,
+      { supportsPlatform: () => true } as unknown as PostPublishingService,
+      { get: () => undefined } as unknown as ConfigService,
+    );
+  });
+
+  it('queues each slot with the current video count of the series', async () => {
+    await scheduler.tick(now);
+
+    const calls = videoGenerationService.queueVideo.mock.calls;
+    expect(calls.map(([s]) => s.totalVideosGenerated)).toEqual([4, 5]);
+    expect(calls.map(([, options]) => options.autoPostSlot)).toEqual([
+      new Date('2026-03-16T09:00:00Z'),
+      new Date('2026-03-16T10:00:00Z'),
+    ]);
+  });
+
+  it('leaves a slot another instance already queued', async () => {
+    videoGenerationService.queueVideo.mockRejectedValue(
+      Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }),
+    );
+    const warn = jest.spyOn((scheduler as any).logger, 'warn');
+
+    await scheduler.tick(now);
+
+    expect(videoGenerationService.queueVideo).toHaveBeenCalledTimes(2);
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Profile, UserSeries, Video } from '@prisma/client';
+import { SeriesService } from '../database/series.service';
+import { SocialAccountService } from '../database/social-account.service';
+import { VideoService } from '../database/video.service';
+import { VideoGenerationService } from '../generation/video-generation.service';
+import { PostPublishingService } from '../publishing/post-publishing.service';
+import { PostSchedulingService } from '../publishing/post-scheduling.service';
+import { computePostingSlots, PostingSchedule } from './posting-slots';
+
+type SeriesWithOwner = UserSeries & { user: Profile };
+
+// Runs the "set it and forget it" mode: for every active series it queues a
+// video ahead of each upcoming posting slot, and once the video is generated
+// schedules it on every auto-post account of the owner at the slot time.
+//
+// Progress is tracked in Video.generationSettings:
+//   autoPostSlot   - ISO time of the slot the video was generated for
+//   autoPostStatus - pending | scheduled | skipped | failed
+// Video.autoPostSlotAt holds the slot as well; it is unique per series, so
+// instances running side by side cannot generate two videos for one slot.
+@Injectable()
+export class AutoPostScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(AutoPostScheduler.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly seriesService: SeriesService,
+    private readonly videoService: VideoService,
+    private readonly socialAccountService: SocialAccountService,
+    private readonly videoGenerationService: VideoGenerationService,
+    private readonly postSchedulingService: PostSchedulingService,
+    private readonly postPublishingService: PostPublishingService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (this.configService.get<string>('AUTO_POST_ENABLED') === 'false') {
+      this.logger.log('Auto-posting disabled');
+      return;
+    }
+
+    const intervalMs = Number(
+      this.configService.get('AUTO_POST_POLL_INTERVAL_MS') ?? 5 * 60 * 1000,
+    );
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    this.timer.unref();
+    this.logger.log(`Auto-posting scheduler started (every ${intervalMs}ms)`);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Queue videos for upcoming slots and schedule posts for generated ones
+  async tick(now = new Date()): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      await this.queueUpcomingSlots(now);
+      await this.scheduleGeneratedVideos(now);
+    } catch (error) {
+      this.logger.error(`Auto-posting run failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Generate a video for every slot inside the lead time window
+  private async queueUpcomingSlots(now: Date): Promise<void> {
+    const leadTimeMs = Number(
+      this.configService.get('AUTO_POST_LEAD_TIME_MS') ?? 2 * 60 * 60 * 1000,
+    );
+    const until = new Date(now.getTime() + leadTimeMs);
+    const activeSeries =
+      (await this.seriesService.getActiveSeries()) as SeriesWithOwner[];
+
+    for (const series of activeSeries) {
+      if (!series.user?.isActive) {
+        continue;
+      }
+
+      const slots = computePostingSlots(
+        series.postingSchedule as PostingSchedule,
+        series.postingFrequency,
+        series.user.timezone,
+        now,
+        until,
+      );
+      if (slots.length === 0) {
+        continue;
+      }
+
+      // Nothing would be posted, so do not spend the video allowance
+      const accounts = await this.getAutoPostAccounts(series.userId);
+      if (accounts.length === 0) {
+        continue;
+      }
+
+      for (const slot of slots) {
+        await this.queueSlot(series, slot);
+      }
+    }
+  }
+
+  private async queueSlot(series: UserSeries, slot: Date): Promise<void> {
+    const existing = await this.videoService.findAutoPostVideo(series.id, slot);
+    if (existing) {
+      return;
+    }
+
+    // Earlier slots of this run changed the video count
+    const current = await this.seriesService.findSeriesById(series.id);
+    if (!current?.isActive) {
+      return;
+    }
+
+    try {
+      const video = await this.videoGenerationService.queueVideo(current, {
+        autoPostSlot: slot,
+        generationSettings: {
+          autoPostSlot: slot.toISOString(),
+          autoPostStatus: 'pending',
+        },
+      });
+      this.logger.log(
+        `Queued video ${video.id} for series ${series.id} slot ${slot.toISOString()}`,
+      );
+    } catch (error) {
+      if (error.code === 'P2002') {
+        // Another instance queued the slot first
+        return;
+      }
+      // Typically a plan limit; the slot is retried on the next run
+      this.logger.warn(
+        `Could not queue auto-post video for series ${series.id} slot ${slot.toISOString()}: ${error.message}`,
+      );
+    }
+  }
+
+  // Schedule generated videos on the owner's auto-post accounts
+  private async scheduleGeneratedVideos(now: Date): Promise<void> {
+    const videos = await this.videoService.getVideosAwaitingAutoPost();
+
+    for (const video of videos) {
+      await this.scheduleVideo(video, now);
+    }
+  }
+
+  private async scheduleVideo(video: Video, now: Date): Promise<void> {
+    const settings = (video.generationSettings as Record<string, any>) || {};
+    const slot = new Date(settings.autoPostSlot);
+    const accounts = await this.getAutoPostAccounts(video.userId);
+
+    if (accounts.length === 0) {
+      await this.videoService.updateGenerationSettings(video.id, {
+        autoPostStatus: 'skipped',
+      });
+      return;
+    }
+
+    try {
+      const posts = await this.postSchedulingService.schedulePosts(
+        video.userId,
+        {
+          videoId: video.id,
+          socialAccountIds: accounts.map((account) => account.id),
+          // Generation finished after the slot: publish right away
+          scheduledFor: slot > now ? slot : undefined,
+        },
+      );
+      await this.videoService.updateGenerationSettings(video.id, {
+        autoPostStatus: 'scheduled',
+      });
+      this.logger.log(
+        `Scheduled video ${video.id} on ${posts.length} account(s) for ${settings.autoPostSlot}`,
+      );
+    } catch (error) {
+      await this.videoService.updateGenerationSettings(video.id, {
+        autoPostStatus: 'failed',
+        autoPostError: error.message,
+      });
+      this.logger.warn(
+        `Could not schedule auto-post video ${video.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private async getAutoPostAccounts(userId: string) {
+    const accounts =
+      await this.socialAccountService.getActiveAccountsForPosting(userId);
+    return accounts.filter((account) =>
+      this.postPublishingService.supportsPlatform(account.platform),
+    );
+  }
+}
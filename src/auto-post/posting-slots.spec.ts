@@ -0,0 +1,62 @@
+import { computePostingSlots, resolvePostingPattern } from './posting-slots';
+
+describe('posting slots', () => {
+  it('spreads posting days over the week when no days are configured', () => {
+    expect(resolvePostingPattern({}, 3)).toEqual({
+      weekdays: [1, 3, 5],
+      times: [{ hour: 9, minute: 0 }],
+    });
+    expect(resolvePostingPattern(null, 14).times).toEqual([
+      { hour: 9, minute: 0 },
+      { hour: 18, minute: 0 },
+    ]);
+  });
+
+  it('computes slots on the wall clock of the owner time zone', () => {
+    // Monday 2025-01-13 00:00 UTC to Monday 2025-01-20 00:00 UTC
+    const slots = computePostingSlots(
+      { days: ['monday', 'friday'], times: ['09:00', '15:30'] },
+      3,
+      'America/New_York',
+      new Date('2025-01-13T00:00:00Z'),
+      new Date('2025-01-20T00:00:00Z'),
+    );
+
+    expect(slots.map((slot) => slot.toISOString())).toEqual([
+      '2025-01-13T14:00:00.000Z',
+      '2025-01-13T20:30:00.000Z',
+      '2025-01-17T14:00:00.000Z',
+      '2025-01-17T20:30:00.000Z',
+    ]);
+  });
+
+  it('keeps local posting times across a DST change', () => {
+    const slots = computePostingSlots(
+      { days: ['saturday', 'monday'], times: ['09:00'] },
+      2,
+      'Europe/Madrid',
+      new Date('2025-03-29T00:00:00Z'),
+      new Date('2025-04-01T00:00:00Z'),
+    );
+
+    // CET (UTC+1) on Saturday, CEST (UTC+2) after the Sunday switch
+    expect(slots.map((slot) => slot.toISOString())).toEqual([
+      '2025-03-29T08:00:00.000Z',
+      '2025-03-31T07:00:00.000Z',
+    ]);
+  });
+
+  it('falls back to UTC for unknown time zones', () => {
+    const slots = computePostingSlots(
+      { days: ['wednesday'], times: ['12:00'] },
+      1,
+      'Mars/Olympus_Mons',
+      new Date('2025-01-13T00:00:00Z'),
+      new Date('2025-01-20T00:00:00Z'),
+    );
+
+    expect(slots.map((slot) => slot.toISOString())).toEqual([
+      '2025-01-15T12:00:00.000Z',
+    ]);
+  });
+});
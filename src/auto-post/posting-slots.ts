@@ -0,0 +1,109 @@
+import {
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from '../common/timezone';
+
+export const WEEKDAY_NAMES = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+const DEFAULT_POSTING_TIMES = ['09:00', '18:00'];
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+export interface PostingSchedule {
+  days?: string[];
+  times?: string[];
+}
+
+// Resolve the weekdays (0 = Sunday) and times a series posts at.
+// An explicit postingSchedule wins. Missing days are spread evenly over the
+// week according to postingFrequency (posts per week), and missing times
+// default to 09:00, plus 18:00 when there are more posts than days.
+export function resolvePostingPattern(
+  schedule: PostingSchedule | null | undefined,
+  postingFrequency: number,
+): { weekdays: number[]; times: Array<{ hour: number; minute: number }> } {
+  const frequency = Math.max(1, Math.min(14, postingFrequency || 1));
+
+  let weekdays = (schedule?.days || [])
+    .map((day) => WEEKDAY_NAMES.indexOf(String(day).toLowerCase()))
+    .filter((index) => index >= 0);
+  if (weekdays.length === 0) {
+    const postingDays = Math.min(7, frequency);
+    // Start the week on Monday: 3 posts -> Monday, Wednesday, Friday
+    weekdays = Array.from(
+      { length: postingDays },
+      (_, i) => (1 + Math.floor((i * 7) / postingDays)) % 7,
+    );
+  }
+
+  let times = (schedule?.times || [])
+    .map((time) => TIME_PATTERN.exec(String(time).trim()))
+    .filter(Boolean)
+    .map((match) => ({ hour: Number(match[1]), minute: Number(match[2]) }));
+  if (times.length === 0) {
+    const postsPerDay = Math.ceil(frequency / weekdays.length);
+    times = DEFAULT_POSTING_TIMES.slice(0, Math.min(2, postsPerDay)).map(
+      (time) => {
+        const [hour, minute] = time.split(':').map(Number);
+        return { hour, minute };
+      },
+    );
+  }
+
+  return {
+    weekdays: [...new Set(weekdays)].sort((a, b) => a - b),
+    times: times.sort(
+      (a, b) => a.hour * 60 + a.minute - (b.hour * 60 + b.minute),
+    ),
+  };
+}
+
+// Posting slots in (from, until], computed on the wall clock of the time
+// zone so that "09:00" stays 09:00 local time across DST changes.
+export function computePostingSlots(
+  schedule: PostingSchedule | null | undefined,
+  postingFrequency: number,
+  timeZone: string | null | undefined,
+  from: Date,
+  until: Date,
+): Date[] {
+  const zone = timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  const { weekdays, times } = resolvePostingPattern(schedule, postingFrequency);
+
+  const slots: Date[] = [];
+  const start = getZonedParts(from, zone);
+  // Walk calendar days in the time zone, one day of margin on each side
+  const firstDay = Date.UTC(start.year, start.month - 1, start.day - 1);
+  const days = Math.ceil((until.getTime() - from.getTime()) / 86400000) + 2;
+
+  for (let i = 0; i <= days; i++) {
+    const day = new Date(firstDay + i * 86400000);
+    if (!weekdays.includes(day.getUTCDay())) {
+      continue;
+    }
+
+    for (const { hour, minute } of times) {
+      const slot = zonedTimeToUtc(
+        day.getUTCFullYear(),
+        day.getUTCMonth() + 1,
+        day.getUTCDate(),
+        hour,
+        minute,
+        zone,
+      );
+      if (slot > from && slot <= until) {
+        slots.push(slot);
+      }
+    }
+  }
+
+  return slots;
+}
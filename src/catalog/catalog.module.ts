@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { CategoriesController } from './categories.controller';
+import { TemplatesController } from './templates.controller';
+
+@Module({
+  imports: [DatabaseModule],
+  controllers: [CategoriesController, TemplatesController],
+})
+export class CatalogModule {}
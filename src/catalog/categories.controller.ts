@@ -0,0 +1,195 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  NotFoundException,
+  ClassSerializerInterceptor,
+  UseInterceptors,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { CatalogService } from '../database/catalog.service';
+import { CategoryResponseDto } from '../dto/catalog/category-response.dto';
+import { CreateCategoryDto } from '../dto/catalog/create-category.dto';
+import { UpdateCategoryDto } from '../dto/catalog/update-category.dto';
+import { CategoryQueryDto } from '../dto/catalog/catalog-query.dto';
+import { ErrorResponseDto } from '../dto/common/error-response.dto';
+import { plainToClass } from 'class-transformer';
+
+@ApiTags('Catalog')
+@Controller('api/v1/categories')
+@UseInterceptors(ClassSerializerInterceptor)
+export class CategoriesController {
+  constructor(private readonly catalogService: CatalogService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List content categories',
+    description: 'Returns content categories in display order',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Categories retrieved successfully',
+    type: [CategoryResponseDto],
+  })
+  async getCategories(
+    @Query() query: CategoryQueryDto,
+  ): Promise<CategoryResponseDto[]> {
+    const categories = await this.catalogService.getCategories(query);
+    return categories.map((category) =>
+      plainToClass(CategoryResponseDto, category),
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get category by ID',
+    description: 'Returns a single content category',
+  })
+  @ApiParam({ name: 'id', description: 'Category ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category retrieved successfully',
+    type: CategoryResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Category not found',
+    type: ErrorResponseDto,
+  })
+  async getCategoryById(@Param('id') id: string): Promise<CategoryResponseDto> {
+    const category = await this.catalogService.getCategoryById(id);
+
+    if (!category) {
+      throw new NotFoundException('Category not found');
+    }
+
+    return plainToClass(CategoryResponseDto, category);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Create a content category',
+    description: 'Admin only',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Category created successfully',
+    type: CategoryResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin access required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A category with this name already exists',
+    type: ErrorResponseDto,
+  })
+  async createCategory(
+    @Body() createCategoryDto: CreateCategoryDto,
+  ): Promise<CategoryResponseDto> {
+    const category =
+      await this.catalogService.createCategory(createCategoryDto);
+    return plainToClass(CategoryResponseDto, category);
+  }
+
+  @Put(':id')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Update a content category',
+    description: 'Admin only',
+  })
+  @ApiParam({ name: 'id', description: 'Category ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category updated successfully',
+    type: CategoryResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin access required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Category not found',
+    type: ErrorResponseDto,
+  })
+  async updateCategory(
+    @Param('id') id: string,
+    @Body() updateCategoryDto: UpdateCategoryDto,
+  ): Promise<CategoryResponseDto> {
+    try {
+      const category = await this.catalogService.updateCategory(
+        id,
+        updateCategoryDto,
+      );
+      return plainToClass(CategoryResponseDto, category);
+    } catch (error) {
+      if (error.code === 'P2025') {
+        throw new NotFoundException('Category not found');
+      }
+      throw error;
+    }
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Delete a content category',
+    description:
+      'Admin only. Templates in the category are kept and become uncategorized.',
+  })
+  @ApiParam({ name: 'id', description: 'Category ID' })
+  @ApiResponse({
+    status: 204,
+    description: 'Category deleted successfully',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin access required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Category not found',
+    type: ErrorResponseDto,
+  })
+  async deleteCategory(@Param('id') id: string): Promise<void> {
+    try {
+      await this.catalogService.deleteCategory(id);
+    } catch (error) {
+      if (error.code === 'P2025') {
+        throw new NotFoundException('Category not found');
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { NotFoundException } from '@nestjs/common';
+import { CatalogService } from '../database/catalog.service';
+import { TemplatesController } from './templates.controller';
+
+describe('TemplatesController', () => {
+  let catalogService: {
+    getTemplates: jest.Mock;
+    getTemplateById: jest.Mock;
+    updateTemplate: jest.Mock;
+  };
+  let controller: TemplatesController;
+
+  beforeEach(() => {
+    catalogService = {
+      getTemplates: jest
+        .fn()
+        .mockResolvedValue({ templates: [{ id: 't1' }], total: 21 }),
+      getTemplateById: jest.fn().mockResolvedValue(null),
+      updateTemplate: jest.fn(),
+    };
+    controller = new TemplatesController(
+      catalogService as unknown as CatalogService,
+    );
+  });
+
+  it('pages through templates and passes the filters on', async () => {
+    const response = await controller.getTemplates({
+      page: 3,
+      limit: 10,
+      isPopular: false,
+      isPremium: true,
+    });
+
+    expect(catalogService.getTemplates).toHaveBeenCalledWith({
+      categoryId: undefined,
+      isPopular: false,
+      isPremium: true,
+      skip: 20,
+      take: 10,
+    });
+    expect(response.meta).toEqual(
+      expect.objectContaining({ page: 3, limit: 10, total: 21 }),
+    );
+  });
+
+  it('returns 404 for unknown templates', async () => {
+    await expect(controller.getTemplateById('missing')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('returns 404 when the template to update is gone', async () => {
+    catalogService.updateTemplate.mockRejectedValue({ code: 'P2025' });
+
+    await expect(
+      controller.updateTemplate('missing', { name: 'Renamed' }),
+    ).rejects.toThrow(NotFoundException);
+  });
+});
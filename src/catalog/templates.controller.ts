@@ -0,0 +1,207 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  NotFoundException,
+  ClassSerializerInterceptor,
+  UseInterceptors,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { CatalogService } from '../database/catalog.service';
+import { TemplateResponseDto } from '../dto/catalog/template-response.dto';
+import { CreateTemplateDto } from '../dto/catalog/create-template.dto';
+import { UpdateTemplateDto } from '../dto/catalog/update-template.dto';
+import { TemplateQueryDto } from '../dto/catalog/catalog-query.dto';
+import { PaginatedResponseDto } from '../dto/common/pagination.dto';
+import { ErrorResponseDto } from '../dto/common/error-response.dto';
+import { plainToClass } from 'class-transformer';
+
+@ApiTags('Catalog')
+@Controller('api/v1/templates')
+@UseInterceptors(ClassSerializerInterceptor)
+export class TemplatesController {
+  constructor(private readonly catalogService: CatalogService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Browse series templates',
+    description:
+      'Returns paginated series templates sorted by popularity, optionally filtered by category, popular categories and premium status',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Templates retrieved successfully',
+    type: [TemplateResponseDto],
+  })
+  async getTemplates(@Query() query: TemplateQueryDto) {
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+
+    const { templates, total } = await this.catalogService.getTemplates({
+      categoryId: query.categoryId,
+      isPopular: query.isPopular,
+      isPremium: query.isPremium,
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    const data = templates.map((template) =>
+      plainToClass(TemplateResponseDto, template),
+    );
+
+    return new PaginatedResponseDto(data, total, page, limit);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get template by ID',
+    description: 'Returns a single series template with its category',
+  })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Template retrieved successfully',
+    type: TemplateResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Template not found',
+    type: ErrorResponseDto,
+  })
+  async getTemplateById(@Param('id') id: string): Promise<TemplateResponseDto> {
+    const template = await this.catalogService.getTemplateById(id);
+
+    if (!template) {
+      throw new NotFoundException('Template not found');
+    }
+
+    return plainToClass(TemplateResponseDto, template);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Create a series template',
+    description: 'Admin only',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Template created successfully',
+    type: TemplateResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data or unknown category',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin access required',
+    type: ErrorResponseDto,
+  })
+  async createTemplate(
+    @Body() createTemplateDto: CreateTemplateDto,
+  ): Promise<TemplateResponseDto> {
+    const template =
+      await this.catalogService.createTemplate(createTemplateDto);
+    return plainToClass(TemplateResponseDto, template);
+  }
+
+  @Put(':id')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Update a series template',
+    description: 'Admin only',
+  })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Template updated successfully',
+    type: TemplateResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data or unknown category',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin access required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Template not found',
+    type: ErrorResponseDto,
+  })
+  async updateTemplate(
+    @Param('id') id: string,
+    @Body() updateTemplateDto: UpdateTemplateDto,
+  ): Promise<TemplateResponseDto> {
+    try {
+      const template = await this.catalogService.updateTemplate(
+        id,
+        updateTemplateDto,
+      );
+      return plainToClass(TemplateResponseDto, template);
+    } catch (error) {
+      if (error.code === 'P2025') {
+        throw new NotFoundException('Template not found');
+      }
+      throw error;
+    }
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Delete a series template',
+    description:
+      'Admin only. Series created from the template are kept and detached from it.',
+  })
+  @ApiParam({ name: 'id', description: 'Template ID' })
+  @ApiResponse({
+    status: 204,
+    description: 'Template deleted successfully',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin access required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Template not found',
+    type: ErrorResponseDto,
+  })
+  async deleteTemplate(@Param('id') id: string): Promise<void> {
+    try {
+      await this.catalogService.deleteTemplate(id);
+    } catch (error) {
+      if (error.code === 'P2025') {
+        throw new NotFoundException('Template not found');
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { PrismaModule } from '../prisma/prisma.module';
+import { DatabaseModule } from '../database/database.module';
+import { AnalyticsRollupService } from '../analytics/analytics-rollup.service';
+
+// Recomputes AnalyticsDaily rows for a range of days. Rows are replaced, so
+// overlapping or repeated runs are safe.
+//
+// Usage:
+//   yarn analytics:backfill --from 2025-01-01 --to 2025-01-31 [--user <profileId>]
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: ['.env.local', '.env'],
+    }),
+    PrismaModule,
+    DatabaseModule,
+  ],
+  providers: [AnalyticsRollupService],
+})
+class AnalyticsBackfillModule {}
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    options[argv[i].replace(/^--/, '')] = argv[i + 1];
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const to = options.to || options.from;
+
+  if (!DATE_PATTERN.test(options.from || '') || !DATE_PATTERN.test(to)) {
+    throw new Error('--from (and optionally --to) must be dates as YYYY-MM-DD');
+  }
+  if (to < options.from) {
+    throw new Error('--to must not be before --from');
+  }
+
+  const app = await NestFactory.createApplicationContext(
+    AnalyticsBackfillModule,
+    { logger: ['error', 'warn'] },
+  );
+
+  try {
+    const rows = await app
+      .get(AnalyticsRollupService)
+      .backfill({ from: options.from, to, userId: options.user });
+    console.log(`Rolled up ${rows} day(s) from ${options.from} to ${to}`);
+  } finally {
+    await app.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,55 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { PrismaModule } from '../prisma/prisma.module';
+import { DatabaseModule } from '../database/database.module';
+import { SocialAccountService } from '../database/social-account.service';
+
+// Re-encrypts every stored social token with TOKEN_ENCRYPTION_ACTIVE_KEY_ID.
+// Run it after adding a new key and making it active; the old key can be
+// removed from TOKEN_ENCRYPTION_KEYS once it reports nothing left to update.
+//
+// Usage:
+//   yarn tokens:rotate-keys [--dry-run] [--batch-size 100]
+
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: ['.env.local', '.env'],
+    }),
+    PrismaModule,
+    DatabaseModule,
+  ],
+})
+class TokenRotationModule {}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const batchSizeIndex = args.indexOf('--batch-size');
+  const batchSize =
+    batchSizeIndex >= 0 ? Number(args[batchSizeIndex + 1]) : undefined;
+
+  const app = await NestFactory.createApplicationContext(TokenRotationModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const { scanned, updated } = await app
+      .get(SocialAccountService)
+      .reencryptTokens({ batchSize, dryRun });
+    console.log(
+      `${dryRun ? 'Would re-encrypt' : 'Re-encrypted'} ${updated} of ${scanned} social account(s)`,
+    );
+  } finally {
+    await app.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
+}
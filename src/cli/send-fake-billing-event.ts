@@ -0,0 +1,110 @@
+import { randomBytes } from 'crypto';
+import { signStripePayload } from '../subscriptions/stripe-signature';
+
+// Sends a signed, Stripe-style subscription event to a local webhook endpoint.
+//
+// Usage:
+//   STRIPE_WEBHOOK_SECRET=whsec_test yarn billing:fake-event \
+//     customer.subscription.updated --user <profileId> --plan <planId> \
+//     [--cycle monthly|yearly] [--status active] [--subscription sub_123] \
+//     [--url http://localhost:3005/api/v1/billing/webhook]
+
+const SUPPORTED_EVENTS = [
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'invoice.payment_failed',
+];
+
+function parseArgs(argv: string[]) {
+  const [type, ...rest] = argv;
+  const options: Record<string, string> = {};
+  for (let i = 0; i < rest.length; i += 2) {
+    options[rest[i].replace(/^--/, '')] = rest[i + 1];
+  }
+  return { type, options };
+}
+
+export function buildFakeEvent(
+  type: string,
+  options: Record<string, string>,
+): Record<string, any> {
+  const now = Math.floor(Date.now() / 1000);
+  const cycle = options.cycle === 'yearly' ? 'year' : 'month';
+  const periodEnd = new Date(now * 1000);
+  periodEnd.setUTCMonth(periodEnd.getUTCMonth() + (cycle === 'year' ? 12 : 1));
+  const subscriptionId = options.subscription || `sub_fake_${options.user}`;
+
+  const object =
+    type === 'invoice.payment_failed'
+      ? {
+          id: `in_${randomBytes(8).toString('hex')}`,
+          object: 'invoice',
+          subscription: subscriptionId,
+        }
+      : {
+          id: subscriptionId,
+          object: 'subscription',
+          customer: options.customer || `cus_fake_${options.user}`,
+          status: options.status || 'active',
+          current_period_start: Number(options.periodStart) || now,
+          current_period_end:
+            Number(options.periodEnd) || Math.floor(periodEnd.getTime() / 1000),
+          items: {
+            data: [{ price: { recurring: { interval: cycle } } }],
+          },
+          metadata: {
+            userId: options.user,
+            planId: options.plan,
+          },
+        };
+
+  return {
+    id: `evt_${randomBytes(12).toString('hex')}`,
+    object: 'event',
+    type,
+    created: now,
+    data: { object },
+  };
+}
+
+async function main() {
+  const { type, options } = parseArgs(process.argv.slice(2));
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  if (!SUPPORTED_EVENTS.includes(type)) {
+    throw new Error(
+      `Unknown event type "${type}". Supported: ${SUPPORTED_EVENTS.join(', ')}`,
+    );
+  }
+  if (!secret) {
+    throw new Error('STRIPE_WEBHOOK_SECRET must be set');
+  }
+  if (type !== 'invoice.payment_failed' && (!options.user || !options.plan)) {
+    throw new Error('--user and --plan are required for subscription events');
+  }
+
+  const url =
+    options.url ||
+    `http://localhost:${process.env.PORT || 3005}/api/v1/billing/webhook`;
+  const payload = JSON.stringify(buildFakeEvent(type, options));
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': signStripePayload(payload, secret),
+    },
+    body: payload,
+  });
+
+  console.log(`${response.status} ${response.statusText}`);
+  console.log(await response.text());
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
+}
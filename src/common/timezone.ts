@@ -0,0 +1,121 @@
+// Small helpers for wall-clock times in IANA time zones, built on Intl so no
+// time zone database has to be bundled.
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Whether the runtime knows the given IANA time zone
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock date and time of an instant in a time zone
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const values: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    values[part.type] = part.value;
+  }
+
+  return {
+    year: Number(values.year),
+    month: Number(values.month),
+    day: Number(values.day),
+    hour: Number(values.hour),
+    minute: Number(values.minute),
+    weekday: WEEKDAYS.indexOf(values.weekday),
+  };
+}
+
+// Offset of the time zone from UTC at the given instant, in milliseconds
+function getOffsetMs(timestamp: number, timeZone: string): number {
+  const parts = getZonedParts(new Date(timestamp), timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+  );
+  return asUtc - Math.floor(timestamp / 60000) * 60000;
+}
+
+// Instant at which the wall clock in the time zone shows the given time.
+// Wall-clock times skipped by a DST change are shifted by the size of the gap.
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const firstGuess = wallClock - getOffsetMs(wallClock, timeZone);
+  const offset = getOffsetMs(firstGuess, timeZone);
+  return new Date(wallClock - offset);
+}
+
+// Calendar date (YYYY-MM-DD) of an instant in a time zone
+export function zonedDate(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return formatDate(new Date(Date.UTC(year, month - 1, day)));
+}
+
+// Calendar date moved by a number of days
+export function addDays(date: string, days: number): string {
+  const parsed = new Date(`${date}T00:00:00.000Z`);
+  parsed.setUTCDate(parsed.getUTCDate() + days);
+  return formatDate(parsed);
+}
+
+// Instants at which a calendar day starts and ends in a time zone
+export function zonedDayBounds(
+  date: string,
+  timeZone: string,
+): { start: Date; end: Date } {
+  const [year, month, day] = date.split('-').map(Number);
+  const [nextYear, nextMonth, nextDay] = addDays(date, 1)
+    .split('-')
+    .map(Number);
+  return {
+    start: zonedTimeToUtc(year, month, day, 0, 0, timeZone),
+    end: zonedTimeToUtc(nextYear, nextMonth, nextDay, 0, 0, timeZone),
+  };
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { SeriesService } from '../database/series.service';
+import { UsageLedgerService } from '../database/usage-ledger.service';
+import { CostAccountingService } from './cost-accounting.service';
+
+describe('CostAccountingService', () => {
+  let service: CostAccountingService;
+  let usageLedgerService: Record<string, jest.Mock>;
+
+  const owner = { videoId: 'video-1', userId: 'user-1', seriesId: 'series-1' };
+
+  // Price history: TTS got cheaper on March 1st
+  const rates = [
+    {
+      id: 'rate-tts-old',
+      serviceName: 'tts',
+      operationType: 'text_to_speech',
+      costPerUnit: new Prisma.Decimal('0.000030'),
+      unitType: 'characters',
+      effectiveDate: new Date('2025-01-01T00:00:00Z'),
+    },
+    {
+      id: 'rate-tts-new',
+      serviceName: 'tts',
+      operationType: 'text_to_speech',
+      costPerUnit: new Prisma.Decimal('0.000018'),
+      unitType: 'characters',
+      effectiveDate: new Date('2025-03-01T00:00:00Z'),
+    },
+  ];
+
+  beforeEach(async () => {
+    usageLedgerService = {
+      findEffectiveRate: jest.fn(async (serviceName, operationType, at) => {
+        const effective = rates
+          .filter(
+            (rate) =>
+              rate.serviceName === serviceName &&
+              rate.operationType === operationType &&
+              rate.effectiveDate <= at,
+          )
+          .sort(
+            (a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime(),
+          );
+        return effective[0] ?? null;
+      }),
+      createEntries: jest.fn(async (entries) => entries.length),
+      refreshVideoCost: jest.fn().mockResolvedValue(0),
+      getUserCostsByService: jest.fn(),
+      getUserCostsByVideo: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CostAccountingService,
+        { provide: UsageLedgerService, useValue: usageLedgerService },
+        {
+          provide: SeriesService,
+          useValue: {
+            getUserSeries: jest.fn().mockResolvedValue([
+              { id: 'series-1', name: 'Space Facts' },
+              { id: 'series-2', name: 'History Bites' },
+            ]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(CostAccountingService);
+  });
+
+  const tts = { serviceName: 'tts', operationType: 'text_to_speech' };
+  const usage = [{ ...tts, units: 10000, unitType: 'characters' }];
+
+  it('prices usage with the rate effective when it happened', async () => {
+    const before = await service.recordUsage(
+      owner,
+      'voiceover',
+      usage,
+      new Date('2025-02-15T12:00:00Z'),
+    );
+    const after = await service.recordUsage(
+      owner,
+      'voiceover',
+      usage,
+      new Date('2025-03-01T00:00:00Z'),
+    );
+
+    expect(before).toBe(0.3);
+    expect(after).toBe(0.18);
+    const [[first], [second]] = usageLedgerService.createEntries.mock.calls;
+    expect(first[0]).toMatchObject({
+      ...owner,
+      stage: 'voiceover',
+      rateId: 'rate-tts-old',
+      units: 10000,
+    });
+    expect(second[0].rateId).toBe('rate-tts-new');
+    expect(usageLedgerService.refreshVideoCost).toHaveBeenCalledWith('video-1');
+  });
+
+  it('records usage without a rate at zero cost', async () => {
+    const cost = await service.recordUsage(
+      owner,
+      'voiceover',
+      usage,
+      new Date('2024-12-31T23:59:59Z'),
+    );
+
+    expect(cost).toBe(0);
+    const [[entries]] = usageLedgerService.createEntries.mock.calls;
+    expect(entries[0]).toMatchObject({ rateId: null, costPerUnit: null });
+    expect(Number(entries[0].cost)).toBe(0);
+  });
+
+  it('breaks spend down by service and by series', async () => {
+    const sum = (cost: string, units = '0') => ({
+      cost: new Prisma.Decimal(cost),
+      units: new Prisma.Decimal(units),
+    });
+    usageLedgerService.getUserCostsByService.mockResolvedValue([
+      {
+        serviceName: 'llm',
+        operationType: 'script_generation',
+        unitType: 'tokens',
+        _sum: sum('0.02', '4000'),
+        _count: { _all: 2 },
+      },
+      {
+        ...tts,
+        unitType: 'characters',
+        _sum: sum('0.25', '10000'),
+        _count: { _all: 2 },
+      },
+    ]);
+    usageLedgerService.getUserCostsByVideo.mockResolvedValue([
+      { seriesId: 'series-1', videoId: 'video-1', _sum: sum('0.1') },
+      { seriesId: 'series-1', videoId: 'video-2', _sum: sum('0.06') },
+      { seriesId: 'series-2', videoId: 'video-3', _sum: sum('0.11') },
+    ]);
+
+    const breakdown = await service.getUserCostBreakdown(
+      'user-1',
+      new Date('2025-03-01T00:00:00Z'),
+      new Date('2025-03-31T00:00:00Z'),
+    );
+
+    expect(breakdown.totalCost).toBe(0.27);
+    expect(breakdown.byService.map((entry) => entry.serviceName)).toEqual([
+      'tts',
+      'llm',
+    ]);
+    expect(breakdown.byService[1].operations).toEqual([
+      {
+        operationType: 'script_generation',
+        unitType: 'tokens',
+        units: 4000,
+        cost: 0.02,
+        entries: 2,
+      },
+    ]);
+    expect(breakdown.bySeries).toEqual([
+      {
+        seriesId: 'series-1',
+        name: 'Space Facts',
+        cost: 0.16,
+        videoCount: 2,
+        avgCostPerVideo: 0.08,
+      },
+      {
+        seriesId: 'series-2',
+        name: 'History Bites',
+        cost: 0.11,
+        videoCount: 1,
+        avgCostPerVideo: 0.11,
+      },
+    ]);
+  });
+
+  it('keeps the spend of deleted series and videos', async () => {
+    usageLedgerService.getUserCostsByService.mockResolvedValue([
+      {
+        ...tts,
+        unitType: 'characters',
+        _sum: { cost: new Prisma.Decimal('0.3'), units: null },
+        _count: { _all: 3 },
+      },
+    ]);
+    usageLedgerService.getUserCostsByVideo.mockResolvedValue([
+      {
+        seriesId: null,
+        videoId: null,
+        _sum: { cost: new Prisma.Decimal('0.3') },
+      },
+    ]);
+
+    const breakdown = await service.getUserCostBreakdown(
+      'user-1',
+      new Date('2025-03-01T00:00:00Z'),
+      new Date('2025-03-31T00:00:00Z'),
+    );
+
+    expect(breakdown.totalCost).toBe(0.3);
+    expect(breakdown.bySeries).toEqual([
+      expect.objectContaining({ seriesId: null, name: null, cost: 0.3 }),
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { SeriesService } from '../database/series.service';
+import { UsageLedgerService } from '../database/usage-ledger.service';
+import { UsageRecord } from '../generation/providers/generation-provider.interface';
+
+// Precision of UsageLedgerEntry.cost (Decimal(12, 6))
+const COST_DECIMALS = 6;
+
+export interface UsageOwner {
+  videoId: string;
+  userId: string;
+  seriesId: string;
+}
+
+// Records generation usage in the ledger, priced with the AiServiceCost rate
+// that was effective when the usage happened. Usage without a matching rate
+// is still recorded, at zero cost, so it can be audited later.
+@Injectable()
+export class CostAccountingService {
+  private readonly logger = new Logger(CostAccountingService.name);
+
+  constructor(
+    private readonly usageLedgerService: UsageLedgerService,
+    private readonly seriesService: SeriesService,
+  ) {}
+
+  // Price and store a stage's usage, then refresh the video's total cost.
+  // Returns the cost of this usage.
+  async recordUsage(
+    owner: UsageOwner,
+    stage: string,
+    usage: UsageRecord[] = [],
+    occurredAt: Date = new Date(),
+  ): Promise<number> {
+    if (usage.length === 0) {
+      return 0;
+    }
+
+    const entries: Prisma.UsageLedgerEntryCreateManyInput[] = [];
+    let stageCost = new Prisma.Decimal(0);
+    for (const record of usage) {
+      const rate = await this.usageLedgerService.findEffectiveRate(
+        record.serviceName,
+        record.operationType,
+        occurredAt,
+      );
+      if (!rate) {
+        this.logger.warn(
+          `No rate for ${record.serviceName}/${record.operationType} at ${occurredAt.toISOString()}, recording at zero cost`,
+        );
+      } else if (rate.unitType !== record.unitType) {
+        this.logger.warn(
+          `Rate for ${record.serviceName}/${record.operationType} is per ${rate.unitType}, usage is in ${record.unitType}`,
+        );
+      }
+
+      const cost = rate
+        ? new Prisma.Decimal(record.units)
+            .mul(rate.costPerUnit)
+            .toDecimalPlaces(COST_DECIMALS)
+        : new Prisma.Decimal(0);
+      stageCost = stageCost.add(cost);
+
+      entries.push({
+        userId: owner.userId,
+        seriesId: owner.seriesId,
+        videoId: owner.videoId,
+        stage,
+        serviceName: record.serviceName,
+        operationType: record.operationType,
+        units: record.units,
+        unitType: record.unitType,
+        rateId: rate?.id ?? null,
+        costPerUnit: rate?.costPerUnit ?? null,
+        cost,
+        occurredAt,
+      });
+    }
+
+    await this.usageLedgerService.createEntries(entries);
+    await this.usageLedgerService.refreshVideoCost(owner.videoId);
+    return stageCost.toNumber();
+  }
+
+  // A user's spend in a time range, broken down by service and by series
+  async getUserCostBreakdown(userId: string, start: Date, end: Date) {
+    const [services, videos, series] = await Promise.all([
+      this.usageLedgerService.getUserCostsByService(userId, start, end),
+      this.usageLedgerService.getUserCostsByVideo(userId, start, end),
+      this.seriesService.getUserSeries(userId),
+    ]);
+
+    const byService = new Map<
+      string,
+      {
+        serviceName: string;
+        cost: number;
+        operations: {
+          operationType: string;
+          unitType: string;
+          units: number;
+          cost: number;
+          entries: number;
+        }[];
+      }
+    >();
+    for (const row of services) {
+      const service = byService.get(row.serviceName) ?? {
+        serviceName: row.serviceName,
+        cost: 0,
+        operations: [],
+      };
+      const cost = Number(row._sum.cost ?? 0);
+      service.cost += cost;
+      service.operations.push({
+        operationType: row.operationType,
+        unitType: row.unitType,
+        units: Number(row._sum.units ?? 0),
+        cost: roundCost(cost),
+        entries: row._count._all,
+      });
+      byService.set(row.serviceName, service);
+    }
+
+    // Usage of deleted series is kept under a null seriesId
+    const seriesNames = new Map(series.map((item) => [item.id, item.name]));
+    const bySeries = new Map<
+      string | null,
+      {
+        seriesId: string | null;
+        name: string | null;
+        cost: number;
+        videoCount: number;
+      }
+    >();
+    for (const row of videos) {
+      const entry = bySeries.get(row.seriesId) ?? {
+        seriesId: row.seriesId,
+        name: seriesNames.get(row.seriesId) ?? null,
+        cost: 0,
+        videoCount: 0,
+      };
+      entry.cost += Number(row._sum.cost ?? 0);
+      entry.videoCount++;
+      bySeries.set(row.seriesId, entry);
+    }
+
+    const totalCost = [...byService.values()].reduce(
+      (sum, service) => sum + service.cost,
+      0,
+    );
+    const byCost = (a: { cost: number }, b: { cost: number }) =>
+      b.cost - a.cost;
+
+    return {
+      totalCost: roundCost(totalCost),
+      byService: [...byService.values()]
+        .map((service) => ({ ...service, cost: roundCost(service.cost) }))
+        .sort(byCost),
+      bySeries: [...bySeries.values()]
+        .map((entry) => ({
+          ...entry,
+          cost: roundCost(entry.cost),
+          avgCostPerVideo: roundCost(entry.cost / entry.videoCount),
+        }))
+        .sort(byCost),
+    };
+  }
+}
+
+function roundCost(value: number): number {
+  const factor = 10 ** COST_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
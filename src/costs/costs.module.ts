@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { CostAccountingService } from './cost-accounting.service';
+
+@Module({
+  imports: [DatabaseModule],
+  providers: [CostAccountingService],
+  exports: [CostAccountingService],
+})
+export class CostsModule {}
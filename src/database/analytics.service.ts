@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AnalyticsDaily, Prisma } from '@prisma/client';
+
+export type AnalyticsDailyData = Omit<
+  Prisma.AnalyticsDailyUncheckedCreateInput,
+  'id' | 'userId' | 'date' | 'createdAt'
+>;
+
+@Injectable()
+export class AnalyticsService {
+  constructor(private prisma: PrismaService) {}
+
+  // Videos a user created in a time range, with the fields the rollup needs
+  async getVideosCreatedBetween(userId: string, start: Date, end: Date) {
+    return this.prisma.video.findMany({
+      where: {
+        userId,
+        createdAt: { gte: start, lt: end },
+        status: { not: 'failed' },
+      },
+      select: { id: true, duration: true },
+    });
+  }
+
+  // Posts of a user published in a time range
+  async getPostsPublishedBetween(userId: string, start: Date, end: Date) {
+    return this.prisma.socialPost.findMany({
+      where: {
+        socialAccount: { userId },
+        status: 'published',
+        publishedAt: { gte: start, lt: end },
+      },
+      select: {
+        videoId: true,
+        platform: true,
+        viewsCount: true,
+        likesCount: true,
+        commentsCount: true,
+        sharesCount: true,
+      },
+    });
+  }
+
+  // Create or replace a user's row for a day
+  async upsertDailyAnalytics(
+    userId: string,
+    date: Date,
+    data: AnalyticsDailyData,
+  ): Promise<AnalyticsDaily> {
+    return this.prisma.analyticsDaily.upsert({
+      where: { userId_date: { userId, date } },
+      create: { userId, date, ...data },
+      update: data,
+    });
+  }
+
+  // Keys ("userId:YYYY-MM-DD") of the rows that exist for the given dates
+  async getExistingDays(dates: string[]): Promise<Set<string>> {
+    const rows = await this.prisma.analyticsDaily.findMany({
+      where: {
+        date: { in: dates.map((date) => new Date(`${date}T00:00:00.000Z`)) },
+      },
+      select: { userId: true, date: true },
+    });
+    return new Set(
+      rows.map((row) => `${row.userId}:${row.date.toISOString().slice(0, 10)}`),
+    );
+  }
+}
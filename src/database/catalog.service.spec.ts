@@ -0,0 +1,92 @@
+import { PrismaService } from '../prisma/prisma.service';
+import { CatalogService } from './catalog.service';
+import { SeriesService } from './series.service';
+
+describe('CatalogService', () => {
+  let prisma: {
+    seriesTemplate: { findMany: jest.Mock; count: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let service: CatalogService;
+
+  beforeEach(() => {
+    prisma = {
+      seriesTemplate: {
+        findMany: jest.fn().mockReturnValue('findMany'),
+        count: jest.fn().mockReturnValue('count'),
+      },
+      $transaction: jest.fn().mockResolvedValue([[{ id: 't1' }], 1]),
+    };
+    service = new CatalogService(prisma as unknown as PrismaService);
+  });
+
+  it('lists templates most popular first', async () => {
+    const result = await service.getTemplates({ skip: 10, take: 10 });
+
+    expect(result).toEqual({ templates: [{ id: 't1' }], total: 1 });
+    expect(prisma.seriesTemplate.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {},
+        orderBy: [{ popularityScore: 'desc' }, { createdAt: 'desc' }],
+        skip: 10,
+        take: 10,
+      }),
+    );
+  });
+
+  it('filters on false as well as true', async () => {
+    await service.getTemplates({
+      categoryId: 'c1',
+      isPopular: false,
+      isPremium: false,
+    });
+
+    const where = {
+      categoryId: 'c1',
+      isPremium: false,
+      category: { is: { isPopular: false } },
+    };
+    expect(prisma.seriesTemplate.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where }),
+    );
+    expect(prisma.seriesTemplate.count).toHaveBeenCalledWith({ where });
+  });
+});
+
+describe('SeriesService template popularity', () => {
+  let tx: {
+    userSeries: { create: jest.Mock };
+    seriesTemplate: { update: jest.Mock };
+  };
+  let service: SeriesService;
+
+  beforeEach(() => {
+    tx = {
+      userSeries: { create: jest.fn().mockResolvedValue({ id: 's1' }) },
+      seriesTemplate: { update: jest.fn() },
+    };
+    const prisma = {
+      $transaction: jest.fn((work: (client: typeof tx) => unknown) => work(tx)),
+    };
+    service = new SeriesService(prisma as unknown as PrismaService);
+  });
+
+  it('counts each series created from a template', async () => {
+    await service.createSeries({
+      userId: 'u1',
+      name: 'Space facts',
+      templateId: 't1',
+    });
+
+    expect(tx.seriesTemplate.update).toHaveBeenCalledWith({
+      where: { id: 't1' },
+      data: { popularityScore: { increment: 1 } },
+    });
+  });
+
+  it('leaves templates alone for series created from scratch', async () => {
+    await service.createSeries({ userId: 'u1', name: 'Space facts' });
+
+    expect(tx.seriesTemplate.update).not.toHaveBeenCalled();
+  });
+});
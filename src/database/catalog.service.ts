@@ -0,0 +1,141 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ContentCategory, SeriesTemplate, Prisma } from '@prisma/client';
+
+export type SeriesTemplateWithCategory = SeriesTemplate & {
+  category: ContentCategory | null;
+};
+
+@Injectable()
+export class CatalogService {
+  constructor(private prisma: PrismaService) {}
+
+  // Get content categories, ordered for display
+  async getCategories(filters: {
+    isPopular?: boolean;
+  }): Promise<ContentCategory[]> {
+    return this.prisma.contentCategory.findMany({
+      where: {
+        ...(filters.isPopular !== undefined && {
+          isPopular: filters.isPopular,
+        }),
+      },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  // Get category by ID
+  async getCategoryById(id: string): Promise<ContentCategory | null> {
+    return this.prisma.contentCategory.findUnique({
+      where: { id },
+    });
+  }
+
+  // Create a content category
+  async createCategory(
+    data: Prisma.ContentCategoryCreateInput,
+  ): Promise<ContentCategory> {
+    return this.prisma.contentCategory.create({ data });
+  }
+
+  // Update a content category
+  async updateCategory(
+    id: string,
+    data: Prisma.ContentCategoryUpdateInput,
+  ): Promise<ContentCategory> {
+    return this.prisma.contentCategory.update({
+      where: { id },
+      data,
+    });
+  }
+
+  // Delete a content category, detaching its templates first
+  async deleteCategory(id: string): Promise<ContentCategory> {
+    const [, category] = await this.prisma.$transaction([
+      this.prisma.seriesTemplate.updateMany({
+        where: { categoryId: id },
+        data: { categoryId: null },
+      }),
+      this.prisma.contentCategory.delete({
+        where: { id },
+      }),
+    ]);
+    return category;
+  }
+
+  // Get series templates, most popular first
+  async getTemplates(filters: {
+    categoryId?: string;
+    isPopular?: boolean;
+    isPremium?: boolean;
+    skip?: number;
+    take?: number;
+  }): Promise<{ templates: SeriesTemplateWithCategory[]; total: number }> {
+    const where: Prisma.SeriesTemplateWhereInput = {
+      ...(filters.categoryId && { categoryId: filters.categoryId }),
+      ...(filters.isPremium !== undefined && { isPremium: filters.isPremium }),
+      ...(filters.isPopular !== undefined && {
+        category: { is: { isPopular: filters.isPopular } },
+      }),
+    };
+
+    const [templates, total] = await this.prisma.$transaction([
+      this.prisma.seriesTemplate.findMany({
+        where,
+        include: { category: true },
+        orderBy: [{ popularityScore: 'desc' }, { createdAt: 'desc' }],
+        skip: filters.skip,
+        take: filters.take,
+      }),
+      this.prisma.seriesTemplate.count({ where }),
+    ]);
+
+    return { templates, total };
+  }
+
+  // Get template by ID
+  async getTemplateById(
+    id: string,
+  ): Promise<SeriesTemplateWithCategory | null> {
+    return this.prisma.seriesTemplate.findUnique({
+      where: { id },
+      include: { category: true },
+    });
+  }
+
+  // Create a series template
+  async createTemplate(
+    data: Prisma.SeriesTemplateUncheckedCreateInput,
+  ): Promise<SeriesTemplateWithCategory> {
+    return this.prisma.seriesTemplate.create({
+      data,
+      include: { category: true },
+    });
+  }
+
+  // Update a series template
+  async updateTemplate(
+    id: string,
+    data: Prisma.SeriesTemplateUncheckedUpdateInput,
+  ): Promise<SeriesTemplateWithCategory> {
+    return this.prisma.seriesTemplate.update({
+      where: { id },
+      data,
+      include: { category: true },
+    });
+  }
+
+  // Delete a series template, keeping series that were created from it
+  async deleteTemplate(id: string): Promise<SeriesTemplate> {
+    const [, template] = await this.prisma.$transaction([
+      this.prisma.userSeries.updateMany({
+        where: { templateId: id },
+        data: { templateId: null },
+      }),
+      this.prisma.seriesTemplate.delete({
+        where: { id },
+      }),
+    ]);
+    return template;
+  }
+}
@@ -0,0 +1,165 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  EmailVerificationToken,
+  LocalCredential,
+  PasswordResetToken,
+  Profile,
+  RefreshToken,
+} from '@prisma/client';
+
+@Injectable()
+export class CredentialService {
+  constructor(private prisma: PrismaService) {}
+
+  // Create a profile that signs in with a password
+  async createLocalUser(data: {
+    id: string;
+    email: string;
+    fullName?: string;
+    passwordHash: string;
+  }): Promise<Profile> {
+    const { passwordHash, ...profile } = data;
+    return this.prisma.profile.create({
+      data: {
+        ...profile,
+        localCredential: { create: { passwordHash } },
+      },
+    });
+  }
+
+  // Find a profile and its password by email
+  async findByEmail(
+    email: string,
+  ): Promise<(Profile & { localCredential: LocalCredential | null }) | null> {
+    return this.prisma.profile.findUnique({
+      where: { email },
+      include: { localCredential: true },
+    });
+  }
+
+  // Replace a user's password and sign out all of their sessions
+  async updatePassword(userId: string, passwordHash: string): Promise<void> {
+    const now = new Date();
+    await this.prisma.$transaction([
+      this.prisma.localCredential.update({
+        where: { userId },
+        data: { passwordHash, passwordChangedAt: now },
+      }),
+      this.prisma.refreshToken.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+    ]);
+  }
+
+  // Store a refresh token
+  async createRefreshToken(data: {
+    userId: string;
+    familyId: string;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<RefreshToken> {
+    return this.prisma.refreshToken.create({ data });
+  }
+
+  // Find refresh token by hash
+  async findRefreshToken(tokenHash: string): Promise<RefreshToken | null> {
+    return this.prisma.refreshToken.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  // Mark a token as used and store its replacement, with its user. Returns
+  // null when the token was rotated or revoked in the meantime.
+  async rotateRefreshToken(
+    id: string,
+    next: { tokenHash: string; expiresAt: Date },
+  ): Promise<(RefreshToken & { user: Profile }) | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const current = await tx.refreshToken.findUnique({ where: { id } });
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id, rotatedAt: null, revokedAt: null },
+        data: { rotatedAt: new Date() },
+      });
+      if (count === 0) {
+        return null;
+      }
+      return tx.refreshToken.create({
+        data: {
+          userId: current.userId,
+          familyId: current.familyId,
+          ...next,
+        },
+        include: { user: true },
+      });
+    });
+  }
+
+  // Revoke every token descending from the same sign-in
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    await this.prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  // Store a password reset token
+  async createPasswordReset(data: {
+    userId: string;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<PasswordResetToken> {
+    return this.prisma.passwordResetToken.create({ data });
+  }
+
+  // Use up an unexpired password reset token. Null when there is none.
+  async consumePasswordReset(
+    tokenHash: string,
+  ): Promise<PasswordResetToken | null> {
+    const now = new Date();
+    const { count } = await this.prisma.passwordResetToken.updateMany({
+      where: { tokenHash, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+    if (count === 0) {
+      return null;
+    }
+    return this.prisma.passwordResetToken.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  // Store an email verification token
+  async createEmailVerification(data: {
+    userId: string;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<EmailVerificationToken> {
+    return this.prisma.emailVerificationToken.create({ data });
+  }
+
+  // Use up an unexpired verification token and mark its user's email as
+  // verified. Returns the profile, or null when there is no such token.
+  async consumeEmailVerification(tokenHash: string): Promise<Profile | null> {
+    const now = new Date();
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.emailVerificationToken.updateMany({
+        where: { tokenHash, usedAt: null, expiresAt: { gt: now } },
+        data: { usedAt: now },
+      });
+      if (count === 0) {
+        return null;
+      }
+      const { userId } = await tx.emailVerificationToken.findUnique({
+        where: { tokenHash },
+      });
+      const credential = await tx.localCredential.update({
+        where: { userId },
+        data: { emailVerifiedAt: now },
+        include: { user: true },
+      });
+      return credential.user;
+    });
+  }
+}
@@ -1,13 +1,54 @@
 import { Module } from '@nestjs/common';
 import { PrismaModule } from '../prisma/prisma.module';
+import { SecurityModule } from '../security/security.module';
 import { UserService } from './user.service';
 import { VideoService } from './video.service';
 import { SeriesService } from './series.service';
 import { SocialAccountService } from './social-account.service';
+import { JobQueueService } from './job-queue.service';
+import { SubscriptionService } from './subscription.service';
+import { CatalogService } from './catalog.service';
+import { SocialPostService } from './social-post.service';
+import { NotificationService } from './notification.service';
+import { AnalyticsService } from './analytics.service';
+import { UsageLedgerService } from './usage-ledger.service';
+import { VideoUploadService } from './video-upload.service';
+import { SearchService } from './search.service';
+import { CredentialService } from './credential.service';
 
 @Module({
-  imports: [PrismaModule],
-  providers: [UserService, VideoService, SeriesService, SocialAccountService],
-  exports: [UserService, VideoService, SeriesService, SocialAccountService],
+  imports: [PrismaModule, SecurityModule],
+  providers: [
+    UserService,
+    VideoService,
+    SeriesService,
+    SocialAccountService,
+    JobQueueService,
+    SubscriptionService,
+    CatalogService,
+    SocialPostService,
+    NotificationService,
+    AnalyticsService,
+    UsageLedgerService,
+    VideoUploadService,
+    SearchService,
+    CredentialService,
+  ],
+  exports: [
+    UserService,
+    VideoService,
+    SeriesService,
+    SocialAccountService,
+    JobQueueService,
+    SubscriptionService,
+    CatalogService,
+    SocialPostService,
+    NotificationService,
+    AnalyticsService,
+    UsageLedgerService,
+    VideoUploadService,
+    SearchService,
+    CredentialService,
+  ],
 })
 export class DatabaseModule {}
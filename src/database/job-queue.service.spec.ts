@@ -0,0 +1,72 @@
+import { JobQueue } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobQueueService } from './job-queue.service';
+
+describe('JobQueueService', () => {
+  let service: JobQueueService;
+  let prisma: {
+    $queryRaw: jest.Mock;
+    jobQueue: Record<string, jest.Mock>;
+  };
+
+  const job = { id: 'job-1', retryCount: 1, maxRetries: 3 } as JobQueue;
+
+  beforeEach(() => {
+    prisma = {
+      $queryRaw: jest.fn(),
+      jobQueue: {
+        findUnique: jest.fn().mockResolvedValue(job),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+    service = new JobQueueService(prisma as unknown as PrismaService);
+  });
+
+  it('claims the next due job with a skip-locked update', async () => {
+    prisma.$queryRaw.mockResolvedValue([{ id: 'job-1' }]);
+
+    await expect(service.claimNextJob(['video_generation'])).resolves.toBe(job);
+
+    const query = prisma.$queryRaw.mock.calls[0][0];
+    expect(query.sql).toContain("SET status = 'running'");
+    expect(query.sql).toContain("WHERE status = 'pending'");
+    expect(query.sql).toContain('scheduled_for <= now()');
+    expect(query.sql).toContain('FOR UPDATE SKIP LOCKED');
+    expect(query.values).toEqual([['video_generation']]);
+  });
+
+  it('claims nothing when no job is due or no type is handled', async () => {
+    prisma.$queryRaw.mockResolvedValue([]);
+
+    await expect(
+      service.claimNextJob(['video_generation']),
+    ).resolves.toBeNull();
+    await expect(service.claimNextJob([])).resolves.toBeNull();
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('puts a failed job back in the queue while retries are left', async () => {
+    const retryAt = new Date('2026-01-01T00:01:00Z');
+
+    await service.failJob(job, 'boom', retryAt);
+
+    expect(prisma.jobQueue.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: {
+        status: 'pending',
+        errorMessage: 'boom',
+        retryCount: 2,
+        scheduledFor: retryAt,
+      },
+    });
+  });
+
+  it('fails a job for good after its last retry', async () => {
+    await service.failJob({ ...job, retryCount: 3 }, 'boom', new Date());
+
+    expect(prisma.jobQueue.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: expect.objectContaining({ status: 'failed', errorMessage: 'boom' }),
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobQueue, Prisma } from '@prisma/client';
+
+export type JobPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+// Numeric priorities stored in job_queue.priority (higher runs first)
+export const JOB_PRIORITY_VALUES: Record<JobPriority, number> = {
+  low: 0,
+  normal: 5,
+  high: 10,
+  urgent: 20,
+};
+
+export const JOB_TYPES = {
+  VIDEO_GENERATION: 'video_generation',
+  SOCIAL_PUBLISH: 'social_publish',
+  SOCIAL_TOKEN_REFRESH: 'social_token_refresh',
+  NOTIFICATION_DELIVERY: 'notification_delivery',
+  STORAGE_CLEANUP: 'storage_cleanup',
+} as const;
+
+@Injectable()
+export class JobQueueService {
+  constructor(private prisma: PrismaService) {}
+
+  // Add a job to the queue
+  async enqueueJob(data: {
+    jobType: string;
+    payload: Record<string, any>;
+    userId?: string;
+    priority?: number;
+    scheduledFor?: Date;
+    maxRetries?: number;
+  }): Promise<JobQueue> {
+    return this.prisma.jobQueue.create({
+      data: {
+        jobType: data.jobType,
+        payload: data.payload,
+        userId: data.userId,
+        priority: data.priority ?? JOB_PRIORITY_VALUES.normal,
+        scheduledFor: data.scheduledFor ?? new Date(),
+        ...(data.maxRetries !== undefined && { maxRetries: data.maxRetries }),
+      },
+    });
+  }
+
+  // Queue AI generation for a video
+  async addVideoGenerationJob(
+    videoId: string,
+    userId: string,
+    priority: JobPriority = 'normal',
+  ): Promise<JobQueue> {
+    return this.enqueueJob({
+      jobType: JOB_TYPES.VIDEO_GENERATION,
+      payload: { videoId },
+      userId,
+      priority: JOB_PRIORITY_VALUES[priority] ?? JOB_PRIORITY_VALUES.normal,
+    });
+  }
+
+  // Queue publication of a social post at its scheduled time. The schedule
+  // is part of the payload so a job left over from before a reschedule can
+  // tell that it is stale.
+  async addSocialPublishJob(
+    socialPostId: string,
+    userId: string,
+    scheduledFor: Date,
+  ): Promise<JobQueue> {
+    return this.enqueueJob({
+      jobType: JOB_TYPES.SOCIAL_PUBLISH,
+      payload: { socialPostId, scheduledFor: scheduledFor.toISOString() },
+      userId,
+      priority: JOB_PRIORITY_VALUES.high,
+      scheduledFor,
+    });
+  }
+
+  // Queue a token refresh for a social account
+  async addSocialTokenRefreshJob(
+    socialAccountId: string,
+    userId: string,
+  ): Promise<JobQueue> {
+    return this.enqueueJob({
+      jobType: JOB_TYPES.SOCIAL_TOKEN_REFRESH,
+      payload: { socialAccountId },
+      userId,
+      priority: JOB_PRIORITY_VALUES.high,
+    });
+  }
+
+  // Queue delivery of a notification through an external channel
+  async addNotificationDeliveryJob(
+    channel: string,
+    userId: string,
+    notification: Record<string, any>,
+  ): Promise<JobQueue> {
+    return this.enqueueJob({
+      jobType: JOB_TYPES.NOTIFICATION_DELIVERY,
+      payload: { channel, userId, notification },
+      userId,
+    });
+  }
+
+  // Queue deletion of stored objects that are no longer referenced
+  async addStorageCleanupJob(
+    keys: string[],
+    userId: string,
+  ): Promise<JobQueue> {
+    return this.enqueueJob({
+      jobType: JOB_TYPES.STORAGE_CLEANUP,
+      payload: { keys },
+      userId,
+      priority: JOB_PRIORITY_VALUES.low,
+    });
+  }
+
+  // Whether a pending or running job of this type exists for a payload value
+  async hasOpenJob(
+    jobType: string,
+    payloadKey: string,
+    value: string,
+  ): Promise<boolean> {
+    const count = await this.prisma.jobQueue.count({
+      where: {
+        jobType,
+        status: { in: ['pending', 'running'] },
+        payload: { path: [payloadKey], equals: value },
+      },
+    });
+    return count > 0;
+  }
+
+  // Find job by ID
+  async getJobById(id: string): Promise<JobQueue | null> {
+    return this.prisma.jobQueue.findUnique({
+      where: { id },
+    });
+  }
+
+  // Atomically claim the next due job. Rows are locked with SKIP LOCKED so
+  // several workers can poll the same table without claiming a job twice.
+  async claimNextJob(jobTypes: string[]): Promise<JobQueue | null> {
+    if (jobTypes.length === 0) {
+      return null;
+    }
+
+    const claimed = await this.prisma.$queryRaw<{ id: string }[]>(Prisma.sql`
+      UPDATE job_queue
+      SET status = 'running',
+          started_at = now(),
+          completed_at = NULL,
+          progress = 0
+      WHERE id = (
+        SELECT id FROM job_queue
+        WHERE status = 'pending'
+          AND scheduled_for <= now()
+          AND job_type = ANY(${jobTypes})
+        ORDER BY priority DESC, scheduled_for ASC, created_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id
+    `);
+
+    if (claimed.length === 0) {
+      return null;
+    }
+
+    return this.getJobById(claimed[0].id);
+  }
+
+  // Update job progress (0-100)
+  async updateProgress(id: string, progress: number): Promise<JobQueue> {
+    return this.prisma.jobQueue.update({
+      where: { id },
+      data: {
+        progress: Math.max(0, Math.min(100, Math.round(progress))),
+      },
+    });
+  }
+
+  // Mark job as completed
+  async completeJob(id: string): Promise<JobQueue> {
+    return this.prisma.jobQueue.update({
+      where: { id },
+      data: {
+        status: 'completed',
+        progress: 100,
+        errorMessage: null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  // Record a failed attempt. The job goes back to pending until maxRetries
+  // is exhausted, then it is marked as failed for good.
+  async failJob(
+    job: JobQueue,
+    errorMessage: string,
+    retryAt: Date,
+  ): Promise<JobQueue> {
+    if (job.retryCount < job.maxRetries) {
+      return this.prisma.jobQueue.update({
+        where: { id: job.id },
+        data: {
+          status: 'pending',
+          errorMessage,
+          retryCount: job.retryCount + 1,
+          scheduledFor: retryAt,
+        },
+      });
+    }
+
+    return this.prisma.jobQueue.update({
+      where: { id: job.id },
+      data: {
+        status: 'failed',
+        errorMessage,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  // Put jobs left running by a crashed worker back in the queue
+  async requeueStaleJobs(startedBefore: Date): Promise<number> {
+    const result = await this.prisma.jobQueue.updateMany({
+      where: {
+        status: 'running',
+        startedAt: {
+          lt: startedBefore,
+        },
+      },
+      data: {
+        status: 'pending',
+        scheduledFor: new Date(),
+      },
+    });
+
+    return result.count;
+  }
+}
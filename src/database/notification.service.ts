@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Notification, Prisma } from '@prisma/client';
+
+@Injectable()
+export class NotificationService {
+  constructor(private prisma: PrismaService) {}
+
+  // Create an in-app notification for a user
+  async createNotification(data: {
+    userId: string;
+    type: string;
+    title: string;
+    message: string;
+    actionUrl?: string;
+  }): Promise<Notification> {
+    return this.prisma.notification.create({
+      data,
+    });
+  }
+
+  // Get a user's notifications, newest first
+  async getUserNotifications(
+    userId: string,
+    filters: { unreadOnly?: boolean; skip?: number; take?: number } = {},
+  ): Promise<{ notifications: Notification[]; total: number }> {
+    const where: Prisma.NotificationWhereInput = {
+      userId,
+      ...(filters.unreadOnly && { isRead: false }),
+    };
+
+    const [notifications, total] = await this.prisma.$transaction([
+      this.prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: filters.skip,
+        take: filters.take,
+      }),
+      this.prisma.notification.count({ where }),
+    ]);
+
+    return { notifications, total };
+  }
+
+  // Count a user's unread notifications
+  async countUnread(userId: string): Promise<number> {
+    return this.prisma.notification.count({
+      where: { userId, isRead: false },
+    });
+  }
+
+  // Mark one of a user's notifications as read
+  async markAsRead(id: string, userId: string): Promise<Notification | null> {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { id, userId },
+      data: { isRead: true },
+    });
+    if (count === 0) {
+      return null;
+    }
+    return this.prisma.notification.findUnique({ where: { id } });
+  }
+
+  // Mark all of a user's notifications as read
+  async markAllAsRead(userId: string): Promise<number> {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { userId, isRead: false },
+      data: { isRead: true },
+    });
+    return count;
+  }
+
+  // Contact details and preferences used to deliver a user's notifications
+  async getRecipient(userId: string) {
+    return this.prisma.profile.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        fullName: true,
+        isActive: true,
+        notificationPreferences: true,
+        notificationWebhookUrl: true,
+      },
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  afterCursor,
+  decodeCursor,
+  encodeCursor,
+  SortFields,
+  toPage,
+} from './page-cursor';
+
+describe('page cursors', () => {
+  const fields: SortFields = { createdAt: 'date', title: 'string' };
+  const item = {
+    id: 'video-2',
+    title: 'Mars',
+    createdAt: new Date('2026-03-01T10:00:00Z'),
+  };
+
+  it('round-trips the sort value and ID of the last item', () => {
+    const cursor = encodeCursor('createdAt', 'desc', item);
+
+    const decoded = decodeCursor(cursor, 'createdAt', 'desc', fields);
+    expect(decoded).toEqual({
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+      value: item.createdAt,
+      id: 'video-2',
+    });
+    expect(afterCursor(decoded)).toEqual({
+      OR: [
+        { createdAt: { lt: item.createdAt } },
+        { createdAt: item.createdAt, id: { lt: 'video-2' } },
+      ],
+    });
+  });
+
+  it('rejects cursors for another sort and tampered cursors', () => {
+    const cursor = encodeCursor('title', 'asc', item);
+
+    expect(decodeCursor(cursor, 'title', 'desc', fields)).toBeNull();
+    expect(decodeCursor(cursor, 'createdAt', 'asc', fields)).toBeNull();
+    expect(decodeCursor('not-a-cursor', 'title', 'asc', fields)).toBeNull();
+    const wrongType = Buffer.from(
+      JSON.stringify(['title', 'asc', 42, 'video-2']),
+    ).toString('base64url');
+    expect(decodeCursor(wrongType, 'title', 'asc', fields)).toBeNull();
+  });
+
+  it('only issues a next cursor when another page exists', () => {
+    const rows = [
+      { id: 'a', title: 'A' },
+      { id: 'b', title: 'B' },
+      { id: 'c', title: 'C' },
+    ];
+
+    const page = toPage(rows, 2, 'title', 'asc');
+    expect(page.items.map((row) => row.id)).toEqual(['a', 'b']);
+    expect(decodeCursor(page.nextCursor, 'title', 'asc', fields)).toMatchObject(
+      { value: 'B', id: 'b' },
+    );
+
+    expect(toPage(rows, 3, 'title', 'asc').nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+export type SortOrder = 'asc' | 'desc';
+
+// Columns a list may be sorted by, with how their values are compared
+export type SortFields = Record<string, 'date' | 'string' | 'number'>;
+
+// Where the previous page ended: the sort value and ID of its last item
+export interface PageCursor {
+  sortBy: string;
+  sortOrder: SortOrder;
+  value: Date | string | number;
+  id: string;
+}
+
+// Opaque cursor pointing after an item. The sort is part of the cursor, so
+// a cursor cannot be reused with a different sort.
+export function encodeCursor(
+  sortBy: string,
+  sortOrder: SortOrder,
+  item: { id: string },
+): string {
+  const value = item[sortBy];
+  return Buffer.from(
+    JSON.stringify([
+      sortBy,
+      sortOrder,
+      value instanceof Date ? value.toISOString() : value,
+      item.id,
+    ]),
+  ).toString('base64url');
+}
+
+// Decode a cursor issued for the same sort; null when it is not one
+export function decodeCursor(
+  cursor: string,
+  sortBy: string,
+  sortOrder: SortOrder,
+  fields: SortFields,
+): PageCursor | null {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(decoded) || decoded.length !== 4) {
+    return null;
+  }
+  const [cursorSortBy, cursorSortOrder, value, id] = decoded;
+  if (
+    cursorSortBy !== sortBy ||
+    cursorSortOrder !== sortOrder ||
+    typeof id !== 'string'
+  ) {
+    return null;
+  }
+
+  switch (fields[sortBy]) {
+    case 'date': {
+      const date = new Date(value);
+      return typeof value === 'string' && !isNaN(date.getTime())
+        ? { sortBy, sortOrder, value: date, id }
+        : null;
+    }
+    case 'string':
+    case 'number':
+      return typeof value === fields[sortBy]
+        ? { sortBy, sortOrder, value, id }
+        : null;
+    default:
+      return null;
+  }
+}
+
+// Order by the sort field, with the ID breaking ties so pages never overlap
+export function pageOrderBy(sortBy: string, sortOrder: SortOrder) {
+  return [{ [sortBy]: sortOrder }, { id: sortOrder }];
+}
+
+// Where clause for the items after a cursor in pageOrderBy order
+export function afterCursor(cursor: PageCursor) {
+  const op = cursor.sortOrder === 'asc' ? 'gt' : 'lt';
+  return {
+    OR: [
+      { [cursor.sortBy]: { [op]: cursor.value } },
+      { [cursor.sortBy]: cursor.value, id: { [op]: cursor.id } },
+    ],
+  };
+}
+
+// Split rows fetched with take + 1 into the page and the cursor of the next
+// one, which is null on the last page
+export function toPage<T extends { id: string }>(
+  rows: T[],
+  take: number,
+  sortBy: string,
+  sortOrder: SortOrder,
+): { items: T[]; nextCursor: string | null } {
+  const items = rows.slice(0, take);
+  return {
+    items,
+    nextCursor:
+      rows.length > take
+        ? encodeCursor(sortBy, sortOrder, items[items.length - 1])
+        : null,
+  };
+}
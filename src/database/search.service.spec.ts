@@ -0,0 +1,21 @@
+import { toPrefixTsQuery } from './search.service';
+
+describe('toPrefixTsQuery', () => {
+  it('matches every word as a prefix', () => {
+    expect(toPrefixTsQuery('Black  holes')).toBe('(black:*) & (holes:*)');
+  });
+
+  it('keeps quoted phrases in order', () => {
+    expect(toPrefixTsQuery('"event horizon" mass')).toBe(
+      '(event:* <-> horizon:*) & (mass:*)',
+    );
+  });
+
+  it('drops tsquery syntax and punctuation from user input', () => {
+    expect(toPrefixTsQuery("it's !a | b:* & (c)")).toBe(
+      '(it:* <-> s:*) & (a:*) & (b:*) & (c:*)',
+    );
+    expect(toPrefixTsQuery('¿qué pasó?')).toBe('(qué:*) & (pasó:*)');
+    expect(toPrefixTsQuery(' "" ?! ')).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+export interface VideoSearchHit {
+  id: string;
+  seriesId: string;
+  seriesName: string;
+  title: string;
+  status: string;
+  thumbnailUrl: string | null;
+  createdAt: Date;
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+}
+
+export interface SeriesSearchHit {
+  id: string;
+  name: string;
+  isActive: boolean;
+  createdAt: Date;
+  rank: number;
+  nameHighlight: string;
+  snippet: string;
+}
+
+// Matches are wrapped in <mark>; titles are highlighted whole, long text is
+// cut to the fragments around the matches
+const TITLE_HIGHLIGHT = 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>';
+const SNIPPET_HIGHLIGHT =
+  'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+// Full-text search over the search_vector columns maintained by
+// prisma/full-text-search.sql. Snippets are only built for the returned hits,
+// since ts_headline re-parses the whole text. The tsquery itself is never
+// selected: Prisma cannot deserialize that column type.
+@Injectable()
+export class SearchService {
+  constructor(private prisma: PrismaService) {}
+
+  // Search a user's videos by title, tags, description and script
+  async searchVideos(
+    userId: string,
+    tsQuery: string,
+    limit: number,
+  ): Promise<{ hits: VideoSearchHit[]; total: number }> {
+    const matches = Prisma.sql`
+      FROM videos v
+      CROSS JOIN to_tsquery('english', ${tsQuery}) AS q(query)
+      WHERE v.user_id = ${userId}::uuid
+        AND v.search_vector @@ q.query
+    `;
+
+    const [hits, [{ total }]] = await this.prisma.$transaction([
+      this.prisma.$queryRaw<VideoSearchHit[]>(Prisma.sql`
+        SELECT hits.id, hits."seriesId", s.name AS "seriesName", hits.title,
+          hits.status, hits."thumbnailUrl", hits."createdAt", hits.rank,
+          ts_headline('english', hits.title, hits.query, ${TITLE_HIGHLIGHT})
+            AS "titleHighlight",
+          ts_headline('english',
+            concat_ws(' … ', hits.description, hits.script), hits.query,
+            ${SNIPPET_HIGHLIGHT}) AS snippet
+        FROM (
+          SELECT v.id, v.series_id AS "seriesId", v.title, v.description,
+            v.script, v.status, v.thumbnail_url AS "thumbnailUrl",
+            v.created_at AS "createdAt", q.query,
+            ts_rank_cd(v.search_vector, q.query) AS rank
+          ${matches}
+          ORDER BY rank DESC, v.created_at DESC
+          LIMIT ${limit}
+        ) hits
+        JOIN user_series s ON s.id = hits."seriesId"
+        ORDER BY hits.rank DESC, hits."createdAt" DESC
+      `),
+      this.prisma.$queryRaw<{ total: number }[]>(
+        Prisma.sql`SELECT count(*)::int AS total ${matches}`,
+      ),
+    ]);
+
+    return { hits, total };
+  }
+
+  // Search a user's series by name and description
+  async searchSeries(
+    userId: string,
+    tsQuery: string,
+    limit: number,
+  ): Promise<{ hits: SeriesSearchHit[]; total: number }> {
+    const matches = Prisma.sql`
+      FROM user_series s
+      CROSS JOIN to_tsquery('english', ${tsQuery}) AS q(query)
+      WHERE s.user_id = ${userId}::uuid
+        AND s.search_vector @@ q.query
+    `;
+
+    const [hits, [{ total }]] = await this.prisma.$transaction([
+      this.prisma.$queryRaw<SeriesSearchHit[]>(Prisma.sql`
+        SELECT hits.id, hits.name, hits."isActive", hits."createdAt", hits.rank,
+          ts_headline('english', hits.name, hits.query, ${TITLE_HIGHLIGHT})
+            AS "nameHighlight",
+          ts_headline('english', coalesce(hits.description, ''), hits.query,
+            ${SNIPPET_HIGHLIGHT}) AS snippet
+        FROM (
+          SELECT s.id, s.name, s.description, s.is_active AS "isActive",
+            s.created_at AS "createdAt", q.query,
+            ts_rank_cd(s.search_vector, q.query) AS rank
+          ${matches}
+          ORDER BY rank DESC, s.created_at DESC
+          LIMIT ${limit}
+        ) hits
+        ORDER BY hits.rank DESC, hits."createdAt" DESC
+      `),
+      this.prisma.$queryRaw<{ total: number }[]>(
+        Prisma.sql`SELECT count(*)::int AS total ${matches}`,
+      ),
+    ]);
+
+    return { hits, total };
+  }
+}
+
+// Turn what a user typed into a tsquery: every word must match, as a prefix,
+// and "quoted phrases" must match in order. Punctuation is dropped, so user
+// input can never be a tsquery syntax error. Null when nothing is left.
+export function toPrefixTsQuery(input: string): string | null {
+  const terms: string[] = [];
+  for (const [, phrase, word] of input.matchAll(/"([^"]*)"|([^\s"]+)/g)) {
+    const words = (phrase ?? word).match(/[\p{L}\p{N}]+/gu) ?? [];
+    if (words.length > 0) {
+      terms.push(words.map((w) => `${w.toLowerCase()}:*`).join(' <-> '));
+    }
+  }
+  return terms.length > 0 ? terms.map((term) => `(${term})`).join(' & ') : null;
+}
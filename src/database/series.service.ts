@@ -1,6 +1,22 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { UserSeries, Prisma } from '@prisma/client';
+import {
+  afterCursor,
+  PageCursor,
+  pageOrderBy,
+  SortFields,
+  SortOrder,
+  toPage,
+} from './page-cursor';
+
+export const SERIES_SORT_FIELDS: SortFields = {
+  createdAt: 'date',
+  updatedAt: 'date',
+  name: 'string',
+  totalVideosGenerated: 'number',
+  totalViews: 'number',
+};
 
 @Injectable()
 export class SeriesService {
@@ -17,17 +33,33 @@ export class SeriesService {
     voiceSettings?: any;
     musicSettings?: any;
     videoDuration?: number;
+    contentType?: string;
+    contentStyle?: string;
+    useTrendingTopics?: boolean;
+    isActive?: boolean;
     postingFrequency?: number;
     postingSchedule?: any;
   }): Promise<UserSeries> {
-    return this.prisma.userSeries.create({
-      data: {
-        ...data,
-        visualStyle: data.visualStyle || {},
-        voiceSettings: data.voiceSettings || {},
-        musicSettings: data.musicSettings || {},
-        postingSchedule: data.postingSchedule || {},
-      },
+    return this.prisma.$transaction(async (tx) => {
+      const series = await tx.userSeries.create({
+        data: {
+          ...data,
+          visualStyle: data.visualStyle || {},
+          voiceSettings: data.voiceSettings || {},
+          musicSettings: data.musicSettings || {},
+          postingSchedule: data.postingSchedule || {},
+        },
+      });
+
+      // Every series created from a template counts towards its popularity
+      if (data.templateId) {
+        await tx.seriesTemplate.update({
+          where: { id: data.templateId },
+          data: { popularityScore: { increment: 1 } },
+        });
+      }
+
+      return series;
     });
   }
 
@@ -54,6 +86,83 @@ export class SeriesService {
     });
   }
 
+  // Get one page of a user's series, filtered and sorted in the database.
+  // Pages by cursor when one is given, otherwise by skip.
+  async getUserSeriesPage(
+    userId: string,
+    options: {
+      isActive?: boolean;
+      search?: string;
+      sortBy: string;
+      sortOrder: SortOrder;
+      skip?: number;
+      take: number;
+      cursor?: PageCursor;
+    },
+  ): Promise<{
+    series: UserSeries[];
+    total: number;
+    nextCursor: string | null;
+  }> {
+    const where: Prisma.UserSeriesWhereInput = {
+      userId,
+      ...(options.isActive !== undefined && { isActive: options.isActive }),
+      ...(options.search && {
+        OR: [
+          { name: { contains: options.search, mode: 'insensitive' } },
+          { description: { contains: options.search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const [rows, total] = await this.prisma.$transaction([
+      this.prisma.userSeries.findMany({
+        where: options.cursor
+          ? { AND: [where, afterCursor(options.cursor)] }
+          : where,
+        include: {
+          template: {
+            include: {
+              category: true,
+            },
+          },
+          videos: {
+            orderBy: {
+              createdAt: 'desc',
+            },
+            take: 5,
+          },
+        },
+        orderBy: pageOrderBy(options.sortBy, options.sortOrder),
+        skip: options.cursor ? undefined : options.skip,
+        take: options.take + 1,
+      }),
+      this.prisma.userSeries.count({ where }),
+    ]);
+
+    const { items, nextCursor } = toPage(
+      rows,
+      options.take,
+      options.sortBy,
+      options.sortOrder,
+    );
+    return { series: items, total, nextCursor };
+  }
+
+  // Count user's series
+  async countUserSeries(userId: string): Promise<number> {
+    return this.prisma.userSeries.count({
+      where: { userId },
+    });
+  }
+
+  // Get series by ID without its relations
+  async findSeriesById(id: string): Promise<UserSeries | null> {
+    return this.prisma.userSeries.findUnique({
+      where: { id },
+    });
+  }
+
   // Get series by ID
   async getSeriesById(id: string): Promise<UserSeries | null> {
     return this.prisma.userSeries.findUnique({
@@ -99,6 +208,18 @@ export class SeriesService {
     });
   }
 
+  // Count a newly queued video. The increment happens in the database, so
+  // concurrent calls are all counted.
+  async incrementVideosGenerated(id: string): Promise<UserSeries> {
+    return this.prisma.userSeries.update({
+      where: { id },
+      data: {
+        totalVideosGenerated: { increment: 1 },
+        updatedAt: new Date(),
+      },
+    });
+  }
+
   // Update series stats
   async updateSeriesStats(
     id: string,
@@ -0,0 +1,86 @@
+import { PrismaService } from '../prisma/prisma.service';
+import { TokenEncryptionService } from '../security/token-encryption.service';
+import { SocialAccountService } from './social-account.service';
+
+describe('SocialAccountService.countUserPostsSince', () => {
+  it('counts posts by their scheduled time', async () => {
+    const prisma = { socialPost: { count: jest.fn().mockResolvedValue(2) } };
+    const service = new SocialAccountService(
+      prisma as unknown as PrismaService,
+      {} as TokenEncryptionService,
+    );
+    const since = new Date('2026-03-13T12:00:00Z');
+
+    await expect(service.countUserPostsSince('user-1', since)).resolves.toBe(2);
+
+    const [[{ where }]] = prisma.socialPost.count.mock.calls;
+    expect(where.OR).toEqual([
+      { scheduledFor: { gte: since } },
+      { scheduledFor: null, createdAt: { gte: since } },
+    ]);
+    expect(where).not.toHaveProperty('createdAt');
+  });
+});
+
+describe('SocialAccountService token refresh times', () => {
+  const tokenEncryption = {
+    encrypt: (value?: string) => value,
+    decryptAccount: (account: unknown) => account,
+  } as unknown as TokenEncryptionService;
+
+  beforeEach(() =>
+    jest.useFakeTimers({ now: new Date('2026-03-16T12:00:00Z') }),
+  );
+  afterEach(() => jest.useRealTimers());
+
+  it('refreshes a token when 10% of its lifetime is left, at least 5 minutes before it expires', async () => {
+    const prisma = {
+      socialAccount: { update: jest.fn().mockResolvedValue({}) },
+    };
+    const service = new SocialAccountService(
+      prisma as unknown as PrismaService,
+      tokenEncryption,
+    );
+
+    // TikTok: 24 hours
+    await service.updateTokens(
+      'account-1',
+      'access',
+      'refresh',
+      new Date('2026-03-17T12:00:00Z'),
+    );
+    // YouTube: 1 hour
+    await service.updateTokens(
+      'account-2',
+      'access',
+      'refresh',
+      new Date('2026-03-16T13:00:00Z'),
+    );
+
+    const refreshTimes = prisma.socialAccount.update.mock.calls.map(
+      ([{ data }]) => data.tokenRefreshAfter,
+    );
+    expect(refreshTimes).toEqual([
+      new Date('2026-03-17T09:36:00Z'),
+      new Date('2026-03-16T12:54:00Z'),
+    ]);
+  });
+
+  it('selects accounts whose refresh time has passed', async () => {
+    const prisma = {
+      socialAccount: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+    const service = new SocialAccountService(
+      prisma as unknown as PrismaService,
+      tokenEncryption,
+    );
+
+    await service.getAccountsNeedingRefresh();
+
+    const [[{ where }]] = prisma.socialAccount.findMany.mock.calls;
+    expect(where.OR).toContainEqual({
+      tokenRefreshAfter: { lte: new Date('2026-03-16T12:00:00Z') },
+    });
+    expect(where).not.toHaveProperty('tokenExpiresAt');
+  });
+});
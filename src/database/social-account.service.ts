@@ -1,10 +1,18 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { SocialAccount, Prisma } from '@prisma/client';
+import { OAuthState, SocialAccount, Prisma } from '@prisma/client';
+import { TokenEncryptionService } from '../security/token-encryption.service';
 
+const MIN_REFRESH_LEAD_MS = 5 * 60 * 1000;
+
+// OAuth tokens are encrypted before they are written and decrypted when
+// accounts are read, so callers only ever see plain tokens.
 @Injectable()
 export class SocialAccountService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private tokenEncryption: TokenEncryptionService,
+  ) {}
 
   // Connect a new social account
   async connectAccount(data: {
@@ -21,17 +29,55 @@ export class SocialAccountService {
     isVerified?: boolean;
     autoPost?: boolean;
   }): Promise<SocialAccount> {
-    return this.prisma.socialAccount.create({
+    const account = await this.prisma.socialAccount.create({
       data: {
         ...data,
+        accessToken: this.tokenEncryption.encrypt(data.accessToken),
+        refreshToken: this.tokenEncryption.encrypt(data.refreshToken),
+        tokenRefreshAfter: refreshAfter(data.tokenExpiresAt),
         connectedAt: new Date(),
       },
     });
+    return this.tokenEncryption.decryptAccount(account);
+  }
+
+  // Store a started OAuth flow, dropping the user's expired ones
+  async createOAuthState(data: {
+    userId: string;
+    platform: string;
+    nonce: string;
+    browserKeyHash: string;
+    expiresAt: Date;
+  }): Promise<OAuthState> {
+    const [, state] = await this.prisma.$transaction([
+      this.prisma.oAuthState.deleteMany({
+        where: { userId: data.userId, expiresAt: { lt: new Date() } },
+      }),
+      this.prisma.oAuthState.create({ data }),
+    ]);
+    return state;
+  }
+
+  // Use up an unexpired OAuth state started by the given browser. Null when
+  // there is none, it was used already or another browser started it.
+  async consumeOAuthState(
+    nonce: string,
+    browserKeyHash: string,
+  ): Promise<OAuthState | null> {
+    const now = new Date();
+    const { count } = await this.prisma.oAuthState.updateMany({
+      where: { nonce, browserKeyHash, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+    if (count === 0) {
+      return null;
+    }
+    return this.prisma.oAuthState.findUnique({ where: { nonce } });
   }
 
   // Get user's social accounts
   async getUserSocialAccounts(userId: string): Promise<SocialAccount[]> {
-    return this.prisma.socialAccount.findMany({
+    const accounts = await this.prisma.socialAccount.findMany({
       where: { userId },
       include: {
         socialPosts: {
@@ -45,11 +91,14 @@ export class SocialAccountService {
         connectedAt: 'desc',
       },
     });
+    return accounts.map((account) =>
+      this.tokenEncryption.decryptAccount(account),
+    );
   }
 
   // Get social account by ID
   async getSocialAccountById(id: string): Promise<SocialAccount | null> {
-    return this.prisma.socialAccount.findUnique({
+    const account = await this.prisma.socialAccount.findUnique({
       where: { id },
       include: {
         user: true,
@@ -61,6 +110,23 @@ export class SocialAccountService {
         },
       },
     });
+    return this.tokenEncryption.decryptAccount(account);
+  }
+
+  // Get several of a user's social accounts by ID
+  async getUserAccountsByIds(
+    userId: string,
+    ids: string[],
+  ): Promise<SocialAccount[]> {
+    const accounts = await this.prisma.socialAccount.findMany({
+      where: {
+        id: { in: ids },
+        userId,
+      },
+    });
+    return accounts.map((account) =>
+      this.tokenEncryption.decryptAccount(account),
+    );
   }
 
   // Get social account by platform and user
@@ -68,13 +134,28 @@ export class SocialAccountService {
     userId: string,
     platform: string,
   ): Promise<SocialAccount | null> {
-    return this.prisma.socialAccount.findFirst({
+    const account = await this.prisma.socialAccount.findFirst({
       where: {
         userId,
         platform,
         isActive: true,
       },
     });
+    return this.tokenEncryption.decryptAccount(account);
+  }
+
+  // Get a user's account for a specific platform identity, active or not
+  async findAccountByPlatformUser(
+    userId: string,
+    platform: string,
+    platformUserId: string,
+  ): Promise<SocialAccount | null> {
+    const account = await this.prisma.socialAccount.findUnique({
+      where: {
+        userId_platform_platformUserId: { userId, platform, platformUserId },
+      },
+    });
+    return this.tokenEncryption.decryptAccount(account);
   }
 
   // Update social account
@@ -82,13 +163,25 @@ export class SocialAccountService {
     id: string,
     data: Prisma.SocialAccountUpdateInput,
   ): Promise<SocialAccount> {
-    return this.prisma.socialAccount.update({
+    const expiresAt = data.tokenExpiresAt;
+    const account = await this.prisma.socialAccount.update({
       where: { id },
       data: {
         ...data,
+        ...(typeof data.accessToken === 'string' && {
+          accessToken: this.tokenEncryption.encrypt(data.accessToken),
+        }),
+        ...(typeof data.refreshToken === 'string' && {
+          refreshToken: this.tokenEncryption.encrypt(data.refreshToken),
+        }),
+        ...(expiresAt !== undefined && {
+          tokenRefreshAfter:
+            expiresAt instanceof Date ? refreshAfter(expiresAt) : null,
+        }),
         lastSyncAt: new Date(),
       },
     });
+    return this.tokenEncryption.decryptAccount(account);
   }
 
   // Update token information
@@ -96,35 +189,39 @@ export class SocialAccountService {
     id: string,
     accessToken: string,
     refreshToken?: string,
-    expiresAt?: Date,
+    expiresAt?: Date | null,
   ): Promise<SocialAccount> {
-    return this.prisma.socialAccount.update({
+    const account = await this.prisma.socialAccount.update({
       where: { id },
       data: {
-        accessToken,
-        refreshToken,
+        accessToken: this.tokenEncryption.encrypt(accessToken),
+        refreshToken: this.tokenEncryption.encrypt(refreshToken),
         tokenExpiresAt: expiresAt,
+        tokenRefreshAfter: refreshAfter(expiresAt),
         lastSyncAt: new Date(),
       },
     });
+    return this.tokenEncryption.decryptAccount(account);
   }
 
   // Update account metrics
   async updateAccountMetrics(
     id: string,
     metrics: {
+      displayName?: string;
       followerCount?: number;
       profileImageUrl?: string;
       isVerified?: boolean;
     },
   ): Promise<SocialAccount> {
-    return this.prisma.socialAccount.update({
+    const account = await this.prisma.socialAccount.update({
       where: { id },
       data: {
         ...metrics,
         lastSyncAt: new Date(),
       },
     });
+    return this.tokenEncryption.decryptAccount(account);
   }
 
   // Toggle account status
@@ -132,28 +229,30 @@ export class SocialAccountService {
     id: string,
     isActive: boolean,
   ): Promise<SocialAccount> {
-    return this.prisma.socialAccount.update({
+    const account = await this.prisma.socialAccount.update({
       where: { id },
       data: {
         isActive,
         lastSyncAt: new Date(),
       },
     });
+    return this.tokenEncryption.decryptAccount(account);
   }
 
   // Toggle auto-post setting
   async toggleAutoPost(id: string, autoPost: boolean): Promise<SocialAccount> {
-    return this.prisma.socialAccount.update({
+    const account = await this.prisma.socialAccount.update({
       where: { id },
       data: {
         autoPost,
       },
     });
+    return this.tokenEncryption.decryptAccount(account);
   }
 
   // Get active accounts for posting
   async getActiveAccountsForPosting(userId?: string) {
-    return this.prisma.socialAccount.findMany({
+    const accounts = await this.prisma.socialAccount.findMany({
       where: {
         ...(userId && { userId }),
         isActive: true,
@@ -165,25 +264,121 @@ export class SocialAccountService {
         user: true,
       },
     });
+    return accounts.map((account) =>
+      this.tokenEncryption.decryptAccount(account),
+    );
   }
 
   // Get accounts needing token refresh
   async getAccountsNeedingRefresh(): Promise<SocialAccount[]> {
-    const tomorrow = new Date();
+    const now = new Date();
+    const tomorrow = new Date(now);
     tomorrow.setDate(tomorrow.getDate() + 1);
 
-    return this.prisma.socialAccount.findMany({
+    const accounts = await this.prisma.socialAccount.findMany({
       where: {
         isActive: true,
         refreshToken: { not: null },
-        tokenExpiresAt: {
-          lt: tomorrow,
-        },
+        OR: [
+          { tokenRefreshAfter: { lte: now } },
+          // Tokens stored before refresh times were tracked
+          { tokenRefreshAfter: null, tokenExpiresAt: { lt: tomorrow } },
+        ],
       },
       include: {
         user: true,
       },
     });
+    return accounts.map((account) =>
+      this.tokenEncryption.decryptAccount(account),
+    );
+  }
+
+  // Get active accounts whose token expired and cannot be refreshed
+  async getAccountsWithExpiredTokens(): Promise<SocialAccount[]> {
+    const accounts = await this.prisma.socialAccount.findMany({
+      where: {
+        isActive: true,
+        refreshToken: null,
+        tokenExpiresAt: { lt: new Date() },
+      },
+    });
+    return accounts.map((account) =>
+      this.tokenEncryption.decryptAccount(account),
+    );
+  }
+
+  // Re-encrypt stored tokens with the active key. Plain text left over from
+  // before encryption is encrypted too; rows already on the active key are
+  // skipped, so an interrupted run can simply be started again.
+  async reencryptTokens(
+    options: { batchSize?: number; dryRun?: boolean } = {},
+  ): Promise<{ scanned: number; updated: number }> {
+    const batchSize = options.batchSize ?? 100;
+    let scanned = 0;
+    let updated = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const rows = await this.prisma.socialAccount.findMany({
+        select: { id: true, accessToken: true, refreshToken: true },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        scanned++;
+        const rotateAccess = this.tokenEncryption.needsRotation(
+          row.accessToken,
+        );
+        const rotateRefresh = this.tokenEncryption.needsRotation(
+          row.refreshToken,
+        );
+        if (!rotateAccess && !rotateRefresh) {
+          continue;
+        }
+
+        updated++;
+        if (options.dryRun) {
+          continue;
+        }
+        // Written directly: the values are already sealed
+        await this.prisma.socialAccount.update({
+          where: { id: row.id },
+          data: {
+            ...(rotateAccess && {
+              accessToken: this.tokenEncryption.rotate(row.accessToken),
+            }),
+            ...(rotateRefresh && {
+              refreshToken: this.tokenEncryption.rotate(row.refreshToken),
+            }),
+          },
+        });
+      }
+      cursor = rows[rows.length - 1].id;
+    }
+
+    return { scanned, updated };
+  }
+
+  // Count posts of a user due to publish since a given date, including those
+  // scheduled later. Posts are counted by their scheduled time, so a post
+  // retried or rescheduled into the window counts whenever it was created.
+  async countUserPostsSince(userId: string, since: Date): Promise<number> {
+    return this.prisma.socialPost.count({
+      where: {
+        socialAccount: { userId },
+        OR: [
+          { scheduledFor: { gte: since } },
+          { scheduledFor: null, createdAt: { gte: since } },
+        ],
+        status: { notIn: ['failed', 'cancelled'] },
+      },
+    });
   }
 
   // Get social account analytics
@@ -264,8 +459,24 @@ export class SocialAccountService {
 
   // Disconnect social account
   async disconnectAccount(id: string): Promise<SocialAccount> {
-    return this.prisma.socialAccount.delete({
+    const account = await this.prisma.socialAccount.delete({
       where: { id },
     });
+    return this.tokenEncryption.decryptAccount(account);
+  }
+}
+
+// When to refresh a token expiring at `expiresAt`: 10% of its lifetime
+// before it expires, but at least 5 minutes before. Null when it does not
+// expire.
+function refreshAfter(
+  expiresAt: Date | null | undefined,
+  issuedAt = new Date(),
+): Date | null {
+  if (!expiresAt) {
+    return null;
   }
+  const lifetimeMs = expiresAt.getTime() - issuedAt.getTime();
+  const leadMs = Math.max(MIN_REFRESH_LEAD_MS, lifetimeMs / 10);
+  return new Date(expiresAt.getTime() - leadMs);
 }
@@ -0,0 +1,154 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { SocialAccount, SocialPost, Video, Prisma } from '@prisma/client';
+import { TokenEncryptionService } from '../security/token-encryption.service';
+
+export type SocialPostWithRelations = SocialPost & {
+  socialAccount: SocialAccount;
+  video: Video;
+};
+
+// Statuses that still count as an upcoming or in-flight publication
+export const OPEN_SOCIAL_POST_STATUSES = ['scheduled', 'publishing'];
+
+@Injectable()
+export class SocialPostService {
+  constructor(
+    private prisma: PrismaService,
+    private tokenEncryption: TokenEncryptionService,
+  ) {}
+
+  // Create several posts at once
+  async createPosts(
+    posts: Prisma.SocialPostUncheckedCreateInput[],
+  ): Promise<SocialPost[]> {
+    return this.prisma.$transaction(
+      posts.map((data) => this.prisma.socialPost.create({ data })),
+    );
+  }
+
+  // Get post by ID with its account (tokens decrypted) and video
+  async getPostById(id: string): Promise<SocialPostWithRelations | null> {
+    const post = await this.prisma.socialPost.findUnique({
+      where: { id },
+      include: {
+        socialAccount: true,
+        video: true,
+      },
+    });
+    return (
+      post && {
+        ...post,
+        socialAccount: this.tokenEncryption.decryptAccount(post.socialAccount),
+      }
+    );
+  }
+
+  // Get posts belonging to a user
+  async getUserPosts(
+    userId: string,
+    filters: {
+      status?: string;
+      videoId?: string;
+      socialAccountId?: string;
+      skip?: number;
+      take?: number;
+    } = {},
+  ): Promise<{ posts: SocialPost[]; total: number }> {
+    const where: Prisma.SocialPostWhereInput = {
+      socialAccount: { userId },
+      ...(filters.status && { status: filters.status }),
+      ...(filters.videoId && { videoId: filters.videoId }),
+      ...(filters.socialAccountId && {
+        socialAccountId: filters.socialAccountId,
+      }),
+    };
+
+    const [posts, total] = await this.prisma.$transaction([
+      this.prisma.socialPost.findMany({
+        where,
+        orderBy: [{ scheduledFor: 'desc' }, { createdAt: 'desc' }],
+        skip: filters.skip,
+        take: filters.take,
+      }),
+      this.prisma.socialPost.count({ where }),
+    ]);
+
+    return { posts, total };
+  }
+
+  // Find open posts of a video on the given accounts
+  async findOpenPosts(
+    videoId: string,
+    socialAccountIds: string[],
+  ): Promise<SocialPost[]> {
+    return this.prisma.socialPost.findMany({
+      where: {
+        videoId,
+        socialAccountId: { in: socialAccountIds },
+        status: { in: OPEN_SOCIAL_POST_STATUSES },
+      },
+    });
+  }
+
+  // Get an account's published posts, most recent first
+  async getPublishedPostsForAccount(
+    socialAccountId: string,
+    options: { since?: Date; take?: number } = {},
+  ): Promise<SocialPost[]> {
+    return this.prisma.socialPost.findMany({
+      where: {
+        socialAccountId,
+        status: 'published',
+        platformPostId: { not: null },
+        ...(options.since && { publishedAt: { gte: options.since } }),
+      },
+      orderBy: { publishedAt: 'desc' },
+      take: options.take,
+    });
+  }
+
+  // Get the published posts of a series' videos within a time range
+  async getSeriesPostsPublishedBetween(
+    seriesId: string,
+    start: Date,
+    end: Date,
+  ): Promise<SocialPost[]> {
+    return this.prisma.socialPost.findMany({
+      where: {
+        video: { seriesId },
+        status: 'published',
+        publishedAt: { gte: start, lt: end },
+      },
+      orderBy: { publishedAt: 'asc' },
+    });
+  }
+
+  // Update post
+  async updatePost(
+    id: string,
+    data: Prisma.SocialPostUpdateInput,
+  ): Promise<SocialPost> {
+    return this.prisma.socialPost.update({
+      where: { id },
+      data,
+    });
+  }
+
+  // Mark post as published on the platform
+  async markPublished(
+    id: string,
+    platformPostId: string,
+    publishedAt: Date,
+  ): Promise<SocialPost> {
+    return this.prisma.socialPost.update({
+      where: { id },
+      data: {
+        status: 'published',
+        platformPostId,
+        publishedAt,
+        errorMessage: null,
+      },
+    });
+  }
+}
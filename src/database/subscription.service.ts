@@ -0,0 +1,222 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma, SubscriptionPlan, UserSubscription } from '@prisma/client';
+
+export type UserSubscriptionWithPlan = UserSubscription & {
+  plan: SubscriptionPlan;
+};
+
+// Statuses that grant access to plan features
+export const ACTIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing'];
+
+const MB_PER_GB = 1024;
+
+@Injectable()
+export class SubscriptionService {
+  constructor(private prisma: PrismaService) {}
+
+  // List plans available for purchase
+  async getActivePlans(): Promise<SubscriptionPlan[]> {
+    return this.prisma.subscriptionPlan.findMany({
+      where: { isActive: true },
+      orderBy: {
+        priceMonthly: 'asc',
+      },
+    });
+  }
+
+  // Find plan by ID
+  async getPlanById(id: string): Promise<SubscriptionPlan | null> {
+    return this.prisma.subscriptionPlan.findUnique({
+      where: { id },
+    });
+  }
+
+  // Create a subscription for a user
+  async createSubscription(data: {
+    userId: string;
+    planId: string;
+    billingCycle: string;
+    status?: string;
+    currentPeriodStart?: Date;
+    currentPeriodEnd?: Date;
+    stripeSubscriptionId?: string;
+    stripeCustomerId?: string;
+    stripeEventAt?: Date;
+  }): Promise<UserSubscriptionWithPlan> {
+    return this.prisma.userSubscription.create({
+      data,
+      include: {
+        plan: true,
+      },
+    });
+  }
+
+  // Find subscription by Stripe subscription ID
+  async findByStripeSubscriptionId(
+    stripeSubscriptionId: string,
+  ): Promise<UserSubscriptionWithPlan | null> {
+    return this.prisma.userSubscription.findUnique({
+      where: { stripeSubscriptionId },
+      include: {
+        plan: true,
+      },
+    });
+  }
+
+  // Record a Stripe event as being applied. Returns false if it already
+  // was, so redelivered events are applied only once.
+  async recordBillingEvent(id: string, type: string): Promise<boolean> {
+    try {
+      await this.prisma.billingEvent.create({ data: { id, type } });
+      return true;
+    } catch (error) {
+      if (error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Forget a Stripe event that failed to apply, so its redelivery is retried
+  async forgetBillingEvent(id: string): Promise<void> {
+    await this.prisma.billingEvent.deleteMany({ where: { id } });
+  }
+
+  // Update subscription
+  async updateSubscription(
+    id: string,
+    data: Prisma.UserSubscriptionUncheckedUpdateInput,
+  ): Promise<UserSubscriptionWithPlan> {
+    return this.prisma.userSubscription.update({
+      where: { id },
+      data: {
+        ...data,
+        updatedAt: new Date(),
+      },
+      include: {
+        plan: true,
+      },
+    });
+  }
+
+  // Get the user's current active subscription
+  async getActiveSubscription(
+    userId: string,
+  ): Promise<UserSubscriptionWithPlan | null> {
+    return this.prisma.userSubscription.findFirst({
+      where: {
+        userId,
+        status: { in: ACTIVE_SUBSCRIPTION_STATUSES },
+      },
+      include: {
+        plan: true,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+  }
+
+  // Get the user's latest subscription still waiting for its first payment
+  async getPendingSubscription(
+    userId: string,
+  ): Promise<UserSubscriptionWithPlan | null> {
+    return this.prisma.userSubscription.findFirst({
+      where: {
+        userId,
+        status: 'incomplete',
+        stripeSubscriptionId: null,
+      },
+      include: {
+        plan: true,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+  }
+
+  // Cancel the user's other subscriptions not billed through Stripe, once
+  // the given one has become active
+  async cancelOtherSubscriptions(
+    userId: string,
+    keepId: string,
+  ): Promise<void> {
+    await this.prisma.userSubscription.updateMany({
+      where: {
+        userId,
+        id: { not: keepId },
+        stripeSubscriptionId: null,
+        status: { in: [...ACTIVE_SUBSCRIPTION_STATUSES, 'incomplete'] },
+      },
+      data: { status: 'canceled' },
+    });
+  }
+
+  // Reset the monthly usage counters (and move the period, if given) unless
+  // they were already reset since `windowStart`. The check is part of the
+  // update, so concurrent requests reset a window only once. Returns whether
+  // this call did the reset.
+  async resetUsagePeriod(
+    id: string,
+    windowStart: Date,
+    period?: { currentPeriodStart: Date; currentPeriodEnd: Date },
+  ): Promise<boolean> {
+    const { count } = await this.prisma.userSubscription.updateMany({
+      where: {
+        id,
+        OR: [{ usageResetAt: null }, { usageResetAt: { lt: windowStart } }],
+      },
+      data: {
+        ...period,
+        videosUsedThisMonth: 0,
+        usageResetAt: new Date(),
+      },
+    });
+    return count > 0;
+  }
+
+  // Increment the monthly video counter unless that would take it past
+  // `max` (null for no limit). The check is part of the update, so
+  // concurrent requests cannot overshoot. Returns whether it was counted.
+  async incrementVideoUsage(
+    id: string,
+    max: number | null,
+    count = 1,
+  ): Promise<boolean> {
+    const { count: updated } = await this.prisma.userSubscription.updateMany({
+      where: {
+        id,
+        ...(max !== null && { videosUsedThisMonth: { lte: max - count } }),
+      },
+      data: {
+        videosUsedThisMonth: { increment: count },
+      },
+    });
+    return updated > 0;
+  }
+
+  // Undo one incrementVideoUsage
+  async decrementVideoUsage(id: string): Promise<void> {
+    await this.prisma.userSubscription.updateMany({
+      where: { id, videosUsedThisMonth: { gt: 0 } },
+      data: { videosUsedThisMonth: { decrement: 1 } },
+    });
+  }
+
+  // Add (or subtract, with a negative value) storage usage in MB. Usage is
+  // summed in MB so small files are not rounded away, and the GB shown to
+  // users is derived from the total in the same statement. Never goes below
+  // zero, in case deleted files were never counted.
+  async adjustStorageUsage(id: string, deltaMb: number): Promise<void> {
+    const delta = new Prisma.Decimal(deltaMb.toFixed(3));
+    await this.prisma.$executeRaw(Prisma.sql`
+      UPDATE user_subscriptions
+      SET storage_used_mb = GREATEST(storage_used_mb + ${delta}, 0),
+          storage_used_gb = round(GREATEST(storage_used_mb + ${delta}, 0) / ${MB_PER_GB}, 2),
+          updated_at = now()
+      WHERE id = ${id}::uuid
+    `);
+  }
+}
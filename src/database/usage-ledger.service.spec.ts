@@ -0,0 +1,23 @@
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsageLedgerService } from './usage-ledger.service';
+
+describe('UsageLedgerService.refreshVideoCost', () => {
+  it('stores the summed ledger cost rounded to 4 decimal places', async () => {
+    const prisma = {
+      usageLedgerEntry: {
+        aggregate: jest.fn().mockResolvedValue({
+          _sum: { cost: new Prisma.Decimal('12345.678951') },
+        }),
+      },
+      video: { update: jest.fn().mockResolvedValue({}) },
+    };
+    const service = new UsageLedgerService(prisma as unknown as PrismaService);
+
+    await expect(service.refreshVideoCost('video-1')).resolves.toBe(12345.679);
+    expect(prisma.video.update).toHaveBeenCalledWith({
+      where: { id: 'video-1' },
+      data: { generationCost: 12345.679 },
+    });
+  });
+});
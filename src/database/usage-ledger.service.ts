@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AiServiceCost, Prisma } from '@prisma/client';
+
+@Injectable()
+export class UsageLedgerService {
+  constructor(private prisma: PrismaService) {}
+
+  // Latest rate for a service operation that was in effect at a given time
+  async findEffectiveRate(
+    serviceName: string,
+    operationType: string,
+    at: Date,
+  ): Promise<AiServiceCost | null> {
+    return this.prisma.aiServiceCost.findFirst({
+      where: {
+        serviceName,
+        operationType,
+        effectiveDate: { lte: at },
+      },
+      orderBy: { effectiveDate: 'desc' },
+    });
+  }
+
+  // Append priced usage entries
+  async createEntries(
+    entries: Prisma.UsageLedgerEntryCreateManyInput[],
+  ): Promise<number> {
+    const { count } = await this.prisma.usageLedgerEntry.createMany({
+      data: entries,
+    });
+    return count;
+  }
+
+  // Set Video.generationCost to the sum of the video's ledger entries.
+  // Entries are priced to 6 decimal places, the video cost keeps 4.
+  async refreshVideoCost(videoId: string): Promise<number> {
+    const { _sum } = await this.prisma.usageLedgerEntry.aggregate({
+      where: { videoId },
+      _sum: { cost: true },
+    });
+    const total = (_sum.cost ?? new Prisma.Decimal(0))
+      .toDecimalPlaces(4)
+      .toNumber();
+
+    await this.prisma.video.update({
+      where: { id: videoId },
+      data: { generationCost: total },
+    });
+    return total;
+  }
+
+  // Total cost of a user's usage in a time range
+  async getUserCostBetween(
+    userId: string,
+    start: Date,
+    end: Date,
+  ): Promise<number> {
+    const { _sum } = await this.prisma.usageLedgerEntry.aggregate({
+      where: { userId, occurredAt: { gte: start, lt: end } },
+      _sum: { cost: true },
+    });
+    return Number(_sum.cost ?? 0);
+  }
+
+  // A user's usage in a time range grouped by service operation
+  async getUserCostsByService(userId: string, start: Date, end: Date) {
+    return this.prisma.usageLedgerEntry.groupBy({
+      by: ['serviceName', 'operationType', 'unitType'],
+      where: { userId, occurredAt: { gte: start, lt: end } },
+      _sum: { units: true, cost: true },
+      _count: { _all: true },
+      orderBy: [{ serviceName: 'asc' }, { operationType: 'asc' }],
+    });
+  }
+
+  // A user's usage in a time range grouped by series and video
+  async getUserCostsByVideo(userId: string, start: Date, end: Date) {
+    return this.prisma.usageLedgerEntry.groupBy({
+      by: ['seriesId', 'videoId'],
+      where: { userId, occurredAt: { gte: start, lt: end } },
+      _sum: { cost: true },
+    });
+  }
+}
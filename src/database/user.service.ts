@@ -20,6 +20,20 @@ export class UserService {
     });
   }
 
+  // Get a user's profile, creating it on first sight
+  async provisionProfile(data: {
+    id: string; // Supabase auth user ID
+    email: string;
+    fullName?: string;
+    avatarUrl?: string;
+  }): Promise<Profile> {
+    return this.prisma.profile.upsert({
+      where: { id: data.id },
+      create: data,
+      update: {},
+    });
+  }
+
   // Find user by ID
   async findProfileById(id: string): Promise<Profile | null> {
     return this.prisma.profile.findUnique({
@@ -31,7 +45,9 @@ export class UserService {
           },
         },
         userSeries: true,
-        socialAccounts: true,
+        socialAccounts: {
+          omit: { accessToken: true, refreshToken: true },
+        },
       },
     });
   }
@@ -100,7 +116,9 @@ export class UserService {
           },
           take: 30,
         },
-        socialAccounts: true,
+        socialAccounts: {
+          omit: { accessToken: true, refreshToken: true },
+        },
         videos: {
           orderBy: {
             createdAt: 'desc',
@@ -111,6 +129,16 @@ export class UserService {
     });
   }
 
+  // Get the ID and timezone of every active profile
+  async getActiveProfileTimezones(): Promise<
+    { id: string; timezone: string | null }[]
+  > {
+    return this.prisma.profile.findMany({
+      where: { isActive: true },
+      select: { id: true, timezone: true },
+    });
+  }
+
   // Delete user profile (soft delete by setting isActive to false)
   async deactivateProfile(id: string): Promise<Profile> {
     return this.prisma.profile.update({
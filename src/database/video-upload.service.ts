@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma, VideoUpload } from '@prisma/client';
+
+@Injectable()
+export class VideoUploadService {
+  constructor(private prisma: PrismaService) {}
+
+  // Start an upload session
+  async createUpload(data: {
+    userId: string;
+    seriesId: string;
+    title: string;
+    description?: string;
+    tags?: string[];
+    fileName: string;
+    contentType: string;
+    totalBytes: number;
+    expiresAt: Date;
+  }): Promise<VideoUpload> {
+    return this.prisma.videoUpload.create({
+      data: {
+        ...data,
+        tags: data.tags || [],
+        totalBytes: BigInt(data.totalBytes),
+      },
+    });
+  }
+
+  // Find upload session by ID
+  async findUploadById(id: string): Promise<VideoUpload | null> {
+    return this.prisma.videoUpload.findUnique({
+      where: { id },
+    });
+  }
+
+  // Update the progress or outcome of an upload
+  async updateUpload(
+    id: string,
+    data: {
+      receivedBytes?: number;
+      status?: string;
+      errorMessage?: string;
+      videoId?: string;
+    },
+  ): Promise<VideoUpload> {
+    const { receivedBytes, ...rest } = data;
+    return this.prisma.videoUpload.update({
+      where: { id },
+      data: {
+        ...rest,
+        ...(receivedBytes !== undefined && {
+          receivedBytes: BigInt(receivedBytes),
+        }),
+      },
+    });
+  }
+
+  // Get unfinished uploads whose session has expired
+  async getExpiredUploads(
+    now = new Date(),
+    limit = 100,
+  ): Promise<VideoUpload[]> {
+    return this.prisma.videoUpload.findMany({
+      where: { status: 'uploading', expiresAt: { lte: now } },
+      take: limit,
+    });
+  }
+
+  // Mark uploads as expired
+  async expireUploads(ids: string[]): Promise<Prisma.BatchPayload> {
+    return this.prisma.videoUpload.updateMany({
+      where: { id: { in: ids }, status: 'uploading' },
+      data: { status: 'expired' },
+    });
+  }
+}
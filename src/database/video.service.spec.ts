@@ -0,0 +1,47 @@
+import { PrismaService } from '../prisma/prisma.service';
+import { VideoService } from './video.service';
+
+describe('VideoService.updateVideoFiles', () => {
+  it('changes only the file fields', async () => {
+    const prisma = { video: { update: jest.fn().mockResolvedValue({}) } };
+    const service = new VideoService(prisma as unknown as PrismaService);
+
+    await service.updateVideoFiles('video-1', {
+      videoUrl: 'local://users/user-1/videos/video-1/video-1.mp4',
+      fileSizeMb: 3,
+    });
+
+    const [[{ where, data }]] = prisma.video.update.mock.calls;
+    expect(where).toEqual({ id: 'video-1' });
+    expect(Object.keys(data).sort()).toEqual([
+      'fileSizeMb',
+      'updatedAt',
+      'videoUrl',
+    ]);
+  });
+});
+
+describe('VideoService.getUserVideos', () => {
+  it('matches tags by substring, ignoring case', async () => {
+    const prisma = {
+      $queryRaw: jest.fn().mockResolvedValue([{ id: 'video-2' }]),
+      $transaction: jest.fn().mockResolvedValue([[], 0]),
+      video: { findMany: jest.fn(), count: jest.fn() },
+    };
+    const service = new VideoService(prisma as unknown as PrismaService);
+
+    await service.getUserVideos('user-1', {
+      search: '50%_Off',
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+      take: 10,
+    });
+
+    const [[query]] = prisma.$queryRaw.mock.calls;
+    expect(query.sql).toContain('tag ILIKE');
+    expect(query.values).toEqual(['user-1', '%50\\%\\_Off%']);
+
+    const [[{ where }]] = prisma.video.count.mock.calls;
+    expect(where.OR).toContainEqual({ id: { in: ['video-2'] } });
+  });
+});
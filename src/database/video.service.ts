@@ -1,6 +1,32 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { Video, Prisma } from '@prisma/client';
+import {
+  afterCursor,
+  PageCursor,
+  pageOrderBy,
+  SortFields,
+  SortOrder,
+  toPage,
+} from './page-cursor';
+
+const VIDEO_PROGRESS_FIELDS = {
+  id: true,
+  userId: true,
+  status: true,
+  generationProgress: true,
+  errorMessage: true,
+  videoUrl: true,
+  thumbnailUrl: true,
+  updatedAt: true,
+} satisfies Prisma.VideoSelect;
+
+export const VIDEO_SORT_FIELDS: SortFields = {
+  createdAt: 'date',
+  updatedAt: 'date',
+  title: 'string',
+  status: 'string',
+};
 
 @Injectable()
 export class VideoService {
@@ -16,6 +42,10 @@ export class VideoService {
     promptUsed: string;
     tags?: string[];
     generationSettings?: any;
+    autoPostSlotAt?: Date;
+    status?: string;
+    duration?: number;
+    resolution?: string;
   }): Promise<Video> {
     return this.prisma.video.create({
       data: {
@@ -35,40 +65,113 @@ export class VideoService {
         series: true,
         socialPosts: {
           include: {
-            socialAccount: true,
+            socialAccount: {
+              omit: { accessToken: true, refreshToken: true },
+            },
           },
         },
       },
     });
   }
 
-  // Get videos for a user
+  // Get one page of a user's videos, filtered and sorted in the database.
+  // Pages by cursor when one is given, otherwise by skip.
   async getUserVideos(
     userId: string,
-    options?: {
+    options: {
       status?: string;
       seriesId?: string;
-      limit?: number;
-      offset?: number;
+      search?: string;
+      sortBy: string;
+      sortOrder: SortOrder;
+      skip?: number;
+      take: number;
+      cursor?: PageCursor;
     },
   ) {
     const where: Prisma.VideoWhereInput = {
       userId,
-      ...(options?.status && { status: options.status }),
-      ...(options?.seriesId && { seriesId: options.seriesId }),
+      ...(options.status && { status: options.status }),
+      ...(options.seriesId && { seriesId: options.seriesId }),
+      ...(options.search && {
+        OR: [
+          { title: { contains: options.search, mode: 'insensitive' } },
+          { description: { contains: options.search, mode: 'insensitive' } },
+          {
+            id: {
+              in: await this.findVideoIdsByTag(userId, options.search),
+            },
+          },
+        ],
+      }),
     };
 
+    const [rows, total] = await this.prisma.$transaction([
+      this.prisma.video.findMany({
+        where: options.cursor
+          ? { AND: [where, afterCursor(options.cursor)] }
+          : where,
+        include: {
+          series: true,
+          socialPosts: true,
+        },
+        orderBy: pageOrderBy(options.sortBy, options.sortOrder),
+        skip: options.cursor ? undefined : options.skip,
+        take: options.take + 1,
+      }),
+      this.prisma.video.count({ where }),
+    ]);
+
+    const { items, nextCursor } = toPage(
+      rows,
+      options.take,
+      options.sortBy,
+      options.sortOrder,
+    );
+    return { videos: items, total, nextCursor };
+  }
+
+  // IDs of a user's videos with a tag containing `search`, ignoring case.
+  // Prisma can only match whole array elements, case-sensitively.
+  private async findVideoIdsByTag(
+    userId: string,
+    search: string,
+  ): Promise<string[]> {
+    const pattern = `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+    const rows = await this.prisma.$queryRaw<{ id: string }[]>(Prisma.sql`
+      SELECT id FROM videos
+      WHERE user_id = ${userId}::uuid
+        AND EXISTS (SELECT 1 FROM unnest(tags) AS tag WHERE tag ILIKE ${pattern})
+    `);
+    return rows.map((row) => row.id);
+  }
+
+  // Progress fields of a video, for live progress streams
+  async getVideoProgress(id: string) {
+    return this.prisma.video.findUnique({
+      where: { id },
+      select: VIDEO_PROGRESS_FIELDS,
+    });
+  }
+
+  // Progress of a user's videos that are still being generated or that
+  // changed after a given time
+  async getUserVideoProgress(
+    userId: string,
+    filters: { inProgressStatuses?: string[]; updatedAfter?: Date },
+  ) {
     return this.prisma.video.findMany({
-      where,
-      include: {
-        series: true,
-        socialPosts: true,
-      },
-      orderBy: {
-        createdAt: 'desc',
+      where: {
+        userId,
+        ...(filters.inProgressStatuses && {
+          status: { in: filters.inProgressStatuses },
+        }),
+        ...(filters.updatedAfter && {
+          updatedAt: { gt: filters.updatedAfter },
+        }),
       },
-      take: options?.limit || 20,
-      skip: options?.offset || 0,
+      select: VIDEO_PROGRESS_FIELDS,
+      orderBy: { updatedAt: 'asc' },
     });
   }
 
@@ -90,6 +193,27 @@ export class VideoService {
     });
   }
 
+  // Update video while a generation stage is running
+  async updateGenerationState(
+    id: string,
+    data: {
+      status: string;
+      generationProgress: number;
+      script?: string;
+      tags?: string[];
+      aiModelUsed?: string;
+    },
+  ): Promise<Video> {
+    return this.prisma.video.update({
+      where: { id },
+      data: {
+        ...data,
+        errorMessage: null,
+        updatedAt: new Date(),
+      },
+    });
+  }
+
   // Update video with generated content
   async updateVideoContent(
     id: string,
@@ -117,6 +241,24 @@ export class VideoService {
     });
   }
 
+  // Point a video at new files without touching its status
+  async updateVideoFiles(
+    id: string,
+    data: {
+      videoUrl?: string;
+      thumbnailUrl?: string;
+      fileSizeMb?: number;
+    },
+  ): Promise<Video> {
+    return this.prisma.video.update({
+      where: { id },
+      data: {
+        ...data,
+        updatedAt: new Date(),
+      },
+    });
+  }
+
   // Get videos by status
   async getVideosByStatus(status: string, limit = 50) {
     return this.prisma.video.findMany({
@@ -132,6 +274,55 @@ export class VideoService {
     });
   }
 
+  // Find the video queued by auto-posting for a series posting slot
+  async findAutoPostVideo(seriesId: string, slot: Date): Promise<Video | null> {
+    return this.prisma.video.findFirst({
+      where: {
+        seriesId,
+        autoPostSlotAt: slot,
+      },
+    });
+  }
+
+  // Get generated auto-post videos whose social posts are not scheduled yet
+  async getVideosAwaitingAutoPost(limit = 50): Promise<Video[]> {
+    return this.prisma.video.findMany({
+      where: {
+        status: 'ready',
+        generationSettings: {
+          path: ['autoPostStatus'],
+          equals: 'pending',
+        },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+      take: limit,
+    });
+  }
+
+  // Merge values into the video's generation settings
+  async updateGenerationSettings(
+    id: string,
+    settings: Record<string, any>,
+  ): Promise<Video> {
+    const video = await this.prisma.video.findUnique({
+      where: { id },
+      select: { generationSettings: true },
+    });
+
+    return this.prisma.video.update({
+      where: { id },
+      data: {
+        generationSettings: {
+          ...((video?.generationSettings as Record<string, any>) || {}),
+          ...settings,
+        },
+        updatedAt: new Date(),
+      },
+    });
+  }
+
   // Get video analytics
   async getVideoAnalytics(userId: string, period = 30) {
     const startDate = new Date();
@@ -153,6 +344,20 @@ export class VideoService {
     });
   }
 
+  // Get the stored files of every video in a series
+  async getSeriesVideoFiles(seriesId: string) {
+    return this.prisma.video.findMany({
+      where: { seriesId },
+      select: {
+        id: true,
+        userId: true,
+        videoUrl: true,
+        thumbnailUrl: true,
+        fileSizeMb: true,
+      },
+    });
+  }
+
   // Delete video
   async deleteVideo(id: string): Promise<Video> {
     return this.prisma.video.delete({
@@ -0,0 +1,57 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+
+export class SessionUserDto {
+  @ApiProperty({ description: 'Profile ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'User email address' })
+  @Expose()
+  email: string;
+
+  @ApiPropertyOptional({ description: 'Full name' })
+  @Expose()
+  fullName?: string;
+}
+
+export class AuthSessionResponseDto {
+  @ApiProperty({ description: 'Access token to send as a Bearer token' })
+  @Expose()
+  accessToken: string;
+
+  @ApiProperty({ example: 'bearer' })
+  @Expose()
+  tokenType: string;
+
+  @ApiProperty({ description: 'Seconds until the access token expires' })
+  @Expose()
+  expiresIn: number;
+
+  @ApiProperty({
+    description:
+      'Single-use token for getting a new access token; each refresh returns a new one',
+  })
+  @Expose()
+  refreshToken: string;
+
+  @ApiProperty({ type: SessionUserDto })
+  @Expose()
+  @Type(() => SessionUserDto)
+  user: SessionUserDto;
+}
+
+export class SignUpResponseDto {
+  @ApiProperty({ type: SessionUserDto })
+  @Expose()
+  @Type(() => SessionUserDto)
+  user: SessionUserDto;
+
+  @ApiProperty({
+    description:
+      'Always true: the account can sign in once the link in the verification email has been opened',
+    example: true,
+  })
+  @Expose()
+  emailVerificationRequired: boolean;
+}
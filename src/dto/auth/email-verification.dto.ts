@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString } from 'class-validator';
+
+export class VerifyEmailDto {
+  @ApiProperty({ description: 'Token from the verification email' })
+  @IsString()
+  token: string;
+}
+
+export class ResendVerificationDto {
+  @ApiProperty({
+    description: 'Email address of the account',
+    example: 'user@example.com',
+  })
+  @IsEmail()
+  email: string;
+}
@@ -0,0 +1,41 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { CategoryQueryDto, TemplateQueryDto } from './catalog-query.dto';
+
+// Same options as the global ValidationPipe in main.ts
+const transform = <T>(cls: new () => T, query: Record<string, string>) =>
+  plainToInstance(cls, query, { enableImplicitConversion: true });
+
+describe('catalog query DTOs', () => {
+  it("reads 'false' as false", async () => {
+    const query = transform(TemplateQueryDto, {
+      isPopular: 'false',
+      isPremium: 'false',
+    });
+
+    expect(query.isPopular).toBe(false);
+    expect(query.isPremium).toBe(false);
+    expect(await validate(query)).toHaveLength(0);
+  });
+
+  it("reads 'true' as true", () => {
+    expect(transform(CategoryQueryDto, { isPopular: 'true' }).isPopular).toBe(
+      true,
+    );
+  });
+
+  it('leaves filters that were not given unset', () => {
+    const query = transform(TemplateQueryDto, { page: '2' });
+
+    expect(query.page).toBe(2);
+    expect(query.isPopular).toBeUndefined();
+    expect(query.isPremium).toBeUndefined();
+  });
+
+  it('ignores values other than true and false', async () => {
+    const query = transform(CategoryQueryDto, { isPopular: 'yes' });
+
+    expect(query.isPopular).toBeUndefined();
+    expect(await validate(query)).toHaveLength(0);
+  });
+});
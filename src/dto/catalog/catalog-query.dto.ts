@@ -0,0 +1,43 @@
+import { ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { IsOptional, IsBoolean, IsUUID } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { PaginationDto, toOptionalBoolean } from '../common/pagination.dto';
+
+export class TemplateQueryDto extends PickType(PaginationDto, [
+  'page',
+  'limit',
+] as const) {
+  @ApiPropertyOptional({ description: 'Filter by content category ID' })
+  @IsOptional()
+  @IsUUID()
+  categoryId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only templates in categories featured as popular',
+    type: Boolean,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(toOptionalBoolean)
+  isPopular?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Filter by premium status',
+    type: Boolean,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(toOptionalBoolean)
+  isPremium?: boolean;
+}
+
+export class CategoryQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by popular flag',
+    type: Boolean,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(toOptionalBoolean)
+  isPopular?: boolean;
+}
@@ -0,0 +1,33 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+
+export class CategoryResponseDto {
+  @ApiProperty({ description: 'Category ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Category name', example: 'Motivation' })
+  @Expose()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Category description' })
+  @Expose()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Icon name or URL', example: 'flame' })
+  @Expose()
+  icon?: string;
+
+  @ApiProperty({ description: 'Whether the category is featured as popular' })
+  @Expose()
+  isPopular: boolean;
+
+  @ApiProperty({ description: 'Display order (ascending)' })
+  @Expose()
+  sortOrder: number;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  @Expose()
+  @Transform(({ value }) => value?.toISOString())
+  createdAt: string;
+}
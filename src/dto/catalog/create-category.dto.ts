@@ -0,0 +1,48 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsInt,
+  MaxLength,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export class CreateCategoryDto {
+  @ApiProperty({ description: 'Category name', example: 'Motivation' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Category description',
+    example: 'Uplifting stories and daily motivation',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Icon name or URL', example: 'flame' })
+  @IsOptional()
+  @IsString()
+  icon?: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether the category is featured as popular',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  isPopular?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Display order (ascending)',
+    example: 0,
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  sortOrder?: number;
+}
@@ -0,0 +1,102 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  IsBoolean,
+  IsObject,
+  IsUUID,
+  IsUrl,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export class CreateTemplateDto {
+  @ApiProperty({ description: 'Template name', example: 'Daily Stoic Quote' })
+  @IsString()
+  @MaxLength(150)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Template description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Content category ID' })
+  @IsOptional()
+  @IsUUID()
+  categoryId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Default prompt used for content generation',
+    example: 'Explain a stoic quote and how to apply it today',
+  })
+  @IsOptional()
+  @IsString()
+  defaultPrompt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Default visual style settings',
+    example: { theme: 'minimal', colors: ['#111111', '#f5f5f5'] },
+  })
+  @IsOptional()
+  @IsObject()
+  defaultStyle?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: 'Default voice settings for narration',
+    example: { voice: 'male', speed: 0.95 },
+  })
+  @IsOptional()
+  @IsObject()
+  defaultVoiceSettings?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: 'Estimated video duration in seconds',
+    example: 45,
+    minimum: 15,
+    maximum: 300,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(15)
+  @Max(300)
+  @Type(() => Number)
+  estimatedDuration?: number;
+
+  @ApiPropertyOptional({
+    description: 'Content type produced by the template',
+    example: 'story',
+    default: 'story',
+  })
+  @IsOptional()
+  @IsString()
+  contentType?: string;
+
+  @ApiPropertyOptional({ description: 'Thumbnail image URL' })
+  @IsOptional()
+  @IsUrl()
+  thumbnailUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether the template requires a premium plan',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  isPremium?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Initial popularity score',
+    example: 0,
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  popularityScore?: number;
+}
@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform, Type } from 'class-transformer';
+
+export class TemplateCategoryDto {
+  @ApiProperty({ description: 'Category ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Category name' })
+  @Expose()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Icon name or URL' })
+  @Expose()
+  icon?: string;
+}
+
+export class TemplateResponseDto {
+  @ApiProperty({ description: 'Template ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Template name' })
+  @Expose()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Template description' })
+  @Expose()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Content category ID' })
+  @Expose()
+  categoryId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Content category',
+    type: TemplateCategoryDto,
+  })
+  @Expose()
+  @Type(() => TemplateCategoryDto)
+  category?: TemplateCategoryDto;
+
+  @ApiPropertyOptional({ description: 'Default prompt for content generation' })
+  @Expose()
+  defaultPrompt?: string;
+
+  @ApiPropertyOptional({ description: 'Default visual style settings' })
+  @Expose()
+  defaultStyle?: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Default voice settings' })
+  @Expose()
+  defaultVoiceSettings?: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Estimated video duration in seconds' })
+  @Expose()
+  estimatedDuration?: number;
+
+  @ApiPropertyOptional({ description: 'Content type', example: 'story' })
+  @Expose()
+  contentType?: string;
+
+  @ApiPropertyOptional({ description: 'Thumbnail image URL' })
+  @Expose()
+  thumbnailUrl?: string;
+
+  @ApiProperty({ description: 'Whether the template requires a premium plan' })
+  @Expose()
+  isPremium: boolean;
+
+  @ApiProperty({
+    description:
+      'Popularity score, increased whenever a series is created from the template',
+  })
+  @Expose()
+  popularityScore: number;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  @Expose()
+  @Transform(({ value }) => value?.toISOString())
+  createdAt: string;
+}
@@ -50,8 +50,27 @@ export class PaginationDto {
   @IsOptional()
   @IsEnum(['asc', 'desc'])
   sortOrder?: 'asc' | 'desc' = 'desc';
+
+  @ApiPropertyOptional({
+    description:
+      'Cursor from meta.nextCursor of the previous page. Takes the place of page and stays correct while items are added.',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
 }
 
+// Query values arrive as strings, so only 'true'/'false' set a filter. Reads
+// the raw value: implicit conversion has already turned 'false' into true.
+export const toOptionalBoolean = ({ obj, key }) => {
+  const value = obj[key];
+  return value === 'true' || value === true
+    ? true
+    : value === 'false' || value === false
+      ? false
+      : undefined;
+};
+
 export class PaginationMetaDto {
   @ApiProperty({ description: 'Current page number' })
   page: number;
@@ -70,6 +89,13 @@ export class PaginationMetaDto {
 
   @ApiProperty({ description: 'Whether there is a previous page' })
   hasPrev: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Cursor of the next page; null on the last page',
+    type: String,
+    nullable: true,
+  })
+  nextCursor?: string | null;
 }
 
 export class PaginatedResponseDto<T> {
@@ -79,7 +105,15 @@ export class PaginatedResponseDto<T> {
   @ApiProperty({ description: 'Pagination metadata', type: PaginationMetaDto })
   meta: PaginationMetaDto;
 
-  constructor(data: T[], total: number, page: number, limit: number) {
+  // Lists that support cursors pass the next one, and whether this page
+  // was itself requested by cursor (page is meaningless then)
+  constructor(
+    data: T[],
+    total: number,
+    page: number,
+    limit: number,
+    cursor?: { next: string | null; used: boolean },
+  ) {
     this.data = data;
     const totalPages = Math.ceil(total / limit);
 
@@ -88,8 +122,9 @@ export class PaginatedResponseDto<T> {
       limit,
       total,
       totalPages,
-      hasNext: page < totalPages,
-      hasPrev: page > 1,
+      hasNext: cursor ? cursor.next !== null : page < totalPages,
+      hasPrev: cursor?.used || page > 1,
+      ...(cursor && { nextCursor: cursor.next }),
     };
   }
 }
@@ -0,0 +1,23 @@
+import { buildMessage, ValidateBy, ValidationOptions } from 'class-validator';
+import { isPublicHttpsUrl } from '../../security/public-address';
+
+// https URL whose host is not local or private, for URLs the server calls
+export function IsPublicHttpsUrl(
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isPublicHttpsUrl',
+      validator: {
+        validate: (value) =>
+          typeof value === 'string' && isPublicHttpsUrl(value),
+        defaultMessage: buildMessage(
+          (eachPrefix) =>
+            `${eachPrefix}$property must be an https URL with a public host`,
+          validationOptions,
+        ),
+      },
+    },
+    validationOptions,
+  );
+}
@@ -0,0 +1,19 @@
+import { ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { PaginationDto } from '../common/pagination.dto';
+
+export class NotificationQueryDto extends PickType(PaginationDto, [
+  'page',
+  'limit',
+] as const) {
+  @ApiPropertyOptional({
+    description: 'Only return unread notifications',
+    type: Boolean,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  unreadOnly?: boolean;
+}
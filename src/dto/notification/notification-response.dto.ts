@@ -0,0 +1,48 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+
+export class NotificationResponseDto {
+  @ApiProperty({ description: 'Notification ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Notification type',
+    example: 'video_ready',
+    enum: [
+      'video_ready',
+      'video_failed',
+      'post_published',
+      'post_failed',
+      'social_reconnect_required',
+    ],
+  })
+  @Expose()
+  type: string;
+
+  @ApiProperty({ description: 'Short title' })
+  @Expose()
+  title: string;
+
+  @ApiProperty({ description: 'Notification text' })
+  @Expose()
+  message: string;
+
+  @ApiPropertyOptional({ description: 'API path of the related resource' })
+  @Expose()
+  actionUrl?: string;
+
+  @ApiProperty({ description: 'Whether the notification has been read' })
+  @Expose()
+  isRead: boolean;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  @Expose()
+  @Transform(({ value }) => value.toISOString())
+  createdAt: string;
+}
+
+export class UnreadCountResponseDto {
+  @ApiProperty({ description: 'Number of unread notifications' })
+  count: number;
+}
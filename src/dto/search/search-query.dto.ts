@@ -0,0 +1,47 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+
+export const SEARCH_TYPES = ['videos', 'series'];
+
+export class SearchQueryDto {
+  @ApiProperty({
+    description:
+      'Words to find; each matches as a prefix. Wrap words in double quotes to match them as a phrase.',
+    example: 'black hole "event horizon"',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  q: string;
+
+  @ApiPropertyOptional({
+    description: 'Only search videos or series. Searches both by default.',
+    enum: SEARCH_TYPES,
+  })
+  @IsOptional()
+  @IsEnum(SEARCH_TYPES)
+  type?: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum results of each type',
+    minimum: 1,
+    maximum: 50,
+    default: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  @Type(() => Number)
+  limit?: number = 10;
+}
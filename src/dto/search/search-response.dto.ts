@@ -0,0 +1,92 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class VideoSearchResultDto {
+  @ApiProperty({ description: 'Video ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Video title' })
+  title: string;
+
+  @ApiProperty({
+    description: 'Title with the matches wrapped in <mark> tags',
+    example: 'What happens inside a <mark>black</mark> <mark>hole</mark>',
+  })
+  titleHighlight: string;
+
+  @ApiProperty({
+    description:
+      'Fragments of the description and script around the matches, wrapped in <mark> tags. The text is not HTML-escaped.',
+  })
+  snippet: string;
+
+  @ApiProperty({ description: 'Relevance; higher is better' })
+  rank: number;
+
+  @ApiProperty({ description: 'Video status' })
+  status: string;
+
+  @ApiPropertyOptional({ description: 'Thumbnail URL' })
+  thumbnailUrl?: string;
+
+  @ApiProperty({ description: 'Series the video belongs to' })
+  series: { id: string; name: string };
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: string;
+}
+
+export class SeriesSearchResultDto {
+  @ApiProperty({ description: 'Series ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Series name' })
+  name: string;
+
+  @ApiProperty({ description: 'Name with the matches wrapped in <mark> tags' })
+  nameHighlight: string;
+
+  @ApiProperty({
+    description:
+      'Fragments of the description around the matches, wrapped in <mark> tags. The text is not HTML-escaped.',
+  })
+  snippet: string;
+
+  @ApiProperty({ description: 'Relevance; higher is better' })
+  rank: number;
+
+  @ApiProperty({ description: 'Whether the series is active' })
+  isActive: boolean;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: string;
+}
+
+export class VideoSearchResultsDto {
+  @ApiProperty({ type: [VideoSearchResultDto] })
+  data: VideoSearchResultDto[];
+
+  @ApiProperty({ description: 'Number of matching videos' })
+  total: number;
+}
+
+export class SeriesSearchResultsDto {
+  @ApiProperty({ type: [SeriesSearchResultDto] })
+  data: SeriesSearchResultDto[];
+
+  @ApiProperty({ description: 'Number of matching series' })
+  total: number;
+}
+
+export class SearchResponseDto {
+  @ApiPropertyOptional({
+    description: 'Matching videos, best first',
+    type: VideoSearchResultsDto,
+  })
+  videos?: VideoSearchResultsDto;
+
+  @ApiPropertyOptional({
+    description: 'Matching series, best first',
+    type: SeriesSearchResultsDto,
+  })
+  series?: SeriesSearchResultsDto;
+}
@@ -98,6 +98,14 @@ export class CreateSeriesDto {
   @Type(() => Number)
   videoDuration?: number;
 
+  @ApiPropertyOptional({
+    description: 'Content format (story, listicle, ...)',
+    example: 'story',
+  })
+  @IsOptional()
+  @IsString()
+  contentType?: string;
+
   @ApiPropertyOptional({
     description: 'Content style preference',
     example: 'engaging',
@@ -0,0 +1,28 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { SeriesQueryDto } from './series-query.dto';
+
+// Same options as the global ValidationPipe in main.ts
+const transform = (query: Record<string, string>) =>
+  plainToInstance(SeriesQueryDto, query, { enableImplicitConversion: true });
+
+describe('SeriesQueryDto', () => {
+  it("filters for inactive series on isActive='false'", async () => {
+    const query = transform({ isActive: 'false' });
+
+    expect(query.isActive).toBe(false);
+    expect(await validate(query)).toHaveLength(0);
+  });
+
+  it("filters for active series on isActive='true'", () => {
+    expect(transform({ isActive: 'true' }).isActive).toBe(true);
+  });
+
+  it('does not filter when isActive is missing', async () => {
+    const query = transform({ limit: '20', sortBy: 'name' });
+
+    expect(query.isActive).toBeUndefined();
+    expect(query.limit).toBe(20);
+    expect(await validate(query)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsOptional } from 'class-validator';
+import { SERIES_SORT_FIELDS } from '../../database/series.service';
+import { PaginationDto, toOptionalBoolean } from '../common/pagination.dto';
+
+export class SeriesQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Sort field',
+    enum: Object.keys(SERIES_SORT_FIELDS),
+    default: 'createdAt',
+  })
+  @IsOptional()
+  @IsIn(Object.keys(SERIES_SORT_FIELDS))
+  sortBy?: string = 'createdAt';
+
+  @ApiPropertyOptional({
+    description: 'Filter by active status',
+    type: Boolean,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(toOptionalBoolean)
+  isActive?: boolean;
+}
@@ -85,6 +85,13 @@ export class SeriesResponseDto {
   @Expose()
   videoDuration: number;
 
+  @ApiPropertyOptional({
+    description: 'Content format (story, listicle, ...)',
+    example: 'story',
+  })
+  @Expose()
+  contentType?: string;
+
   @ApiPropertyOptional({ description: 'Content style preference' })
   @Expose()
   contentStyle?: string;
@@ -110,6 +117,14 @@ export class SeriesResponseDto {
   @Type(() => SeriesTemplateDto)
   template?: SeriesTemplateDto;
 
+  @ApiPropertyOptional({
+    description:
+      'Fields whose value (or part of it) was taken from the template defaults when the series was created',
+    example: ['customPrompt', 'visualStyle'],
+  })
+  @Expose()
+  appliedTemplateDefaults?: string[];
+
   @ApiProperty({ description: 'Series statistics' })
   @Expose()
   @Type(() => SeriesStatsDto)
@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsDate,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreateSocialPostDto {
+  @ApiProperty({ description: 'ID of the finished video to publish' })
+  @IsUUID()
+  videoId: string;
+
+  @ApiProperty({
+    description: 'Connected social accounts to publish the video to',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  socialAccountIds: string[];
+
+  @ApiPropertyOptional({
+    description: 'When to publish (ISO 8601). Defaults to now.',
+    example: '2025-01-15T09:00:00.000Z',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  scheduledFor?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Post caption. Defaults to the video description or title.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  caption?: string;
+
+  @ApiPropertyOptional({
+    description: 'Hashtags without the leading #. Defaults to the video tags.',
+    example: ['tech', 'tutorial'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  hashtags?: string[];
+}
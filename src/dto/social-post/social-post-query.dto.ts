@@ -0,0 +1,34 @@
+import { ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { PaginationDto } from '../common/pagination.dto';
+
+export const SOCIAL_POST_STATUSES = [
+  'scheduled',
+  'publishing',
+  'published',
+  'failed',
+  'cancelled',
+];
+
+export class SocialPostQueryDto extends PickType(PaginationDto, [
+  'page',
+  'limit',
+] as const) {
+  @ApiPropertyOptional({
+    description: 'Filter by status',
+    enum: SOCIAL_POST_STATUSES,
+  })
+  @IsOptional()
+  @IsEnum(SOCIAL_POST_STATUSES)
+  status?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by video ID' })
+  @IsOptional()
+  @IsUUID()
+  videoId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by social account ID' })
+  @IsOptional()
+  @IsUUID()
+  socialAccountId?: string;
+}
@@ -0,0 +1,95 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose, Transform } from 'class-transformer';
+
+export class SocialPostResponseDto {
+  @ApiProperty({ description: 'Social post ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Published video ID' })
+  @Expose()
+  videoId: string;
+
+  @ApiProperty({ description: 'Social account the video is published to' })
+  @Expose()
+  socialAccountId: string;
+
+  @ApiProperty({ description: 'Social media platform', example: 'tiktok' })
+  @Expose()
+  platform: string;
+
+  @ApiPropertyOptional({ description: 'Post ID on the platform' })
+  @Expose()
+  platformPostId?: string;
+
+  @ApiPropertyOptional({ description: 'Post caption' })
+  @Expose()
+  caption?: string;
+
+  @ApiProperty({ description: 'Hashtags', type: [String] })
+  @Expose()
+  hashtags: string[];
+
+  @ApiProperty({
+    description: 'Post status',
+    enum: ['scheduled', 'publishing', 'published', 'failed', 'cancelled'],
+  })
+  @Expose()
+  status: string;
+
+  @ApiPropertyOptional({ description: 'Scheduled publication time' })
+  @Expose()
+  @Transform(({ value }) => value?.toISOString())
+  scheduledFor?: string;
+
+  @ApiPropertyOptional({ description: 'Actual publication time' })
+  @Expose()
+  @Transform(({ value }) => value?.toISOString())
+  publishedAt?: string;
+
+  @ApiPropertyOptional({ description: 'Last publishing error' })
+  @Expose()
+  errorMessage?: string;
+
+  @ApiProperty({ description: 'Failed publishing attempts so far' })
+  @Expose()
+  retryCount: number;
+
+  @ApiProperty({ description: 'Views on the platform' })
+  @Expose()
+  viewsCount: number;
+
+  @ApiProperty({ description: 'Likes on the platform' })
+  @Expose()
+  likesCount: number;
+
+  @ApiProperty({ description: 'Comments on the platform' })
+  @Expose()
+  commentsCount: number;
+
+  @ApiProperty({ description: 'Shares on the platform' })
+  @Expose()
+  sharesCount: number;
+
+  @ApiProperty({ description: 'Engagement rate' })
+  @Expose()
+  @Transform(({ value }) => Number(value))
+  engagementRate: number;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  @Expose()
+  @Transform(({ value }) => value?.toISOString())
+  createdAt: string;
+
+  @ApiProperty({ description: 'Last update timestamp' })
+  @Expose()
+  @Transform(({ value }) => value?.toISOString())
+  updatedAt: string;
+
+  // Relations carry account tokens and are never part of the response
+  @Exclude()
+  socialAccount?: unknown;
+
+  @Exclude()
+  video?: unknown;
+}
@@ -0,0 +1,8 @@
+import { PickType } from '@nestjs/swagger';
+import { CreateSocialPostDto } from './create-social-post.dto';
+
+export class UpdateSocialPostDto extends PickType(CreateSocialPostDto, [
+  'scheduledFor',
+  'caption',
+  'hashtags',
+] as const) {}
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class OAuthStartResponseDto {
+  @ApiProperty({
+    description: 'Platform consent page to send the user to',
+    example: 'https://accounts.google.com/o/oauth2/v2/auth?client_id=...',
+  })
+  authorizationUrl: string;
+
+  @ApiProperty({ description: 'Signed state echoed back on the callback' })
+  state: string;
+
+  @ApiProperty({ description: 'When the state stops being accepted' })
+  expiresAt: string;
+}
+
+export class OAuthCallbackResponseDto {
+  @ApiProperty({ description: 'Connection result', example: 'connected' })
+  status: 'connected';
+
+  @ApiProperty({ description: 'Connected platform', example: 'youtube' })
+  platform: string;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+
+export class CreateSubscriptionDto {
+  @ApiProperty({ description: 'Plan ID to subscribe to' })
+  @IsUUID()
+  planId: string;
+
+  @ApiPropertyOptional({
+    description: 'Billing cycle',
+    enum: ['monthly', 'yearly'],
+    default: 'monthly',
+  })
+  @IsOptional()
+  @IsEnum(['monthly', 'yearly'])
+  billingCycle?: 'monthly' | 'yearly';
+}
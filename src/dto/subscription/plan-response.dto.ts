@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+
+export class PlanResponseDto {
+  @ApiProperty({ description: 'Plan ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Plan name', example: 'Pro' })
+  @Expose()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Plan description' })
+  @Expose()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Monthly price in USD',
+    example: '29.00',
+  })
+  @Expose()
+  @Transform(({ value }) => value?.toString())
+  priceMonthly?: string;
+
+  @ApiPropertyOptional({
+    description: 'Yearly price in USD',
+    example: '290.00',
+  })
+  @Expose()
+  @Transform(({ value }) => value?.toString())
+  priceYearly?: string;
+
+  @ApiPropertyOptional({
+    description: 'Videos that can be generated per month (null = unlimited)',
+  })
+  @Expose()
+  maxVideosPerMonth?: number;
+
+  @ApiPropertyOptional({
+    description: 'Posts that can be published per week (null = unlimited)',
+  })
+  @Expose()
+  maxPostsPerWeek?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of series allowed (null = unlimited)',
+  })
+  @Expose()
+  maxSeries?: number;
+
+  @ApiPropertyOptional({
+    description: 'Storage limit in GB (null = unlimited)',
+  })
+  @Expose()
+  maxStorageGb?: number;
+
+  @ApiProperty({
+    description: 'Plan feature flags',
+    example: { premiumTemplates: true },
+  })
+  @Expose()
+  features: Record<string, any>;
+}
@@ -0,0 +1,72 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose, Transform, Type } from 'class-transformer';
+import { PlanResponseDto } from './plan-response.dto';
+
+export class SubscriptionUsageDto {
+  @ApiProperty({ description: 'Videos generated in the current month' })
+  @Expose()
+  videosUsedThisMonth: number;
+
+  @ApiProperty({ description: 'Storage used in GB' })
+  @Expose()
+  storageUsedGb: number;
+}
+
+export class SubscriptionResponseDto {
+  @ApiProperty({ description: 'Subscription ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Subscribed plan', type: PlanResponseDto })
+  @Expose()
+  @Type(() => PlanResponseDto)
+  plan: PlanResponseDto;
+
+  @ApiProperty({
+    description: 'Subscription status',
+    example: 'active',
+    enum: ['active', 'trialing', 'past_due', 'canceled', 'incomplete'],
+  })
+  @Expose()
+  status: string;
+
+  @ApiProperty({
+    description: 'Billing cycle',
+    enum: ['monthly', 'yearly'],
+  })
+  @Expose()
+  billingCycle: string;
+
+  @ApiPropertyOptional({ description: 'Current period start timestamp' })
+  @Expose()
+  @Transform(({ value }) => value?.toISOString())
+  currentPeriodStart?: string;
+
+  @ApiPropertyOptional({ description: 'Current period end timestamp' })
+  @Expose()
+  @Transform(({ value }) => value?.toISOString())
+  currentPeriodEnd?: string;
+
+  @ApiProperty({ description: 'Usage in the current period' })
+  @Expose()
+  @Type(() => SubscriptionUsageDto)
+  usage: SubscriptionUsageDto;
+
+  @ApiProperty({ description: 'Whether billing is managed by Stripe' })
+  @Expose()
+  get isStripeManaged(): boolean {
+    return !!this.stripeSubscriptionId;
+  }
+
+  // Kept on the instance for isStripeManaged, never serialized
+  @Exclude({ toPlainOnly: true })
+  stripeSubscriptionId?: string;
+
+  @Exclude({ toPlainOnly: true })
+  stripeCustomerId?: string;
+
+  @ApiProperty({ description: 'Subscription creation timestamp' })
+  @Expose()
+  @Transform(({ value }) => value.toISOString())
+  createdAt: string;
+}
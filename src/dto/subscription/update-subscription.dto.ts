@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateSubscriptionDto } from './create-subscription.dto';
+
+export class UpdateSubscriptionDto extends PartialType(CreateSubscriptionDto) {}
@@ -6,7 +6,9 @@ import {
   IsBoolean,
   IsObject,
   IsEnum,
+  IsUrl,
 } from 'class-validator';
+import { IsPublicHttpsUrl } from '../common/public-url.validator';
 
 export class CreateProfileDto {
   @ApiProperty({
@@ -53,6 +55,16 @@ export class CreateProfileDto {
   @IsObject()
   notificationPreferences?: Record<string, boolean>;
 
+  @ApiPropertyOptional({
+    description:
+      'https URL on a public host that receives notifications as signed JSON POST requests (toggled by the "webhook" preference)',
+    example: 'https://hooks.example.com/easy-reals',
+  })
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @IsPublicHttpsUrl()
+  notificationWebhookUrl?: string;
+
   @ApiPropertyOptional({ description: 'Business name', example: 'Acme Corp' })
   @IsOptional()
   @IsString()
@@ -30,6 +30,10 @@ export class ProfileResponseDto {
   @Expose()
   notificationPreferences?: Record<string, boolean>;
 
+  @ApiPropertyOptional({ description: 'Notification webhook URL' })
+  @Expose()
+  notificationWebhookUrl?: string;
+
   @ApiPropertyOptional({ description: 'Business name' })
   @Expose()
   businessName?: string;
@@ -73,4 +77,8 @@ export class ProfileResponseDto {
     seriesCount: number;
     storageUsed: number;
   };
+
+  // Connected accounts carry OAuth tokens and are never serialized here
+  @Exclude()
+  socialAccounts?: unknown;
 }
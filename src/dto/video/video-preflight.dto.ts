@@ -0,0 +1,64 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsArray, IsOptional, IsString } from 'class-validator';
+
+export class VideoPreflightQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Caption to check. Defaults to the video description, or its title.',
+  })
+  @IsOptional()
+  @IsString()
+  caption?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Comma-separated hashtags to check, without the leading #. Defaults to the video tags.',
+    example: 'tech,tutorial',
+    type: String,
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((tag) => tag.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray()
+  @IsString({ each: true })
+  hashtags?: string[];
+}
+
+export class AccountPreflightDto {
+  @ApiProperty({ description: 'Social account ID' })
+  socialAccountId: string;
+
+  @ApiProperty({ description: 'Social media platform' })
+  platform: string;
+
+  @ApiProperty({ description: 'Username on the platform' })
+  username: string;
+
+  @ApiProperty({ description: 'Whether the video can be posted' })
+  canPost: boolean;
+
+  @ApiProperty({
+    description: 'Why the video cannot be posted; empty when it can',
+    example: ['Video is 300s long; Twitter/X accepts at most 140s'],
+    type: [String],
+  })
+  problems: string[];
+}
+
+export class VideoPreflightResponseDto {
+  @ApiProperty({ description: 'Video ID' })
+  videoId: string;
+
+  @ApiProperty({
+    description: 'Result for each connected social account',
+    type: [AccountPreflightDto],
+  })
+  accounts: AccountPreflightDto[];
+}
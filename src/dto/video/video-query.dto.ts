@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString, IsUUID } from 'class-validator';
+import { VIDEO_SORT_FIELDS } from '../../database/video.service';
+import { PaginationDto } from '../common/pagination.dto';
+
+export class VideoQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Sort field',
+    enum: Object.keys(VIDEO_SORT_FIELDS),
+    default: 'createdAt',
+  })
+  @IsOptional()
+  @IsIn(Object.keys(VIDEO_SORT_FIELDS))
+  sortBy?: string = 'createdAt';
+
+  @ApiPropertyOptional({ description: 'Filter by status' })
+  @IsOptional()
+  @IsString()
+  status?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by series ID' })
+  @IsOptional()
+  @IsUUID()
+  seriesId?: string;
+}
@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { Expose, Transform, Type } from 'class-transformer';
+import { Exclude, Expose, Transform, Type } from 'class-transformer';
 
 export class VideoSeriesDto {
   @ApiProperty({ description: 'Series ID' })
@@ -41,6 +41,9 @@ export class VideoSocialPostDto {
   @ApiPropertyOptional({ description: 'Like count on this platform' })
   @Expose()
   likesCount?: number;
+
+  @Exclude()
+  socialAccount?: unknown;
 }
 
 export class VideoResponseDto {
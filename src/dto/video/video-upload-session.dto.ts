@@ -0,0 +1,118 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Transform } from 'class-transformer';
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export const MANUAL_UPLOAD_CONTENT_TYPES = ['video/mp4', 'video/quicktime'];
+
+export class CreateVideoUploadSessionDto {
+  @ApiProperty({ description: 'Series the uploaded video belongs to' })
+  @IsUUID()
+  seriesId: string;
+
+  @ApiProperty({
+    description: 'Video title',
+    example: 'Behind the scenes',
+  })
+  @IsString()
+  title: string;
+
+  @ApiPropertyOptional({ description: 'Video description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Tags for the video',
+    example: ['behind-the-scenes'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiProperty({ description: 'Original file name', example: 'final-cut.mp4' })
+  @IsString()
+  @MaxLength(255)
+  fileName: string;
+
+  @ApiProperty({
+    description: 'Content type of the file',
+    enum: MANUAL_UPLOAD_CONTENT_TYPES,
+  })
+  @IsEnum(MANUAL_UPLOAD_CONTENT_TYPES)
+  contentType: string;
+
+  @ApiProperty({ description: 'Size of the file in bytes', example: 52428800 })
+  @IsInt()
+  @Min(1)
+  fileSizeBytes: number;
+}
+
+export class VideoUploadSessionResponseDto {
+  @ApiProperty({ description: 'Upload ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Series ID' })
+  @Expose()
+  seriesId: string;
+
+  @ApiProperty({ description: 'Video title' })
+  @Expose()
+  title: string;
+
+  @ApiProperty({ description: 'Original file name' })
+  @Expose()
+  fileName: string;
+
+  @ApiProperty({ description: 'Content type of the file' })
+  @Expose()
+  contentType: string;
+
+  @ApiProperty({ description: 'Size of the file in bytes' })
+  @Expose()
+  @Transform(({ value }) => Number(value), { toPlainOnly: true })
+  totalBytes: number;
+
+  @ApiProperty({
+    description: 'Bytes received so far; the next chunk starts here',
+  })
+  @Expose()
+  @Transform(({ value }) => Number(value), { toPlainOnly: true })
+  receivedBytes: number;
+
+  @ApiProperty({
+    description: 'Upload status',
+    enum: ['uploading', 'completed', 'failed', 'cancelled', 'expired'],
+  })
+  @Expose()
+  status: string;
+
+  @ApiPropertyOptional({ description: 'Why the upload failed' })
+  @Expose()
+  errorMessage?: string;
+
+  @ApiPropertyOptional({ description: 'Created video, once completed' })
+  @Expose()
+  videoId?: string;
+
+  @ApiProperty({ description: 'When unfinished uploads are discarded' })
+  @Expose()
+  @Transform(({ value }) => value.toISOString(), { toPlainOnly: true })
+  expiresAt: string;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  @Expose()
+  @Transform(({ value }) => value.toISOString(), { toPlainOnly: true })
+  createdAt: string;
+}
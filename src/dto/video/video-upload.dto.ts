@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import {
+  UPLOAD_CONTENT_TYPES,
+  VIDEO_ASSETS,
+  VideoAsset,
+} from '../../storage/video-assets';
+
+export class VideoAssetQueryDto {
+  @ApiProperty({ description: 'Which file of the video', enum: VIDEO_ASSETS })
+  @IsEnum(VIDEO_ASSETS)
+  asset: VideoAsset;
+}
+
+export class CreateVideoUploadDto extends VideoAssetQueryDto {
+  @ApiProperty({
+    description:
+      'Content type of the file. Videos accept video/mp4, video/quicktime and video/webm; thumbnails accept image/jpeg, image/png and image/webp.',
+    enum: UPLOAD_CONTENT_TYPES,
+    example: 'video/mp4',
+  })
+  @IsEnum(UPLOAD_CONTENT_TYPES)
+  contentType: string;
+
+  @ApiPropertyOptional({
+    description: 'Size of the file in bytes, checked against storage limits',
+    example: 15728640,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  fileSizeBytes?: number;
+}
+
+export class CompleteVideoUploadDto extends VideoAssetQueryDto {
+  @ApiProperty({ description: 'Storage key returned when the upload started' })
+  @IsString()
+  key: string;
+}
+
+export class SignedUrlResponseDto {
+  @ApiProperty({ description: 'Signed URL' })
+  url: string;
+
+  @ApiProperty({ description: 'HTTP method to use', enum: ['GET', 'PUT'] })
+  method: string;
+
+  @ApiProperty({
+    description: 'Headers that must be sent with the request',
+    example: { 'Content-Type': 'video/mp4' },
+  })
+  headers: Record<string, string>;
+
+  @ApiProperty({ description: 'When the URL stops working' })
+  expiresAt: string;
+}
+
+export class VideoUploadResponseDto extends SignedUrlResponseDto {
+  @ApiProperty({
+    description: 'Storage key to pass when completing the upload',
+  })
+  key: string;
+}
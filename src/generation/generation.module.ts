@@ -0,0 +1,60 @@
+import { Module, OnModuleInit } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { CostsModule } from '../costs/costs.module';
+import { DatabaseModule } from '../database/database.module';
+import { JOB_TYPES } from '../database/job-queue.service';
+import { JobsModule } from '../jobs/jobs.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { JobWorkerService } from '../jobs/job-worker.service';
+import { GENERATION_PROVIDER } from './providers/generation-provider.interface';
+import { StubGenerationProvider } from './providers/stub-generation.provider';
+import { VideoGenerationPipeline } from './video-generation.pipeline';
+import { VideoGenerationService } from './video-generation.service';
+import { VideoProgressService } from './video-progress.service';
+
+@Module({
+  imports: [
+    ConfigModule,
+    DatabaseModule,
+    JobsModule,
+    SubscriptionsModule,
+    CostsModule,
+    NotificationsModule,
+  ],
+  providers: [
+    {
+      provide: GENERATION_PROVIDER,
+      useFactory: (configService: ConfigService) => {
+        const provider = configService.get<string>('GENERATION_PROVIDER');
+        switch (provider || 'stub') {
+          case 'stub':
+            return new StubGenerationProvider();
+          default:
+            throw new Error(`Unknown GENERATION_PROVIDER "${provider}"`);
+        }
+      },
+      inject: [ConfigService],
+    },
+    VideoGenerationPipeline,
+    VideoGenerationService,
+    VideoProgressService,
+  ],
+  exports: [
+    VideoGenerationPipeline,
+    VideoGenerationService,
+    VideoProgressService,
+  ],
+})
+export class GenerationModule implements OnModuleInit {
+  constructor(
+    private readonly jobWorker: JobWorkerService,
+    private readonly pipeline: VideoGenerationPipeline,
+  ) {}
+
+  onModuleInit() {
+    this.jobWorker.registerHandler(JOB_TYPES.VIDEO_GENERATION, (payload, ctx) =>
+      this.pipeline.handleJob(payload, ctx),
+    );
+  }
+}
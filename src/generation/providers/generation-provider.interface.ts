@@ -0,0 +1,86 @@
+// Injection token for the active GenerationProvider implementation
+export const GENERATION_PROVIDER = 'GENERATION_PROVIDER';
+
+export interface GenerationRequest {
+  videoId: string;
+  userId: string;
+  seriesId: string;
+  title: string;
+  prompt: string;
+  // Video.generationSettings as assembled when the video was queued
+  settings: Record<string, any>;
+}
+
+// Billable units consumed by a stage. Priced with the AiServiceCost rate for
+// the same serviceName and operationType.
+export interface UsageRecord {
+  serviceName: string;
+  operationType: string;
+  units: number;
+  unitType: string;
+}
+
+export interface ScriptResult {
+  script: string;
+  title?: string;
+  description?: string;
+  tags?: string[];
+  model: string;
+  usage?: UsageRecord[];
+}
+
+export interface VoiceoverResult {
+  audioUrl: string;
+  durationSeconds: number;
+  usage?: UsageRecord[];
+}
+
+export interface VisualsResult {
+  sceneUrls: string[];
+  usage?: UsageRecord[];
+}
+
+export interface RenderResult {
+  videoUrl: string;
+  durationSeconds: number;
+  fileSizeMb: number;
+  resolution: string;
+  usage?: UsageRecord[];
+}
+
+export interface ThumbnailResult {
+  thumbnailUrl: string;
+  usage?: UsageRecord[];
+}
+
+// Contract implemented by each AI vendor integration. The pipeline calls the
+// methods in order and passes earlier results to later stages.
+export interface GenerationProvider {
+  readonly name: string;
+
+  generateScript(request: GenerationRequest): Promise<ScriptResult>;
+
+  generateVoiceover(
+    request: GenerationRequest,
+    script: ScriptResult,
+  ): Promise<VoiceoverResult>;
+
+  generateVisuals(
+    request: GenerationRequest,
+    script: ScriptResult,
+  ): Promise<VisualsResult>;
+
+  renderVideo(
+    request: GenerationRequest,
+    assets: {
+      script: ScriptResult;
+      voiceover: VoiceoverResult;
+      visuals: VisualsResult;
+    },
+  ): Promise<RenderResult>;
+
+  generateThumbnail(
+    request: GenerationRequest,
+    render: RenderResult,
+  ): Promise<ThumbnailResult>;
+}
@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+import {
+  GenerationProvider,
+  GenerationRequest,
+  RenderResult,
+  ScriptResult,
+  ThumbnailResult,
+  UsageRecord,
+  VisualsResult,
+  VoiceoverResult,
+} from './generation-provider.interface';
+
+const STUB_BASE_URL = 'stub://generated';
+const WORDS_PER_SECOND = 2.5;
+const TOKENS_PER_WORD = 1.3;
+
+// Offline provider that returns deterministic output derived from the request.
+// Used for local development and tests; makes no network calls.
+export class StubGenerationProvider implements GenerationProvider {
+  readonly name = 'stub';
+
+  async generateScript(request: GenerationRequest): Promise<ScriptResult> {
+    const duration = this.targetDuration(request);
+    const style = request.settings.style || 'engaging';
+    const sentences = [
+      `${request.title}.`,
+      `This is a ${style} story based on: ${request.prompt}`,
+    ];
+
+    // Pad the script so its spoken length roughly matches the target duration
+    const targetWords = Math.round(duration * WORDS_PER_SECOND);
+    let wordCount = sentences.join(' ').split(/\s+/).length;
+    let part = 1;
+    while (wordCount < targetWords) {
+      const sentence = `Part ${part} keeps the audience hooked with one more detail.`;
+      sentences.push(sentence);
+      wordCount += sentence.split(/\s+/).length;
+      part++;
+    }
+
+    const promptWords = request.prompt.split(/\s+/).length;
+    return {
+      script: sentences.join(' '),
+      title: request.title,
+      description: `${request.title} - generated by the stub provider`,
+      tags: ['stub', style],
+      model: 'stub-script-v1',
+      usage: [
+        this.usage(
+          'stub-llm',
+          'script_generation',
+          Math.ceil((promptWords + wordCount) * TOKENS_PER_WORD),
+          'tokens',
+        ),
+      ],
+    };
+  }
+
+  async generateVoiceover(
+    request: GenerationRequest,
+    script: ScriptResult,
+  ): Promise<VoiceoverResult> {
+    const words = script.script.split(/\s+/).length;
+    return {
+      audioUrl: this.assetUrl(request, 'voiceover.mp3'),
+      durationSeconds: Math.max(1, Math.round(words / WORDS_PER_SECOND)),
+      usage: [
+        this.usage(
+          'stub-tts',
+          'text_to_speech',
+          script.script.length,
+          'characters',
+        ),
+      ],
+    };
+  }
+
+  async generateVisuals(
+    request: GenerationRequest,
+    script: ScriptResult,
+  ): Promise<VisualsResult> {
+    const sceneCount = Math.max(1, Math.ceil(script.script.length / 400));
+    return {
+      sceneUrls: Array.from({ length: sceneCount }, (_, i) =>
+        this.assetUrl(request, `scene-${i + 1}.png`),
+      ),
+      usage: [
+        this.usage('stub-image', 'image_generation', sceneCount, 'images'),
+      ],
+    };
+  }
+
+  async renderVideo(
+    request: GenerationRequest,
+    assets: { voiceover: VoiceoverResult },
+  ): Promise<RenderResult> {
+    const durationSeconds = assets.voiceover.durationSeconds;
+    // ~0.5 MB per second of 1080x1920 footage, plus jitter from the seed
+    const jitter = (this.seed(request) % 100) / 100;
+    return {
+      videoUrl: this.assetUrl(request, 'video.mp4'),
+      durationSeconds,
+      fileSizeMb: Number((durationSeconds * 0.5 + jitter).toFixed(2)),
+      resolution: request.settings.resolution || '1080x1920',
+      usage: [
+        this.usage('stub-render', 'video_render', durationSeconds, 'seconds'),
+      ],
+    };
+  }
+
+  async generateThumbnail(
+    request: GenerationRequest,
+  ): Promise<ThumbnailResult> {
+    return {
+      thumbnailUrl: this.assetUrl(request, 'thumbnail.jpg'),
+      usage: [this.usage('stub-image', 'image_generation', 1, 'images')],
+    };
+  }
+
+  private usage(
+    serviceName: string,
+    operationType: string,
+    units: number,
+    unitType: string,
+  ): UsageRecord {
+    return { serviceName, operationType, units, unitType };
+  }
+
+  private targetDuration(request: GenerationRequest): number {
+    const duration = Number(request.settings.duration);
+    return Number.isFinite(duration) && duration > 0 ? duration : 60;
+  }
+
+  private assetUrl(request: GenerationRequest, file: string): string {
+    return `${STUB_BASE_URL}/${request.videoId}/${file}`;
+  }
+
+  private seed(request: GenerationRequest): number {
+    return createHash('sha256')
+      .update(`${request.videoId}:${request.prompt}`)
+      .digest()
+      .readUInt32BE(0);
+  }
+}
@@ -0,0 +1,171 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CostAccountingService } from '../costs/cost-accounting.service';
+import { VideoService } from '../database/video.service';
+import { JobContext } from '../jobs/job-worker.service';
+import { NotificationDispatcher } from '../notifications/notification-dispatcher.service';
+import { QuotaService } from '../subscriptions/quota.service';
+import { GENERATION_PROVIDER } from './providers/generation-provider.interface';
+import { StubGenerationProvider } from './providers/stub-generation.provider';
+import { VideoGenerationPipeline } from './video-generation.pipeline';
+import { VideoProgressService } from './video-progress.service';
+
+describe('VideoGenerationPipeline', () => {
+  let pipeline: VideoGenerationPipeline;
+  let videoService: Record<string, jest.Mock>;
+  let costAccounting: Record<string, jest.Mock>;
+  let notificationDispatcher: Record<string, jest.Mock>;
+  let videoProgress: Record<string, jest.Mock>;
+  const provider = new StubGenerationProvider();
+
+  const video = {
+    id: 'video-1',
+    userId: 'user-1',
+    seriesId: 'series-1',
+    title: 'Space Facts Episode 1',
+    promptUsed: 'Explain a surprising fact about space',
+    tags: ['Space Facts', 'ai-generated'],
+    status: 'queued',
+    generationSettings: { duration: 30, style: 'educational' },
+  };
+
+  const context = (overrides: Partial<JobContext> = {}): JobContext => ({
+    job: {} as any,
+    attempt: 1,
+    isFinalAttempt: false,
+    reportProgress: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    videoService = {
+      findVideoById: jest.fn().mockResolvedValue(video),
+      updateGenerationState: jest.fn().mockResolvedValue(video),
+      updateVideoContent: jest.fn().mockResolvedValue(video),
+      updateVideoStatus: jest.fn().mockResolvedValue(video),
+    };
+    costAccounting = {
+      recordUsage: jest.fn().mockResolvedValue(0),
+    };
+    notificationDispatcher = {
+      notify: jest.fn().mockResolvedValue(undefined),
+    };
+    videoProgress = {
+      publish: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VideoGenerationPipeline,
+        { provide: VideoService, useValue: videoService },
+        {
+          provide: QuotaService,
+          useValue: {
+            recordStorageUsage: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        { provide: CostAccountingService, useValue: costAccounting },
+        { provide: NotificationDispatcher, useValue: notificationDispatcher },
+        { provide: VideoProgressService, useValue: videoProgress },
+        { provide: GENERATION_PROVIDER, useValue: provider },
+      ],
+    }).compile();
+
+    pipeline = module.get(VideoGenerationPipeline);
+  });
+
+  it('runs every stage and stores the generated content', async () => {
+    const ctx = context();
+    await pipeline.handleJob({ videoId: video.id }, ctx);
+
+    const progress = videoService.updateGenerationState.mock.calls.map(
+      ([, data]) => data.generationProgress,
+    );
+    expect(progress).toEqual([5, 20, 40, 60, 85]);
+
+    const scriptUpdate = videoService.updateGenerationState.mock.calls[1][1];
+    expect(scriptUpdate.script).toContain(video.title);
+    expect(scriptUpdate.aiModelUsed).toBe('stub-script-v1');
+
+    expect(videoService.updateVideoContent).toHaveBeenCalledWith(
+      video.id,
+      expect.objectContaining({
+        videoUrl: `stub://generated/${video.id}/video.mp4`,
+        thumbnailUrl: `stub://generated/${video.id}/thumbnail.jpg`,
+        resolution: '1080x1920',
+        duration: expect.any(Number),
+        generationTimeSeconds: expect.any(Number),
+      }),
+    );
+    expect(ctx.reportProgress).toHaveBeenLastCalledWith(100);
+    // Every stage and the finished video are announced to live streams
+    expect(videoProgress.publish).toHaveBeenCalledTimes(6);
+    expect(notificationDispatcher.notify).toHaveBeenCalledWith(
+      video.userId,
+      expect.objectContaining({ type: 'video_ready' }),
+    );
+  });
+
+  it('records the usage of every stage against the video', async () => {
+    await pipeline.run(video.id);
+
+    const stages = costAccounting.recordUsage.mock.calls.map(
+      ([, stage]) => stage,
+    );
+    expect(stages).toEqual([
+      'script',
+      'voiceover',
+      'visuals',
+      'render',
+      'thumbnail',
+    ]);
+    expect(costAccounting.recordUsage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        videoId: video.id,
+        userId: video.userId,
+        seriesId: video.seriesId,
+      }),
+      'voiceover',
+      [
+        expect.objectContaining({
+          serviceName: 'stub-tts',
+          unitType: 'characters',
+        }),
+      ],
+    );
+  });
+
+  it('produces the same output for the same video', async () => {
+    await pipeline.run(video.id);
+    await pipeline.run(video.id);
+
+    const [first, second] = videoService.updateVideoContent.mock.calls;
+    expect(first[1]).toEqual({
+      ...second[1],
+      generationTimeSeconds: first[1].generationTimeSeconds,
+    });
+  });
+
+  it('marks the video failed when the last attempt fails', async () => {
+    jest
+      .spyOn(provider, 'renderVideo')
+      .mockRejectedValueOnce(new Error('Renderer unavailable'));
+
+    await expect(
+      pipeline.handleJob(
+        { videoId: video.id },
+        context({ attempt: 4, isFinalAttempt: true }),
+      ),
+    ).rejects.toThrow('Renderer unavailable');
+
+    expect(videoService.updateVideoStatus).toHaveBeenCalledWith(
+      video.id,
+      'failed',
+      undefined,
+      'Renderer unavailable',
+    );
+    expect(notificationDispatcher.notify).toHaveBeenCalledWith(
+      video.userId,
+      expect.objectContaining({ type: 'video_failed' }),
+    );
+  });
+});
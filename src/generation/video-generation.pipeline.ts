@@ -0,0 +1,181 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { CostAccountingService } from '../costs/cost-accounting.service';
+import { VideoService } from '../database/video.service';
+import { JobContext } from '../jobs/job-worker.service';
+import { NotificationDispatcher } from '../notifications/notification-dispatcher.service';
+import {
+  videoFailedMessage,
+  videoReadyMessage,
+} from '../notifications/notification-messages';
+import { QuotaService } from '../subscriptions/quota.service';
+import {
+  GENERATION_PROVIDER,
+  GenerationProvider,
+  GenerationRequest,
+  UsageRecord,
+} from './providers/generation-provider.interface';
+import { VideoProgressService } from './video-progress.service';
+
+// Progress reported once each stage has finished
+export const STAGE_PROGRESS = {
+  started: 5,
+  script: 20,
+  voiceover: 40,
+  visuals: 60,
+  render: 85,
+  thumbnail: 100,
+} as const;
+
+@Injectable()
+export class VideoGenerationPipeline {
+  private readonly logger = new Logger(VideoGenerationPipeline.name);
+
+  constructor(
+    private readonly videoService: VideoService,
+    private readonly quotaService: QuotaService,
+    private readonly costAccounting: CostAccountingService,
+    private readonly notificationDispatcher: NotificationDispatcher,
+    private readonly videoProgress: VideoProgressService,
+    @Inject(GENERATION_PROVIDER)
+    private readonly provider: GenerationProvider,
+  ) {}
+
+  // Job handler for video_generation jobs
+  async handleJob(
+    payload: Record<string, any>,
+    context: JobContext,
+  ): Promise<void> {
+    const videoId: string = payload.videoId;
+
+    try {
+      await this.run(videoId, (progress) => context.reportProgress(progress));
+    } catch (error) {
+      if (context.isFinalAttempt) {
+        const failed = await this.videoService.updateVideoStatus(
+          videoId,
+          'failed',
+          undefined,
+          error.message,
+        );
+        this.videoProgress.publish(failed);
+        await this.notificationDispatcher.notify(
+          failed.userId,
+          videoFailedMessage(failed, error.message),
+        );
+      } else {
+        const requeued = await this.videoService.updateVideoStatus(
+          videoId,
+          'queued',
+          0,
+          `Attempt ${context.attempt} failed: ${error.message}`,
+        );
+        this.videoProgress.publish(requeued);
+      }
+      throw error;
+    }
+  }
+
+  // Run every stage for a video: script, voiceover, visuals, render, thumbnail
+  async run(
+    videoId: string,
+    reportProgress: (progress: number) => Promise<void> = async () => {},
+  ): Promise<void> {
+    const video = await this.videoService.findVideoById(videoId);
+    if (!video) {
+      this.logger.warn(`Video ${videoId} no longer exists, skipping`);
+      return;
+    }
+
+    if (video.status === 'ready') {
+      this.logger.log(`Video ${videoId} is already generated, skipping`);
+      return;
+    }
+
+    const startedAt = Date.now();
+    const request: GenerationRequest = {
+      videoId: video.id,
+      userId: video.userId,
+      seriesId: video.seriesId,
+      title: video.title,
+      prompt: video.promptUsed,
+      settings: (video.generationSettings as Record<string, any>) || {},
+    };
+
+    const advance = async (
+      status: string,
+      progress: number,
+      data: { script?: string; tags?: string[]; aiModelUsed?: string } = {},
+    ) => {
+      const updated = await this.videoService.updateGenerationState(videoId, {
+        status,
+        generationProgress: progress,
+        ...data,
+      });
+      this.videoProgress.publish(updated);
+      await reportProgress(progress);
+    };
+
+    // Usage is recorded as each stage finishes, so failed attempts are
+    // still charged for the work they did
+    const recordUsage = async (stage: string, usage?: UsageRecord[]) => {
+      try {
+        await this.costAccounting.recordUsage(request, stage, usage);
+      } catch (error) {
+        this.logger.error(
+          `Failed to record ${stage} usage for video ${videoId}: ${error.message}`,
+        );
+      }
+    };
+
+    await advance('generating', STAGE_PROGRESS.started);
+
+    const script = await this.provider.generateScript(request);
+    await recordUsage('script', script.usage);
+    await advance('generating', STAGE_PROGRESS.script, {
+      script: script.script,
+      tags: [...new Set([...video.tags, ...(script.tags || [])])],
+      aiModelUsed: script.model,
+    });
+
+    const voiceover = await this.provider.generateVoiceover(request, script);
+    await recordUsage('voiceover', voiceover.usage);
+    await advance('generating', STAGE_PROGRESS.voiceover);
+
+    const visuals = await this.provider.generateVisuals(request, script);
+    await recordUsage('visuals', visuals.usage);
+    await advance('processing', STAGE_PROGRESS.visuals);
+
+    const render = await this.provider.renderVideo(request, {
+      script,
+      voiceover,
+      visuals,
+    });
+    await recordUsage('render', render.usage);
+    await advance('processing', STAGE_PROGRESS.render);
+
+    const thumbnail = await this.provider.generateThumbnail(request, render);
+    await recordUsage('thumbnail', thumbnail.usage);
+
+    // Marks the video as ready with 100% progress
+    const ready = await this.videoService.updateVideoContent(videoId, {
+      videoUrl: render.videoUrl,
+      thumbnailUrl: thumbnail.thumbnailUrl,
+      duration: render.durationSeconds,
+      fileSizeMb: render.fileSizeMb,
+      resolution: render.resolution,
+      aiModelUsed: script.model,
+      generationTimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+    });
+    this.videoProgress.publish(ready);
+    await this.quotaService.recordStorageUsage(video.userId, render.fileSizeMb);
+    await reportProgress(STAGE_PROGRESS.thumbnail);
+    await this.notificationDispatcher.notify(
+      video.userId,
+      videoReadyMessage(video),
+    );
+
+    this.logger.log(
+      `Generated video ${videoId} with ${this.provider.name} provider`,
+    );
+  }
+}
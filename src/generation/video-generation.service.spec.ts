@@ -0,0 +1,67 @@
+import { JobQueueService } from '../database/job-queue.service';
+import { SeriesService } from '../database/series.service';
+import { VideoService } from '../database/video.service';
+import { QuotaService } from '../subscriptions/quota.service';
+import { VideoGenerationService } from './video-generation.service';
+import { VideoProgressService } from './video-progress.service';
+
+describe('VideoGenerationService.queueVideo', () => {
+  let service: VideoGenerationService;
+  let videoService: Record<string, jest.Mock>;
+  let jobQueueService: { addVideoGenerationJob: jest.Mock };
+  let quotaService: Record<string, jest.Mock>;
+
+  const series = {
+    id: 'series-1',
+    userId: 'user-1',
+    name: 'Space Facts',
+    totalVideosGenerated: 2,
+  } as any;
+
+  beforeEach(() => {
+    videoService = {
+      createVideo: jest.fn().mockResolvedValue({ id: 'video-1' }),
+      updateVideoStatus: jest
+        .fn()
+        .mockImplementation(async (id, status) => ({ id, status })),
+    };
+    jobQueueService = { addVideoGenerationJob: jest.fn() };
+    quotaService = {
+      reserveVideoGeneration: jest.fn().mockResolvedValue(undefined),
+      releaseVideoGeneration: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new VideoGenerationService(
+      videoService as unknown as VideoService,
+      { incrementVideosGenerated: jest.fn() } as unknown as SeriesService,
+      jobQueueService as unknown as JobQueueService,
+      quotaService as unknown as QuotaService,
+      { publish: jest.fn() } as unknown as VideoProgressService,
+    );
+  });
+
+  it('creates a queued video and its generation job', async () => {
+    const video = await service.queueVideo(series);
+
+    expect(video.status).toBe('queued');
+    expect(jobQueueService.addVideoGenerationJob).toHaveBeenCalledWith(
+      'video-1',
+      'user-1',
+      undefined,
+    );
+  });
+
+  it('marks the video failed and gives the quota back when queueing fails', async () => {
+    jobQueueService.addVideoGenerationJob.mockRejectedValue(
+      new Error('connection lost'),
+    );
+
+    await expect(service.queueVideo(series)).rejects.toThrow('connection lost');
+    expect(videoService.updateVideoStatus).toHaveBeenLastCalledWith(
+      'video-1',
+      'failed',
+      0,
+      'Video could not be queued for generation',
+    );
+    expect(quotaService.releaseVideoGeneration).toHaveBeenCalledWith('user-1');
+  });
+});
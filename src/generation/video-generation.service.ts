@@ -0,0 +1,119 @@
+import { Injectable } from '@nestjs/common';
+import { UserSeries, Video } from '@prisma/client';
+import { JobPriority, JobQueueService } from '../database/job-queue.service';
+import { SeriesService } from '../database/series.service';
+import { VideoService } from '../database/video.service';
+import { QuotaService } from '../subscriptions/quota.service';
+import { VideoProgressService } from './video-progress.service';
+
+@Injectable()
+export class VideoGenerationService {
+  constructor(
+    private readonly videoService: VideoService,
+    private readonly seriesService: SeriesService,
+    private readonly jobQueueService: JobQueueService,
+    private readonly quotaService: QuotaService,
+    private readonly videoProgress: VideoProgressService,
+  ) {}
+
+  // Create a video for the series and queue it for AI generation.
+  // Throws 403 when the owner's plan does not allow another video.
+  async queueVideo(
+    series: UserSeries,
+    options: {
+      topic?: string;
+      priority?: JobPriority;
+      generationSettings?: Record<string, any>;
+      // Posting slot of an auto-post video; a second video for the same
+      // series and slot is rejected by the database
+      autoPostSlot?: Date;
+    } = {},
+  ): Promise<Video> {
+    const userId = series.userId;
+
+    // Count the video against the plan (throws 403 when a limit is hit)
+    await this.quotaService.reserveVideoGeneration(userId);
+
+    let queued: Video;
+    try {
+      queued = await this.createQueuedVideo(series, options);
+    } catch (error) {
+      await this.quotaService.releaseVideoGeneration(userId);
+      throw error;
+    }
+
+    // Update series stats
+    await this.seriesService.incrementVideosGenerated(series.id);
+
+    return queued;
+  }
+
+  private async createQueuedVideo(
+    series: UserSeries,
+    options: {
+      topic?: string;
+      priority?: JobPriority;
+      generationSettings?: Record<string, any>;
+      autoPostSlot?: Date;
+    },
+  ): Promise<Video> {
+    const userId = series.userId;
+    const videoTitle =
+      options.topic ||
+      `${series.name} Episode ${series.totalVideosGenerated + 1}`;
+    const prompt =
+      series.customPrompt ||
+      'Generate engaging video content based on series theme';
+
+    const video = await this.videoService.createVideo({
+      userId,
+      seriesId: series.id,
+      title: videoTitle,
+      description: `Auto-generated video for ${series.name} series`,
+      script: '[AI Generated Script - Processing...]',
+      promptUsed: prompt,
+      generationSettings: {
+        ...((series.visualStyle as Record<string, any>) || {}),
+        ...((series.voiceSettings as Record<string, any>) || {}),
+        ...((series.musicSettings as Record<string, any>) || {}),
+        duration: series.videoDuration,
+        contentType: series.contentType,
+        style: series.contentStyle,
+        useTrending: series.useTrendingTopics,
+        priority: options.priority || 'normal',
+        ...options.generationSettings,
+      },
+      tags: [`${series.name}`, 'ai-generated'],
+      autoPostSlotAt: options.autoPostSlot,
+    });
+
+    // Update video status to queued for generation
+    const queued = await this.videoService.updateVideoStatus(
+      video.id,
+      'queued',
+      0,
+    );
+    this.videoProgress.publish(queued);
+
+    // Add to background job queue for actual generation. A video that
+    // could not be queued would otherwise stay 'queued' forever.
+    try {
+      await this.jobQueueService.addVideoGenerationJob(
+        video.id,
+        userId,
+        options.priority,
+      );
+    } catch (error) {
+      const failed = await this.videoService.updateVideoStatus(
+        video.id,
+        'failed',
+        0,
+        'Video could not be queued for generation',
+      );
+      this.videoProgress.publish(failed);
+      throw error;
+    }
+
+    return queued;
+  }
+}
@@ -0,0 +1,106 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { lastValueFrom, take, toArray } from 'rxjs';
+import { VideoService } from '../database/video.service';
+import { VideoProgressService } from './video-progress.service';
+
+describe('VideoProgressService', () => {
+  let service: VideoProgressService;
+  let videoService: Record<string, jest.Mock>;
+
+  const video = (overrides: Record<string, any> = {}) => ({
+    id: 'video-1',
+    userId: 'user-1',
+    status: 'queued',
+    generationProgress: 0,
+    errorMessage: null,
+    videoUrl: null,
+    thumbnailUrl: null,
+    updatedAt: new Date('2026-03-01T10:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    videoService = {
+      getVideoProgress: jest.fn().mockResolvedValue(null),
+      getUserVideoProgress: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VideoProgressService,
+        { provide: VideoService, useValue: videoService },
+        {
+          provide: ConfigService,
+          // Keep polling and heartbeats out of the way of published updates
+          useValue: { get: jest.fn().mockReturnValue(60_000) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(VideoProgressService);
+  });
+
+  it('streams a video until it is ready, skipping stale updates', async () => {
+    const events = lastValueFrom(service.watchVideo(video()).pipe(toArray()));
+
+    service.publish(
+      video({
+        status: 'generating',
+        generationProgress: 20,
+        updatedAt: new Date('2026-03-01T10:00:20Z'),
+      }),
+    );
+    service.publish(video({ id: 'video-2', status: 'ready' }));
+    service.publish(
+      video({
+        status: 'generating',
+        generationProgress: 5,
+        updatedAt: new Date('2026-03-01T10:00:05Z'),
+      }),
+    );
+    service.publish(
+      video({
+        status: 'ready',
+        generationProgress: 100,
+        videoUrl: 'https://cdn.example.com/video-1.mp4',
+        updatedAt: new Date('2026-03-01T10:01:00Z'),
+      }),
+    );
+
+    expect(
+      (await events).map(({ data }: any) => [data.status, data.progress]),
+    ).toEqual([
+      ['queued', 0],
+      ['generating', 20],
+      ['ready', 100],
+    ]);
+  });
+
+  it("streams the user's in-progress and newly updated videos", async () => {
+    videoService.getUserVideoProgress.mockResolvedValue([video()]);
+    const events = lastValueFrom(
+      service.watchUser('user-1').pipe(take(2), toArray()),
+    );
+    await new Promise(setImmediate);
+
+    service.publish(video({ id: 'video-9', userId: 'user-2' }));
+    service.publish(
+      video({ id: 'video-2', updatedAt: new Date('2026-03-01T10:05:00Z') }),
+    );
+
+    expect(await events).toEqual([
+      expect.objectContaining({
+        type: 'progress',
+        id: 'video-1:2026-03-01T10:00:00.000Z',
+      }),
+      expect.objectContaining({
+        type: 'progress',
+        id: 'video-2:2026-03-01T10:05:00.000Z',
+      }),
+    ]);
+    expect(videoService.getUserVideoProgress).toHaveBeenCalledWith('user-1', {
+      inProgressStatuses: ['queued', 'generating', 'processing'],
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { Injectable, MessageEvent, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Video } from '@prisma/client';
+import {
+  defer,
+  filter,
+  from,
+  interval,
+  map,
+  merge,
+  mergeMap,
+  Observable,
+  Subject,
+  switchMap,
+  takeWhile,
+} from 'rxjs';
+import { VideoService } from '../database/video.service';
+
+// Statuses after which a video's progress no longer changes
+export const FINAL_VIDEO_STATUSES = ['ready', 'failed'];
+
+// Statuses of videos that are still being generated
+export const IN_PROGRESS_VIDEO_STATUSES = [
+  'queued',
+  'generating',
+  'processing',
+];
+
+type VideoProgressFields = Pick<
+  Video,
+  | 'id'
+  | 'userId'
+  | 'status'
+  | 'generationProgress'
+  | 'errorMessage'
+  | 'videoUrl'
+  | 'thumbnailUrl'
+  | 'updatedAt'
+>;
+
+export interface VideoProgressEvent {
+  videoId: string;
+  status: string;
+  progress: number;
+  errorMessage: string | null;
+  videoUrl: string | null;
+  thumbnailUrl: string | null;
+  updatedAt: string;
+}
+
+// Fans out video status and progress changes to live streams. Updates
+// published in this process arrive immediately; the database is polled as
+// well so changes made by workers in other instances are not missed.
+@Injectable()
+export class VideoProgressService implements OnModuleDestroy {
+  private readonly updates = new Subject<VideoProgressFields>();
+
+  constructor(
+    private readonly videoService: VideoService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleDestroy() {
+    this.updates.complete();
+  }
+
+  // Announce a video update written by this process
+  publish(video: VideoProgressFields): void {
+    this.updates.next(video);
+  }
+
+  // Progress of one video. Starts with its current state and completes
+  // once the video is ready or failed.
+  watchVideo(video: VideoProgressFields): Observable<MessageEvent> {
+    const polled = interval(this.pollIntervalMs).pipe(
+      switchMap(() => this.videoService.getVideoProgress(video.id)),
+      filter(Boolean),
+    );
+    const changes = merge(
+      this.updates.pipe(filter((update) => update.id === video.id)),
+      polled,
+    );
+
+    const progress = merge(from([video]), changes).pipe(
+      newerThanLastSeen(),
+      takeWhile(
+        (update) => !FINAL_VIDEO_STATUSES.includes(update.status),
+        true,
+      ),
+      map(toMessage),
+    );
+    return withHeartbeat(progress, this.heartbeatMs);
+  }
+
+  // Progress of all of a user's videos. Starts with the videos currently
+  // in progress, then reports every change, including new videos.
+  watchUser(userId: string): Observable<MessageEvent> {
+    // Polls overlap by one interval so rows committed late are not skipped;
+    // repeats are dropped by newerThanLastSeen
+    let lastPoll = new Date();
+    const polled = interval(this.pollIntervalMs).pipe(
+      switchMap(() => {
+        const updatedAfter = new Date(lastPoll.getTime() - this.pollIntervalMs);
+        lastPoll = new Date();
+        return this.videoService.getUserVideoProgress(userId, {
+          updatedAfter,
+        });
+      }),
+      mergeMap((videos) => videos),
+    );
+
+    const current = defer(() =>
+      this.videoService.getUserVideoProgress(userId, {
+        inProgressStatuses: IN_PROGRESS_VIDEO_STATUSES,
+      }),
+    ).pipe(mergeMap((videos) => videos));
+
+    const progress = merge(
+      current,
+      this.updates.pipe(filter((update) => update.userId === userId)),
+      polled,
+    ).pipe(newerThanLastSeen(), map(toMessage));
+    return withHeartbeat(progress, this.heartbeatMs);
+  }
+
+  private get pollIntervalMs(): number {
+    return Number(
+      this.configService.get('VIDEO_EVENTS_POLL_INTERVAL_MS') ?? 5000,
+    );
+  }
+
+  private get heartbeatMs(): number {
+    return Number(this.configService.get('VIDEO_EVENTS_HEARTBEAT_MS') ?? 25000);
+  }
+}
+
+// Drop updates that are not newer than the last one seen for the same
+// video, e.g. a poll that read the row just before a live update.
+function newerThanLastSeen() {
+  const lastSeen = new Map<string, number>();
+  return filter((update: VideoProgressFields) => {
+    const updatedAt = update.updatedAt.getTime();
+    if (updatedAt <= (lastSeen.get(update.id) ?? -Infinity)) {
+      return false;
+    }
+    lastSeen.set(update.id, updatedAt);
+    return true;
+  });
+}
+
+function toMessage(update: VideoProgressFields): MessageEvent {
+  const data: VideoProgressEvent = {
+    videoId: update.id,
+    status: update.status,
+    progress: update.generationProgress,
+    errorMessage: update.errorMessage,
+    videoUrl: update.videoUrl,
+    thumbnailUrl: update.thumbnailUrl,
+    updatedAt: update.updatedAt.toISOString(),
+  };
+  return { type: 'progress', id: `${update.id}:${data.updatedAt}`, data };
+}
+
+// Keep idle connections from being closed by proxies
+function withHeartbeat(
+  events: Observable<MessageEvent>,
+  heartbeatMs: number,
+): Observable<MessageEvent> {
+  return new Observable<MessageEvent>((subscriber) => {
+    const heartbeat = setInterval(
+      () => subscriber.next({ type: 'ping', data: '' }),
+      heartbeatMs,
+    );
+    const subscription = events.subscribe(subscriber);
+    return () => {
+      clearInterval(heartbeat);
+      subscription.unsubscribe();
+    };
+  });
+}
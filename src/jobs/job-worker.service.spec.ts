@@ -0,0 +1,111 @@
+import { ConfigService } from '@nestjs/config';
+import { JobQueue } from '@prisma/client';
+import { JobQueueService } from '../database/job-queue.service';
+import { JobWorkerService } from './job-worker.service';
+
+describe('JobWorkerService', () => {
+  let worker: JobWorkerService;
+  let jobQueueService: Record<string, jest.Mock>;
+
+  const job = (overrides: Partial<JobQueue> = {}) =>
+    ({
+      id: 'job-1',
+      jobType: 'test',
+      payload: { value: 1 },
+      retryCount: 0,
+      maxRetries: 3,
+      status: 'running',
+      ...overrides,
+    }) as JobQueue;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    jobQueueService = {
+      claimNextJob: jest.fn().mockResolvedValue(null),
+      completeJob: jest.fn().mockResolvedValue({}),
+      failJob: jest.fn().mockImplementation(async (failed: JobQueue) => ({
+        status: failed.retryCount < failed.maxRetries ? 'pending' : 'failed',
+      })),
+      updateProgress: jest.fn().mockResolvedValue({}),
+    };
+    worker = new JobWorkerService(
+      jobQueueService as unknown as JobQueueService,
+      new ConfigService({ JOB_RETRY_BASE_DELAY_MS: 30000 }),
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('completes a job whose handler succeeds', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    worker.registerHandler('test', handler);
+
+    await worker.runJob(job());
+
+    expect(handler).toHaveBeenCalledWith(
+      { value: 1 },
+      expect.objectContaining({ attempt: 1, isFinalAttempt: false }),
+    );
+    expect(jobQueueService.completeJob).toHaveBeenCalledWith('job-1');
+    expect(jobQueueService.failJob).not.toHaveBeenCalled();
+  });
+
+  it('reschedules a failed job with exponential backoff capped at an hour', async () => {
+    worker.registerHandler(
+      'test',
+      jest.fn().mockRejectedValue(new Error('boom')),
+    );
+
+    const delays: number[] = [];
+    for (const retryCount of [0, 1, 2, 7, 20]) {
+      jobQueueService.failJob.mockClear();
+      await worker.runJob(job({ retryCount, maxRetries: 30 }));
+
+      const [failed, message, retryAt] = jobQueueService.failJob.mock.calls[0];
+      expect(failed.id).toBe('job-1');
+      expect(message).toBe('boom');
+      delays.push(retryAt.getTime() - Date.now());
+    }
+
+    expect(delays).toEqual([30000, 60000, 120000, 3600000, 3600000]);
+    expect(jobQueueService.completeJob).not.toHaveBeenCalled();
+  });
+
+  it('tells the handler when a failure will not be retried', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('boom'));
+    worker.registerHandler('test', handler);
+
+    await worker.runJob(job({ retryCount: 2, maxRetries: 3 }));
+    await worker.runJob(job({ retryCount: 3, maxRetries: 3 }));
+
+    expect(handler.mock.calls.map(([, context]) => context)).toEqual([
+      expect.objectContaining({ attempt: 3, isFinalAttempt: false }),
+      expect.objectContaining({ attempt: 4, isFinalAttempt: true }),
+    ]);
+  });
+
+  it('records a job without a handler as failed instead of losing it', async () => {
+    await worker.runJob(job({ jobType: 'unknown' }));
+
+    expect(jobQueueService.failJob).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'job-1' }),
+      'No handler registered for job type "unknown"',
+      expect.any(Date),
+    );
+  });
+
+  it('claims jobs of the registered types up to the concurrency limit', async () => {
+    let finish: () => void;
+    worker.registerHandler(
+      'test',
+      () => new Promise<void>((resolve) => (finish = resolve)),
+    );
+    jobQueueService.claimNextJob.mockResolvedValue(job());
+
+    await worker.poll();
+
+    expect(jobQueueService.claimNextJob).toHaveBeenCalledTimes(1);
+    expect(jobQueueService.claimNextJob).toHaveBeenCalledWith(['test']);
+    finish();
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JobQueue } from '@prisma/client';
+import { JobQueueService } from '../database/job-queue.service';
+
+export interface JobContext {
+  job: JobQueue;
+  // 1-based attempt number
+  attempt: number;
+  // True when a failure of this attempt will not be retried
+  isFinalAttempt: boolean;
+  reportProgress(progress: number): Promise<void>;
+}
+
+export type JobHandler = (
+  payload: Record<string, any>,
+  context: JobContext,
+) => Promise<void>;
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class JobWorkerService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(JobWorkerService.name);
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly activeJobs = new Set<Promise<void>>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private stopping = false;
+
+  constructor(
+    private readonly jobQueueService: JobQueueService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Register the function that processes a given job type
+  registerHandler(jobType: string, handler: JobHandler): void {
+    if (this.handlers.has(jobType)) {
+      throw new Error(
+        `A handler for job type "${jobType}" is already registered`,
+      );
+    }
+    this.handlers.set(jobType, handler);
+  }
+
+  async onApplicationBootstrap() {
+    if (this.configService.get<string>('JOB_WORKER_ENABLED') === 'false') {
+      this.logger.log('Job worker disabled');
+      return;
+    }
+
+    const staleAfterMs = Number(
+      this.configService.get('JOB_STALE_AFTER_MS') ?? 30 * 60 * 1000,
+    );
+    const requeued = await this.jobQueueService.requeueStaleJobs(
+      new Date(Date.now() - staleAfterMs),
+    );
+    if (requeued > 0) {
+      this.logger.warn(`Requeued ${requeued} stale running job(s)`);
+    }
+
+    const intervalMs = Number(
+      this.configService.get('JOB_WORKER_POLL_INTERVAL_MS') ?? 2000,
+    );
+    this.timer = setInterval(() => void this.poll(), intervalMs);
+    this.timer.unref();
+    this.logger.log(
+      `Job worker started for: ${[...this.handlers.keys()].join(', ') || 'no job types'}`,
+    );
+  }
+
+  async onModuleDestroy() {
+    this.stopping = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    // Let in-flight jobs finish so they are not left in "running"
+    await Promise.allSettled([...this.activeJobs]);
+  }
+
+  // Claim and start due jobs until the concurrency limit is reached
+  async poll(): Promise<void> {
+    if (this.polling || this.stopping) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      while (!this.stopping && this.activeJobs.size < this.concurrency) {
+        const job = await this.jobQueueService.claimNextJob([
+          ...this.handlers.keys(),
+        ]);
+        if (!job) {
+          break;
+        }
+
+        const run = this.runJob(job)
+          .catch((error) => {
+            this.logger.error(
+              `Failed to record outcome of job ${job.id}: ${error.message}`,
+              error.stack,
+            );
+          })
+          .finally(() => {
+            this.activeJobs.delete(run);
+          });
+        this.activeJobs.add(run);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to poll job queue: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Run a claimed job and record the outcome
+  async runJob(job: JobQueue): Promise<void> {
+    const handler = this.handlers.get(job.jobType);
+    const context: JobContext = {
+      job,
+      attempt: job.retryCount + 1,
+      isFinalAttempt: job.retryCount >= job.maxRetries,
+      reportProgress: async (progress: number) => {
+        await this.jobQueueService.updateProgress(job.id, progress);
+      },
+    };
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type "${job.jobType}"`);
+      }
+
+      await handler((job.payload as Record<string, any>) || {}, context);
+      await this.jobQueueService.completeJob(job.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt = new Date(Date.now() + this.retryDelayMs(job.retryCount));
+      const updated = await this.jobQueueService.failJob(job, message, retryAt);
+
+      if (updated.status === 'failed') {
+        this.logger.error(
+          `Job ${job.id} (${job.jobType}) failed after ${context.attempt} attempt(s): ${message}`,
+        );
+      } else {
+        this.logger.warn(
+          `Job ${job.id} (${job.jobType}) attempt ${context.attempt} failed, retrying at ${retryAt.toISOString()}: ${message}`,
+        );
+      }
+    }
+  }
+
+  // Exponential backoff: base, 2x base, 4x base... capped at one hour
+  private retryDelayMs(retryCount: number): number {
+    const baseMs = Number(
+      this.configService.get('JOB_RETRY_BASE_DELAY_MS') ?? 30000,
+    );
+    return Math.min(baseMs * 2 ** retryCount, MAX_RETRY_DELAY_MS);
+  }
+
+  private get concurrency(): number {
+    return Math.max(
+      1,
+      Number(this.configService.get('JOB_WORKER_CONCURRENCY') ?? 1),
+    );
+  }
+}
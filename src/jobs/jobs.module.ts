@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { JobWorkerService } from './job-worker.service';
+
+@Module({
+  imports: [ConfigModule, DatabaseModule],
+  providers: [JobWorkerService],
+  exports: [JobWorkerService],
+})
+export class JobsModule {}
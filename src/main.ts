@@ -5,7 +5,8 @@ import { AppModule } from './app.module';
 import { HttpExceptionFilter } from './filters/http-exception.filter';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Raw body is kept for webhook signature verification
+  const app = await NestFactory.create(AppModule, { rawBody: true });
   const logger = new Logger('Bootstrap');
 
   // Global validation pipe for DTOs
@@ -90,6 +91,13 @@ For technical support, visit our [GitHub Issues](https://github.com/example/easy
     .addTag('Series', 'Content series and template management')
     .addTag('Videos', 'Video creation, generation, and management')
     .addTag('Social Accounts', 'Social media platform integrations')
+    .addTag(
+      'Social Posts',
+      'Scheduling and publishing videos to social accounts',
+    )
+    .addTag('Catalog', 'Content categories and series templates')
+    .addTag('Search', 'Full-text search over videos and series')
+    .addTag('Billing', 'Subscription plans, billing and webhooks')
     .addTag('Auth', 'Authentication and authorization')
     .build();
 
@@ -0,0 +1,40 @@
+import {
+  NotificationChannel,
+  NotificationMessage,
+  NotificationRecipient,
+} from '../notification-channel.interface';
+import { SmtpClient } from '../smtp-client';
+
+// Sends the notification as a plain-text email. Relative action URLs are
+// made absolute with the public base URL so they work from a mail client.
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'email';
+  readonly preferenceKey = 'email';
+  readonly deferred = true;
+
+  constructor(
+    private readonly smtp: SmtpClient,
+    private readonly publicBaseUrl: string,
+  ) {}
+
+  canDeliver(recipient: NotificationRecipient): boolean {
+    return Boolean(recipient.email);
+  }
+
+  async send(
+    recipient: NotificationRecipient,
+    notification: NotificationMessage,
+  ): Promise<void> {
+    const greeting = recipient.fullName ? `Hi ${recipient.fullName},` : 'Hi,';
+    const lines = [greeting, '', notification.message];
+    if (notification.actionUrl) {
+      lines.push('', new URL(notification.actionUrl, this.publicBaseUrl).href);
+    }
+
+    await this.smtp.send({
+      to: recipient.email,
+      subject: notification.title,
+      text: lines.join('\n'),
+    });
+  }
+}
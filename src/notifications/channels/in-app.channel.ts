@@ -0,0 +1,32 @@
+import { NotificationService } from '../../database/notification.service';
+import {
+  NotificationChannel,
+  NotificationMessage,
+  NotificationRecipient,
+} from '../notification-channel.interface';
+
+// Stores the notification for the /notifications endpoints
+export class InAppChannel implements NotificationChannel {
+  readonly name = 'in_app';
+  readonly preferenceKey = 'push';
+  readonly deferred = false;
+
+  constructor(private readonly notificationService: NotificationService) {}
+
+  canDeliver(): boolean {
+    return true;
+  }
+
+  async send(
+    recipient: NotificationRecipient,
+    notification: NotificationMessage,
+  ): Promise<void> {
+    await this.notificationService.createNotification({
+      userId: recipient.id,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      actionUrl: notification.actionUrl,
+    });
+  }
+}
@@ -0,0 +1,72 @@
+import { createHmac } from 'crypto';
+import { assertPublicUrl } from '../../security/public-address';
+import {
+  NotificationChannel,
+  NotificationMessage,
+  NotificationRecipient,
+} from '../notification-channel.interface';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// POSTs the notification as JSON to the user's webhook URL. When a secret
+// is configured the body is signed: X-Easy-Reals-Signature carries
+// "t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">".
+// The URL is user-supplied, so it must resolve to public addresses only and
+// redirects are not followed.
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook';
+  readonly preferenceKey = 'webhook';
+  readonly deferred = true;
+
+  constructor(private readonly secret?: string) {}
+
+  canDeliver(recipient: NotificationRecipient): boolean {
+    return Boolean(recipient.notificationWebhookUrl);
+  }
+
+  async send(
+    recipient: NotificationRecipient,
+    notification: NotificationMessage,
+  ): Promise<void> {
+    const body = JSON.stringify({
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      actionUrl: notification.actionUrl ?? null,
+      data: notification.data ?? {},
+      userId: recipient.id,
+      sentAt: new Date().toISOString(),
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'easy-reals-webhooks',
+    };
+    if (this.secret) {
+      headers['X-Easy-Reals-Signature'] = signWebhook(body, this.secret);
+    }
+
+    await assertPublicUrl(recipient.notificationWebhookUrl);
+    const response = await fetch(recipient.notificationWebhookUrl, {
+      method: 'POST',
+      headers,
+      body,
+      redirect: 'error',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+}
+
+export function signWebhook(
+  body: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000),
+): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
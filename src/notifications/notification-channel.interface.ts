@@ -0,0 +1,36 @@
+// Injection token for the array of enabled NotificationChannel implementations
+export const NOTIFICATION_CHANNELS = 'NOTIFICATION_CHANNELS';
+
+export interface NotificationMessage {
+  type: string;
+  title: string;
+  message: string;
+  actionUrl?: string;
+  // Ids of the records the notification is about, forwarded to webhooks
+  data?: Record<string, string>;
+}
+
+export interface NotificationRecipient {
+  id: string;
+  email: string;
+  fullName: string | null;
+  notificationWebhookUrl: string | null;
+}
+
+// A way of reaching a user. Each channel is switched on or off by its key in
+// Profile.notificationPreferences; a missing key counts as on.
+export interface NotificationChannel {
+  readonly name: string;
+  readonly preferenceKey: string;
+  // Deferred channels talk to external systems and are delivered by a
+  // notification_delivery job so failures are retried
+  readonly deferred: boolean;
+
+  // Whether the channel can reach this recipient at all
+  canDeliver(recipient: NotificationRecipient): boolean;
+
+  send(
+    recipient: NotificationRecipient,
+    notification: NotificationMessage,
+  ): Promise<void>;
+}
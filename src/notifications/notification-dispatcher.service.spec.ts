@@ -0,0 +1,129 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JobQueueService } from '../database/job-queue.service';
+import { NotificationService } from '../database/notification.service';
+import { JobContext } from '../jobs/job-worker.service';
+import { InAppChannel } from './channels/in-app.channel';
+import { WebhookChannel } from './channels/webhook.channel';
+import { NOTIFICATION_CHANNELS } from './notification-channel.interface';
+import { NotificationDispatcher } from './notification-dispatcher.service';
+import { videoReadyMessage } from './notification-messages';
+
+describe('NotificationDispatcher', () => {
+  let dispatcher: NotificationDispatcher;
+  let notificationService: Record<string, jest.Mock>;
+  let jobQueueService: Record<string, jest.Mock>;
+  let webhook: WebhookChannel;
+
+  const profile = (overrides: Record<string, any> = {}) => ({
+    id: 'user-1',
+    email: 'creator@example.com',
+    fullName: 'Casey Creator',
+    isActive: true,
+    notificationPreferences: { email: true, push: true },
+    notificationWebhookUrl: 'https://hooks.example.com/reels',
+    ...overrides,
+  });
+
+  const message = videoReadyMessage({ id: 'video-1', title: 'Mars Facts' });
+
+  const context = (overrides: Partial<JobContext> = {}): JobContext => ({
+    job: {} as any,
+    attempt: 1,
+    isFinalAttempt: false,
+    reportProgress: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    notificationService = {
+      getRecipient: jest.fn().mockResolvedValue(profile()),
+      createNotification: jest.fn().mockResolvedValue({}),
+    };
+    jobQueueService = {
+      addNotificationDeliveryJob: jest.fn().mockResolvedValue({}),
+    };
+    webhook = new WebhookChannel('webhook-secret');
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationDispatcher,
+        { provide: NotificationService, useValue: notificationService },
+        { provide: JobQueueService, useValue: jobQueueService },
+        {
+          provide: NOTIFICATION_CHANNELS,
+          useFactory: () => [
+            new InAppChannel(notificationService as any),
+            webhook,
+          ],
+        },
+      ],
+    }).compile();
+
+    dispatcher = module.get(NotificationDispatcher);
+  });
+
+  it('stores in-app notifications and queues external channels', async () => {
+    await dispatcher.notify('user-1', message);
+
+    expect(notificationService.createNotification).toHaveBeenCalledWith({
+      userId: 'user-1',
+      type: 'video_ready',
+      title: 'Your video is ready',
+      message: message.message,
+      actionUrl: '/api/v1/videos/video-1',
+    });
+    expect(jobQueueService.addNotificationDeliveryJob).toHaveBeenCalledWith(
+      'webhook',
+      'user-1',
+      message,
+    );
+  });
+
+  it('skips channels the user switched off or cannot be reached on', async () => {
+    notificationService.getRecipient.mockResolvedValue(
+      profile({
+        notificationPreferences: { push: false },
+        notificationWebhookUrl: null,
+      }),
+    );
+
+    await dispatcher.notify('user-1', message);
+
+    expect(notificationService.createNotification).not.toHaveBeenCalled();
+    expect(jobQueueService.addNotificationDeliveryJob).not.toHaveBeenCalled();
+  });
+
+  it('never throws when a channel fails', async () => {
+    notificationService.createNotification.mockRejectedValue(
+      new Error('database unavailable'),
+    );
+
+    await expect(dispatcher.notify('user-1', message)).resolves.toBeUndefined();
+    expect(jobQueueService.addNotificationDeliveryJob).toHaveBeenCalled();
+  });
+
+  it('delivers queued notifications and rethrows failures for retry', async () => {
+    const send = jest
+      .spyOn(webhook, 'send')
+      .mockRejectedValueOnce(new Error('Webhook responded with 503'))
+      .mockResolvedValueOnce(undefined);
+    const payload = {
+      channel: 'webhook',
+      userId: 'user-1',
+      notification: message,
+    };
+
+    await expect(dispatcher.handleJob(payload, context())).rejects.toThrow(
+      'Webhook responded with 503',
+    );
+    await dispatcher.handleJob(payload, context({ attempt: 2 }));
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        notificationWebhookUrl: 'https://hooks.example.com/reels',
+      }),
+      message,
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { JobQueueService } from '../database/job-queue.service';
+import { NotificationService } from '../database/notification.service';
+import { JobContext } from '../jobs/job-worker.service';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationMessage,
+  NotificationRecipient,
+} from './notification-channel.interface';
+
+// Sends a notification through every channel the user has not switched off.
+// In-app delivery happens inline; external channels go through the job
+// queue. Notifying never throws, so callers can fire and forget.
+@Injectable()
+export class NotificationDispatcher {
+  private readonly logger = new Logger(NotificationDispatcher.name);
+
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly jobQueueService: JobQueueService,
+    @Inject(NOTIFICATION_CHANNELS)
+    private readonly channels: NotificationChannel[],
+  ) {}
+
+  // Notify a user through their enabled channels
+  async notify(
+    userId: string,
+    notification: NotificationMessage,
+  ): Promise<void> {
+    try {
+      const recipient = await this.loadRecipient(userId);
+      if (!recipient) {
+        return;
+      }
+
+      for (const channel of this.enabledChannels(recipient)) {
+        try {
+          if (channel.deferred) {
+            await this.jobQueueService.addNotificationDeliveryJob(
+              channel.name,
+              userId,
+              notification,
+            );
+          } else {
+            await channel.send(recipient, notification);
+          }
+        } catch (error) {
+          this.logger.error(
+            `Failed to send ${notification.type} notification to user ${userId} via ${channel.name}: ${error.message}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify user ${userId} of ${notification.type}: ${error.message}`,
+      );
+    }
+  }
+
+  // Job handler for JOB_TYPES.NOTIFICATION_DELIVERY
+  async handleJob(
+    payload: Record<string, any>,
+    context: JobContext,
+  ): Promise<void> {
+    const channel = this.channels.find((c) => c.name === payload.channel);
+    if (!channel) {
+      this.logger.warn(
+        `Notification channel ${payload.channel} is no longer enabled, skipping`,
+      );
+      return;
+    }
+
+    // Preferences are checked again in case they changed while queued
+    const recipient = await this.loadRecipient(payload.userId);
+    if (!recipient || !this.enabledChannels(recipient).includes(channel)) {
+      return;
+    }
+
+    try {
+      await channel.send(recipient, payload.notification);
+    } catch (error) {
+      if (context.isFinalAttempt) {
+        this.logger.error(
+          `Giving up on ${channel.name} notification for user ${payload.userId}: ${error.message}`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  private enabledChannels(
+    recipient: NotificationRecipient & { preferences: Record<string, any> },
+  ): NotificationChannel[] {
+    return this.channels.filter(
+      (channel) =>
+        recipient.preferences[channel.preferenceKey] !== false &&
+        channel.canDeliver(recipient),
+    );
+  }
+
+  private async loadRecipient(userId: string) {
+    const profile = await this.notificationService.getRecipient(userId);
+    if (!profile || !profile.isActive) {
+      return null;
+    }
+
+    const preferences = profile.notificationPreferences;
+    return {
+      id: profile.id,
+      email: profile.email,
+      fullName: profile.fullName,
+      notificationWebhookUrl: profile.notificationWebhookUrl,
+      preferences:
+        preferences && typeof preferences === 'object'
+          ? (preferences as Record<string, any>)
+          : {},
+    };
+  }
+}
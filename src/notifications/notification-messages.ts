@@ -0,0 +1,108 @@
+import { NotificationMessage } from './notification-channel.interface';
+
+export const NOTIFICATION_TYPES = {
+  VIDEO_READY: 'video_ready',
+  VIDEO_FAILED: 'video_failed',
+  POST_PUBLISHED: 'post_published',
+  POST_FAILED: 'post_failed',
+  SOCIAL_RECONNECT_REQUIRED: 'social_reconnect_required',
+  PASSWORD_RESET: 'password_reset',
+  EMAIL_VERIFICATION: 'email_verification',
+} as const;
+
+export function videoReadyMessage(video: {
+  id: string;
+  title: string;
+}): NotificationMessage {
+  return {
+    type: NOTIFICATION_TYPES.VIDEO_READY,
+    title: 'Your video is ready',
+    message: `"${video.title}" has finished generating and is ready to publish.`,
+    actionUrl: `/api/v1/videos/${video.id}`,
+    data: { videoId: video.id },
+  };
+}
+
+export function videoFailedMessage(
+  video: { id: string; title: string },
+  reason: string,
+): NotificationMessage {
+  return {
+    type: NOTIFICATION_TYPES.VIDEO_FAILED,
+    title: 'Video generation failed',
+    message: `We could not generate "${video.title}": ${reason}`,
+    actionUrl: `/api/v1/videos/${video.id}`,
+    data: { videoId: video.id },
+  };
+}
+
+export function postPublishedMessage(post: {
+  id: string;
+  videoId: string;
+  platform: string;
+  video: { title: string };
+}): NotificationMessage {
+  return {
+    type: NOTIFICATION_TYPES.POST_PUBLISHED,
+    title: `Published to ${post.platform}`,
+    message: `"${post.video.title}" is now live on ${post.platform}.`,
+    actionUrl: `/api/v1/social-posts/${post.id}`,
+    data: { socialPostId: post.id, videoId: post.videoId },
+  };
+}
+
+export function postFailedMessage(
+  post: {
+    id: string;
+    videoId: string;
+    platform: string;
+    video: { title: string };
+  },
+  reason: string,
+): NotificationMessage {
+  return {
+    type: NOTIFICATION_TYPES.POST_FAILED,
+    title: `Publishing to ${post.platform} failed`,
+    message: `"${post.video.title}" could not be published to ${post.platform}: ${reason}`,
+    actionUrl: `/api/v1/social-posts/${post.id}`,
+    data: { socialPostId: post.id, videoId: post.videoId },
+  };
+}
+
+export function reconnectRequiredMessage(
+  account: { id: string; platform: string; username: string },
+  platformName: string,
+  reason: string,
+): NotificationMessage {
+  return {
+    type: NOTIFICATION_TYPES.SOCIAL_RECONNECT_REQUIRED,
+    title: `Reconnect your ${platformName} account`,
+    message: `${reason} for ${account.username} on ${platformName}, so automatic posting to it is paused. Reconnect the account to resume.`,
+    actionUrl: `/api/v1/social-accounts/oauth/${account.platform}/start`,
+    data: { socialAccountId: account.id },
+  };
+}
+
+export function passwordResetMessage(
+  resetUrl: string,
+  expiresInMinutes: number,
+): NotificationMessage {
+  return {
+    type: NOTIFICATION_TYPES.PASSWORD_RESET,
+    title: 'Reset your password',
+    message: `Someone asked to reset the password of your account. Open the link below within ${expiresInMinutes} minutes to choose a new one. If it was not you, ignore this email.`,
+    actionUrl: resetUrl,
+  };
+}
+
+export function emailVerificationMessage(
+  verifyUrl: string,
+  expiresInHours: number,
+): NotificationMessage {
+  return {
+    type: NOTIFICATION_TYPES.EMAIL_VERIFICATION,
+    title: 'Confirm your email address',
+    message: `Open the link below within ${expiresInHours} hours to confirm your email address and finish creating your account. If you did not sign up, ignore this email.`,
+    actionUrl: verifyUrl,
+  };
+}
@@ -0,0 +1,153 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  NotFoundException,
+  ClassSerializerInterceptor,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth-user';
+import { NotificationService } from '../database/notification.service';
+import { NotificationQueryDto } from '../dto/notification/notification-query.dto';
+import {
+  NotificationResponseDto,
+  UnreadCountResponseDto,
+} from '../dto/notification/notification-response.dto';
+import { PaginatedResponseDto } from '../dto/common/pagination.dto';
+import { ErrorResponseDto } from '../dto/common/error-response.dto';
+import { plainToClass } from 'class-transformer';
+
+@ApiTags('Notifications')
+@Controller('api/v1/notifications')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+@UseInterceptors(ClassSerializerInterceptor)
+export class NotificationsController {
+  constructor(private readonly notificationService: NotificationService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: "Get user's notifications",
+    description: 'Returns paginated notifications, newest first',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Notifications retrieved successfully',
+    type: [NotificationResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  async getNotifications(
+    @CurrentUser('id') userId: string,
+    @Query() query: NotificationQueryDto,
+  ) {
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+
+    const { notifications, total } =
+      await this.notificationService.getUserNotifications(userId, {
+        unreadOnly: query.unreadOnly,
+        skip: (page - 1) * limit,
+        take: limit,
+      });
+
+    return new PaginatedResponseDto(
+      notifications.map((notification) =>
+        plainToClass(NotificationResponseDto, notification),
+      ),
+      total,
+      page,
+      limit,
+    );
+  }
+
+  @Get('unread-count')
+  @ApiOperation({
+    summary: 'Get unread notification count',
+    description: 'Returns how many notifications the user has not read yet',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Count retrieved successfully',
+    type: UnreadCountResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  async getUnreadCount(
+    @CurrentUser() user: AuthUser,
+  ): Promise<UnreadCountResponseDto> {
+    const count = await this.notificationService.countUnread(user.id);
+    return { count };
+  }
+
+  @Post('read-all')
+  @ApiOperation({
+    summary: 'Mark all notifications as read',
+    description: 'Returns the number of notifications that were unread',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Notifications marked as read',
+    type: UnreadCountResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  async markAllAsRead(
+    @CurrentUser() user: AuthUser,
+  ): Promise<UnreadCountResponseDto> {
+    const count = await this.notificationService.markAllAsRead(user.id);
+    return { count };
+  }
+
+  @Post(':id/read')
+  @ApiOperation({
+    summary: 'Mark a notification as read',
+  })
+  @ApiParam({ name: 'id', description: 'Notification ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Notification marked as read',
+    type: NotificationResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Notification not found',
+    type: ErrorResponseDto,
+  })
+  async markAsRead(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<NotificationResponseDto> {
+    const notification = await this.notificationService.markAsRead(id, user.id);
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+    return plainToClass(NotificationResponseDto, notification);
+  }
+}
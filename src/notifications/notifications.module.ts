@@ -0,0 +1,94 @@
+import { Module, OnModuleInit } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { JOB_TYPES } from '../database/job-queue.service';
+import { NotificationService } from '../database/notification.service';
+import { JobsModule } from '../jobs/jobs.module';
+import { JobWorkerService } from '../jobs/job-worker.service';
+import { EmailChannel } from './channels/email.channel';
+import { InAppChannel } from './channels/in-app.channel';
+import { WebhookChannel } from './channels/webhook.channel';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+} from './notification-channel.interface';
+import { NotificationDispatcher } from './notification-dispatcher.service';
+import { NotificationsController } from './notifications.controller';
+import { SmtpClient } from './smtp-client';
+
+@Module({
+  imports: [ConfigModule, DatabaseModule, JobsModule],
+  controllers: [NotificationsController],
+  providers: [
+    {
+      provide: NOTIFICATION_CHANNELS,
+      useFactory: (
+        configService: ConfigService,
+        notificationService: NotificationService,
+      ) => {
+        const names =
+          configService.get<string>('NOTIFICATION_CHANNELS') ||
+          'in_app,email,webhook';
+
+        return names
+          .split(',')
+          .map((name) => name.trim())
+          .filter(Boolean)
+          .flatMap((name): NotificationChannel[] => {
+            switch (name) {
+              case 'in_app':
+                return [new InAppChannel(notificationService)];
+              case 'email': {
+                // Email stays off until an SMTP server is configured
+                const host = configService.get<string>('SMTP_HOST');
+                if (!host) {
+                  return [];
+                }
+                const smtp = new SmtpClient({
+                  host,
+                  port: Number(configService.get('SMTP_PORT') ?? 587),
+                  secure: configService.get<string>('SMTP_SECURE') === 'true',
+                  username: configService.get<string>('SMTP_USER'),
+                  password: configService.get<string>('SMTP_PASSWORD'),
+                  allowInsecureAuth:
+                    configService.get<string>('SMTP_ALLOW_INSECURE_AUTH') ===
+                    'true',
+                  from:
+                    configService.get<string>('SMTP_FROM') ||
+                    'Easy Reals <no-reply@localhost>',
+                });
+                const baseUrl =
+                  configService.get<string>('PUBLIC_BASE_URL') ||
+                  `http://localhost:${configService.get('PORT') || 3005}`;
+                return [new EmailChannel(smtp, baseUrl)];
+              }
+              case 'webhook':
+                return [
+                  new WebhookChannel(
+                    configService.get<string>('NOTIFICATION_WEBHOOK_SECRET'),
+                  ),
+                ];
+              default:
+                throw new Error(`Unknown notification channel "${name}"`);
+            }
+          });
+      },
+      inject: [ConfigService, NotificationService],
+    },
+    NotificationDispatcher,
+  ],
+  exports: [NOTIFICATION_CHANNELS, NotificationDispatcher],
+})
+export class NotificationsModule implements OnModuleInit {
+  constructor(
+    private readonly jobWorker: JobWorkerService,
+    private readonly dispatcher: NotificationDispatcher,
+  ) {}
+
+  onModuleInit() {
+    this.jobWorker.registerHandler(
+      JOB_TYPES.NOTIFICATION_DELIVERY,
+      (payload, ctx) => this.dispatcher.handleJob(payload, ctx),
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import { SmtpClient } from './smtp-client';
+
+// SMTP sink like MailHog: accepts every message except for @unknown.test
+class SmtpSink {
+  readonly messages: { from: string; to: string[]; data: string }[] = [];
+  readonly auth: string[] = [];
+  private server: Server;
+  port: number;
+
+  async start() {
+    this.server = createServer((socket) => this.handle(socket));
+    await new Promise<void>((resolve) => this.server.listen(0, resolve));
+    this.port = (this.server.address() as AddressInfo).port;
+  }
+
+  stop() {
+    return new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private handle(socket: Socket) {
+    let buffer = '';
+    let inData = false;
+    let current = { from: '', to: [] as string[], data: '' };
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply('220 sink.test ESMTP');
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            this.messages.push(current);
+            current = { from: '', to: [], data: '' };
+            reply('250 OK: queued');
+          } else {
+            current.data += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        const [verb] = line.split(' ');
+        switch (verb.toUpperCase()) {
+          case 'EHLO':
+            reply('250-sink.test');
+            reply('250 AUTH PLAIN');
+            break;
+          case 'AUTH':
+            this.auth.push(line.split(' ')[2]);
+            reply('235 Authentication successful');
+            break;
+          case 'MAIL':
+            current.from = line.match(/<(.*)>/)[1];
+            reply('250 OK');
+            break;
+          case 'RCPT': {
+            const address = line.match(/<(.*)>/)[1];
+            if (address.endsWith('@unknown.test')) {
+              reply('550 No such user here');
+              break;
+            }
+            current.to.push(address);
+            reply('250 OK');
+            break;
+          }
+          case 'DATA':
+            inData = true;
+            reply('354 End data with <CR><LF>.<CR><LF>');
+            break;
+          case 'QUIT':
+            reply('221 Bye');
+            socket.end();
+            break;
+          default:
+            reply('502 Command not implemented');
+        }
+      }
+    });
+  }
+}
+
+describe('SmtpClient', () => {
+  const sink = new SmtpSink();
+
+  beforeAll(() => sink.start());
+  afterAll(() => sink.stop());
+
+  it('delivers a message to the SMTP server', async () => {
+    const client = new SmtpClient({
+      host: '127.0.0.1',
+      port: sink.port,
+      username: 'mailer',
+      password: 's3cret',
+      allowInsecureAuth: true,
+      from: 'Easy Reals <no-reply@easy-reals.test>',
+    });
+
+    await client.send({
+      to: 'creator@example.com',
+      subject: 'Your video is ready ✨',
+      text: 'Hi Casey,\n\n"Mars Facts" has finished generating.',
+    });
+
+    const message = sink.messages.at(-1);
+    expect(message.from).toBe('no-reply@easy-reals.test');
+    expect(message.to).toEqual(['creator@example.com']);
+    expect(message.data).toContain('To: creator@example.com\r\n');
+    expect(message.data).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from('Your video is ready ✨').toString('base64')}?=`,
+    );
+    const body = message.data.split('\r\n\r\n')[1].replace(/\r\n/g, '');
+    expect(Buffer.from(body, 'base64').toString()).toBe(
+      'Hi Casey,\r\n\r\n"Mars Facts" has finished generating.',
+    );
+    expect(Buffer.from(sink.auth.at(-1), 'base64').toString()).toBe(
+      '\0mailer\0s3cret',
+    );
+  });
+
+  it('does not send credentials over an unencrypted connection', async () => {
+    const client = new SmtpClient({
+      host: '127.0.0.1',
+      port: sink.port,
+      username: 'mailer',
+      password: 's3cret',
+      from: 'no-reply@easy-reals.test',
+    });
+    const attempts = sink.auth.length;
+    const delivered = sink.messages.length;
+
+    await expect(
+      client.send({ to: 'creator@example.com', subject: 'Hi', text: 'Hi' }),
+    ).rejects.toThrow(/refusing to send credentials in cleartext/);
+    expect(sink.auth).toHaveLength(attempts);
+    expect(sink.messages).toHaveLength(delivered);
+  });
+
+  it('fails when the server rejects the recipient', async () => {
+    const client = new SmtpClient({
+      host: '127.0.0.1',
+      port: sink.port,
+      from: 'no-reply@easy-reals.test',
+    });
+    const delivered = sink.messages.length;
+
+    await expect(
+      client.send({
+        to: 'nobody@unknown.test',
+        subject: 'Hello',
+        text: 'Hello',
+      }),
+    ).rejects.toThrow('SMTP RCPT TO failed: 550 No such user here');
+    expect(sink.messages).toHaveLength(delivered);
+  });
+});
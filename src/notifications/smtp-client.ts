@@ -0,0 +1,234 @@
+import { randomUUID } from 'crypto';
+import { connect as netConnect, Socket } from 'net';
+import { connect as tlsConnect } from 'tls';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465). Otherwise STARTTLS is used when the
+  // server offers it.
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  // Send credentials even when the connection is not encrypted (local sinks)
+  allowInsecureAuth?: boolean;
+  from: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Reads multi-line SMTP replies ("250-..." continues, "250 ..." ends)
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private failure: Error | null = null;
+
+  constructor(
+    public socket: Socket,
+    private readonly timeoutMs: number,
+  ) {
+    this.attach(socket);
+  }
+
+  // Swap the underlying socket, e.g. after STARTTLS
+  attach(socket: Socket) {
+    if (this.socket && this.socket !== socket) {
+      this.socket.removeAllListeners('data');
+      this.socket.removeAllListeners('close');
+    }
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  async expect(codes: number | number[], command?: string): Promise<SmtpReply> {
+    const reply = await this.nextReply();
+    const expected = Array.isArray(codes) ? codes : [codes];
+    if (!expected.includes(reply.code)) {
+      throw new Error(
+        `SMTP ${command ?? 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`,
+      );
+    }
+    return reply;
+  }
+
+  async command(
+    line: string,
+    codes: number | number[],
+    label = line.split(' ')[0],
+  ): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes, label);
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    if (this.replies.length > 0) {
+      return Promise.resolve(this.replies.shift());
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error('SMTP server did not respond in time')),
+        this.timeoutMs,
+      );
+      this.waiting = {
+        resolve: (reply) => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+    });
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line.slice(4));
+      if (line[3] !== '-') {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.lines });
+        this.lines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply) {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+}
+
+// Minimal SMTP submission client: EHLO, optional STARTTLS and AUTH PLAIN,
+// then one plain-text message per connection. Any SMTP server works,
+// including local sinks such as MailHog or smtp4dev.
+export class SmtpClient {
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(mail: MailMessage): Promise<void> {
+    const { host, port, secure } = this.options;
+    const timeoutMs = this.options.timeoutMs ?? 15000;
+    const socket = secure
+      ? tlsConnect({ host, port, servername: host })
+      : netConnect({ host, port });
+    const connection = new SmtpConnection(socket, timeoutMs);
+
+    try {
+      await connection.expect(220);
+      const ehlo = await connection.command('EHLO easy-reals', 250);
+
+      let encrypted = secure;
+      if (!secure && this.supports(ehlo, 'STARTTLS')) {
+        await connection.command('STARTTLS', 220);
+        connection.attach(
+          tlsConnect({ socket: connection.socket, servername: host }),
+        );
+        await connection.command('EHLO easy-reals', 250);
+        encrypted = true;
+      }
+
+      if (this.options.username) {
+        if (!encrypted && !this.options.allowInsecureAuth) {
+          throw new Error(
+            `SMTP server ${host} does not offer STARTTLS; refusing to send credentials in cleartext (set SMTP_SECURE=true, or SMTP_ALLOW_INSECURE_AUTH=true for local servers)`,
+          );
+        }
+        const credentials = Buffer.from(
+          `\0${this.options.username}\0${this.options.password ?? ''}`,
+        ).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, 235, 'AUTH');
+      }
+
+      await connection.command(
+        `MAIL FROM:<${this.address(this.options.from)}>`,
+        250,
+        'MAIL FROM',
+      );
+      await connection.command(
+        `RCPT TO:<${this.address(mail.to)}>`,
+        [250, 251],
+        'RCPT TO',
+      );
+      await connection.command('DATA', 354);
+      await connection.command(`${this.format(mail)}\r\n.`, 250, 'message');
+      await connection.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      connection.socket.destroy();
+    }
+  }
+
+  private supports(ehlo: SmtpReply, extension: string): boolean {
+    return ehlo.lines.some((line) => line.toUpperCase().startsWith(extension));
+  }
+
+  // Bare address from "Name <address>"
+  private address(value: string): string {
+    return value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+  }
+
+  private format(mail: MailMessage): string {
+    const domain = this.address(this.options.from).split('@')[1] || 'localhost';
+    const headers = [
+      `From: ${this.options.from}`,
+      `To: ${mail.to}`,
+      `Subject: ${encodeHeader(mail.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${randomUUID()}@${domain}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+    ];
+    const body = Buffer.from(mail.text.replace(/\r?\n/g, '\r\n'))
+      .toString('base64')
+      .replace(/.{1,76}/g, '$&\r\n')
+      .trimEnd();
+    return `${headers.join('\r\n')}\r\n\r\n${body}`;
+  }
+}
+
+// Single-line header value, RFC 2047 encoded when it is not plain ASCII
+function encodeHeader(value: string): string {
+  const line = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(line)
+    ? line
+    : `=?UTF-8?B?${Buffer.from(line).toString('base64')}?=`;
+}
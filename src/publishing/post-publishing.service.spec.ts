@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SocialPostService } from '../database/social-post.service';
+import { JobContext } from '../jobs/job-worker.service';
+import { NotificationDispatcher } from '../notifications/notification-dispatcher.service';
+import { FakeSocialPublisher } from './publishers/fake-social.publisher';
+import { SOCIAL_PUBLISHERS } from './publishers/social-publisher.interface';
+import { PostPublishingService } from './post-publishing.service';
+
+describe('PostPublishingService', () => {
+  let service: PostPublishingService;
+  let publisher: FakeSocialPublisher;
+  let socialPostService: Record<string, jest.Mock>;
+
+  const scheduledFor = new Date('2025-01-15T09:00:00.000Z');
+
+  const post = (overrides: Record<string, any> = {}) => ({
+    id: 'post-1',
+    videoId: 'video-1',
+    socialAccountId: 'account-1',
+    platform: 'tiktok',
+    caption: 'Three facts about Mars',
+    hashtags: ['space', '#science'],
+    status: 'scheduled',
+    scheduledFor,
+    retryCount: 0,
+    socialAccount: {
+      id: 'account-1',
+      userId: 'user-1',
+      platform: 'tiktok',
+      isActive: true,
+    },
+    video: {
+      id: 'video-1',
+      title: 'Mars Facts',
+      status: 'ready',
+      videoUrl: 'stub://generated/video-1/video.mp4',
+    },
+    ...overrides,
+  });
+
+  const payload = {
+    socialPostId: 'post-1',
+    scheduledFor: scheduledFor.toISOString(),
+  };
+
+  const context = (overrides: Partial<JobContext> = {}): JobContext => ({
+    job: {} as any,
+    attempt: 1,
+    isFinalAttempt: false,
+    reportProgress: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    publisher = new FakeSocialPublisher();
+    socialPostService = {
+      getPostById: jest.fn().mockResolvedValue(post()),
+      updatePost: jest.fn().mockResolvedValue(post()),
+      markPublished: jest.fn().mockResolvedValue(post()),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostPublishingService,
+        { provide: SocialPostService, useValue: socialPostService },
+        {
+          provide: NotificationDispatcher,
+          useValue: { notify: jest.fn().mockResolvedValue(undefined) },
+        },
+        { provide: SOCIAL_PUBLISHERS, useValue: [publisher] },
+      ],
+    }).compile();
+
+    service = module.get(PostPublishingService);
+  });
+
+  it('publishes a due post and stores the platform post ID', async () => {
+    await service.handleJob(payload, context());
+
+    expect(publisher.published).toHaveLength(1);
+    expect(publisher.published[0].caption).toBe(
+      'Three facts about Mars\n\n#space #science',
+    );
+    expect(socialPostService.markPublished).toHaveBeenCalledWith(
+      'post-1',
+      expect.stringMatching(/^fake_tiktok_/),
+      expect.any(Date),
+    );
+  });
+
+  it('reschedules a failed attempt and fails the post on the last one', async () => {
+    publisher.failNext(2, 'Upload rejected');
+
+    await expect(service.handleJob(payload, context())).rejects.toThrow(
+      'Upload rejected',
+    );
+    expect(socialPostService.updatePost).toHaveBeenLastCalledWith('post-1', {
+      status: 'scheduled',
+      errorMessage: 'Attempt 1 failed: Upload rejected',
+      retryCount: 1,
+    });
+
+    await expect(
+      service.handleJob(payload, context({ attempt: 4, isFinalAttempt: true })),
+    ).rejects.toThrow('Upload rejected');
+    expect(socialPostService.updatePost).toHaveBeenLastCalledWith('post-1', {
+      status: 'failed',
+      errorMessage: 'Upload rejected',
+      retryCount: 4,
+    });
+    expect(socialPostService.markPublished).not.toHaveBeenCalled();
+  });
+
+  it('skips cancelled and rescheduled posts', async () => {
+    socialPostService.getPostById.mockResolvedValueOnce(
+      post({ status: 'cancelled' }),
+    );
+    await service.handleJob(payload, context());
+
+    socialPostService.getPostById.mockResolvedValueOnce(
+      post({ scheduledFor: new Date('2025-01-16T09:00:00.000Z') }),
+    );
+    await service.handleJob(payload, context());
+
+    expect(publisher.published).toHaveLength(0);
+    expect(socialPostService.updatePost).not.toHaveBeenCalled();
+  });
+});
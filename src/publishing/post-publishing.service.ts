@@ -0,0 +1,148 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { SocialPost } from '@prisma/client';
+import {
+  SocialPostService,
+  SocialPostWithRelations,
+} from '../database/social-post.service';
+import { JobContext } from '../jobs/job-worker.service';
+import { NotificationDispatcher } from '../notifications/notification-dispatcher.service';
+import {
+  postFailedMessage,
+  postPublishedMessage,
+} from '../notifications/notification-messages';
+import {
+  SOCIAL_PUBLISHERS,
+  SocialPublisher,
+} from './publishers/social-publisher.interface';
+
+@Injectable()
+export class PostPublishingService {
+  private readonly logger = new Logger(PostPublishingService.name);
+  private readonly publishersByPlatform = new Map<string, SocialPublisher>();
+
+  constructor(
+    private readonly socialPostService: SocialPostService,
+    private readonly notificationDispatcher: NotificationDispatcher,
+    @Inject(SOCIAL_PUBLISHERS)
+    publishers: SocialPublisher[],
+  ) {
+    for (const publisher of publishers) {
+      for (const platform of publisher.platforms) {
+        this.publishersByPlatform.set(platform, publisher);
+      }
+    }
+  }
+
+  // Whether a publisher is configured for the platform
+  supportsPlatform(platform: string): boolean {
+    return this.publishersByPlatform.has(platform);
+  }
+
+  // Job handler for social_publish jobs
+  async handleJob(
+    payload: Record<string, any>,
+    context: JobContext,
+  ): Promise<void> {
+    const post = await this.socialPostService.getPostById(payload.socialPostId);
+    if (!post) {
+      this.logger.warn(
+        `Social post ${payload.socialPostId} no longer exists, skipping`,
+      );
+      return;
+    }
+
+    // 'publishing' is only seen here when a previous attempt was interrupted
+    if (post.status !== 'scheduled' && post.status !== 'publishing') {
+      this.logger.log(`Social post ${post.id} is ${post.status}, skipping`);
+      return;
+    }
+
+    // The post was rescheduled after this job was queued
+    if (
+      payload.scheduledFor &&
+      post.scheduledFor?.toISOString() !== payload.scheduledFor
+    ) {
+      this.logger.log(`Social post ${post.id} was rescheduled, skipping`);
+      return;
+    }
+
+    const problem = this.findBlockingProblem(post);
+    if (problem) {
+      // Retrying cannot fix these, so fail the post right away
+      await this.socialPostService.updatePost(post.id, {
+        status: 'failed',
+        errorMessage: problem,
+      });
+      this.logger.warn(
+        `Social post ${post.id} cannot be published: ${problem}`,
+      );
+      await this.notificationDispatcher.notify(
+        post.socialAccount.userId,
+        postFailedMessage(post, problem),
+      );
+      return;
+    }
+
+    const publisher = this.publishersByPlatform.get(post.platform);
+    await this.socialPostService.updatePost(post.id, { status: 'publishing' });
+
+    try {
+      const result = await publisher.publish({
+        post,
+        account: post.socialAccount,
+        video: post.video,
+        caption: this.buildCaption(post),
+      });
+
+      await this.socialPostService.markPublished(
+        post.id,
+        result.platformPostId,
+        result.publishedAt ?? new Date(),
+      );
+      this.logger.log(
+        `Published social post ${post.id} to ${post.platform} with ${publisher.name} publisher`,
+      );
+    } catch (error) {
+      await this.socialPostService.updatePost(post.id, {
+        status: context.isFinalAttempt ? 'failed' : 'scheduled',
+        errorMessage: context.isFinalAttempt
+          ? error.message
+          : `Attempt ${context.attempt} failed: ${error.message}`,
+        retryCount: context.attempt,
+      });
+      if (context.isFinalAttempt) {
+        await this.notificationDispatcher.notify(
+          post.socialAccount.userId,
+          postFailedMessage(post, error.message),
+        );
+      }
+      throw error;
+    }
+
+    await this.notificationDispatcher.notify(
+      post.socialAccount.userId,
+      postPublishedMessage(post),
+    );
+  }
+
+  // Caption text with the hashtags appended
+  buildCaption(post: Pick<SocialPost, 'caption' | 'hashtags'>): string {
+    const hashtags = post.hashtags
+      .map((tag) => `#${tag.replace(/^#/, '')}`)
+      .join(' ');
+    return [post.caption, hashtags].filter(Boolean).join('\n\n');
+  }
+
+  private findBlockingProblem(post: SocialPostWithRelations): string | null {
+    if (!this.publishersByPlatform.has(post.platform)) {
+      return `Publishing to ${post.platform} is not supported`;
+    }
+    if (!post.socialAccount.isActive) {
+      return 'Social account is disabled';
+    }
+    if (post.video.status !== 'ready' || !post.video.videoUrl) {
+      return 'Video is not ready for publishing';
+    }
+    return null;
+  }
+}
@@ -0,0 +1,61 @@
+import { ForbiddenException } from '@nestjs/common';
+import { JobQueueService } from '../database/job-queue.service';
+import { SocialAccountService } from '../database/social-account.service';
+import { SocialPostService } from '../database/social-post.service';
+import { VideoService } from '../database/video.service';
+import { QuotaService } from '../subscriptions/quota.service';
+import { PostPublishingService } from './post-publishing.service';
+import { PostSchedulingService } from './post-scheduling.service';
+
+describe('PostSchedulingService.retryPost', () => {
+  let service: PostSchedulingService;
+  let socialPostService: Record<string, jest.Mock>;
+  let jobQueueService: { addSocialPublishJob: jest.Mock };
+  let quotaService: { assertCanSchedulePosts: jest.Mock };
+
+  beforeEach(() => {
+    socialPostService = {
+      getPostById: jest.fn().mockResolvedValue({
+        id: 'post-1',
+        status: 'failed',
+        socialAccount: { userId: 'user-1' },
+      }),
+      updatePost: jest.fn().mockResolvedValue({ id: 'post-1' }),
+    };
+    jobQueueService = { addSocialPublishJob: jest.fn() };
+    quotaService = {
+      assertCanSchedulePosts: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new PostSchedulingService(
+      socialPostService as unknown as SocialPostService,
+      {} as SocialAccountService,
+      {} as VideoService,
+      jobQueueService as unknown as JobQueueService,
+      quotaService as unknown as QuotaService,
+      {} as PostPublishingService,
+    );
+  });
+
+  it('schedules the post again', async () => {
+    await service.retryPost('user-1', 'post-1');
+
+    expect(quotaService.assertCanSchedulePosts).toHaveBeenCalledWith('user-1');
+    expect(socialPostService.updatePost).toHaveBeenCalledWith(
+      'post-1',
+      expect.objectContaining({ status: 'scheduled', retryCount: 0 }),
+    );
+    expect(jobQueueService.addSocialPublishJob).toHaveBeenCalled();
+  });
+
+  it('does not retry once the weekly post limit is reached', async () => {
+    quotaService.assertCanSchedulePosts.mockRejectedValue(
+      new ForbiddenException('Weekly post limit reached'),
+    );
+
+    await expect(service.retryPost('user-1', 'post-1')).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(socialPostService.updatePost).not.toHaveBeenCalled();
+    expect(jobQueueService.addSocialPublishJob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,280 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SocialAccount, SocialPost, Video } from '@prisma/client';
+import { JobQueueService } from '../database/job-queue.service';
+import { SocialAccountService } from '../database/social-account.service';
+import {
+  SocialPostService,
+  SocialPostWithRelations,
+} from '../database/social-post.service';
+import { VideoService } from '../database/video.service';
+import { QuotaService } from '../subscriptions/quota.service';
+import { PostPublishingService } from './post-publishing.service';
+import { platformProblems } from './publish-preflight';
+
+// Schedules slightly in the past (clock skew, slow clients) mean "now"
+const PAST_SCHEDULE_TOLERANCE_MS = 60 * 1000;
+
+export interface AccountPreflight {
+  account: SocialAccount;
+  problems: string[];
+}
+
+@Injectable()
+export class PostSchedulingService {
+  constructor(
+    private readonly socialPostService: SocialPostService,
+    private readonly socialAccountService: SocialAccountService,
+    private readonly videoService: VideoService,
+    private readonly jobQueueService: JobQueueService,
+    private readonly quotaService: QuotaService,
+    private readonly postPublishingService: PostPublishingService,
+  ) {}
+
+  // Schedule a finished video to one or more of the user's social accounts
+  async schedulePosts(
+    userId: string,
+    data: {
+      videoId: string;
+      socialAccountIds: string[];
+      scheduledFor?: Date;
+      caption?: string;
+      hashtags?: string[];
+    },
+  ): Promise<SocialPost[]> {
+    const video = await this.videoService.findVideoById(data.videoId);
+    if (!video) {
+      throw new NotFoundException('Video not found');
+    }
+    if (video.userId !== userId) {
+      throw new ForbiddenException('You can only publish your own videos');
+    }
+    if (video.status !== 'ready' || !video.videoUrl) {
+      throw new BadRequestException(
+        `Video is not ready for publishing (status: ${video.status})`,
+      );
+    }
+
+    const accountIds = [...new Set(data.socialAccountIds)];
+    const accounts = await this.socialAccountService.getUserAccountsByIds(
+      userId,
+      accountIds,
+    );
+    const missing = accountIds.filter(
+      (id) => !accounts.some((account) => account.id === id),
+    );
+    if (missing.length > 0) {
+      throw new NotFoundException(
+        `Social account(s) not found: ${missing.join(', ')}`,
+      );
+    }
+
+    const caption = data.caption ?? video.description ?? video.title;
+    const hashtags = data.hashtags ?? video.tags;
+    for (const account of accounts) {
+      this.assertPostable(account, video, caption, hashtags);
+    }
+
+    const openPosts = await this.socialPostService.findOpenPosts(
+      video.id,
+      accountIds,
+    );
+    if (openPosts.length > 0) {
+      throw new ConflictException(
+        `Video is already scheduled on account(s): ${openPosts
+          .map((post) => post.socialAccountId)
+          .join(', ')}`,
+      );
+    }
+
+    const scheduledFor = this.resolveScheduledFor(data.scheduledFor);
+
+    // Check subscription limits (throws 403 when the weekly limit is hit)
+    await this.quotaService.assertCanSchedulePosts(userId, accounts.length);
+
+    const posts = await this.socialPostService.createPosts(
+      accounts.map((account) => ({
+        videoId: video.id,
+        socialAccountId: account.id,
+        platform: account.platform,
+        caption,
+        hashtags,
+        scheduledFor,
+        status: 'scheduled',
+      })),
+    );
+
+    for (const post of posts) {
+      await this.jobQueueService.addSocialPublishJob(
+        post.id,
+        userId,
+        scheduledFor,
+      );
+    }
+
+    return posts;
+  }
+
+  // Check whether a video can be posted to each of its owner's accounts,
+  // with the caption and hashtags a post would get by default
+  async preflight(
+    video: Video,
+    content: { caption?: string; hashtags?: string[] } = {},
+  ): Promise<AccountPreflight[]> {
+    const caption = content.caption ?? video.description ?? video.title;
+    const hashtags = content.hashtags ?? video.tags;
+    const accounts = await this.socialAccountService.getUserSocialAccounts(
+      video.userId,
+    );
+    return accounts.map((account) => ({
+      account,
+      problems: this.postingProblems(account, video, caption, hashtags),
+    }));
+  }
+
+  // Get a post, checking that it belongs to the user
+  async getOwnedPost(
+    userId: string,
+    id: string,
+  ): Promise<SocialPostWithRelations> {
+    const post = await this.socialPostService.getPostById(id);
+    if (!post) {
+      throw new NotFoundException('Social post not found');
+    }
+    if (post.socialAccount.userId !== userId) {
+      throw new ForbiddenException('You can only access your own posts');
+    }
+    return post;
+  }
+
+  // Change the schedule or content of a post that has not been published yet
+  async updateScheduledPost(
+    userId: string,
+    id: string,
+    data: { scheduledFor?: Date; caption?: string; hashtags?: string[] },
+  ): Promise<SocialPost> {
+    const post = await this.getOwnedPost(userId, id);
+    this.assertStatus(post, ['scheduled'], 'updated');
+    if (data.caption !== undefined || data.hashtags !== undefined) {
+      this.assertPostable(
+        post.socialAccount,
+        post.video,
+        data.caption ?? post.caption,
+        data.hashtags ?? post.hashtags,
+      );
+    }
+
+    const scheduledFor = data.scheduledFor
+      ? this.resolveScheduledFor(data.scheduledFor)
+      : undefined;
+    const rescheduled =
+      scheduledFor && scheduledFor.getTime() !== post.scheduledFor?.getTime();
+
+    const updated = await this.socialPostService.updatePost(id, {
+      ...(data.caption !== undefined && { caption: data.caption }),
+      ...(data.hashtags !== undefined && { hashtags: data.hashtags }),
+      ...(rescheduled && { scheduledFor }),
+    });
+
+    // The job queued for the old time sees the new schedule and skips itself
+    if (rescheduled) {
+      await this.jobQueueService.addSocialPublishJob(id, userId, scheduledFor);
+    }
+
+    return updated;
+  }
+
+  // Cancel a post that has not been published yet
+  async cancelPost(userId: string, id: string): Promise<SocialPost> {
+    const post = await this.getOwnedPost(userId, id);
+    this.assertStatus(post, ['scheduled'], 'cancelled');
+
+    return this.socialPostService.updatePost(id, { status: 'cancelled' });
+  }
+
+  // Publish a failed post again as soon as possible
+  async retryPost(userId: string, id: string): Promise<SocialPost> {
+    const post = await this.getOwnedPost(userId, id);
+    this.assertStatus(post, ['failed'], 'retried');
+
+    // Failed posts do not count towards the weekly limit, retried ones do
+    await this.quotaService.assertCanSchedulePosts(userId);
+
+    const scheduledFor = new Date();
+    const updated = await this.socialPostService.updatePost(id, {
+      status: 'scheduled',
+      scheduledFor,
+      errorMessage: null,
+      retryCount: 0,
+    });
+    await this.jobQueueService.addSocialPublishJob(id, userId, scheduledFor);
+
+    return updated;
+  }
+
+  // Why a video cannot be posted to an account; empty when it can
+  private postingProblems(
+    account: SocialAccount,
+    video: Video,
+    caption: string,
+    hashtags: string[],
+  ): string[] {
+    const problems: string[] = [];
+    if (video.status !== 'ready' || !video.videoUrl) {
+      problems.push(
+        `Video is not ready for publishing (status: ${video.status})`,
+      );
+    }
+    if (!account.isActive) {
+      problems.push('Social account is disabled');
+    }
+    if (!this.postPublishingService.supportsPlatform(account.platform)) {
+      problems.push(`Publishing to ${account.platform} is not supported`);
+    }
+    return [
+      ...problems,
+      ...platformProblems(
+        account.platform,
+        video,
+        this.postPublishingService.buildCaption({ caption, hashtags }),
+        hashtags.length,
+      ),
+    ];
+  }
+
+  private assertPostable(
+    account: SocialAccount,
+    video: Video,
+    caption: string,
+    hashtags: string[],
+  ) {
+    const problems = this.postingProblems(account, video, caption, hashtags);
+    if (problems.length > 0) {
+      throw new BadRequestException(
+        `Cannot post to @${account.username} on ${account.platform}: ${problems.join('; ')}`,
+      );
+    }
+  }
+
+  private resolveScheduledFor(requested?: Date): Date {
+    const now = new Date();
+    if (!requested) {
+      return now;
+    }
+    if (requested.getTime() < now.getTime() - PAST_SCHEDULE_TOLERANCE_MS) {
+      throw new BadRequestException('scheduledFor must be in the future');
+    }
+    return requested < now ? now : requested;
+  }
+
+  private assertStatus(post: SocialPost, allowed: string[], action: string) {
+    if (!allowed.includes(post.status)) {
+      throw new ConflictException(`A ${post.status} post cannot be ${action}`);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { Prisma } from '@prisma/client';
+import { platformProblems, PreflightVideo } from './publish-preflight';
+
+describe('platformProblems', () => {
+  const video = (overrides: Partial<PreflightVideo> = {}): PreflightVideo => ({
+    duration: 45,
+    fileSizeMb: new Prisma.Decimal(20),
+    resolution: '1080x1920',
+    videoUrl: 's3://bucket/users/u/videos/v/video-1.mp4',
+    ...overrides,
+  });
+
+  it('passes a vertical short on every platform', () => {
+    for (const platform of [
+      'youtube',
+      'tiktok',
+      'instagram',
+      'facebook',
+      'twitter',
+      'linkedin',
+    ]) {
+      expect(platformProblems(platform, video(), 'Space facts', 3)).toEqual([]);
+    }
+  });
+
+  it('reports every limit the video breaks', () => {
+    const problems = platformProblems(
+      'twitter',
+      video({
+        duration: 300,
+        fileSizeMb: new Prisma.Decimal(600),
+        resolution: '1080x4000',
+        videoUrl: 'https://cdn.example.com/render.webm?sig=abc',
+      }),
+      'x'.repeat(281),
+      0,
+    );
+
+    expect(problems).toEqual([
+      'Video is 300s long; Twitter/X accepts at most 140s',
+      'Video is 600 MB; Twitter/X accepts at most 512MB',
+      'webm videos are not accepted by Twitter/X (mp4, mov only)',
+      'Resolution 1080x4000 is outside the 1:3 to 3:1 aspect ratios Twitter/X accepts',
+      'Caption with hashtags is 281 characters; Twitter/X allows 280',
+    ]);
+  });
+
+  it('limits hashtags where the platform does', () => {
+    expect(platformProblems('instagram', video(), 'Reel', 31)).toEqual([
+      '31 hashtags; Instagram allows 30',
+    ]);
+    expect(platformProblems('facebook', video(), 'Reel', 31)).toEqual([]);
+  });
+
+  it('skips checks the video has no data for', () => {
+    expect(
+      platformProblems(
+        'twitter',
+        video({
+          duration: null,
+          fileSizeMb: null,
+          resolution: null,
+          videoUrl: null,
+        }),
+        'Short',
+        0,
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import { Video } from '@prisma/client';
+import {
+  parseAspectRatio,
+  parseFileSize,
+  SUPPORTED_PLATFORMS,
+} from '../social/supported-platforms';
+
+export type PreflightVideo = Pick<
+  Video,
+  'duration' | 'fileSizeMb' | 'resolution' | 'videoUrl'
+>;
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// Why a video cannot be posted to a platform with the given caption; empty
+// when it can. Checks are skipped when the video lacks the data for them
+// (e.g. an unknown duration), since the platform has the final word anyway.
+export function platformProblems(
+  platformId: string,
+  video: PreflightVideo,
+  caption: string,
+  hashtagCount: number,
+): string[] {
+  const platform = SUPPORTED_PLATFORMS.find((p) => p.platform === platformId);
+  if (!platform) {
+    return [`${platformId} is not a supported platform`];
+  }
+  const problems: string[] = [];
+
+  if ('maxDuration' in platform && video.duration > platform.maxDuration) {
+    problems.push(
+      `Video is ${video.duration}s long; ${platform.name} accepts at most ${platform.maxDuration}s`,
+    );
+  }
+
+  if (
+    video.fileSizeMb !== null &&
+    Number(video.fileSizeMb) * BYTES_PER_MB >
+      parseFileSize(platform.maxFileSize)
+  ) {
+    problems.push(
+      `Video is ${Number(video.fileSizeMb)} MB; ${platform.name} accepts at most ${platform.maxFileSize}`,
+    );
+  }
+
+  const format = videoFormat(video.videoUrl);
+  const formats: readonly string[] = platform.supportedFormats;
+  if (format && !formats.includes(format)) {
+    problems.push(
+      `${format} videos are not accepted by ${platform.name} (${formats.join(', ')} only)`,
+    );
+  }
+
+  const size = video.resolution?.match(/^(\d+)x(\d+)$/);
+  if ('aspectRatio' in platform && size) {
+    const ratio = Number(size[1]) / Number(size[2]);
+    const { min, max } = platform.aspectRatio;
+    if (ratio < parseAspectRatio(min) || ratio > parseAspectRatio(max)) {
+      problems.push(
+        `Resolution ${video.resolution} is outside the ${min} to ${max} aspect ratios ${platform.name} accepts`,
+      );
+    }
+  }
+
+  // Count code points, so an emoji counts once
+  const captionLength = [...caption].length;
+  if (captionLength > platform.maxCaptionLength) {
+    problems.push(
+      `Caption with hashtags is ${captionLength} characters; ${platform.name} allows ${platform.maxCaptionLength}`,
+    );
+  }
+  if ('maxHashtags' in platform && hashtagCount > platform.maxHashtags) {
+    problems.push(
+      `${hashtagCount} hashtags; ${platform.name} allows ${platform.maxHashtags}`,
+    );
+  }
+
+  return problems;
+}
+
+// File extension of a video URL or storage URI, if it has one
+function videoFormat(url: string | null): string | null {
+  const match = url?.match(/\.([a-z0-9]+)(?:[?#].*)?$/i);
+  return match ? match[1].toLowerCase() : null;
+}
@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import { Logger } from '@nestjs/common';
+import {
+  PublishRequest,
+  PublishResult,
+  SocialPublisher,
+} from './social-publisher.interface';
+
+export const FAKE_PUBLISHER_PLATFORMS = [
+  'youtube',
+  'tiktok',
+  'instagram',
+  'facebook',
+  'twitter',
+  'linkedin',
+] as const;
+
+// Local publisher that never calls a platform. Platform post IDs are derived
+// from the post ID, so re-publishing the same post yields the same ID.
+// Published requests are kept in memory so tests can inspect them.
+export class FakeSocialPublisher implements SocialPublisher {
+  readonly name = 'fake';
+  readonly platforms = FAKE_PUBLISHER_PLATFORMS;
+  readonly published: PublishRequest[] = [];
+
+  private readonly logger = new Logger(FakeSocialPublisher.name);
+  private failures: string[] = [];
+
+  // Make the next `count` publish calls fail with the given message
+  failNext(count = 1, message = 'Simulated platform error'): void {
+    this.failures.push(...Array(count).fill(message));
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const failure = this.failures.shift();
+    if (failure) {
+      throw new Error(failure);
+    }
+
+    const platformPostId = `fake_${request.account.platform}_${createHash(
+      'sha256',
+    )
+      .update(request.post.id)
+      .digest('hex')
+      .slice(0, 16)}`;
+
+    this.published.push(request);
+    this.logger.log(
+      `Published video ${request.video.id} to ${request.account.platform} as ${platformPostId}`,
+    );
+
+    return {
+      platformPostId,
+      publishedAt: new Date(),
+      url: `https://fake.${request.account.platform}.local/posts/${platformPostId}`,
+    };
+  }
+}
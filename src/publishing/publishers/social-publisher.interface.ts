@@ -0,0 +1,24 @@
+import { SocialAccount, SocialPost, Video } from '@prisma/client';
+
+export const SOCIAL_PUBLISHERS = 'SOCIAL_PUBLISHERS';
+
+export interface PublishRequest {
+  post: SocialPost;
+  account: SocialAccount;
+  video: Video;
+  caption: string;
+}
+
+export interface PublishResult {
+  // ID of the post on the platform, stored as SocialPost.platformPostId
+  platformPostId: string;
+  publishedAt?: Date;
+  url?: string;
+}
+
+// Publishes videos to one or more social platforms
+export interface SocialPublisher {
+  readonly name: string;
+  readonly platforms: readonly string[];
+  publish(request: PublishRequest): Promise<PublishResult>;
+}
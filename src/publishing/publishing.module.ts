@@ -0,0 +1,58 @@
+import { Module, OnModuleInit } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { JOB_TYPES } from '../database/job-queue.service';
+import { JobsModule } from '../jobs/jobs.module';
+import { JobWorkerService } from '../jobs/job-worker.service';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { SOCIAL_PUBLISHERS } from './publishers/social-publisher.interface';
+import { FakeSocialPublisher } from './publishers/fake-social.publisher';
+import { PostPublishingService } from './post-publishing.service';
+import { PostSchedulingService } from './post-scheduling.service';
+import { SocialPostsController } from './social-posts.controller';
+
+@Module({
+  imports: [
+    ConfigModule,
+    DatabaseModule,
+    JobsModule,
+    SubscriptionsModule,
+    NotificationsModule,
+  ],
+  controllers: [SocialPostsController],
+  providers: [
+    {
+      provide: SOCIAL_PUBLISHERS,
+      // Without a driver no platform is supported, so nothing can be scheduled.
+      // The fake driver pretends to publish and is for development only.
+      useFactory: (configService: ConfigService) => {
+        const driver = configService.get<string>('SOCIAL_PUBLISHER_DRIVER');
+        switch (driver || 'none') {
+          case 'none':
+            return [];
+          case 'fake':
+            return [new FakeSocialPublisher()];
+          default:
+            throw new Error(`Unknown SOCIAL_PUBLISHER_DRIVER "${driver}"`);
+        }
+      },
+      inject: [ConfigService],
+    },
+    PostPublishingService,
+    PostSchedulingService,
+  ],
+  exports: [PostPublishingService, PostSchedulingService],
+})
+export class PublishingModule implements OnModuleInit {
+  constructor(
+    private readonly jobWorker: JobWorkerService,
+    private readonly postPublishingService: PostPublishingService,
+  ) {}
+
+  onModuleInit() {
+    this.jobWorker.registerHandler(JOB_TYPES.SOCIAL_PUBLISH, (payload, ctx) =>
+      this.postPublishingService.handleJob(payload, ctx),
+    );
+  }
+}
@@ -0,0 +1,277 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ClassSerializerInterceptor,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { SocialPostService } from '../database/social-post.service';
+import { PostSchedulingService } from './post-scheduling.service';
+import { CreateSocialPostDto } from '../dto/social-post/create-social-post.dto';
+import { UpdateSocialPostDto } from '../dto/social-post/update-social-post.dto';
+import { SocialPostQueryDto } from '../dto/social-post/social-post-query.dto';
+import { SocialPostResponseDto } from '../dto/social-post/social-post-response.dto';
+import { PaginatedResponseDto } from '../dto/common/pagination.dto';
+import { ErrorResponseDto } from '../dto/common/error-response.dto';
+import { plainToClass } from 'class-transformer';
+
+@ApiTags('Social Posts')
+@Controller('api/v1/social-posts')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+@UseInterceptors(ClassSerializerInterceptor)
+export class SocialPostsController {
+  constructor(
+    private readonly socialPostService: SocialPostService,
+    private readonly postSchedulingService: PostSchedulingService,
+  ) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Schedule a video to social accounts',
+    description:
+      'Creates one post per social account. Posts are published at scheduledFor (or right away) and failed attempts are retried with backoff.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Posts scheduled successfully',
+    type: [SocialPostResponseDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid input data, video not ready, account disabled or platform not supported',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not your video or weekly post limit of the plan reached',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Video or social account not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Video is already scheduled on one of the accounts',
+    type: ErrorResponseDto,
+  })
+  async schedulePosts(
+    @CurrentUser('id') userId: string,
+    @Body() createSocialPostDto: CreateSocialPostDto,
+  ): Promise<SocialPostResponseDto[]> {
+    const posts = await this.postSchedulingService.schedulePosts(
+      userId,
+      createSocialPostDto,
+    );
+    return posts.map((post) => plainToClass(SocialPostResponseDto, post));
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: "Get user's social posts",
+    description:
+      'Returns paginated posts across all social accounts of the authenticated user',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Posts retrieved successfully',
+    type: [SocialPostResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  async getUserPosts(
+    @CurrentUser('id') userId: string,
+    @Query() query: SocialPostQueryDto,
+  ) {
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+
+    const { posts, total } = await this.socialPostService.getUserPosts(userId, {
+      status: query.status,
+      videoId: query.videoId,
+      socialAccountId: query.socialAccountId,
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return new PaginatedResponseDto(
+      posts.map((post) => plainToClass(SocialPostResponseDto, post)),
+      total,
+      page,
+      limit,
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get social post by ID',
+    description: 'Returns a post with its publishing status',
+  })
+  @ApiParam({ name: 'id', description: 'Social post ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Post retrieved successfully',
+    type: SocialPostResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not your post',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Post not found',
+    type: ErrorResponseDto,
+  })
+  async getPostById(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<SocialPostResponseDto> {
+    const post = await this.postSchedulingService.getOwnedPost(userId, id);
+    return plainToClass(SocialPostResponseDto, post);
+  }
+
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Update a scheduled post',
+    description:
+      'Changes the publication time, caption or hashtags of a post that is still scheduled',
+  })
+  @ApiParam({ name: 'id', description: 'Social post ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Post updated successfully',
+    type: SocialPostResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not your post',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Post not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Post is no longer scheduled',
+    type: ErrorResponseDto,
+  })
+  async updatePost(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @Body() updateSocialPostDto: UpdateSocialPostDto,
+  ): Promise<SocialPostResponseDto> {
+    const post = await this.postSchedulingService.updateScheduledPost(
+      userId,
+      id,
+      updateSocialPostDto,
+    );
+    return plainToClass(SocialPostResponseDto, post);
+  }
+
+  @Post(':id/retry')
+  @ApiOperation({
+    summary: 'Retry a failed post',
+    description: 'Schedules a failed post to be published again right away',
+  })
+  @ApiParam({ name: 'id', description: 'Social post ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Post scheduled for another attempt',
+    type: SocialPostResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not your post',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Post not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Post has not failed',
+    type: ErrorResponseDto,
+  })
+  async retryPost(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<SocialPostResponseDto> {
+    const post = await this.postSchedulingService.retryPost(userId, id);
+    return plainToClass(SocialPostResponseDto, post);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Cancel a scheduled post',
+    description: 'Cancels a post that has not been published yet',
+  })
+  @ApiParam({ name: 'id', description: 'Social post ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Post cancelled successfully',
+    type: SocialPostResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not your post',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Post not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Post is no longer scheduled',
+    type: ErrorResponseDto,
+  })
+  async cancelPost(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<SocialPostResponseDto> {
+    const post = await this.postSchedulingService.cancelPost(userId, id);
+    return plainToClass(SocialPostResponseDto, post);
+  }
+}
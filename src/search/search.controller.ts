@@ -0,0 +1,93 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { SearchService, toPrefixTsQuery } from '../database/search.service';
+import { SearchQueryDto } from '../dto/search/search-query.dto';
+import { SearchResponseDto } from '../dto/search/search-response.dto';
+import { ErrorResponseDto } from '../dto/common/error-response.dto';
+
+@ApiTags('Search')
+@Controller('api/v1/search')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Search videos and series',
+    description:
+      "Full-text search over the user's videos (title, tags, description and script) and series (name and description), ranked by relevance with highlighted snippets",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Search completed',
+    type: SearchResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'The query has no words to search for',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  async search(
+    @CurrentUser('id') userId: string,
+    @Query() query: SearchQueryDto,
+  ): Promise<SearchResponseDto> {
+    const tsQuery = toPrefixTsQuery(query.q);
+    if (!tsQuery) {
+      throw new BadRequestException('The query has no words to search for');
+    }
+    const limit = query.limit || 10;
+    const response: SearchResponseDto = {};
+
+    if (query.type !== 'series') {
+      const { hits, total } = await this.searchService.searchVideos(
+        userId,
+        tsQuery,
+        limit,
+      );
+      response.videos = {
+        data: hits.map(({ seriesId, seriesName, ...hit }) => ({
+          ...hit,
+          series: { id: seriesId, name: seriesName },
+          createdAt: hit.createdAt.toISOString(),
+        })),
+        total,
+      };
+    }
+
+    if (query.type !== 'videos') {
+      const { hits, total } = await this.searchService.searchSeries(
+        userId,
+        tsQuery,
+        limit,
+      );
+      response.series = {
+        data: hits.map((hit) => ({
+          ...hit,
+          createdAt: hit.createdAt.toISOString(),
+        })),
+        total,
+      };
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { SearchController } from './search.controller';
+
+@Module({
+  imports: [DatabaseModule],
+  controllers: [SearchController],
+})
+export class SearchModule {}
@@ -0,0 +1,92 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// Addresses a request to a user-supplied URL must never reach: this host,
+// private networks, link-local (cloud metadata endpoints) and the like
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+const LOCAL_NAME_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+// Whether an IP address is reachable on the public internet
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) {
+    return !NON_PUBLIC.check(address, 'ipv4');
+  }
+  if (version !== 6) {
+    return false;
+  }
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) reaches the IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return isPublicAddress(mapped[1]);
+  }
+  return !NON_PUBLIC.check(address, 'ipv6');
+}
+
+// Whether a URL is https and its host does not name a local or private
+// address. Only looks at the URL; see assertPublicUrl for names that
+// resolve to private addresses.
+export function isPublicHttpsUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) {
+    return false;
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (isIP(host)) {
+    return isPublicAddress(host);
+  }
+  return (
+    host.includes('.') &&
+    host !== 'localhost' &&
+    !LOCAL_NAME_SUFFIXES.some((suffix) => host.endsWith(suffix))
+  );
+}
+
+// Throw unless a URL is https and every address its host resolves to is
+// public. Checked right before each request, so a name that was public when
+// it was saved cannot later be pointed at an internal service.
+export async function assertPublicUrl(value: string): Promise<void> {
+  if (!isPublicHttpsUrl(value)) {
+    throw new Error('URL must use https and a public host');
+  }
+
+  const host = new URL(value).hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+  if (addresses.length === 0 || blocked) {
+    throw new Error(
+      `URL host ${host} resolves to a non-public address${blocked ? ` (${blocked.address})` : ''}`,
+    );
+  }
+}
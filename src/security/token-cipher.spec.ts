@@ -0,0 +1,56 @@
+import { randomBytes } from 'crypto';
+import {
+  decryptToken,
+  encryptToken,
+  parseKeyring,
+  rotateToken,
+  tokenKeyId,
+} from './token-cipher';
+
+describe('token cipher', () => {
+  const oldKey = randomBytes(32).toString('base64');
+  const newKey = randomBytes(32).toString('base64');
+  const keys = `2024:${oldKey},2025:${newKey}`;
+
+  it('round-trips a token without storing it in plain text', () => {
+    const keyring = parseKeyring(keys, '2025');
+
+    const sealed = encryptToken('ya29.secret-access-token', keyring);
+
+    expect(sealed).toMatch(/^enc:v1:2025:/);
+    expect(sealed).not.toContain('secret-access-token');
+    expect(decryptToken(sealed, keyring)).toBe('ya29.secret-access-token');
+  });
+
+  it('rotates onto the active key without losing the token', () => {
+    const sealed = encryptToken('refresh-me', parseKeyring(keys, '2024'));
+    const keyring = parseKeyring(keys, '2025');
+
+    const rotated = rotateToken(sealed, keyring);
+
+    expect(tokenKeyId(rotated)).toBe('2025');
+    // The old key is no longer needed to read the rotated value
+    const newOnly = parseKeyring(`2025:${newKey}`, '2025');
+    expect(decryptToken(rotated, newOnly)).toBe('refresh-me');
+    expect(() => decryptToken(sealed, newOnly)).toThrow(/"2024"/);
+  });
+
+  it('passes legacy plain text through and encrypts it on rotation', () => {
+    const keyring = parseKeyring(keys, '2025');
+
+    expect(decryptToken('legacy-token', keyring)).toBe('legacy-token');
+    expect(tokenKeyId('legacy-token')).toBeNull();
+    expect(decryptToken(rotateToken('legacy-token', keyring), keyring)).toBe(
+      'legacy-token',
+    );
+  });
+
+  it('rejects tampered ciphertext', () => {
+    const keyring = parseKeyring(keys, '2025');
+    const sealed = encryptToken('do-not-touch', keyring);
+    const parts = sealed.split(':');
+    parts[6] = Buffer.from('tampered!!!!').toString('base64url');
+
+    expect(() => decryptToken(parts.join(':'), keyring)).toThrow();
+  });
+});
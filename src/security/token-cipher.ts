@@ -0,0 +1,166 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+// Envelope encryption for OAuth tokens stored in the database.
+//
+// Every token gets its own random data key (DEK). The token is sealed with
+// the DEK and the DEK is sealed with a master key from config, both using
+// AES-256-GCM. Stored values look like:
+//
+//   enc:v1:<keyId>:<wrapped DEK>:<iv>:<auth tag>:<ciphertext>
+//
+// Rotating the master key only re-wraps the DEK; the token ciphertext is
+// left untouched.
+
+export interface TokenKeyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+// Parse "keyId:base64Key,keyId:base64Key" into a keyring
+export function parseKeyring(
+  spec: string | undefined,
+  activeKeyId: string | undefined,
+): TokenKeyring {
+  const keys = new Map<string, Buffer>();
+  for (const entry of (spec || '').split(',').map((e) => e.trim())) {
+    if (!entry) {
+      continue;
+    }
+    const separator = entry.indexOf(':');
+    const keyId = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    if (separator <= 0 || key.length !== KEY_LENGTH) {
+      throw new Error(
+        `Invalid token encryption key "${keyId || entry}": expected <keyId>:<base64 of ${KEY_LENGTH} bytes>`,
+      );
+    }
+    keys.set(keyId, key);
+  }
+
+  if (keys.size === 0) {
+    throw new Error('No token encryption keys configured');
+  }
+  const active = activeKeyId || (keys.size === 1 ? [...keys.keys()][0] : '');
+  if (!keys.has(active)) {
+    throw new Error(
+      `Active token encryption key "${active}" is not configured`,
+    );
+  }
+  return { activeKeyId: active, keys };
+}
+
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+// Key ID a stored value was sealed with, or null for legacy plain text
+export function tokenKeyId(value: string): string | null {
+  return isEncryptedToken(value)
+    ? value.slice(PREFIX.length).split(':')[0]
+    : null;
+}
+
+export function encryptToken(plain: string, keyring: TokenKeyring): string {
+  const dek = randomBytes(KEY_LENGTH);
+  const sealed = seal(dek, Buffer.from(plain, 'utf8'));
+  const wrapped = wrapKey(dek, keyring.keys.get(keyring.activeKeyId));
+
+  return format(keyring.activeKeyId, wrapped, sealed);
+}
+
+// Decrypt a stored value. Values written before encryption was enabled are
+// returned as-is so they keep working until the rotation command runs.
+export function decryptToken(value: string, keyring: TokenKeyring): string {
+  if (!isEncryptedToken(value)) {
+    return value;
+  }
+
+  const { keyId, wrapped, iv, tag, ciphertext } = parse(value);
+  const dek = unwrapKey(wrapped, masterKey(keyring, keyId));
+  return open(dek, iv, tag, ciphertext).toString('utf8');
+}
+
+// Bring a stored value onto the active key: legacy plain text is encrypted
+// and values sealed with an older key get their DEK re-wrapped
+export function rotateToken(value: string, keyring: TokenKeyring): string {
+  if (!isEncryptedToken(value)) {
+    return encryptToken(value, keyring);
+  }
+
+  const { keyId, wrapped, iv, tag, ciphertext } = parse(value);
+  if (keyId === keyring.activeKeyId) {
+    return value;
+  }
+  const dek = unwrapKey(wrapped, masterKey(keyring, keyId));
+  const rewrapped = wrapKey(dek, keyring.keys.get(keyring.activeKeyId));
+  return format(keyring.activeKeyId, rewrapped, { iv, tag, ciphertext });
+}
+
+function format(
+  keyId: string,
+  wrapped: string,
+  sealed: { iv: Buffer; tag: Buffer; ciphertext: Buffer },
+): string {
+  const parts = [sealed.iv, sealed.tag, sealed.ciphertext].map(encode);
+  return `${PREFIX}${[keyId, wrapped, ...parts].join(':')}`;
+}
+
+function parse(value: string) {
+  const parts = value.slice(PREFIX.length).split(':');
+  if (parts.length !== 5) {
+    throw new Error('Malformed encrypted token');
+  }
+  const [keyId, wrapped, iv, tag, ciphertext] = parts;
+  return {
+    keyId,
+    wrapped: decode(wrapped),
+    iv: decode(iv),
+    tag: decode(tag),
+    ciphertext: decode(ciphertext),
+  };
+}
+
+function masterKey(keyring: TokenKeyring, keyId: string): Buffer {
+  const key = keyring.keys.get(keyId);
+  if (!key) {
+    throw new Error(`Token encryption key "${keyId}" is not configured`);
+  }
+  return key;
+}
+
+// Wrapped DEK layout: iv | auth tag | encrypted DEK
+function wrapKey(dek: Buffer, kek: Buffer): string {
+  const { iv, tag, ciphertext } = seal(kek, dek);
+  return encode(Buffer.concat([iv, tag, ciphertext]));
+}
+
+function unwrapKey(wrapped: Buffer, kek: Buffer): Buffer {
+  return open(
+    kek,
+    wrapped.subarray(0, IV_LENGTH),
+    wrapped.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH),
+    wrapped.subarray(IV_LENGTH + TAG_LENGTH),
+  );
+}
+
+function seal(key: Buffer, plain: Buffer) {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer) {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+const encode = (buffer: Buffer) => buffer.toString('base64url');
+const decode = (value: string) => Buffer.from(value, 'base64url');
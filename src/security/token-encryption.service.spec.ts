@@ -0,0 +1,30 @@
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { TokenEncryptionService } from './token-encryption.service';
+
+const serviceWith = (config: Record<string, string>) =>
+  new TokenEncryptionService({
+    get: (key: string) => config[key],
+  } as unknown as ConfigService);
+
+describe('TokenEncryptionService', () => {
+  it('names the variable to set when no key is configured', () => {
+    expect(() => serviceWith({})).toThrow(/TOKEN_ENCRYPTION_KEYS must be set/);
+  });
+
+  it('names the variables when a key is malformed', () => {
+    expect(() =>
+      serviceWith({ TOKEN_ENCRYPTION_KEYS: '2025:too-short' }),
+    ).toThrow(/Invalid TOKEN_ENCRYPTION_KEYS/);
+  });
+
+  it('encrypts with the configured key', () => {
+    const service = serviceWith({
+      TOKEN_ENCRYPTION_KEYS: `2025:${randomBytes(32).toString('base64')}`,
+    });
+
+    const sealed = service.encrypt('access-token');
+    expect(sealed).not.toContain('access-token');
+    expect(service.decrypt(sealed)).toBe('access-token');
+  });
+});
@@ -0,0 +1,84 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  decryptToken,
+  encryptToken,
+  parseKeyring,
+  rotateToken,
+  TokenKeyring,
+  tokenKeyId,
+} from './token-cipher';
+
+type WithTokens = { accessToken: string; refreshToken?: string | null };
+
+const KEY_FORMAT_HINT =
+  'use comma-separated "<keyId>:<base64 key>" entries with 32-byte keys, e.g. "2025:$(openssl rand -base64 32)"';
+
+// Encrypts social OAuth tokens at rest. Keys come from
+// TOKEN_ENCRYPTION_KEYS ("keyId:base64Key,...") and new values are sealed
+// with TOKEN_ENCRYPTION_ACTIVE_KEY_ID. Older keys stay listed until
+// `yarn tokens:rotate-keys` has moved every row onto the active one.
+@Injectable()
+export class TokenEncryptionService {
+  private readonly keyring: TokenKeyring;
+
+  // Runs at startup, so a missing or malformed key stops the app before any
+  // token is read or written
+  constructor(configService: ConfigService) {
+    const keys = configService.get<string>('TOKEN_ENCRYPTION_KEYS');
+    if (!keys?.trim()) {
+      throw new Error(
+        `TOKEN_ENCRYPTION_KEYS must be set to encrypt social account tokens: ${KEY_FORMAT_HINT}`,
+      );
+    }
+    try {
+      this.keyring = parseKeyring(
+        keys,
+        configService.get<string>('TOKEN_ENCRYPTION_ACTIVE_KEY_ID'),
+      );
+    } catch (error) {
+      throw new Error(
+        `Invalid TOKEN_ENCRYPTION_KEYS or TOKEN_ENCRYPTION_ACTIVE_KEY_ID: ${error.message}. ${KEY_FORMAT_HINT}`,
+      );
+    }
+  }
+
+  get activeKeyId(): string {
+    return this.keyring.activeKeyId;
+  }
+
+  encrypt(plain: string): string;
+  encrypt(plain: string | null | undefined): string | null | undefined;
+  encrypt(plain: string | null | undefined) {
+    return plain == null ? plain : encryptToken(plain, this.keyring);
+  }
+
+  decrypt(value: string): string;
+  decrypt(value: string | null | undefined): string | null | undefined;
+  decrypt(value: string | null | undefined) {
+    return value == null ? value : decryptToken(value, this.keyring);
+  }
+
+  // Whether a stored value is plain text or sealed with an old key
+  needsRotation(value: string | null | undefined): boolean {
+    return value != null && tokenKeyId(value) !== this.keyring.activeKeyId;
+  }
+
+  rotate(value: string): string {
+    return rotateToken(value, this.keyring);
+  }
+
+  // Copy of an account with its tokens decrypted
+  decryptAccount<T extends WithTokens>(account: T): T;
+  decryptAccount<T extends WithTokens>(account: T | null): T | null;
+  decryptAccount<T extends WithTokens>(account: T | null) {
+    if (!account) {
+      return account;
+    }
+    return {
+      ...account,
+      accessToken: this.decrypt(account.accessToken),
+      refreshToken: this.decrypt(account.refreshToken),
+    };
+  }
+}
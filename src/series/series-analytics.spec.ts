@@ -0,0 +1,83 @@
+import {
+  analyticsPeriods,
+  bucketStart,
+  buildSeriesAnalytics,
+} from './series-analytics';
+
+describe('series analytics', () => {
+  const post = (
+    publishedAt: string,
+    platform: string,
+    views: number,
+    likes: number,
+    videoId = 'video-1',
+  ) => ({
+    videoId,
+    platform,
+    publishedAt: new Date(publishedAt),
+    viewsCount: views,
+    likesCount: likes,
+    commentsCount: 0,
+    sharesCount: 0,
+  });
+
+  it('finds bucket starts for each granularity', () => {
+    // 2025-01-15 is a Wednesday
+    expect(bucketStart('2025-01-15', 'day')).toBe('2025-01-15');
+    expect(bucketStart('2025-01-15', 'week')).toBe('2025-01-13');
+    expect(bucketStart('2025-01-19', 'week')).toBe('2025-01-13');
+    expect(bucketStart('2025-01-15', 'month')).toBe('2025-01-01');
+  });
+
+  it('buckets posts by local publish day and compares with the previous period', () => {
+    const { current, previous } = analyticsPeriods(7, '2025-01-14');
+    expect(current).toEqual({ from: '2025-01-08', to: '2025-01-14' });
+    expect(previous).toEqual({ from: '2025-01-01', to: '2025-01-07' });
+
+    const result = buildSeriesAnalytics(
+      [
+        post('2025-01-03T12:00:00Z', 'tiktok', 500, 50),
+        // 23:30 UTC on the 8th is already the 9th in Tokyo
+        post('2025-01-08T23:30:00Z', 'tiktok', 800, 40),
+        post('2025-01-09T10:00:00Z', 'youtube', 200, 20, 'video-2'),
+        post('2025-01-14T09:00:00Z', 'tiktok', 1000, 100),
+      ],
+      { current, previous, granularity: 'day', timeZone: 'Asia/Tokyo' },
+    );
+
+    expect(result.buckets).toHaveLength(7);
+    expect(result.buckets[0]).toMatchObject({ start: '2025-01-08', views: 0 });
+    expect(result.buckets[1]).toMatchObject({
+      start: '2025-01-09',
+      posts: 2,
+      views: 1000,
+      likes: 60,
+      engagementRate: 6,
+    });
+    expect(result.platformBreakdown.map((p) => [p.platform, p.views])).toEqual([
+      ['tiktok', 1800],
+      ['youtube', 200],
+    ]);
+    expect(result.videoTotals.get('video-2')).toMatchObject({
+      views: 200,
+      platforms: ['youtube'],
+    });
+    expect(result.currentTotals.views).toBe(2000);
+    expect(result.comparison.previous.views).toBe(500);
+    expect(result.comparison.change.views).toBe(300);
+  });
+
+  it('reports no relative change when the previous period is empty', () => {
+    const { current, previous } = analyticsPeriods(30, '2025-01-31');
+
+    const result = buildSeriesAnalytics(
+      [post('2025-01-20T12:00:00Z', 'instagram', 300, 30)],
+      { current, previous, granularity: 'month', timeZone: 'UTC' },
+    );
+
+    expect(result.buckets.map((bucket) => bucket.start)).toEqual([
+      '2025-01-01',
+    ]);
+    expect(result.comparison.change.views).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import { SocialPost } from '@prisma/client';
+import { addDays, zonedDate } from '../common/timezone';
+
+export const ANALYTICS_GRANULARITIES = ['day', 'week', 'month'] as const;
+export type AnalyticsGranularity = (typeof ANALYTICS_GRANULARITIES)[number];
+
+type PostCounters = Pick<
+  SocialPost,
+  | 'videoId'
+  | 'platform'
+  | 'publishedAt'
+  | 'viewsCount'
+  | 'likesCount'
+  | 'commentsCount'
+  | 'sharesCount'
+>;
+
+export interface MetricTotals {
+  posts: number;
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+  // Interactions per 100 views
+  engagementRate: number;
+}
+
+export interface AnalyticsPeriod {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+}
+
+// Current period ending today and the equal-length period before it
+export function analyticsPeriods(
+  days: number,
+  today: string,
+): { current: AnalyticsPeriod; previous: AnalyticsPeriod } {
+  const from = addDays(today, -(days - 1));
+  return {
+    current: { from, to: today },
+    previous: { from: addDays(from, -days), to: addDays(from, -1) },
+  };
+}
+
+// First day of the bucket a date falls in. Weeks start on Monday.
+export function bucketStart(
+  date: string,
+  granularity: AnalyticsGranularity,
+): string {
+  if (granularity === 'month') {
+    return `${date.slice(0, 7)}-01`;
+  }
+  if (granularity === 'week') {
+    const weekday = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+    return addDays(date, -((weekday + 6) % 7));
+  }
+  return date;
+}
+
+function nextBucket(start: string, granularity: AnalyticsGranularity): string {
+  if (granularity === 'month') {
+    const [year, month] = start.split('-').map(Number);
+    const next = new Date(Date.UTC(year, month, 1));
+    return next.toISOString().slice(0, 10);
+  }
+  return addDays(start, granularity === 'week' ? 7 : 1);
+}
+
+export function totals(posts: PostCounters[]): MetricTotals {
+  const result = {
+    posts: posts.length,
+    views: 0,
+    likes: 0,
+    comments: 0,
+    shares: 0,
+    engagementRate: 0,
+  };
+  for (const post of posts) {
+    result.views += post.viewsCount;
+    result.likes += post.likesCount;
+    result.comments += post.commentsCount;
+    result.shares += post.sharesCount;
+  }
+  if (result.views > 0) {
+    const rate =
+      ((result.likes + result.comments + result.shares) / result.views) * 100;
+    result.engagementRate = Math.round(rate * 100) / 100;
+  }
+  return result;
+}
+
+// Relative change in percent, or null when there is nothing to compare to
+function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) {
+    return null;
+  }
+  return Math.round(((current - previous) / previous) * 10000) / 100;
+}
+
+// Bucketed metrics, per-platform totals and the comparison with the
+// previous period. Post counters are lifetime totals, so each post counts
+// towards the bucket of the day it was published (in the given timezone).
+export function buildSeriesAnalytics(
+  posts: PostCounters[],
+  options: {
+    current: AnalyticsPeriod;
+    previous: AnalyticsPeriod;
+    granularity: AnalyticsGranularity;
+    timeZone: string;
+  },
+) {
+  const { current, previous, granularity, timeZone } = options;
+  const currentPosts: PostCounters[] = [];
+  const previousPosts: PostCounters[] = [];
+  const postsByBucket = new Map<string, PostCounters[]>();
+
+  for (const post of posts) {
+    const date = zonedDate(post.publishedAt, timeZone);
+    if (date >= current.from && date <= current.to) {
+      currentPosts.push(post);
+      const bucket = bucketStart(date, granularity);
+      postsByBucket.set(bucket, [...(postsByBucket.get(bucket) || []), post]);
+    } else if (date >= previous.from && date <= previous.to) {
+      previousPosts.push(post);
+    }
+  }
+
+  const buckets = [];
+  const lastBucket = bucketStart(current.to, granularity);
+  for (
+    let start = bucketStart(current.from, granularity);
+    start <= lastBucket;
+    start = nextBucket(start, granularity)
+  ) {
+    buckets.push({ start, ...totals(postsByBucket.get(start) || []) });
+  }
+
+  const platforms = [...new Set(currentPosts.map((post) => post.platform))];
+  const platformBreakdown = platforms
+    .map((platform) => ({
+      platform,
+      ...totals(currentPosts.filter((post) => post.platform === platform)),
+    }))
+    .sort((a, b) => b.views - a.views);
+
+  // Per-video totals for the current period, keyed by video ID
+  const videoTotals = new Map<string, MetricTotals & { platforms: string[] }>();
+  for (const videoId of new Set(currentPosts.map((post) => post.videoId))) {
+    const videoPosts = currentPosts.filter((post) => post.videoId === videoId);
+    videoTotals.set(videoId, {
+      ...totals(videoPosts),
+      platforms: [...new Set(videoPosts.map((post) => post.platform))],
+    });
+  }
+
+  const currentTotals = totals(currentPosts);
+  const previousTotals = totals(previousPosts);
+
+  return {
+    buckets,
+    platformBreakdown,
+    videoTotals,
+    currentTotals,
+    comparison: {
+      previousPeriod: previous,
+      previous: previousTotals,
+      change: {
+        posts: percentChange(currentTotals.posts, previousTotals.posts),
+        views: percentChange(currentTotals.views, previousTotals.views),
+        likes: percentChange(currentTotals.likes, previousTotals.likes),
+        comments: percentChange(
+          currentTotals.comments,
+          previousTotals.comments,
+        ),
+        shares: percentChange(currentTotals.shares, previousTotals.shares),
+        // Difference in percentage points
+        engagementRate:
+          Math.round(
+            (currentTotals.engagementRate - previousTotals.engagementRate) *
+              100,
+          ) / 100,
+      },
+    },
+  };
+}
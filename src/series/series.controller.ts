@@ -8,7 +8,6 @@ import {
   Param,
   Query,
   UseGuards,
-  Request,
   NotFoundException,
   ClassSerializerInterceptor,
   UseInterceptors,
@@ -24,16 +23,29 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
-import { SeriesService } from '../database/series.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { SERIES_SORT_FIELDS, SeriesService } from '../database/series.service';
+import { decodeCursor } from '../database/page-cursor';
+import { CatalogService } from '../database/catalog.service';
+import { SocialPostService } from '../database/social-post.service';
+import { QuotaService } from '../subscriptions/quota.service';
+import { VideoStorageService } from '../storage/video-storage.service';
 import { CreateSeriesDto } from '../dto/series/create-series.dto';
 import { UpdateSeriesDto } from '../dto/series/update-series.dto';
 import { SeriesResponseDto } from '../dto/series/series-response.dto';
-import {
-  PaginationDto,
-  PaginatedResponseDto,
-} from '../dto/common/pagination.dto';
+import { PaginatedResponseDto } from '../dto/common/pagination.dto';
+import { SeriesQueryDto } from '../dto/series/series-query.dto';
 import { ErrorResponseDto } from '../dto/common/error-response.dto';
 import { plainToClass } from 'class-transformer';
+import { applyTemplateDefaults } from './template-defaults';
+import {
+  ANALYTICS_GRANULARITIES,
+  AnalyticsGranularity,
+  analyticsPeriods,
+  buildSeriesAnalytics,
+  totals,
+} from './series-analytics';
+import { isValidTimeZone, zonedDate, zonedDayBounds } from '../common/timezone';
 
 @ApiTags('Series')
 @Controller('api/v1/series')
@@ -41,12 +53,19 @@ import { plainToClass } from 'class-transformer';
 @ApiBearerAuth('JWT-auth')
 @UseInterceptors(ClassSerializerInterceptor)
 export class SeriesController {
-  constructor(private readonly seriesService: SeriesService) {}
+  constructor(
+    private readonly seriesService: SeriesService,
+    private readonly catalogService: CatalogService,
+    private readonly quotaService: QuotaService,
+    private readonly socialPostService: SocialPostService,
+    private readonly videoStorageService: VideoStorageService,
+  ) {}
 
   @Post()
   @ApiOperation({
     summary: 'Create a new content series',
-    description: 'Creates a new content series for automated video generation',
+    description:
+      'Creates a new content series for automated video generation. When a templateId is given, the template defaults for customPrompt, visualStyle, voiceSettings, videoDuration and contentType are applied first and any values in the request override them; object settings are merged key by key. The fields taken from the template are listed in appliedTemplateDefaults.',
   })
   @ApiResponse({
     status: 201,
@@ -55,7 +74,7 @@ export class SeriesController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Invalid input data',
+    description: 'Invalid input data or template not found',
     type: ErrorResponseDto,
   })
   @ApiResponse({
@@ -63,15 +82,35 @@ export class SeriesController {
     description: 'Unauthorized',
     type: ErrorResponseDto,
   })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Series limit of the subscription plan reached or premium template not included in the plan',
+    type: ErrorResponseDto,
+  })
   async createSeries(
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Body() createSeriesDto: CreateSeriesDto,
   ): Promise<SeriesResponseDto> {
-    const userId = req.user.id;
+    const template = createSeriesDto.templateId
+      ? await this.catalogService.getTemplateById(createSeriesDto.templateId)
+      : null;
+    if (createSeriesDto.templateId && !template) {
+      throw new BadRequestException('Template not found');
+    }
+
+    // Check subscription limits (throws 403 when a plan limit is hit or the
+    // template is premium and the plan does not include premium templates)
+    await this.quotaService.assertCanCreateSeries(userId, template);
+
+    // Template defaults first, user-supplied values on top
+    const { values, appliedFields } = template
+      ? applyTemplateDefaults(template, createSeriesDto)
+      : { values: createSeriesDto, appliedFields: [] };
 
     const seriesData = {
       userId,
-      ...createSeriesDto,
+      ...values,
     };
 
     const series = await this.seriesService.createSeries(seriesData);
@@ -79,6 +118,17 @@ export class SeriesController {
     // Transform to response format
     const response = {
       ...series,
+      template: template
+        ? {
+            id: template.id,
+            name: template.name,
+            description: template.description,
+            category: template.category
+              ? { id: template.category.id, name: template.category.name }
+              : undefined,
+          }
+        : undefined,
+      appliedTemplateDefaults: appliedFields,
       stats: {
         totalVideosGenerated: series.totalVideosGenerated,
         totalViews: series.totalViews,
@@ -97,59 +147,55 @@ export class SeriesController {
     description:
       'Returns paginated list of series belonging to the authenticated user',
   })
-  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
-  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
-  @ApiQuery({ name: 'search', required: false, description: 'Search query' })
-  @ApiQuery({
-    name: 'isActive',
-    required: false,
-    description: 'Filter by active status',
-    type: Boolean,
-  })
   @ApiResponse({
     status: 200,
     description: 'Series retrieved successfully',
     type: [SeriesResponseDto],
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid query or cursor',
+    type: ErrorResponseDto,
+  })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized',
     type: ErrorResponseDto,
   })
   async getUserSeries(
-    @Request() req,
-    @Query() paginationDto: PaginationDto,
-    @Query('isActive') isActive?: boolean,
+    @CurrentUser('id') userId: string,
+    @Query() query: SeriesQueryDto,
   ) {
-    const userId = req.user.id;
-    const series = await this.seriesService.getUserSeries(userId);
-
-    // Apply filters
-    let filteredSeries = series;
-
-    if (isActive !== undefined) {
-      filteredSeries = filteredSeries.filter((s) => s.isActive === isActive);
-    }
-
-    if (paginationDto.search) {
-      const searchTerm = paginationDto.search.toLowerCase();
-      filteredSeries = filteredSeries.filter(
-        (s) =>
-          s.name.toLowerCase().includes(searchTerm) ||
-          s.description?.toLowerCase().includes(searchTerm),
-      );
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+    const cursor = query.cursor
+      ? decodeCursor(
+          query.cursor,
+          query.sortBy,
+          query.sortOrder,
+          SERIES_SORT_FIELDS,
+        )
+      : undefined;
+    if (cursor === null) {
+      throw new BadRequestException('Invalid cursor for this sort');
     }
 
-    // Apply pagination
-    const page = paginationDto.page || 1;
-    const limit = paginationDto.limit || 10;
-    const startIndex = (page - 1) * limit;
-    const endIndex = startIndex + limit;
-
-    const paginatedSeries = filteredSeries.slice(startIndex, endIndex);
+    const {
+      series: seriesPage,
+      total,
+      nextCursor,
+    } = await this.seriesService.getUserSeriesPage(userId, {
+      isActive: query.isActive,
+      search: query.search,
+      sortBy: query.sortBy,
+      sortOrder: query.sortOrder,
+      skip: (page - 1) * limit,
+      take: limit,
+      cursor,
+    });
 
     // Transform to response format
-    const responseData = paginatedSeries.map((series) => {
+    const responseData = seriesPage.map((series) => {
       const stats = {
         totalVideosGenerated: series.totalVideosGenerated,
         totalViews: series.totalViews,
@@ -191,12 +237,10 @@ export class SeriesController {
       });
     });
 
-    return new PaginatedResponseDto(
-      responseData,
-      filteredSeries.length,
-      page,
-      limit,
-    );
+    return new PaginatedResponseDto(responseData, total, page, limit, {
+      next: nextCursor,
+      used: !!cursor,
+    });
   }
 
   @Get(':id')
@@ -229,9 +273,8 @@ export class SeriesController {
   })
   async getSeriesById(
     @Param('id') id: string,
-    @Request() req,
+    @CurrentUser('id') userId: string,
   ): Promise<SeriesResponseDto> {
-    const userId = req.user.id;
     const series = await this.seriesService.getSeriesById(id);
 
     if (!series) {
@@ -314,11 +357,9 @@ export class SeriesController {
   })
   async updateSeries(
     @Param('id') id: string,
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Body() updateSeriesDto: UpdateSeriesDto,
   ): Promise<SeriesResponseDto> {
-    const userId = req.user.id;
-
     // Verify ownership first
     const existingSeries = await this.seriesService.getSeriesById(id);
     if (!existingSeries) {
@@ -385,11 +426,9 @@ export class SeriesController {
   })
   async toggleSeriesStatus(
     @Param('id') id: string,
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Body('isActive') isActive: boolean,
   ): Promise<SeriesResponseDto> {
-    const userId = req.user.id;
-
     // Verify ownership first
     const existingSeries = await this.seriesService.getSeriesById(id);
     if (!existingSeries) {
@@ -447,9 +486,10 @@ export class SeriesController {
     description: 'Series not found',
     type: ErrorResponseDto,
   })
-  async deleteSeries(@Param('id') id: string, @Request() req): Promise<void> {
-    const userId = req.user.id;
-
+  async deleteSeries(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<void> {
     // Verify ownership first
     const existingSeries = await this.seriesService.getSeriesById(id);
     if (!existingSeries) {
@@ -461,7 +501,7 @@ export class SeriesController {
     }
 
     try {
-      await this.seriesService.deleteSeries(id);
+      await this.videoStorageService.deleteSeries(existingSeries);
     } catch (error) {
       if (error.code === 'P2025') {
         throw new NotFoundException('Series not found');
@@ -473,18 +513,30 @@ export class SeriesController {
   @Get(':id/analytics')
   @ApiOperation({
     summary: 'Get series analytics',
-    description: 'Returns detailed analytics for a specific series',
+    description:
+      "Returns metrics of the series' social posts over the last `days` days, bucketed by day, week or month in the owner's timezone, with a per-platform breakdown and a comparison against the previous period of the same length. Posts count towards the bucket they were published in.",
   })
   @ApiParam({ name: 'id', description: 'Series ID' })
   @ApiQuery({
     name: 'days',
     required: false,
-    description: 'Number of days to include (default: 30)',
+    description: 'Number of days to include (default: 30, max: 365)',
+  })
+  @ApiQuery({
+    name: 'granularity',
+    required: false,
+    enum: ANALYTICS_GRANULARITIES,
+    description: 'Time series bucket size (default: day)',
   })
   @ApiResponse({
     status: 200,
     description: 'Analytics retrieved successfully',
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid days or granularity',
+    type: ErrorResponseDto,
+  })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized',
@@ -502,10 +554,20 @@ export class SeriesController {
   })
   async getSeriesAnalytics(
     @Param('id') id: string,
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Query('days') days: number = 30,
+    @Query('granularity') granularity: AnalyticsGranularity = 'day',
   ) {
-    const userId = req.user.id;
+    const periodDays = Number(days);
+    if (!Number.isInteger(periodDays) || periodDays < 1 || periodDays > 365) {
+      throw new BadRequestException('days must be an integer from 1 to 365');
+    }
+    if (!ANALYTICS_GRANULARITIES.includes(granularity)) {
+      throw new BadRequestException(
+        `granularity must be one of: ${ANALYTICS_GRANULARITIES.join(', ')}`,
+      );
+    }
+
     const series = await this.seriesService.getSeriesById(id);
 
     if (!series) {
@@ -518,8 +580,30 @@ export class SeriesController {
       );
     }
 
-    // This would typically involve complex queries to aggregate analytics data
-    // For now, returning basic structure
+    const ownerTimeZone = (series as any).user?.timezone;
+    const timeZone =
+      ownerTimeZone && isValidTimeZone(ownerTimeZone) ? ownerTimeZone : 'UTC';
+    const { current, previous } = analyticsPeriods(
+      periodDays,
+      zonedDate(new Date(), timeZone),
+    );
+    const posts = await this.socialPostService.getSeriesPostsPublishedBetween(
+      series.id,
+      zonedDayBounds(previous.from, timeZone).start,
+      zonedDayBounds(current.to, timeZone).end,
+    );
+    const analytics = buildSeriesAnalytics(posts, {
+      current,
+      previous,
+      granularity,
+      timeZone,
+    });
+
+    const videos: any[] = (series as any).videos || [];
+    const generationTimes = videos
+      .map((video) => video.generationTimeSeconds)
+      .filter((seconds) => seconds != null);
+
     return {
       seriesInfo: {
         id: series.id,
@@ -527,26 +611,52 @@ export class SeriesController {
         createdAt: series.createdAt.toISOString(),
         isActive: series.isActive,
       },
+      period: { ...current, days: periodDays, granularity, timeZone },
       overview: {
-        totalVideos: (series as any).videos?.length || 0,
+        totalVideos: videos.length,
         totalViews: series.totalViews,
         totalLikes: series.totalLikes,
-        avgEngagementRate: 0, // Would calculate from social posts
-        avgGenerationTime: 0, // Would calculate from video generation times
+        // Over the selected period, in interactions per 100 views
+        avgEngagementRate: analytics.currentTotals.engagementRate,
+        // Seconds, over every generated video of the series
+        avgGenerationTime:
+          generationTimes.length > 0
+            ? Math.round(
+                generationTimes.reduce((sum, seconds) => sum + seconds, 0) /
+                  generationTimes.length,
+              )
+            : 0,
       },
-      videoPerformance:
-        (series as any).videos?.map((video: any) => ({
-          id: video.id,
-          title: video.title,
-          createdAt: video.createdAt.toISOString(),
-          status: video.status,
-          // Would include social media metrics here
-        })) || [],
+      videoPerformance: videos.map((video) => ({
+        id: video.id,
+        title: video.title,
+        createdAt: video.createdAt.toISOString(),
+        status: video.status,
+        ...(analytics.videoTotals.get(video.id) || {
+          ...totals([]),
+          platforms: [],
+        }),
+      })),
+      platformBreakdown: analytics.platformBreakdown,
       trends: {
-        // Would include time-series data for views, likes, etc.
-        dailyViews: [],
-        dailyLikes: [],
-        engagementTrend: [],
+        granularity,
+        dailyViews: analytics.buckets.map((bucket) => ({
+          date: bucket.start,
+          value: bucket.views,
+        })),
+        dailyLikes: analytics.buckets.map((bucket) => ({
+          date: bucket.start,
+          value: bucket.likes,
+        })),
+        engagementTrend: analytics.buckets.map((bucket) => ({
+          date: bucket.start,
+          value: bucket.engagementRate,
+        })),
+        buckets: analytics.buckets,
+      },
+      comparison: {
+        current: analytics.currentTotals,
+        ...analytics.comparison,
       },
     };
   }
@@ -1,9 +1,11 @@
 import { Module } from '@nestjs/common';
 import { SeriesController } from './series.controller';
 import { DatabaseModule } from '../database/database.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
-  imports: [DatabaseModule],
+  imports: [DatabaseModule, SubscriptionsModule, StorageModule],
   controllers: [SeriesController],
 })
 export class SeriesModule {}
@@ -0,0 +1,74 @@
+import { applyTemplateDefaults } from './template-defaults';
+
+describe('applyTemplateDefaults', () => {
+  const template = {
+    defaultPrompt: 'Explain a stoic quote',
+    defaultStyle: { theme: 'minimal', font: 'serif' },
+    defaultVoiceSettings: { voice: 'male', speed: 0.95 },
+    estimatedDuration: 45,
+    contentType: 'story',
+  };
+
+  it('uses template defaults for fields the user did not set', () => {
+    const { values, appliedFields } = applyTemplateDefaults(template, {
+      name: 'Daily Stoic',
+    });
+
+    expect(values).toEqual({
+      name: 'Daily Stoic',
+      customPrompt: 'Explain a stoic quote',
+      visualStyle: { theme: 'minimal', font: 'serif' },
+      voiceSettings: { voice: 'male', speed: 0.95 },
+      videoDuration: 45,
+      contentType: 'story',
+    });
+    expect(appliedFields).toEqual([
+      'customPrompt',
+      'visualStyle',
+      'voiceSettings',
+      'videoDuration',
+      'contentType',
+    ]);
+  });
+
+  it('carries the content type over and leaves the content style alone', () => {
+    const { values } = applyTemplateDefaults(template, { name: 'Daily Stoic' });
+
+    expect(values).toHaveProperty('contentType', 'story');
+    expect(values).not.toHaveProperty('contentStyle');
+  });
+
+  it('lets user values override scalars and individual object keys', () => {
+    const { values, appliedFields } = applyTemplateDefaults(template, {
+      name: 'Daily Stoic',
+      customPrompt: 'My own prompt',
+      videoDuration: 30,
+      contentType: 'listicle',
+      visualStyle: { theme: 'bold' },
+      voiceSettings: { voice: 'female', speed: 1.1 },
+    });
+
+    expect(values.customPrompt).toBe('My own prompt');
+    expect(values.videoDuration).toBe(30);
+    expect(values.contentType).toBe('listicle');
+    expect(values.visualStyle).toEqual({ theme: 'bold', font: 'serif' });
+    expect(values.voiceSettings).toEqual({ voice: 'female', speed: 1.1 });
+    expect(appliedFields).toEqual(['visualStyle']);
+  });
+
+  it('ignores empty template defaults', () => {
+    const { values, appliedFields } = applyTemplateDefaults(
+      {
+        defaultPrompt: null,
+        defaultStyle: {},
+        defaultVoiceSettings: null,
+        estimatedDuration: null,
+        contentType: null,
+      },
+      { name: 'Plain' },
+    );
+
+    expect(values).toEqual({ name: 'Plain' });
+    expect(appliedFields).toEqual([]);
+  });
+});
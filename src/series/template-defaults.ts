@@ -0,0 +1,68 @@
+import { SeriesTemplate } from '@prisma/client';
+
+// Series fields that can be seeded from a template, keyed by series field
+export const TEMPLATE_DEFAULT_FIELDS = {
+  customPrompt: 'defaultPrompt',
+  visualStyle: 'defaultStyle',
+  voiceSettings: 'defaultVoiceSettings',
+  videoDuration: 'estimatedDuration',
+  contentType: 'contentType',
+} as const;
+
+export type TemplateDefaultField = keyof typeof TEMPLATE_DEFAULT_FIELDS;
+
+export interface TemplateDefaultsResult<T> {
+  values: T;
+  appliedFields: TemplateDefaultField[];
+}
+
+// Merge policy: template defaults first, user overrides on top.
+// - Scalars: a value supplied by the user replaces the template default.
+// - Objects (visual style, voice settings): shallow merge, so the user can
+//   override individual keys and keep the rest of the template's settings.
+// A field is reported as applied when any part of its value came from the
+// template.
+export function applyTemplateDefaults<T extends Record<string, any>>(
+  template: Pick<
+    SeriesTemplate,
+    (typeof TEMPLATE_DEFAULT_FIELDS)[TemplateDefaultField]
+  >,
+  overrides: T,
+): TemplateDefaultsResult<T> {
+  const values: Record<string, any> = { ...overrides };
+  const appliedFields: TemplateDefaultField[] = [];
+
+  for (const field of Object.keys(
+    TEMPLATE_DEFAULT_FIELDS,
+  ) as TemplateDefaultField[]) {
+    const templateValue = template[TEMPLATE_DEFAULT_FIELDS[field]];
+    const userValue = overrides[field];
+
+    if (templateValue === null || templateValue === undefined) {
+      continue;
+    }
+
+    if (isPlainObject(templateValue)) {
+      const templateKeys = Object.keys(templateValue).filter(
+        (key) => !isPlainObject(userValue) || !(key in userValue),
+      );
+      if (templateKeys.length === 0) {
+        continue;
+      }
+      values[field] = {
+        ...templateValue,
+        ...(isPlainObject(userValue) ? userValue : {}),
+      };
+      appliedFields.push(field);
+    } else if (userValue === undefined) {
+      values[field] = templateValue;
+      appliedFields.push(field);
+    }
+  }
+
+  return { values: values as T, appliedFields };
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,153 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { SocialAccount, SocialPost } from '@prisma/client';
+import { SocialAccountService } from '../database/social-account.service';
+import { SocialPostService } from '../database/social-post.service';
+import {
+  PLATFORM_CLIENTS,
+  PlatformApiError,
+  PlatformClient,
+  PlatformPostMetrics,
+} from './platforms/platform-client.interface';
+
+// Posts older than this are no longer refreshed on sync
+const SYNC_WINDOW_DAYS = 90;
+const MAX_SYNCED_POSTS = 100;
+// Upper bound of SocialPost.engagementRate (Decimal(5, 4))
+const MAX_ENGAGEMENT_RATE = 9.9999;
+
+export interface AccountSyncResult {
+  account: SocialAccount;
+  recentStats: {
+    totalPosts: number;
+    totalViews: number;
+    totalLikes: number;
+    avgEngagementRate: number;
+  };
+}
+
+// Pulls profile data and post metrics from the platform into the database
+@Injectable()
+export class AccountSyncService {
+  private readonly logger = new Logger(AccountSyncService.name);
+  private readonly clientsByPlatform = new Map<string, PlatformClient>();
+
+  constructor(
+    @Inject(PLATFORM_CLIENTS) clients: PlatformClient[],
+    private readonly socialAccountService: SocialAccountService,
+    private readonly socialPostService: SocialPostService,
+  ) {
+    for (const client of clients) {
+      this.clientsByPlatform.set(client.platform, client);
+    }
+  }
+
+  // Sync one account and the metrics of its recently published posts
+  async syncAccount(account: SocialAccount): Promise<AccountSyncResult> {
+    const client = this.clientsByPlatform.get(account.platform);
+    if (!client) {
+      throw new BadRequestException(
+        `Syncing ${account.platform} accounts is not supported`,
+      );
+    }
+
+    const since = new Date();
+    since.setDate(since.getDate() - SYNC_WINDOW_DAYS);
+    const posts = await this.socialPostService.getPublishedPostsForAccount(
+      account.id,
+      { since, take: MAX_SYNCED_POSTS },
+    );
+
+    try {
+      const profile = await client.fetchProfile(account);
+      const metrics =
+        posts.length > 0
+          ? await client.fetchPostMetrics(
+              account,
+              posts.map((post) => post.platformPostId),
+            )
+          : [];
+
+      const synced = await this.savePostMetrics(posts, metrics);
+      const updated = await this.socialAccountService.updateAccountMetrics(
+        account.id,
+        {
+          displayName: profile.displayName ?? account.displayName,
+          followerCount: profile.followerCount ?? account.followerCount,
+          profileImageUrl: profile.profileImageUrl ?? account.profileImageUrl,
+          isVerified: profile.isVerified ?? account.isVerified,
+        },
+      );
+
+      return { account: updated, recentStats: this.summarize(synced) };
+    } catch (error) {
+      if (error instanceof PlatformApiError) {
+        this.logger.warn(
+          `Sync of account ${account.id} failed: ${error.message}`,
+        );
+        throw new BadGatewayException(
+          `Could not sync ${account.platform} account (${error.status})`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async savePostMetrics(
+    posts: SocialPost[],
+    metrics: PlatformPostMetrics[],
+  ): Promise<PlatformPostMetrics[]> {
+    const byPlatformId = new Map(
+      metrics.map((metric) => [metric.platformPostId, metric]),
+    );
+    const synced: PlatformPostMetrics[] = [];
+
+    for (const post of posts) {
+      const metric = byPlatformId.get(post.platformPostId);
+      if (!metric) {
+        continue;
+      }
+      await this.socialPostService.updatePost(post.id, {
+        viewsCount: metric.viewsCount,
+        likesCount: metric.likesCount,
+        commentsCount: metric.commentsCount,
+        sharesCount: metric.sharesCount,
+        engagementRate: engagementRate(metric),
+      });
+      synced.push(metric);
+    }
+    return synced;
+  }
+
+  private summarize(metrics: PlatformPostMetrics[]) {
+    const total = (key: keyof Omit<PlatformPostMetrics, 'platformPostId'>) =>
+      metrics.reduce((sum, metric) => sum + metric[key], 0);
+    const totalViews = total('viewsCount');
+    const interactions =
+      total('likesCount') + total('commentsCount') + total('sharesCount');
+
+    return {
+      totalPosts: metrics.length,
+      totalViews,
+      totalLikes: total('likesCount'),
+      // Percentage, matching the account analytics endpoint
+      avgEngagementRate: totalViews > 0 ? (interactions / totalViews) * 100 : 0,
+    };
+  }
+}
+
+// Interactions per view as a fraction, rounded to the column's precision
+export function engagementRate(metric: PlatformPostMetrics): number {
+  if (metric.viewsCount <= 0) {
+    return 0;
+  }
+  const rate =
+    (metric.likesCount + metric.commentsCount + metric.sharesCount) /
+    metric.viewsCount;
+  return Math.min(Math.round(rate * 10000) / 10000, MAX_ENGAGEMENT_RATE);
+}
@@ -0,0 +1,176 @@
+import { SUPPORTED_PLATFORMS, SupportedPlatform } from '../supported-platforms';
+
+// Account details read from the platform once the code has been exchanged
+export interface OAuthProfile {
+  platformUserId: string;
+  username: string;
+  displayName?: string;
+  profileImageUrl?: string;
+  followerCount?: number;
+  isVerified?: boolean;
+}
+
+export interface OAuthPlatformConfig {
+  platform: SupportedPlatform;
+  authorizeUrl: string;
+  tokenUrl: string;
+  profileUrl: string;
+  scopes: readonly string[];
+  scopeSeparator: string;
+  // Name of the client ID parameter (TikTok calls it client_key)
+  clientIdParam: string;
+  // 'basic' sends the client credentials in an Authorization header
+  clientAuth: 'body' | 'basic';
+  pkce: boolean;
+  extraAuthorizeParams?: Record<string, string>;
+  parseProfile(body: any, token: Record<string, any>): OAuthProfile;
+}
+
+const scopesOf = (platform: SupportedPlatform) =>
+  SUPPORTED_PLATFORMS.find((p) => p.platform === platform).requiredScopes;
+
+const GRAPH_API = 'https://graph.facebook.com/v19.0';
+
+// Default endpoints per platform. Each URL can be overridden with
+// <PLATFORM>_OAUTH_AUTHORIZE_URL, <PLATFORM>_OAUTH_TOKEN_URL and
+// <PLATFORM>_OAUTH_PROFILE_URL (e.g. to point at a local mock server).
+export const OAUTH_PLATFORMS: Record<SupportedPlatform, OAuthPlatformConfig> = {
+  youtube: {
+    platform: 'youtube',
+    authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    profileUrl:
+      'https://www.googleapis.com/youtube/v3/channels?part=snippet,statistics&mine=true',
+    scopes: scopesOf('youtube'),
+    scopeSeparator: ' ',
+    clientIdParam: 'client_id',
+    clientAuth: 'body',
+    pkce: true,
+    // Needed for Google to issue a refresh token
+    extraAuthorizeParams: { access_type: 'offline', prompt: 'consent' },
+    parseProfile: (body) => {
+      const channel = body.items?.[0];
+      if (!channel) {
+        throw new Error('No YouTube channel found for this Google account');
+      }
+      return {
+        platformUserId: channel.id,
+        username: channel.snippet?.customUrl || channel.snippet?.title,
+        displayName: channel.snippet?.title,
+        profileImageUrl: channel.snippet?.thumbnails?.default?.url,
+        followerCount: Number(channel.statistics?.subscriberCount) || 0,
+      };
+    },
+  },
+  tiktok: {
+    platform: 'tiktok',
+    authorizeUrl: 'https://www.tiktok.com/v2/auth/authorize/',
+    tokenUrl: 'https://open.tiktokapis.com/v2/oauth/token/',
+    profileUrl:
+      'https://open.tiktokapis.com/v2/user/info/?fields=open_id,avatar_url,display_name,username,follower_count,is_verified',
+    scopes: scopesOf('tiktok'),
+    scopeSeparator: ',',
+    clientIdParam: 'client_key',
+    clientAuth: 'body',
+    pkce: true,
+    parseProfile: (body, token) => {
+      const user = body.data?.user || {};
+      return {
+        platformUserId: user.open_id || token.open_id,
+        username: user.username || user.display_name,
+        displayName: user.display_name,
+        profileImageUrl: user.avatar_url,
+        followerCount: user.follower_count,
+        isVerified: user.is_verified,
+      };
+    },
+  },
+  instagram: {
+    platform: 'instagram',
+    authorizeUrl: 'https://www.facebook.com/v19.0/dialog/oauth',
+    tokenUrl: `${GRAPH_API}/oauth/access_token`,
+    profileUrl: `${GRAPH_API}/me/accounts?fields=instagram_business_account{id,username,name,profile_picture_url,followers_count}`,
+    scopes: scopesOf('instagram'),
+    scopeSeparator: ',',
+    clientIdParam: 'client_id',
+    clientAuth: 'body',
+    pkce: false,
+    // Publishing goes through an Instagram professional account linked
+    // to one of the user's Facebook pages
+    parseProfile: (body) => {
+      const account = (body.data || [])
+        .map((page) => page.instagram_business_account)
+        .find(Boolean);
+      if (!account) {
+        throw new Error(
+          'No Instagram professional account is linked to your Facebook pages',
+        );
+      }
+      return {
+        platformUserId: account.id,
+        username: account.username,
+        displayName: account.name,
+        profileImageUrl: account.profile_picture_url,
+        followerCount: account.followers_count,
+      };
+    },
+  },
+  facebook: {
+    platform: 'facebook',
+    authorizeUrl: 'https://www.facebook.com/v19.0/dialog/oauth',
+    tokenUrl: `${GRAPH_API}/oauth/access_token`,
+    profileUrl: `${GRAPH_API}/me?fields=id,name,picture`,
+    scopes: scopesOf('facebook'),
+    scopeSeparator: ',',
+    clientIdParam: 'client_id',
+    clientAuth: 'body',
+    pkce: false,
+    parseProfile: (body) => ({
+      platformUserId: body.id,
+      username: body.name,
+      displayName: body.name,
+      profileImageUrl: body.picture?.data?.url,
+    }),
+  },
+  twitter: {
+    platform: 'twitter',
+    authorizeUrl: 'https://twitter.com/i/oauth2/authorize',
+    tokenUrl: 'https://api.twitter.com/2/oauth2/token',
+    profileUrl:
+      'https://api.twitter.com/2/users/me?user.fields=profile_image_url,public_metrics,verified',
+    scopes: scopesOf('twitter'),
+    scopeSeparator: ' ',
+    clientIdParam: 'client_id',
+    clientAuth: 'basic',
+    pkce: true,
+    parseProfile: (body) => ({
+      platformUserId: body.data?.id,
+      username: body.data?.username,
+      displayName: body.data?.name,
+      profileImageUrl: body.data?.profile_image_url,
+      followerCount: body.data?.public_metrics?.followers_count,
+      isVerified: body.data?.verified,
+    }),
+  },
+  linkedin: {
+    platform: 'linkedin',
+    authorizeUrl: 'https://www.linkedin.com/oauth/v2/authorization',
+    tokenUrl: 'https://www.linkedin.com/oauth/v2/accessToken',
+    profileUrl: 'https://api.linkedin.com/v2/me',
+    scopes: scopesOf('linkedin'),
+    scopeSeparator: ' ',
+    clientIdParam: 'client_id',
+    clientAuth: 'body',
+    pkce: false,
+    parseProfile: (body) => {
+      const name = [body.localizedFirstName, body.localizedLastName]
+        .filter(Boolean)
+        .join(' ');
+      return {
+        platformUserId: body.id,
+        username: body.vanityName || name || body.id,
+        displayName: name || undefined,
+      };
+    },
+  },
+};
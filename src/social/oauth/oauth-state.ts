@@ -0,0 +1,76 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// OAuth `state` is a signed token carrying who started the flow, so the
+// callback (which arrives without our JWT) can be tied back to the user:
+//   base64url(JSON payload) + '.' + base64url(HMAC-SHA256(secret, payload))
+// The signature only proves we issued it. Its nonce also names a stored
+// record, which makes the state single use and bound to one browser.
+
+export interface OAuthStatePayload {
+  userId: string;
+  platform: string;
+  nonce: string;
+  expiresAt: number; // unix ms
+}
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+// Create a signed state for a user starting to connect a platform
+export function createOAuthState(
+  userId: string,
+  platform: string,
+  secret: string,
+  now = Date.now(),
+): { state: string; payload: OAuthStatePayload } {
+  const payload: OAuthStatePayload = {
+    userId,
+    platform,
+    nonce: randomBytes(16).toString('base64url'),
+    expiresAt: now + STATE_TTL_MS,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return { state: `${data}.${sign(data, secret)}`, payload };
+}
+
+// Verify a state and return its payload, or null when it is forged or expired
+export function verifyOAuthState(
+  state: string,
+  secret: string,
+  now = Date.now(),
+): OAuthStatePayload | null {
+  const [data, signature] = (state || '').split('.');
+  if (!data || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(data, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload: OAuthStatePayload = JSON.parse(
+      Buffer.from(data, 'base64url').toString('utf8'),
+    );
+    return payload.expiresAt > now ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// PKCE verifier derived from the state nonce, so it never has to be stored
+// or sent to the browser: only the server can recompute it at callback time.
+export function derivePkceVerifier(nonce: string, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(`pkce:${nonce}`)
+    .digest('base64url');
+}
+
+export function pkceChallenge(verifier: string): string {
+  return createHash('sha256').update(verifier).digest('base64url');
+}
@@ -0,0 +1,204 @@
+import {
+  ClassSerializerInterceptor,
+  Controller,
+  Get,
+  HttpException,
+  Logger,
+  Param,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { JwtAuthGuard } from '../../auth/guards/jwt.auth.guard';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { AuthUser } from '../../auth/auth-user';
+import { parseCookies } from '../../auth/session-cookie';
+import { ErrorResponseDto } from '../../dto/common/error-response.dto';
+import {
+  OAuthCallbackResponseDto,
+  OAuthStartResponseDto,
+} from '../../dto/social/oauth-start-response.dto';
+import {
+  SUPPORTED_PLATFORM_IDS,
+  SupportedPlatform,
+} from '../supported-platforms';
+import { SocialOAuthService } from './social-oauth.service';
+
+@ApiTags('Social Accounts')
+@Controller('api/v1/social-accounts/oauth')
+@UseInterceptors(ClassSerializerInterceptor)
+export class SocialOAuthController {
+  private readonly logger = new Logger(SocialOAuthController.name);
+
+  constructor(
+    private readonly socialOAuthService: SocialOAuthService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get(':platform/start')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Start connecting a social account',
+    description:
+      'Returns the platform consent URL and sets a cookie binding the flow to this browser, so call it with credentials from the browser that opens the URL. The platform redirects back to the callback endpoint, which stores the account.',
+  })
+  @ApiParam({ name: 'platform', enum: SUPPORTED_PLATFORM_IDS })
+  @ApiResponse({
+    status: 200,
+    description: 'Authorization URL created',
+    type: OAuthStartResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Platform not supported or not configured',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  async startOAuth(
+    @CurrentUser() user: AuthUser,
+    @Param('platform') platform: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<OAuthStartResponseDto> {
+    const { authorizationUrl, state, expiresAt, browserKey } =
+      await this.socialOAuthService.buildAuthorizationUrl(user.id, platform);
+
+    res.cookie(browserKeyCookie(platform), browserKey, {
+      ...this.cookieOptions(),
+      expires: expiresAt,
+    });
+    return { authorizationUrl, state, expiresAt: expiresAt.toISOString() };
+  }
+
+  @Get(':platform/callback')
+  @ApiOperation({
+    summary: 'OAuth callback',
+    description:
+      'Called by the platform after consent. Only accepted once, from the browser that started the flow. Redirects to OAUTH_COMPLETE_REDIRECT_URL with a status when it is set, otherwise returns the status.',
+  })
+  @ApiParam({ name: 'platform', enum: SUPPORTED_PLATFORM_IDS })
+  @ApiQuery({ name: 'code', required: false })
+  @ApiQuery({ name: 'state', required: true })
+  @ApiQuery({ name: 'error', required: false })
+  @ApiResponse({
+    status: 200,
+    description: 'Social account connected',
+    type: OAuthCallbackResponseDto,
+  })
+  @ApiResponse({
+    status: 302,
+    description: 'Redirect to the app with the connection result',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid, used or expired state, state started in another browser, denied consent or missing code',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Another account on this platform is already connected',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 502,
+    description: 'The platform rejected the code exchange',
+    type: ErrorResponseDto,
+  })
+  async handleCallback(
+    @Param('platform') platform: string,
+    @Query('code') code: string,
+    @Query('state') state: string,
+    @Query('error') error: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<OAuthCallbackResponseDto | void> {
+    const completeUrl = this.configService.get<string>(
+      'OAUTH_COMPLETE_REDIRECT_URL',
+    );
+    let browserKey: string | undefined;
+    if (SUPPORTED_PLATFORM_IDS.includes(platform as SupportedPlatform)) {
+      browserKey = parseCookies(req.headers.cookie ?? '').get(
+        browserKeyCookie(platform),
+      );
+      res.clearCookie(browserKeyCookie(platform), this.cookieOptions());
+    }
+
+    try {
+      const { account } = await this.socialOAuthService.handleCallback(
+        platform,
+        { code, state, error, browserKey },
+      );
+
+      if (completeUrl) {
+        return res.redirect(
+          this.buildCompleteUrl(completeUrl, {
+            status: 'connected',
+            platform,
+            accountId: account.id,
+          }),
+        );
+      }
+      return { status: 'connected', platform };
+    } catch (err) {
+      if (!completeUrl) {
+        throw err;
+      }
+      if (!(err instanceof HttpException)) {
+        this.logger.error(
+          `Connecting a ${platform} account failed: ${err.message}`,
+        );
+      }
+      return res.redirect(
+        this.buildCompleteUrl(completeUrl, {
+          status: 'error',
+          platform,
+          message:
+            err instanceof HttpException
+              ? err.message
+              : 'The account could not be connected',
+        }),
+      );
+    }
+  }
+
+  // The cookie is only sent back to the OAuth endpoints, and with the
+  // top-level redirect from the platform (SameSite=Lax)
+  private cookieOptions() {
+    const baseUrl = this.configService.get<string>('OAUTH_REDIRECT_BASE_URL');
+    return {
+      httpOnly: true,
+      secure: Boolean(baseUrl?.startsWith('https:')),
+      sameSite: 'lax' as const,
+      path: '/api/v1/social-accounts/oauth',
+    };
+  }
+
+  private buildCompleteUrl(base: string, params: Record<string, string>) {
+    const url = new URL(base);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+}
+
+function browserKeyCookie(platform: string): string {
+  return `oauth_browser_key_${platform}`;
+}
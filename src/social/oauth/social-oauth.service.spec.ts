@@ -0,0 +1,252 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { BadGatewayException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SocialAccountService } from '../../database/social-account.service';
+import { pkceChallenge } from './oauth-state';
+import { SocialOAuthService } from './social-oauth.service';
+
+// Minimal OAuth provider: remembers the PKCE challenge issued for a code and
+// checks the verifier on exchange, like a real authorization server would.
+class MockOAuthServer {
+  readonly challenges = new Map<string, string>();
+  readonly tokenRequests: URLSearchParams[] = [];
+  private server: Server;
+  baseUrl: string;
+
+  async start() {
+    this.server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) => this.server.listen(0, resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+  }
+
+  stop() {
+    return new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private async handle(req: IncomingMessage, res: any) {
+    const send = (status: number, body: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/token' && req.method === 'POST') {
+      let raw = '';
+      for await (const chunk of req) {
+        raw += chunk;
+      }
+      const form = new URLSearchParams(raw);
+      this.tokenRequests.push(form);
+
+      const challenge = this.challenges.get(form.get('code'));
+      if (
+        !challenge ||
+        pkceChallenge(form.get('code_verifier') || '') !== challenge
+      ) {
+        return send(400, { error: 'invalid_grant' });
+      }
+      return send(200, {
+        access_token: 'mock-access-token',
+        refresh_token: 'mock-refresh-token',
+        expires_in: 3600,
+      });
+    }
+
+    if (req.url.startsWith('/profile')) {
+      if (req.headers.authorization !== 'Bearer mock-access-token') {
+        return send(401, { error: 'invalid_token' });
+      }
+      return send(200, {
+        items: [
+          {
+            id: 'UC_mock_channel',
+            snippet: { title: 'Mock Channel', customUrl: '@mockchannel' },
+            statistics: { subscriberCount: '1200' },
+          },
+        ],
+      });
+    }
+
+    send(404, { error: 'not_found' });
+  }
+}
+
+describe('SocialOAuthService', () => {
+  const provider = new MockOAuthServer();
+  let service: SocialOAuthService;
+  let socialAccountService: Record<string, jest.Mock>;
+
+  beforeAll(() => provider.start());
+  afterAll(() => provider.stop());
+
+  beforeEach(async () => {
+    const config: Record<string, string> = {
+      OAUTH_STATE_SECRET: 'test-state-secret',
+      OAUTH_REDIRECT_BASE_URL: 'http://api.test',
+      YOUTUBE_CLIENT_ID: 'mock-client',
+      YOUTUBE_CLIENT_SECRET: 'mock-secret',
+      YOUTUBE_OAUTH_AUTHORIZE_URL: `${provider.baseUrl}/authorize`,
+      YOUTUBE_OAUTH_TOKEN_URL: `${provider.baseUrl}/token`,
+      YOUTUBE_OAUTH_PROFILE_URL: `${provider.baseUrl}/profile`,
+    };
+    const states = new Map<string, Record<string, any>>();
+    socialAccountService = {
+      createOAuthState: jest.fn().mockImplementation(async (data) => {
+        states.set(data.nonce, { ...data, usedAt: null });
+      }),
+      consumeOAuthState: jest
+        .fn()
+        .mockImplementation(async (nonce, browserKeyHash) => {
+          const stored = states.get(nonce);
+          if (
+            !stored ||
+            stored.usedAt ||
+            stored.browserKeyHash !== browserKeyHash
+          ) {
+            return null;
+          }
+          stored.usedAt = new Date();
+          return stored;
+        }),
+      findAccountByPlatformUser: jest.fn().mockResolvedValue(null),
+      getSocialAccountByPlatform: jest.fn().mockResolvedValue(null),
+      connectAccount: jest
+        .fn()
+        .mockImplementation(async (data) => ({ id: 'account-1', ...data })),
+      updateSocialAccount: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SocialOAuthService,
+        { provide: SocialAccountService, useValue: socialAccountService },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get(SocialOAuthService);
+  });
+
+  // Simulate the user approving consent on the provider
+  const authorize = async (code: string) => {
+    const { authorizationUrl, state, browserKey } =
+      await service.buildAuthorizationUrl('user-1', 'youtube');
+    const url = new URL(authorizationUrl);
+    provider.challenges.set(code, url.searchParams.get('code_challenge'));
+    return { url, state, browserKey };
+  };
+
+  it('builds an authorization URL with the platform scopes and PKCE', async () => {
+    const { url } = await authorize('unused');
+
+    expect(url.origin + url.pathname).toBe(`${provider.baseUrl}/authorize`);
+    expect(url.searchParams.get('client_id')).toBe('mock-client');
+    expect(url.searchParams.get('redirect_uri')).toBe(
+      'http://api.test/api/v1/social-accounts/oauth/youtube/callback',
+    );
+    expect(url.searchParams.get('scope')).toContain(
+      'https://www.googleapis.com/auth/youtube.upload',
+    );
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('access_type')).toBe('offline');
+  });
+
+  it('exchanges the code and stores the connected account', async () => {
+    const { state, browserKey } = await authorize('good-code');
+
+    const result = await service.handleCallback('youtube', {
+      code: 'good-code',
+      state,
+      browserKey,
+    });
+
+    expect(result.created).toBe(true);
+    expect(socialAccountService.connectAccount).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        platform: 'youtube',
+        platformUserId: 'UC_mock_channel',
+        username: '@mockchannel',
+        accessToken: 'mock-access-token',
+        refreshToken: 'mock-refresh-token',
+        followerCount: 1200,
+      }),
+    );
+    const tokenRequest = provider.tokenRequests.at(-1);
+    expect(tokenRequest.get('client_secret')).toBe('mock-secret');
+    expect(tokenRequest.get('redirect_uri')).toBe(
+      'http://api.test/api/v1/social-accounts/oauth/youtube/callback',
+    );
+  });
+
+  it('rejects a tampered or mismatched state', async () => {
+    const { state, browserKey } = await authorize('good-code');
+
+    await expect(
+      service.handleCallback('youtube', {
+        code: 'good-code',
+        state: `${state}x`,
+        browserKey,
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.handleCallback('tiktok', {
+        code: 'good-code',
+        state,
+        browserKey,
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(socialAccountService.connectAccount).not.toHaveBeenCalled();
+  });
+
+  it('surfaces a rejected code exchange as a bad gateway', async () => {
+    const { state, browserKey } = await authorize('good-code');
+
+    await expect(
+      service.handleCallback('youtube', {
+        code: 'unknown-code',
+        state,
+        browserKey,
+      }),
+    ).rejects.toBeInstanceOf(BadGatewayException);
+  });
+
+  it('accepts a state only once', async () => {
+    const { state, browserKey } = await authorize('good-code');
+    await service.handleCallback('youtube', {
+      code: 'good-code',
+      state,
+      browserKey,
+    });
+
+    await expect(
+      service.handleCallback('youtube', {
+        code: 'good-code',
+        state,
+        browserKey,
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(socialAccountService.connectAccount).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a state from another browser', async () => {
+    const { state } = await authorize('good-code');
+
+    await expect(
+      service.handleCallback('youtube', { code: 'good-code', state }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.handleCallback('youtube', {
+        code: 'good-code',
+        state,
+        browserKey: 'someone-elses-key',
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(socialAccountService.connectAccount).not.toHaveBeenCalled();
+  });
+});
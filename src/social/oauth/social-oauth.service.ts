@@ -0,0 +1,420 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SocialAccount } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { SocialAccountService } from '../../database/social-account.service';
+import {
+  SUPPORTED_PLATFORM_IDS,
+  SupportedPlatform,
+} from '../supported-platforms';
+import {
+  OAUTH_PLATFORMS,
+  OAuthPlatformConfig,
+  OAuthProfile,
+} from './oauth-platforms';
+import {
+  createOAuthState,
+  derivePkceVerifier,
+  OAuthStatePayload,
+  pkceChallenge,
+  verifyOAuthState,
+} from './oauth-state';
+
+interface ResolvedPlatform extends OAuthPlatformConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+}
+
+interface TokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+  raw: Record<string, any>;
+}
+
+// Server-side OAuth 2.0 authorization code flow (with PKCE where the
+// platform supports it). Credentials come from <PLATFORM>_CLIENT_ID and
+// <PLATFORM>_CLIENT_SECRET; a platform without them cannot be connected.
+@Injectable()
+export class SocialOAuthService {
+  private readonly logger = new Logger(SocialOAuthService.name);
+
+  constructor(
+    private readonly socialAccountService: SocialAccountService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Build the platform consent URL for a user. The browser key must be set
+  // as a cookie on the browser that is sent to the consent page; only a
+  // callback carrying it is accepted.
+  async buildAuthorizationUrl(
+    userId: string,
+    platform: string,
+  ): Promise<{
+    authorizationUrl: string;
+    state: string;
+    expiresAt: Date;
+    browserKey: string;
+  }> {
+    const config = this.resolvePlatform(platform);
+    const secret = this.getStateSecret();
+    const { state, payload } = createOAuthState(
+      userId,
+      config.platform,
+      secret,
+    );
+    const browserKey = randomBytes(32).toString('base64url');
+    await this.socialAccountService.createOAuthState({
+      userId,
+      platform: config.platform,
+      nonce: payload.nonce,
+      browserKeyHash: hashBrowserKey(browserKey),
+      expiresAt: new Date(payload.expiresAt),
+    });
+
+    const url = new URL(config.authorizeUrl);
+    url.searchParams.set(config.clientIdParam, config.clientId);
+    url.searchParams.set('redirect_uri', config.redirectUri);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('scope', config.scopes.join(config.scopeSeparator));
+    url.searchParams.set('state', state);
+    if (config.pkce) {
+      const verifier = derivePkceVerifier(payload.nonce, secret);
+      url.searchParams.set('code_challenge', pkceChallenge(verifier));
+      url.searchParams.set('code_challenge_method', 'S256');
+    }
+    for (const [key, value] of Object.entries(
+      config.extraAuthorizeParams || {},
+    )) {
+      url.searchParams.set(key, value);
+    }
+
+    return {
+      authorizationUrl: url.toString(),
+      state,
+      expiresAt: new Date(payload.expiresAt),
+      browserKey,
+    };
+  }
+
+  // Validate the callback, exchange the code and store the account. The
+  // state is used up first, so it cannot be replayed even when this fails.
+  async handleCallback(
+    platform: string,
+    params: {
+      code?: string;
+      state?: string;
+      error?: string;
+      browserKey?: string;
+    },
+  ): Promise<{ account: SocialAccount; userId: string; created: boolean }> {
+    const payload = await this.consumeState(
+      platform,
+      params.state,
+      params.browserKey,
+    );
+
+    if (params.error) {
+      throw new BadRequestException(
+        `Authorization was not granted: ${params.error}`,
+      );
+    }
+    if (!params.code) {
+      throw new BadRequestException('Missing authorization code');
+    }
+
+    const config = this.resolvePlatform(platform);
+    const tokens = await this.exchangeCode(config, params.code, payload);
+    const profile = await this.fetchProfile(config, tokens);
+
+    return this.saveAccount(payload.userId, config.platform, profile, tokens);
+  }
+
+  // Whether client credentials are set for a platform
+  isConfigured(platform: string): boolean {
+    const prefix = platform.toUpperCase();
+    return Boolean(
+      this.configService.get(`${prefix}_CLIENT_ID`) &&
+        this.configService.get(`${prefix}_CLIENT_SECRET`),
+    );
+  }
+
+  private async consumeState(
+    platform: string,
+    state?: string,
+    browserKey?: string,
+  ): Promise<OAuthStatePayload> {
+    const payload = verifyOAuthState(state, this.getStateSecret());
+    const stored =
+      payload?.platform === platform && browserKey
+        ? await this.socialAccountService.consumeOAuthState(
+            payload.nonce,
+            hashBrowserKey(browserKey),
+          )
+        : null;
+    if (!stored || stored.userId !== payload.userId) {
+      throw new BadRequestException('Invalid or expired OAuth state');
+    }
+    return payload;
+  }
+
+  // Exchange a refresh token for a new access token. Platforms that do not
+  // rotate refresh tokens return none, so callers keep the old one.
+  async refreshTokens(
+    platform: string,
+    refreshToken: string,
+  ): Promise<Omit<TokenSet, 'raw'>> {
+    const config = this.resolvePlatform(platform);
+    const form = new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+
+    const tokens = await this.requestTokens(config, 'token refresh', form);
+    return {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.expiresAt,
+    };
+  }
+
+  private async exchangeCode(
+    config: ResolvedPlatform,
+    code: string,
+    state: OAuthStatePayload,
+  ): Promise<TokenSet> {
+    const form = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.redirectUri,
+    });
+    if (config.pkce) {
+      form.set(
+        'code_verifier',
+        derivePkceVerifier(state.nonce, this.getStateSecret()),
+      );
+    }
+
+    return this.requestTokens(config, 'token exchange', form);
+  }
+
+  // POST a grant to the token endpoint with the platform's client auth
+  private async requestTokens(
+    config: ResolvedPlatform,
+    step: string,
+    form: URLSearchParams,
+  ): Promise<TokenSet> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+
+    if (config.clientAuth === 'basic') {
+      const credentials = `${config.clientId}:${config.clientSecret}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      form.set(config.clientIdParam, config.clientId);
+      form.set('client_secret', config.clientSecret);
+    }
+
+    const body = await this.request(config, step, config.tokenUrl, {
+      method: 'POST',
+      headers,
+      body: form.toString(),
+    });
+    if (!body.access_token) {
+      throw new BadGatewayException(
+        `${config.platform} ${step} returned no access token`,
+      );
+    }
+
+    return {
+      accessToken: body.access_token,
+      refreshToken: body.refresh_token,
+      expiresAt: body.expires_in
+        ? new Date(Date.now() + Number(body.expires_in) * 1000)
+        : undefined,
+      raw: body,
+    };
+  }
+
+  private async fetchProfile(
+    config: ResolvedPlatform,
+    tokens: TokenSet,
+  ): Promise<OAuthProfile> {
+    const body = await this.request(
+      config,
+      'profile lookup',
+      config.profileUrl,
+      {
+        headers: {
+          Authorization: `Bearer ${tokens.accessToken}`,
+          Accept: 'application/json',
+        },
+      },
+    );
+
+    let profile: OAuthProfile;
+    try {
+      profile = config.parseProfile(body, tokens.raw);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+    if (!profile.platformUserId || !profile.username) {
+      throw new BadGatewayException(
+        `${config.platform} profile is missing the account identity`,
+      );
+    }
+    return profile;
+  }
+
+  private async saveAccount(
+    userId: string,
+    platform: SupportedPlatform,
+    profile: OAuthProfile,
+    tokens: TokenSet,
+  ): Promise<{ account: SocialAccount; userId: string; created: boolean }> {
+    const accountFields = {
+      username: profile.username,
+      displayName: profile.displayName,
+      accessToken: tokens.accessToken,
+      tokenExpiresAt: tokens.expiresAt ?? null,
+      followerCount: profile.followerCount ?? 0,
+      profileImageUrl: profile.profileImageUrl,
+      isVerified: profile.isVerified ?? false,
+    };
+
+    // Reconnecting the same account refreshes its tokens and profile
+    const existing = await this.socialAccountService.findAccountByPlatformUser(
+      userId,
+      platform,
+      profile.platformUserId,
+    );
+    if (existing) {
+      const account = await this.socialAccountService.updateSocialAccount(
+        existing.id,
+        {
+          ...accountFields,
+          // Keep the old refresh token when the platform does not reissue one
+          ...(tokens.refreshToken && { refreshToken: tokens.refreshToken }),
+          isActive: true,
+        },
+      );
+      return { account, userId, created: false };
+    }
+
+    const connected =
+      await this.socialAccountService.getSocialAccountByPlatform(
+        userId,
+        platform,
+      );
+    if (connected) {
+      throw new ConflictException(
+        `${platform} account is already connected. Disconnect the existing one first.`,
+      );
+    }
+
+    const account = await this.socialAccountService.connectAccount({
+      userId,
+      platform,
+      platformUserId: profile.platformUserId,
+      ...accountFields,
+      refreshToken: tokens.refreshToken,
+      tokenExpiresAt: tokens.expiresAt,
+    });
+    this.logger.log(`Connected ${platform} account ${account.id}`);
+    return { account, userId, created: true };
+  }
+
+  private async request(
+    config: ResolvedPlatform,
+    step: string,
+    url: string,
+    init: RequestInit,
+  ): Promise<Record<string, any>> {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw new BadGatewayException(
+        `${config.platform} ${step} failed: ${error.message}`,
+      );
+    }
+
+    const text = await response.text();
+    let body: Record<string, any>;
+    try {
+      body = text ? JSON.parse(text) : {};
+    } catch {
+      body = { raw: text };
+    }
+
+    if (!response.ok) {
+      const reason =
+        body.error_description || body.error?.message || body.error || text;
+      this.logger.warn(
+        `${config.platform} ${step} returned ${response.status}: ${reason}`,
+      );
+      throw new BadGatewayException(
+        `${config.platform} ${step} failed (${response.status})`,
+      );
+    }
+    return body;
+  }
+
+  private resolvePlatform(platform: string): ResolvedPlatform {
+    if (!SUPPORTED_PLATFORM_IDS.includes(platform as SupportedPlatform)) {
+      throw new BadRequestException(`Unsupported platform "${platform}"`);
+    }
+
+    const config = OAUTH_PLATFORMS[platform as SupportedPlatform];
+    const prefix = platform.toUpperCase();
+    const clientId = this.configService.get<string>(`${prefix}_CLIENT_ID`);
+    const clientSecret = this.configService.get<string>(
+      `${prefix}_CLIENT_SECRET`,
+    );
+    if (!clientId || !clientSecret) {
+      throw new BadRequestException(`OAuth is not configured for ${platform}`);
+    }
+
+    const baseUrl =
+      this.configService.get<string>('OAUTH_REDIRECT_BASE_URL') ||
+      `http://localhost:${this.configService.get('PORT') || 3005}`;
+
+    return {
+      ...config,
+      authorizeUrl:
+        this.configService.get(`${prefix}_OAUTH_AUTHORIZE_URL`) ||
+        config.authorizeUrl,
+      tokenUrl:
+        this.configService.get(`${prefix}_OAUTH_TOKEN_URL`) || config.tokenUrl,
+      profileUrl:
+        this.configService.get(`${prefix}_OAUTH_PROFILE_URL`) ||
+        config.profileUrl,
+      clientId,
+      clientSecret,
+      redirectUri: `${baseUrl.replace(/\/$/, '')}/api/v1/social-accounts/oauth/${platform}/callback`,
+    };
+  }
+
+  private getStateSecret(): string {
+    const secret =
+      this.configService.get<string>('OAUTH_STATE_SECRET') ||
+      this.configService.get<string>('JWT_SECRET');
+    if (!secret) {
+      throw new Error('OAUTH_STATE_SECRET or JWT_SECRET must be set');
+    }
+    return secret;
+  }
+}
+
+function hashBrowserKey(browserKey: string): string {
+  return createHash('sha256').update(browserKey).digest('hex');
+}
@@ -0,0 +1,65 @@
+import { SocialAccount } from '@prisma/client';
+import { HttpTransport } from './http-transport';
+import {
+  chunk,
+  PlatformAccountProfile,
+  PlatformClient,
+  PlatformPostMetrics,
+  requestJson,
+  toCount,
+} from './platform-client.interface';
+
+const GRAPH_API = 'https://graph.facebook.com/v19.0';
+const POST_FIELDS =
+  'views,likes.summary(true).limit(0),comments.summary(true).limit(0),shares';
+
+// Facebook Graph API. Posts are looked up in batches with ?ids=.
+export class FacebookClient implements PlatformClient {
+  readonly platform = 'facebook';
+
+  constructor(private readonly transport: HttpTransport) {}
+
+  async fetchProfile(account: SocialAccount): Promise<PlatformAccountProfile> {
+    const body = await this.get(
+      account,
+      `${GRAPH_API}/${account.platformUserId}?fields=name,picture,followers_count,verification_status`,
+    );
+    return {
+      displayName: body.name,
+      followerCount: toCount(body.followers_count),
+      profileImageUrl: body.picture?.data?.url,
+      isVerified: body.verification_status === 'blue_verified',
+    };
+  }
+
+  async fetchPostMetrics(
+    account: SocialAccount,
+    platformPostIds: string[],
+  ): Promise<PlatformPostMetrics[]> {
+    const metrics: PlatformPostMetrics[] = [];
+    for (const ids of chunk(platformPostIds, 50)) {
+      const body = await this.get(
+        account,
+        `${GRAPH_API}/?ids=${ids.map(encodeURIComponent).join(',')}&fields=${POST_FIELDS}`,
+      );
+      for (const [id, post] of Object.entries<any>(body || {})) {
+        metrics.push({
+          platformPostId: id,
+          viewsCount: toCount(post.views),
+          likesCount: toCount(post.likes?.summary?.total_count),
+          commentsCount: toCount(post.comments?.summary?.total_count),
+          sharesCount: toCount(post.shares?.count),
+        });
+      }
+    }
+    return metrics;
+  }
+
+  private get(account: SocialAccount, url: string) {
+    return requestJson(this.transport, this.platform, {
+      method: 'GET',
+      url,
+      headers: { Authorization: `Bearer ${account.accessToken}` },
+    });
+  }
+}
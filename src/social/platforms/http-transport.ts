@@ -0,0 +1,99 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+// Thin HTTP layer used by the platform clients. Swapping the transport lets
+// tests replay recorded platform responses instead of calling the real APIs.
+
+export interface HttpRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  body: any;
+}
+
+export type HttpTransport = (request: HttpRequest) => Promise<HttpResponse>;
+
+// One recorded request/response pair, as stored in fixture files
+export interface RecordedExchange {
+  request: { method: string; url: string };
+  response: HttpResponse;
+}
+
+// Query parameters that carry credentials and never end up in fixtures
+const SECRET_PARAMS = ['access_token', 'client_secret'];
+
+// URL with credentials stripped, used both when recording and matching
+export function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  if (!SECRET_PARAMS.some((param) => parsed.searchParams.has(param))) {
+    // Leave the query untouched so fixtures stay readable
+    return url;
+  }
+  for (const param of SECRET_PARAMS) {
+    parsed.searchParams.delete(param);
+  }
+  return parsed.toString();
+}
+
+export const fetchTransport: HttpTransport = async (request) => {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+  });
+  const text = await response.text();
+  let body: any;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    body = text;
+  }
+  return { status: response.status, body };
+};
+
+// Pass requests through and append each exchange to <dir>/<host>.json so
+// real responses can be turned into fixtures
+export function recordingTransport(
+  inner: HttpTransport,
+  dir: string,
+): HttpTransport {
+  mkdirSync(dir, { recursive: true });
+
+  return async (request) => {
+    const response = await inner(request);
+    const file = join(dir, `${new URL(request.url).hostname}.json`);
+    let exchanges: RecordedExchange[] = [];
+    try {
+      exchanges = JSON.parse(readFileSync(file, 'utf8'));
+    } catch {
+      // First exchange for this host
+    }
+    exchanges.push({
+      request: { method: request.method, url: redactUrl(request.url) },
+      response,
+    });
+    writeFileSync(file, JSON.stringify(exchanges, null, 2));
+    return response;
+  };
+}
+
+// Answer requests from recorded exchanges; unknown requests fail loudly
+export function fixtureTransport(exchanges: RecordedExchange[]): HttpTransport {
+  return async (request) => {
+    const url = redactUrl(request.url);
+    const match = exchanges.find(
+      (exchange) =>
+        exchange.request.method === request.method &&
+        exchange.request.url === url,
+    );
+    if (!match) {
+      throw new Error(`No recorded response for ${request.method} ${url}`);
+    }
+    return match.response;
+  };
+}
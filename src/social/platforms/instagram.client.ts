@@ -0,0 +1,77 @@
+import { SocialAccount } from '@prisma/client';
+import { HttpTransport } from './http-transport';
+import {
+  PlatformAccountProfile,
+  PlatformApiError,
+  PlatformClient,
+  PlatformPostMetrics,
+  requestJson,
+  toCount,
+} from './platform-client.interface';
+
+const GRAPH_API = 'https://graph.facebook.com/v19.0';
+
+// Instagram Graph API for professional accounts. Media insights are only
+// available one post at a time.
+export class InstagramClient implements PlatformClient {
+  readonly platform = 'instagram';
+
+  constructor(private readonly transport: HttpTransport) {}
+
+  async fetchProfile(account: SocialAccount): Promise<PlatformAccountProfile> {
+    const body = await this.get(
+      account,
+      `${GRAPH_API}/${account.platformUserId}?fields=username,name,profile_picture_url,followers_count`,
+    );
+    return {
+      username: body.username,
+      displayName: body.name,
+      followerCount: toCount(body.followers_count),
+      profileImageUrl: body.profile_picture_url,
+    };
+  }
+
+  async fetchPostMetrics(
+    account: SocialAccount,
+    platformPostIds: string[],
+  ): Promise<PlatformPostMetrics[]> {
+    const metrics: PlatformPostMetrics[] = [];
+    for (const id of platformPostIds) {
+      let body: any;
+      try {
+        body = await this.get(
+          account,
+          `${GRAPH_API}/${id}/insights?metric=views,likes,comments,shares`,
+        );
+      } catch (error) {
+        // Deleted media
+        if (error instanceof PlatformApiError && error.status === 404) {
+          continue;
+        }
+        throw error;
+      }
+
+      const value = (name: string) =>
+        toCount(
+          (body.data || []).find((metric) => metric.name === name)?.values?.[0]
+            ?.value,
+        );
+      metrics.push({
+        platformPostId: id,
+        viewsCount: value('views'),
+        likesCount: value('likes'),
+        commentsCount: value('comments'),
+        sharesCount: value('shares'),
+      });
+    }
+    return metrics;
+  }
+
+  private get(account: SocialAccount, url: string) {
+    return requestJson(this.transport, this.platform, {
+      method: 'GET',
+      url,
+      headers: { Authorization: `Bearer ${account.accessToken}` },
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import { SocialAccount } from '@prisma/client';
+import { HttpTransport } from './http-transport';
+import {
+  PlatformAccountProfile,
+  PlatformApiError,
+  PlatformClient,
+  PlatformPostMetrics,
+  requestJson,
+  toCount,
+} from './platform-client.interface';
+
+const API = 'https://api.linkedin.com/v2';
+
+// LinkedIn v2 API. Member posts expose reactions and comments but no view
+// or share counts.
+export class LinkedInClient implements PlatformClient {
+  readonly platform = 'linkedin';
+
+  constructor(private readonly transport: HttpTransport) {}
+
+  async fetchProfile(account: SocialAccount): Promise<PlatformAccountProfile> {
+    const profile = await this.get(account, `${API}/me`);
+    const network = await this.get(
+      account,
+      `${API}/networkSizes/${encodeURIComponent(`urn:li:person:${account.platformUserId}`)}?edgeType=CompanyFollowedByMember`,
+    );
+    return {
+      displayName:
+        [profile.localizedFirstName, profile.localizedLastName]
+          .filter(Boolean)
+          .join(' ') || undefined,
+      followerCount: toCount(network.firstDegreeSize),
+    };
+  }
+
+  async fetchPostMetrics(
+    account: SocialAccount,
+    platformPostIds: string[],
+  ): Promise<PlatformPostMetrics[]> {
+    const metrics: PlatformPostMetrics[] = [];
+    for (const urn of platformPostIds) {
+      let body: any;
+      try {
+        body = await this.get(
+          account,
+          `${API}/socialActions/${encodeURIComponent(urn)}`,
+        );
+      } catch (error) {
+        // Deleted post
+        if (error instanceof PlatformApiError && error.status === 404) {
+          continue;
+        }
+        throw error;
+      }
+      metrics.push({
+        platformPostId: urn,
+        viewsCount: 0,
+        likesCount: toCount(body.likesSummary?.totalLikes),
+        commentsCount: toCount(body.commentsSummary?.aggregatedTotalComments),
+        sharesCount: 0,
+      });
+    }
+    return metrics;
+  }
+
+  private get(account: SocialAccount, url: string) {
+    return requestJson(this.transport, this.platform, {
+      method: 'GET',
+      url,
+      headers: {
+        Authorization: `Bearer ${account.accessToken}`,
+        'X-Restli-Protocol-Version': '2.0.0',
+      },
+    });
+  }
+}
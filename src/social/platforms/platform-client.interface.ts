@@ -0,0 +1,75 @@
+import { SocialAccount } from '@prisma/client';
+import { HttpRequest, HttpTransport } from './http-transport';
+
+export const PLATFORM_CLIENTS = 'PLATFORM_CLIENTS';
+
+// Account profile data as reported by the platform
+export interface PlatformAccountProfile {
+  username?: string;
+  displayName?: string;
+  followerCount?: number;
+  profileImageUrl?: string;
+  isVerified?: boolean;
+}
+
+// Lifetime counters of one published post. Platforms that do not expose a
+// counter report 0 for it.
+export interface PlatformPostMetrics {
+  platformPostId: string;
+  viewsCount: number;
+  likesCount: number;
+  commentsCount: number;
+  sharesCount: number;
+}
+
+// Read access to a social platform on behalf of a connected account
+export interface PlatformClient {
+  readonly platform: string;
+  fetchProfile(account: SocialAccount): Promise<PlatformAccountProfile>;
+  // Posts the platform no longer knows about are left out of the result
+  fetchPostMetrics(
+    account: SocialAccount,
+    platformPostIds: string[],
+  ): Promise<PlatformPostMetrics[]>;
+}
+
+export class PlatformApiError extends Error {
+  constructor(
+    readonly platform: string,
+    readonly status: number,
+    message: string,
+  ) {
+    super(`${platform} API returned ${status}: ${message}`);
+  }
+}
+
+// Send a request and return the JSON body, throwing on non-2xx responses
+export async function requestJson(
+  transport: HttpTransport,
+  platform: string,
+  request: HttpRequest,
+): Promise<any> {
+  const response = await transport(request);
+  if (response.status < 200 || response.status >= 300) {
+    const body = response.body || {};
+    const reason =
+      body.error?.message ||
+      body.error_description ||
+      (typeof body.error === 'string' ? body.error : undefined) ||
+      body.message ||
+      'request failed';
+    throw new PlatformApiError(platform, response.status, reason);
+  }
+  return response.body;
+}
+
+// Split IDs into batches the size of the platform's lookup limit
+export function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+export const toCount = (value: unknown): number => Number(value) || 0;
@@ -0,0 +1,168 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { SocialAccount } from '@prisma/client';
+import { engagementRate } from '../account-sync.service';
+import { fixtureTransport, RecordedExchange } from './http-transport';
+import { FacebookClient } from './facebook.client';
+import { InstagramClient } from './instagram.client';
+import { LinkedInClient } from './linkedin.client';
+import { TikTokClient } from './tiktok.client';
+import { TwitterClient } from './twitter.client';
+import { YouTubeClient } from './youtube.client';
+
+// Responses recorded from the platform APIs (see SOCIAL_HTTP_RECORD_DIR)
+const fixturesDir = join(__dirname, '__fixtures__');
+const transport = fixtureTransport(
+  readdirSync(fixturesDir).flatMap((file): RecordedExchange[] =>
+    JSON.parse(readFileSync(join(fixturesDir, file), 'utf8')),
+  ),
+);
+
+const account = (platform: string, platformUserId: string) =>
+  ({ platform, platformUserId, accessToken: 'token' }) as SocialAccount;
+
+describe('platform clients', () => {
+  it('reads YouTube channel and video statistics', async () => {
+    const client = new YouTubeClient(transport);
+    const youtube = account('youtube', 'UCx1mockChannel');
+
+    await expect(client.fetchProfile(youtube)).resolves.toEqual({
+      displayName: 'Daily Space Facts',
+      followerCount: 12400,
+      profileImageUrl: 'https://yt3.ggpht.com/mock-avatar=s88',
+    });
+    // dQw4mock02 was deleted on YouTube and is left out
+    await expect(
+      client.fetchPostMetrics(youtube, ['dQw4mock01', 'dQw4mock02']),
+    ).resolves.toEqual([
+      {
+        platformPostId: 'dQw4mock01',
+        viewsCount: 10450,
+        likesCount: 812,
+        commentsCount: 64,
+        sharesCount: 0,
+      },
+    ]);
+  });
+
+  it('reads TikTok user info and video counters', async () => {
+    const client = new TikTokClient(transport);
+    const tiktok = account('tiktok', 'mock-open-id');
+
+    await expect(client.fetchProfile(tiktok)).resolves.toMatchObject({
+      followerCount: 48210,
+      isVerified: false,
+    });
+    const metrics = await client.fetchPostMetrics(tiktok, [
+      '7318000000000000001',
+      '7318000000000000002',
+    ]);
+    expect(metrics[0]).toEqual({
+      platformPostId: '7318000000000000001',
+      viewsCount: 98000,
+      likesCount: 7400,
+      commentsCount: 210,
+      sharesCount: 390,
+    });
+  });
+
+  it('reads Instagram insights and skips deleted media', async () => {
+    const client = new InstagramClient(transport);
+    const instagram = account('instagram', '17841400000000001');
+
+    await expect(client.fetchProfile(instagram)).resolves.toMatchObject({
+      username: 'dailyspacefacts',
+      followerCount: 3120,
+    });
+    await expect(
+      client.fetchPostMetrics(instagram, [
+        '18000000000000001',
+        '18000000000000002',
+      ]),
+    ).resolves.toEqual([
+      {
+        platformPostId: '18000000000000001',
+        viewsCount: 2250,
+        likesCount: 188,
+        commentsCount: 12,
+        sharesCount: 9,
+      },
+    ]);
+  });
+
+  it('reads Facebook page and post counters', async () => {
+    const client = new FacebookClient(transport);
+    const facebook = account('facebook', '104000000000001');
+
+    await expect(client.fetchProfile(facebook)).resolves.toMatchObject({
+      followerCount: 905,
+      isVerified: false,
+    });
+    await expect(
+      client.fetchPostMetrics(facebook, ['104000000000001_900000000000001']),
+    ).resolves.toEqual([
+      {
+        platformPostId: '104000000000001_900000000000001',
+        viewsCount: 4300,
+        likesCount: 140,
+        commentsCount: 17,
+        sharesCount: 22,
+      },
+    ]);
+  });
+
+  it('reads X public metrics, counting quotes as shares', async () => {
+    const client = new TwitterClient(transport);
+    const twitter = account('twitter', '1500000000000000001');
+
+    await expect(client.fetchProfile(twitter)).resolves.toMatchObject({
+      username: 'dailyspacefacts',
+      followerCount: 1742,
+    });
+    await expect(
+      client.fetchPostMetrics(twitter, ['1750000000000000001']),
+    ).resolves.toEqual([
+      {
+        platformPostId: '1750000000000000001',
+        viewsCount: 6120,
+        likesCount: 97,
+        commentsCount: 6,
+        sharesCount: 17,
+      },
+    ]);
+  });
+
+  it('reads LinkedIn follower count and social actions', async () => {
+    const client = new LinkedInClient(transport);
+    const linkedin = account('linkedin', 'mockMember01');
+
+    await expect(client.fetchProfile(linkedin)).resolves.toEqual({
+      displayName: 'Ada Stone',
+      followerCount: 640,
+    });
+    await expect(
+      client.fetchPostMetrics(linkedin, ['urn:li:share:7100000000000000001']),
+    ).resolves.toEqual([
+      {
+        platformPostId: 'urn:li:share:7100000000000000001',
+        viewsCount: 0,
+        likesCount: 52,
+        commentsCount: 8,
+        sharesCount: 0,
+      },
+    ]);
+  });
+
+  it('computes engagement as interactions per view', () => {
+    const metric = {
+      platformPostId: '1',
+      viewsCount: 98000,
+      likesCount: 7400,
+      commentsCount: 210,
+      sharesCount: 390,
+    };
+
+    expect(engagementRate(metric)).toBe(0.0816);
+    expect(engagementRate({ ...metric, viewsCount: 0 })).toBe(0);
+  });
+});
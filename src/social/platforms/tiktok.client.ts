@@ -0,0 +1,62 @@
+import { SocialAccount } from '@prisma/client';
+import { HttpTransport } from './http-transport';
+import {
+  chunk,
+  PlatformAccountProfile,
+  PlatformClient,
+  PlatformPostMetrics,
+  requestJson,
+  toCount,
+} from './platform-client.interface';
+
+const API = 'https://open.tiktokapis.com/v2';
+
+// TikTok Display API v2
+export class TikTokClient implements PlatformClient {
+  readonly platform = 'tiktok';
+
+  constructor(private readonly transport: HttpTransport) {}
+
+  async fetchProfile(account: SocialAccount): Promise<PlatformAccountProfile> {
+    const body = await requestJson(this.transport, this.platform, {
+      method: 'GET',
+      url: `${API}/user/info/?fields=display_name,avatar_url,follower_count,is_verified`,
+      headers: { Authorization: `Bearer ${account.accessToken}` },
+    });
+    const user = body.data?.user || {};
+    return {
+      displayName: user.display_name,
+      followerCount: toCount(user.follower_count),
+      profileImageUrl: user.avatar_url,
+      isVerified: user.is_verified,
+    };
+  }
+
+  async fetchPostMetrics(
+    account: SocialAccount,
+    platformPostIds: string[],
+  ): Promise<PlatformPostMetrics[]> {
+    const metrics: PlatformPostMetrics[] = [];
+    for (const ids of chunk(platformPostIds, 20)) {
+      const body = await requestJson(this.transport, this.platform, {
+        method: 'POST',
+        url: `${API}/video/query/?fields=id,view_count,like_count,comment_count,share_count`,
+        headers: {
+          Authorization: `Bearer ${account.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ filters: { video_ids: ids } }),
+      });
+      for (const video of body.data?.videos || []) {
+        metrics.push({
+          platformPostId: video.id,
+          viewsCount: toCount(video.view_count),
+          likesCount: toCount(video.like_count),
+          commentsCount: toCount(video.comment_count),
+          sharesCount: toCount(video.share_count),
+        });
+      }
+    }
+    return metrics;
+  }
+}
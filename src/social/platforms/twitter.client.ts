@@ -0,0 +1,66 @@
+import { SocialAccount } from '@prisma/client';
+import { HttpTransport } from './http-transport';
+import {
+  chunk,
+  PlatformAccountProfile,
+  PlatformClient,
+  PlatformPostMetrics,
+  requestJson,
+  toCount,
+} from './platform-client.interface';
+
+const API = 'https://api.twitter.com/2';
+
+// X (Twitter) API v2. Retweets and quotes both count as shares.
+export class TwitterClient implements PlatformClient {
+  readonly platform = 'twitter';
+
+  constructor(private readonly transport: HttpTransport) {}
+
+  async fetchProfile(account: SocialAccount): Promise<PlatformAccountProfile> {
+    const body = await this.get(
+      account,
+      `${API}/users/me?user.fields=profile_image_url,public_metrics,verified`,
+    );
+    return {
+      username: body.data?.username,
+      displayName: body.data?.name,
+      followerCount: toCount(body.data?.public_metrics?.followers_count),
+      profileImageUrl: body.data?.profile_image_url,
+      isVerified: body.data?.verified,
+    };
+  }
+
+  async fetchPostMetrics(
+    account: SocialAccount,
+    platformPostIds: string[],
+  ): Promise<PlatformPostMetrics[]> {
+    const metrics: PlatformPostMetrics[] = [];
+    for (const ids of chunk(platformPostIds, 100)) {
+      const body = await this.get(
+        account,
+        `${API}/tweets?ids=${ids.join(',')}&tweet.fields=public_metrics`,
+      );
+      for (const tweet of body.data || []) {
+        const counts = tweet.public_metrics || {};
+        metrics.push({
+          platformPostId: tweet.id,
+          viewsCount: toCount(counts.impression_count),
+          likesCount: toCount(counts.like_count),
+          commentsCount: toCount(counts.reply_count),
+          sharesCount:
+            toCount(counts.retweet_count) + toCount(counts.quote_count),
+        });
+      }
+    }
+    return metrics;
+  }
+
+  private get(account: SocialAccount, url: string) {
+    return requestJson(this.transport, this.platform, {
+      method: 'GET',
+      url,
+      headers: { Authorization: `Bearer ${account.accessToken}` },
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import { SocialAccount } from '@prisma/client';
+import { HttpTransport } from './http-transport';
+import {
+  chunk,
+  PlatformAccountProfile,
+  PlatformClient,
+  PlatformPostMetrics,
+  requestJson,
+  toCount,
+} from './platform-client.interface';
+
+const API = 'https://www.googleapis.com/youtube/v3';
+
+// YouTube Data API v3. Shares are not exposed, so sharesCount stays 0.
+export class YouTubeClient implements PlatformClient {
+  readonly platform = 'youtube';
+
+  constructor(private readonly transport: HttpTransport) {}
+
+  async fetchProfile(account: SocialAccount): Promise<PlatformAccountProfile> {
+    const body = await this.get(
+      account,
+      `${API}/channels?part=snippet,statistics&mine=true`,
+    );
+    const channel = body.items?.[0];
+    return {
+      displayName: channel?.snippet?.title,
+      followerCount: toCount(channel?.statistics?.subscriberCount),
+      profileImageUrl: channel?.snippet?.thumbnails?.default?.url,
+    };
+  }
+
+  async fetchPostMetrics(
+    account: SocialAccount,
+    platformPostIds: string[],
+  ): Promise<PlatformPostMetrics[]> {
+    const metrics: PlatformPostMetrics[] = [];
+    for (const ids of chunk(platformPostIds, 50)) {
+      const body = await this.get(
+        account,
+        `${API}/videos?part=statistics&id=${ids.map(encodeURIComponent).join(',')}`,
+      );
+      for (const video of body.items || []) {
+        metrics.push({
+          platformPostId: video.id,
+          viewsCount: toCount(video.statistics?.viewCount),
+          likesCount: toCount(video.statistics?.likeCount),
+          commentsCount: toCount(video.statistics?.commentCount),
+          sharesCount: 0,
+        });
+      }
+    }
+    return metrics;
+  }
+
+  private get(account: SocialAccount, url: string) {
+    return requestJson(this.transport, this.platform, {
+      method: 'GET',
+      url,
+      headers: { Authorization: `Bearer ${account.accessToken}` },
+    });
+  }
+}
@@ -8,7 +8,6 @@ import {
   Param,
   Query,
   UseGuards,
-  Request,
   NotFoundException,
   ClassSerializerInterceptor,
   UseInterceptors,
@@ -25,12 +24,15 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { SocialAccountService } from '../database/social-account.service';
 import { ConnectSocialAccountDto } from '../dto/social/connect-social-account.dto';
 import { UpdateSocialAccountDto } from '../dto/social/update-social-account.dto';
 import { SocialAccountResponseDto } from '../dto/social/social-account-response.dto';
 import { ErrorResponseDto } from '../dto/common/error-response.dto';
 import { plainToClass } from 'class-transformer';
+import { SUPPORTED_PLATFORMS } from './supported-platforms';
+import { AccountSyncService } from './account-sync.service';
 
 @ApiTags('Social Accounts')
 @Controller('api/v1/social-accounts')
@@ -38,12 +40,17 @@ import { plainToClass } from 'class-transformer';
 @ApiBearerAuth()
 @UseInterceptors(ClassSerializerInterceptor)
 export class SocialController {
-  constructor(private readonly socialAccountService: SocialAccountService) {}
+  constructor(
+    private readonly socialAccountService: SocialAccountService,
+    private readonly accountSyncService: AccountSyncService,
+  ) {}
 
   @Post('connect')
   @ApiOperation({
     summary: 'Connect a social media account',
-    description: 'Connects a new social media account for automated posting',
+    description:
+      'Connects a social media account from client-supplied tokens. Use GET /api/v1/social-accounts/oauth/{platform}/start instead.',
+    deprecated: true,
   })
   @ApiResponse({
     status: 201,
@@ -66,11 +73,9 @@ export class SocialController {
     type: ErrorResponseDto,
   })
   async connectSocialAccount(
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Body() connectDto: ConnectSocialAccountDto,
   ): Promise<SocialAccountResponseDto> {
-    const userId = req.user.id;
-
     // Check if account is already connected
     const existingAccount =
       await this.socialAccountService.getSocialAccountByPlatform(
@@ -151,11 +156,10 @@ export class SocialController {
     type: ErrorResponseDto,
   })
   async getUserSocialAccounts(
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Query('platform') platform?: string,
     @Query('isActive') isActive?: boolean,
   ): Promise<SocialAccountResponseDto[]> {
-    const userId = req.user.id;
     let accounts =
       await this.socialAccountService.getUserSocialAccounts(userId);
 
@@ -229,9 +233,8 @@ export class SocialController {
   })
   async getSocialAccountById(
     @Param('id') id: string,
-    @Request() req,
+    @CurrentUser('id') userId: string,
   ): Promise<SocialAccountResponseDto> {
-    const userId = req.user.id;
     const account = await this.socialAccountService.getSocialAccountById(id);
 
     if (!account) {
@@ -307,11 +310,9 @@ export class SocialController {
   })
   async updateSocialAccount(
     @Param('id') id: string,
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Body() updateDto: UpdateSocialAccountDto,
   ): Promise<SocialAccountResponseDto> {
-    const userId = req.user.id;
-
     // Verify ownership
     const existingAccount =
       await this.socialAccountService.getSocialAccountById(id);
@@ -381,11 +382,9 @@ export class SocialController {
   })
   async toggleAutoPost(
     @Param('id') id: string,
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Body('autoPost') autoPost: boolean,
   ): Promise<SocialAccountResponseDto> {
-    const userId = req.user.id;
-
     // Verify ownership
     const existingAccount =
       await this.socialAccountService.getSocialAccountById(id);
@@ -419,7 +418,7 @@ export class SocialController {
   @ApiOperation({
     summary: 'Sync social account data',
     description:
-      'Syncs follower count and other metrics from the social platform',
+      'Fetches follower count and profile data from the social platform and refreshes the metrics of posts published in the last 90 days',
   })
   @ApiParam({ name: 'id', description: 'Social account ID' })
   @ApiResponse({
@@ -442,12 +441,15 @@ export class SocialController {
     description: 'Social account not found',
     type: ErrorResponseDto,
   })
+  @ApiResponse({
+    status: 502,
+    description: 'The platform API rejected the request',
+    type: ErrorResponseDto,
+  })
   async syncSocialAccount(
     @Param('id') id: string,
-    @Request() req,
+    @CurrentUser('id') userId: string,
   ): Promise<SocialAccountResponseDto> {
-    const userId = req.user.id;
-
     // Verify ownership
     const existingAccount =
       await this.socialAccountService.getSocialAccountById(id);
@@ -461,26 +463,12 @@ export class SocialController {
       );
     }
 
-    // TODO: Implement actual platform API calls to get updated data
-    // For now, we'll just update the lastSyncAt timestamp
-    const updatedAccount = await this.socialAccountService.updateAccountMetrics(
-      id,
-      {
-        // In real implementation, these would come from platform APIs
-        followerCount: existingAccount.followerCount,
-        profileImageUrl: existingAccount.profileImageUrl,
-        isVerified: existingAccount.isVerified,
-      },
-    );
+    const { account, recentStats } =
+      await this.accountSyncService.syncAccount(existingAccount);
 
     return plainToClass(SocialAccountResponseDto, {
-      ...updatedAccount,
-      recentStats: {
-        totalPosts: 0,
-        totalViews: 0,
-        totalLikes: 0,
-        avgEngagementRate: 0,
-      },
+      ...account,
+      recentStats,
     });
   }
 
@@ -512,10 +500,8 @@ export class SocialController {
   })
   async disconnectSocialAccount(
     @Param('id') id: string,
-    @Request() req,
+    @CurrentUser('id') userId: string,
   ): Promise<void> {
-    const userId = req.user.id;
-
     // Verify ownership
     const existingAccount =
       await this.socialAccountService.getSocialAccountById(id);
@@ -571,11 +557,9 @@ export class SocialController {
   })
   async getSocialAccountAnalytics(
     @Param('id') id: string,
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Query('days') days: number = 30,
   ) {
-    const userId = req.user.id;
-
     // Verify ownership
     const existingAccount =
       await this.socialAccountService.getSocialAccountById(id);
@@ -618,66 +602,7 @@ export class SocialController {
   })
   async getSupportedPlatforms() {
     return {
-      platforms: [
-        {
-          platform: 'youtube',
-          name: 'YouTube',
-          description: 'Upload videos to YouTube',
-          requiredScopes: ['https://www.googleapis.com/auth/youtube.upload'],
-          features: ['video_upload', 'analytics', 'live_streaming'],
-          maxFileSize: '128GB',
-          supportedFormats: ['mp4', 'mov', 'avi', 'wmv', 'flv', 'webm'],
-        },
-        {
-          platform: 'tiktok',
-          name: 'TikTok',
-          description: 'Share short-form videos on TikTok',
-          requiredScopes: ['video.upload', 'user.info.basic'],
-          features: ['video_upload', 'analytics'],
-          maxFileSize: '4GB',
-          supportedFormats: ['mp4', 'mov'],
-          maxDuration: 600, // 10 minutes in seconds
-        },
-        {
-          platform: 'instagram',
-          name: 'Instagram',
-          description: 'Share videos and reels on Instagram',
-          requiredScopes: ['instagram_basic', 'instagram_content_publish'],
-          features: ['video_upload', 'reels', 'stories', 'analytics'],
-          maxFileSize: '4GB',
-          supportedFormats: ['mp4', 'mov'],
-          maxDuration: 3600, // 60 minutes for reels
-        },
-        {
-          platform: 'facebook',
-          name: 'Facebook',
-          description: 'Share videos on Facebook',
-          requiredScopes: ['pages_manage_posts', 'pages_show_list'],
-          features: ['video_upload', 'analytics', 'live_streaming'],
-          maxFileSize: '10GB',
-          supportedFormats: ['mp4', 'mov', 'avi'],
-        },
-        {
-          platform: 'twitter',
-          name: 'Twitter/X',
-          description: 'Share videos on Twitter/X',
-          requiredScopes: ['tweet.write', 'users.read'],
-          features: ['video_upload', 'analytics'],
-          maxFileSize: '512MB',
-          supportedFormats: ['mp4', 'mov'],
-          maxDuration: 140, // 2 minutes 20 seconds
-        },
-        {
-          platform: 'linkedin',
-          name: 'LinkedIn',
-          description: 'Share professional video content on LinkedIn',
-          requiredScopes: ['w_member_social', 'r_basicprofile'],
-          features: ['video_upload', 'analytics'],
-          maxFileSize: '5GB',
-          supportedFormats: ['mp4', 'mov', 'wmv'],
-          maxDuration: 600, // 10 minutes
-        },
-      ],
+      platforms: SUPPORTED_PLATFORMS,
     };
   }
 }
@@ -1,9 +1,64 @@
-import { Module } from '@nestjs/common';
+import { Module, OnModuleInit } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { SocialController } from './social.controller';
 import { DatabaseModule } from '../database/database.module';
+import { JOB_TYPES } from '../database/job-queue.service';
+import { JobsModule } from '../jobs/jobs.module';
+import { JobWorkerService } from '../jobs/job-worker.service';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { SocialOAuthController } from './oauth/social-oauth.controller';
+import { SocialOAuthService } from './oauth/social-oauth.service';
+import { SocialTokenRefreshService } from './token-refresh/token-refresh.service';
+import { TokenRefreshScheduler } from './token-refresh/token-refresh.scheduler';
+import { AccountSyncService } from './account-sync.service';
+import { PLATFORM_CLIENTS } from './platforms/platform-client.interface';
+import { fetchTransport, recordingTransport } from './platforms/http-transport';
+import { YouTubeClient } from './platforms/youtube.client';
+import { TikTokClient } from './platforms/tiktok.client';
+import { InstagramClient } from './platforms/instagram.client';
+import { FacebookClient } from './platforms/facebook.client';
+import { TwitterClient } from './platforms/twitter.client';
+import { LinkedInClient } from './platforms/linkedin.client';
 
 @Module({
-  imports: [DatabaseModule],
-  controllers: [SocialController],
+  imports: [ConfigModule, DatabaseModule, JobsModule, NotificationsModule],
+  controllers: [SocialController, SocialOAuthController],
+  providers: [
+    {
+      provide: PLATFORM_CLIENTS,
+      useFactory: (configService: ConfigService) => {
+        // Set to save real platform responses as test fixtures
+        const recordDir = configService.get<string>('SOCIAL_HTTP_RECORD_DIR');
+        const transport = recordDir
+          ? recordingTransport(fetchTransport, recordDir)
+          : fetchTransport;
+        return [
+          new YouTubeClient(transport),
+          new TikTokClient(transport),
+          new InstagramClient(transport),
+          new FacebookClient(transport),
+          new TwitterClient(transport),
+          new LinkedInClient(transport),
+        ];
+      },
+      inject: [ConfigService],
+    },
+    AccountSyncService,
+    SocialOAuthService,
+    SocialTokenRefreshService,
+    TokenRefreshScheduler,
+  ],
 })
-export class SocialModule {}
+export class SocialModule implements OnModuleInit {
+  constructor(
+    private readonly jobWorker: JobWorkerService,
+    private readonly socialTokenRefreshService: SocialTokenRefreshService,
+  ) {}
+
+  onModuleInit() {
+    this.jobWorker.registerHandler(
+      JOB_TYPES.SOCIAL_TOKEN_REFRESH,
+      (payload, ctx) => this.socialTokenRefreshService.handleJob(payload, ctx),
+    );
+  }
+}
@@ -0,0 +1,157 @@
+// Platforms accounts can be connected to, with what each one requires.
+// requiredScopes are the OAuth scopes requested by the connect flow.
+// maxCaptionLength counts the caption with its hashtags appended, and
+// aspectRatio is the accepted width:height range.
+export const SUPPORTED_PLATFORMS = [
+  {
+    platform: 'youtube',
+    name: 'YouTube',
+    description: 'Upload videos to YouTube',
+    requiredScopes: [
+      'https://www.googleapis.com/auth/youtube.upload',
+      'https://www.googleapis.com/auth/youtube.readonly',
+    ],
+    features: ['video_upload', 'analytics', 'live_streaming'],
+    maxFileSize: '128GB',
+    supportedFormats: ['mp4', 'mov', 'avi', 'wmv', 'flv', 'webm'],
+    maxCaptionLength: 5000,
+    maxHashtags: 15, // YouTube ignores every hashtag beyond 15
+  },
+  {
+    platform: 'tiktok',
+    name: 'TikTok',
+    description: 'Share short-form videos on TikTok',
+    requiredScopes: ['video.upload', 'user.info.basic'],
+    features: ['video_upload', 'analytics'],
+    maxFileSize: '4GB',
+    supportedFormats: ['mp4', 'mov'],
+    maxDuration: 600, // 10 minutes in seconds
+    maxCaptionLength: 2200,
+    aspectRatio: { min: '9:16', max: '16:9' },
+  },
+  {
+    platform: 'instagram',
+    name: 'Instagram',
+    description: 'Share videos and reels on Instagram',
+    requiredScopes: [
+      'instagram_basic',
+      'instagram_content_publish',
+      'pages_show_list',
+    ],
+    features: ['video_upload', 'reels', 'stories', 'analytics'],
+    maxFileSize: '4GB',
+    supportedFormats: ['mp4', 'mov'],
+    maxDuration: 3600, // 60 minutes for reels
+    maxCaptionLength: 2200,
+    maxHashtags: 30,
+    aspectRatio: { min: '9:16', max: '1.91:1' },
+  },
+  {
+    platform: 'facebook',
+    name: 'Facebook',
+    description: 'Share videos on Facebook',
+    requiredScopes: ['pages_manage_posts', 'pages_show_list'],
+    features: ['video_upload', 'analytics', 'live_streaming'],
+    maxFileSize: '10GB',
+    supportedFormats: ['mp4', 'mov', 'avi'],
+    maxCaptionLength: 63206,
+    aspectRatio: { min: '9:16', max: '16:9' },
+  },
+  {
+    platform: 'twitter',
+    name: 'Twitter/X',
+    description: 'Share videos on Twitter/X',
+    requiredScopes: [
+      'tweet.read',
+      'tweet.write',
+      'users.read',
+      'offline.access',
+    ],
+    features: ['video_upload', 'analytics'],
+    maxFileSize: '512MB',
+    supportedFormats: ['mp4', 'mov'],
+    maxDuration: 140, // 2 minutes 20 seconds
+    maxCaptionLength: 280,
+    aspectRatio: { min: '1:3', max: '3:1' },
+  },
+  {
+    platform: 'linkedin',
+    name: 'LinkedIn',
+    description: 'Share professional video content on LinkedIn',
+    requiredScopes: ['w_member_social', 'r_basicprofile'],
+    features: ['video_upload', 'analytics'],
+    maxFileSize: '5GB',
+    supportedFormats: ['mp4', 'mov', 'wmv'],
+    maxDuration: 600, // 10 minutes
+    maxCaptionLength: 3000,
+    aspectRatio: { min: '1:2.4', max: '2.4:1' },
+  },
+] as const;
+
+export type SupportedPlatform =
+  (typeof SUPPORTED_PLATFORMS)[number]['platform'];
+
+export const SUPPORTED_PLATFORM_IDS = SUPPORTED_PLATFORMS.map(
+  (platform) => platform.platform,
+) as SupportedPlatform[];
+
+export interface PlatformUploadLimits {
+  platforms: SupportedPlatform[];
+  // Limits are null when no platform sets one.
+  // supportedFormats are the file extensions every platform accepts.
+  supportedFormats: string[] | null;
+  maxFileSizeBytes: number | null;
+  maxDurationSeconds: number | null;
+}
+
+const SIZE_UNITS = { KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3 };
+
+// Bytes in a platform file size such as '512MB'
+export function parseFileSize(size: string): number {
+  const [, amount, unit] = size.match(/^(\d+)(KB|MB|GB)$/);
+  return Number(amount) * SIZE_UNITS[unit];
+}
+
+// Width divided by height of a ratio such as '9:16'
+export function parseAspectRatio(ratio: string): number {
+  const [width, height] = ratio.split(':').map(Number);
+  return width / height;
+}
+
+// The strictest upload limits across platforms, so a video fits all of them
+export function strictestUploadLimits(
+  platformIds: string[],
+): PlatformUploadLimits {
+  const platforms = SUPPORTED_PLATFORMS.filter((platform) =>
+    platformIds.includes(platform.platform),
+  );
+
+  let supportedFormats: string[] = null;
+  let maxFileSizeBytes: number = null;
+  let maxDurationSeconds: number = null;
+  for (const platform of platforms) {
+    const formats: readonly string[] = platform.supportedFormats;
+    supportedFormats = supportedFormats
+      ? supportedFormats.filter((format) => formats.includes(format))
+      : [...formats];
+
+    maxFileSizeBytes = Math.min(
+      maxFileSizeBytes ?? Infinity,
+      parseFileSize(platform.maxFileSize),
+    );
+
+    if ('maxDuration' in platform) {
+      maxDurationSeconds = Math.min(
+        maxDurationSeconds ?? Infinity,
+        platform.maxDuration,
+      );
+    }
+  }
+
+  return {
+    platforms: platforms.map((platform) => platform.platform),
+    supportedFormats,
+    maxFileSizeBytes,
+    maxDurationSeconds,
+  };
+}
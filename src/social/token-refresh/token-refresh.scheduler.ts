@@ -0,0 +1,86 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JOB_TYPES, JobQueueService } from '../../database/job-queue.service';
+import { SocialAccountService } from '../../database/social-account.service';
+import { SocialTokenRefreshService } from './token-refresh.service';
+
+// Periodically queues a refresh job for every account whose token expires
+// within a day, so posting never runs into an expired token. Accounts that
+// expired without a refresh token are disabled and their owners notified.
+@Injectable()
+export class TokenRefreshScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(TokenRefreshScheduler.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly socialAccountService: SocialAccountService,
+    private readonly jobQueueService: JobQueueService,
+    private readonly socialTokenRefreshService: SocialTokenRefreshService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (
+      this.configService.get<string>('SOCIAL_TOKEN_REFRESH_ENABLED') === 'false'
+    ) {
+      this.logger.log('Social token refresh disabled');
+      return;
+    }
+
+    const intervalMs = Number(
+      this.configService.get('SOCIAL_TOKEN_REFRESH_INTERVAL_MS') ??
+        15 * 60 * 1000,
+    );
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    this.timer.unref();
+    this.logger.log(`Social token refresh started (every ${intervalMs}ms)`);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Queue a refresh for each expiring account that is not already queued
+  async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const accounts =
+        await this.socialAccountService.getAccountsNeedingRefresh();
+
+      for (const account of accounts) {
+        const queued = await this.jobQueueService.hasOpenJob(
+          JOB_TYPES.SOCIAL_TOKEN_REFRESH,
+          'socialAccountId',
+          account.id,
+        );
+        if (!queued) {
+          await this.jobQueueService.addSocialTokenRefreshJob(
+            account.id,
+            account.userId,
+          );
+        }
+      }
+
+      await this.socialTokenRefreshService.expireAccounts();
+    } catch (error) {
+      this.logger.error(`Token refresh run failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SocialAccountService } from '../../database/social-account.service';
+import { JobContext } from '../../jobs/job-worker.service';
+import { NotificationDispatcher } from '../../notifications/notification-dispatcher.service';
+import { SocialOAuthService } from '../oauth/social-oauth.service';
+import { SocialTokenRefreshService } from './token-refresh.service';
+
+describe('SocialTokenRefreshService', () => {
+  let service: SocialTokenRefreshService;
+  let socialAccountService: Record<string, jest.Mock>;
+  let socialOAuthService: Record<string, jest.Mock>;
+  let notificationDispatcher: Record<string, jest.Mock>;
+
+  const account = {
+    id: 'account-1',
+    userId: 'user-1',
+    platform: 'youtube',
+    username: '@mockchannel',
+    isActive: true,
+    refreshToken: 'old-refresh-token',
+  };
+
+  const context = (overrides: Partial<JobContext> = {}): JobContext => ({
+    job: {} as any,
+    attempt: 1,
+    isFinalAttempt: false,
+    reportProgress: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    socialAccountService = {
+      getSocialAccountById: jest.fn().mockResolvedValue(account),
+      updateTokens: jest.fn().mockResolvedValue(account),
+      toggleAccountStatus: jest.fn().mockResolvedValue(account),
+    };
+    socialOAuthService = {
+      isConfigured: jest.fn().mockReturnValue(true),
+      refreshTokens: jest.fn(),
+    };
+    notificationDispatcher = {
+      notify: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SocialTokenRefreshService,
+        { provide: SocialAccountService, useValue: socialAccountService },
+        { provide: SocialOAuthService, useValue: socialOAuthService },
+        { provide: NotificationDispatcher, useValue: notificationDispatcher },
+      ],
+    }).compile();
+
+    service = module.get(SocialTokenRefreshService);
+  });
+
+  it('stores refreshed tokens and keeps a refresh token that was not rotated', async () => {
+    const expiresAt = new Date('2025-01-15T10:00:00.000Z');
+    socialOAuthService.refreshTokens.mockResolvedValue({
+      accessToken: 'new-access-token',
+      expiresAt,
+    });
+
+    await service.handleJob({ socialAccountId: 'account-1' }, context());
+
+    expect(socialOAuthService.refreshTokens).toHaveBeenCalledWith(
+      'youtube',
+      'old-refresh-token',
+    );
+    expect(socialAccountService.updateTokens).toHaveBeenCalledWith(
+      'account-1',
+      'new-access-token',
+      'old-refresh-token',
+      expiresAt,
+    );
+  });
+
+  it('rethrows a failure so the job is retried', async () => {
+    socialOAuthService.refreshTokens.mockRejectedValue(
+      new Error('invalid_grant'),
+    );
+
+    await expect(
+      service.handleJob({ socialAccountId: 'account-1' }, context()),
+    ).rejects.toThrow('invalid_grant');
+    expect(socialAccountService.toggleAccountStatus).not.toHaveBeenCalled();
+    expect(notificationDispatcher.notify).not.toHaveBeenCalled();
+  });
+
+  it('disables the account and asks for a reconnect after the last attempt', async () => {
+    socialOAuthService.refreshTokens.mockRejectedValue(
+      new Error('invalid_grant'),
+    );
+
+    await expect(
+      service.handleJob(
+        { socialAccountId: 'account-1' },
+        context({ attempt: 4, isFinalAttempt: true }),
+      ),
+    ).rejects.toThrow('invalid_grant');
+
+    expect(socialAccountService.toggleAccountStatus).toHaveBeenCalledWith(
+      'account-1',
+      false,
+    );
+    expect(notificationDispatcher.notify).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({
+        type: 'social_reconnect_required',
+        actionUrl: '/api/v1/social-accounts/oauth/youtube/start',
+      }),
+    );
+  });
+});
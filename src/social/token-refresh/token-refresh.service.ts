@@ -0,0 +1,97 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SocialAccount } from '@prisma/client';
+import { SocialAccountService } from '../../database/social-account.service';
+import { JobContext } from '../../jobs/job-worker.service';
+import { NotificationDispatcher } from '../../notifications/notification-dispatcher.service';
+import { reconnectRequiredMessage } from '../../notifications/notification-messages';
+import { SocialOAuthService } from '../oauth/social-oauth.service';
+import { SUPPORTED_PLATFORMS } from '../supported-platforms';
+
+// Refreshes the OAuth tokens of one social account. Failures are retried by
+// the job queue; once the last attempt fails the account is disabled and
+// the owner is asked to reconnect it.
+@Injectable()
+export class SocialTokenRefreshService {
+  private readonly logger = new Logger(SocialTokenRefreshService.name);
+
+  constructor(
+    private readonly socialAccountService: SocialAccountService,
+    private readonly socialOAuthService: SocialOAuthService,
+    private readonly notificationDispatcher: NotificationDispatcher,
+  ) {}
+
+  // Job handler for JOB_TYPES.SOCIAL_TOKEN_REFRESH
+  async handleJob(
+    payload: Record<string, any>,
+    context: JobContext,
+  ): Promise<void> {
+    const account = await this.socialAccountService.getSocialAccountById(
+      payload.socialAccountId,
+    );
+    if (!account || !account.isActive || !account.refreshToken) {
+      return;
+    }
+    if (!this.socialOAuthService.isConfigured(account.platform)) {
+      this.logger.warn(
+        `Skipping token refresh for account ${account.id}: OAuth is not configured for ${account.platform}`,
+      );
+      return;
+    }
+
+    try {
+      const tokens = await this.socialOAuthService.refreshTokens(
+        account.platform,
+        account.refreshToken,
+      );
+      await this.socialAccountService.updateTokens(
+        account.id,
+        tokens.accessToken,
+        tokens.refreshToken ?? account.refreshToken,
+        tokens.expiresAt ?? null,
+      );
+      this.logger.log(`Refreshed tokens for social account ${account.id}`);
+    } catch (error) {
+      if (context.isFinalAttempt) {
+        await this.requireReconnect(
+          account,
+          'We could not renew access',
+          error.message,
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Disable accounts whose access token expired without a refresh token;
+  // only reconnecting can restore them. Returns the accounts disabled.
+  async expireAccounts(): Promise<number> {
+    const accounts =
+      await this.socialAccountService.getAccountsWithExpiredTokens();
+    for (const account of accounts) {
+      await this.requireReconnect(
+        account,
+        'Access has expired',
+        'access token expired',
+      );
+    }
+    return accounts.length;
+  }
+
+  // Disable the account and ask the owner to reconnect it
+  private async requireReconnect(
+    account: SocialAccount,
+    summary: string,
+    reason: string,
+  ): Promise<void> {
+    const platformName =
+      SUPPORTED_PLATFORMS.find((p) => p.platform === account.platform)?.name ??
+      account.platform;
+
+    await this.socialAccountService.toggleAccountStatus(account.id, false);
+    await this.notificationDispatcher.notify(
+      account.userId,
+      reconnectRequiredMessage(account, platformName, summary),
+    );
+    this.logger.warn(`Disabled social account ${account.id}: ${reason}`);
+  }
+}
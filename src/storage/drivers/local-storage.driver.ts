@@ -0,0 +1,153 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream, createWriteStream, ReadStream } from 'fs';
+import { mkdir, rename, rm, stat } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  SignedUrl,
+  StorageDriver,
+  StoredObject,
+} from '../storage-driver.interface';
+
+const URI_PREFIX = 'local://';
+
+// Stores objects under a directory on this server. Signed URLs point at
+// LocalStorageController, which checks the HMAC signature and expiry
+// before streaming the file in or out.
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(
+    root: string,
+    private readonly baseUrl: string,
+    private readonly secret: string,
+  ) {
+    this.root = resolve(root);
+  }
+
+  uriFor(key: string): string {
+    return `${URI_PREFIX}${key}`;
+  }
+
+  keyFromUri(uri: string): string | null {
+    return uri.startsWith(URI_PREFIX) ? uri.slice(URI_PREFIX.length) : null;
+  }
+
+  async createUploadUrl(
+    key: string,
+    contentType: string,
+    expiresInSeconds: number,
+  ): Promise<SignedUrl> {
+    return {
+      ...this.signedUrl('PUT', key, expiresInSeconds, contentType),
+      headers: { 'Content-Type': contentType },
+    };
+  }
+
+  async createDownloadUrl(
+    key: string,
+    expiresInSeconds: number,
+  ): Promise<SignedUrl> {
+    return { ...this.signedUrl('GET', key, expiresInSeconds), headers: {} };
+  }
+
+  async put(key: string, body: Readable): Promise<void> {
+    await this.write(key, body);
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const stats = await stat(this.pathFor(key));
+      return { size: stats.size, contentType: null };
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  // Whether a request carries a valid, unexpired signature
+  verify(
+    method: 'GET' | 'PUT',
+    key: string,
+    expires: number,
+    signature: string,
+    contentType = '',
+  ): boolean {
+    if (!key || !signature || !(expires * 1000 > Date.now())) {
+      return false;
+    }
+    const expected = Buffer.from(
+      this.sign(method, key, expires, contentType),
+      'hex',
+    );
+    const actual = Buffer.from(signature, 'hex');
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+
+  // Write an object, replacing any existing one only once fully received
+  async write(key: string, body: Readable): Promise<void> {
+    const path = this.pathFor(key);
+    const partial = `${path}.partial`;
+    await mkdir(dirname(path), { recursive: true });
+    try {
+      await pipeline(body, createWriteStream(partial));
+      await rename(partial, path);
+    } catch (error) {
+      await rm(partial, { force: true });
+      throw error;
+    }
+  }
+
+  read(key: string): ReadStream {
+    return createReadStream(this.pathFor(key));
+  }
+
+  private signedUrl(
+    method: 'GET' | 'PUT',
+    key: string,
+    expiresInSeconds: number,
+    contentType = '',
+  ): Omit<SignedUrl, 'headers'> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const query = new URLSearchParams({
+      key,
+      expires: String(expires),
+      signature: this.sign(method, key, expires, contentType),
+    });
+    return {
+      url: `${this.baseUrl}/api/v1/storage/objects?${query}`,
+      method,
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  private sign(
+    method: string,
+    key: string,
+    expires: number,
+    contentType: string,
+  ): string {
+    return createHmac('sha256', this.secret)
+      .update([method, key, expires, contentType].join('\n'))
+      .digest('hex');
+  }
+
+  // Resolve a key inside the storage root, refusing paths that escape it
+  private pathFor(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(`${this.root}${sep}`)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,94 @@
+import { createHash, createHmac } from 'crypto';
+
+export interface S3Location {
+  // e.g. https://s3.amazonaws.com or http://localhost:9000 for MinIO
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Put the bucket in the path instead of the host name (needed by MinIO)
+  forcePathStyle: boolean;
+}
+
+// Build an AWS Signature Version 4 pre-signed URL (query string auth) for
+// an object. Signed headers beyond host must be sent by the client as-is.
+export function presignS3Url(
+  location: S3Location,
+  request: {
+    method: string;
+    key: string;
+    expiresInSeconds: number;
+    headers?: Record<string, string>;
+  },
+  now = new Date(),
+): string {
+  const endpoint = new URL(location.endpoint);
+  const encodedKey = request.key.split('/').map(encodeRfc3986).join('/');
+  const host = location.forcePathStyle
+    ? endpoint.host
+    : `${location.bucket}.${endpoint.host}`;
+  const path = location.forcePathStyle
+    ? `/${location.bucket}/${encodedKey}`
+    : `/${encodedKey}`;
+
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${location.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = { host };
+  for (const [name, value] of Object.entries(request.headers || {})) {
+    headers[name.toLowerCase()] = value.trim();
+  }
+  const headerNames = Object.keys(headers).sort();
+  const signedHeaders = headerNames.join(';');
+
+  const query: Record<string, string> = {
+    'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+    'X-Amz-Credential': `${location.accessKeyId}/${scope}`,
+    'X-Amz-Date': amzDate,
+    'X-Amz-Expires': String(request.expiresInSeconds),
+    'X-Amz-SignedHeaders': signedHeaders,
+  };
+  const canonicalQuery = Object.keys(query)
+    .sort()
+    .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    path,
+    canonicalQuery,
+    headerNames.map((name) => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders,
+    'UNSIGNED-PAYLOAD',
+  ].join('\n');
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n');
+
+  const signingKey = [location.region, 's3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(`AWS4${location.secretAccessKey}`, dateStamp),
+  );
+  const signature = createHmac('sha256', signingKey)
+    .update(stringToSign)
+    .digest('hex');
+
+  return `${endpoint.protocol}//${host}${path}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// encodeURIComponent leaves !'()* alone; SigV4 requires them encoded
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
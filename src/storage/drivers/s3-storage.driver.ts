@@ -0,0 +1,124 @@
+import { Readable } from 'stream';
+import {
+  SignedUrl,
+  StorageDriver,
+  StoredObject,
+} from '../storage-driver.interface';
+import { presignS3Url, S3Location } from './s3-signature';
+
+const REQUEST_TIMEOUT_MS = 10000;
+// Lifetime of the URLs the API signs for its own HEAD and DELETE requests
+const INTERNAL_URL_TTL_SECONDS = 60;
+
+// Stores objects in an S3-compatible bucket (AWS S3, MinIO, R2, ...).
+// Every request, including the API's own, uses pre-signed URLs.
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+
+  constructor(private readonly location: S3Location) {}
+
+  uriFor(key: string): string {
+    return `${this.uriPrefix}${key}`;
+  }
+
+  keyFromUri(uri: string): string | null {
+    return uri.startsWith(this.uriPrefix)
+      ? uri.slice(this.uriPrefix.length)
+      : null;
+  }
+
+  async createUploadUrl(
+    key: string,
+    contentType: string,
+    expiresInSeconds: number,
+  ): Promise<SignedUrl> {
+    const headers = { 'Content-Type': contentType };
+    return {
+      url: presignS3Url(this.location, {
+        method: 'PUT',
+        key,
+        expiresInSeconds,
+        headers,
+      }),
+      method: 'PUT',
+      headers,
+      expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+    };
+  }
+
+  async createDownloadUrl(
+    key: string,
+    expiresInSeconds: number,
+  ): Promise<SignedUrl> {
+    return {
+      url: presignS3Url(this.location, {
+        method: 'GET',
+        key,
+        expiresInSeconds,
+      }),
+      method: 'GET',
+      headers: {},
+      expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+    };
+  }
+
+  async put(
+    key: string,
+    body: Readable,
+    contentType: string,
+    size: number,
+  ): Promise<void> {
+    const upload = await this.createUploadUrl(
+      key,
+      contentType,
+      INTERNAL_URL_TTL_SECONDS,
+    );
+    // Streamed bodies need half-duplex mode in Node's fetch
+    const response = await fetch(upload.url, {
+      method: 'PUT',
+      headers: { ...upload.headers, 'Content-Length': String(size) },
+      body: Readable.toWeb(body) as ReadableStream,
+      duplex: 'half',
+    } as RequestInit);
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} failed with ${response.status}`);
+    }
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 HEAD ${key} failed with ${response.status}`);
+    }
+    return {
+      size: Number(response.headers.get('content-length') ?? 0),
+      contentType: response.headers.get('content-type'),
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE ${key} failed with ${response.status}`);
+    }
+  }
+
+  private get uriPrefix(): string {
+    return `s3://${this.location.bucket}/`;
+  }
+
+  private request(method: 'HEAD' | 'DELETE', key: string): Promise<Response> {
+    const url = presignS3Url(this.location, {
+      method,
+      key,
+      expiresInSeconds: INTERNAL_URL_TTL_SECONDS,
+    });
+    return fetch(url, {
+      method,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  Inject,
+  NotFoundException,
+  Put,
+  Query,
+  Req,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { STORAGE_DRIVER, StorageDriver } from './storage-driver.interface';
+import { contentTypeForKey } from './video-assets';
+
+// Target of the signed URLs issued by the local storage driver. The
+// signature is the only credential, so there is no JWT guard.
+@ApiExcludeController()
+@Controller('api/v1/storage/objects')
+export class LocalStorageController {
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+  ) {}
+
+  @Put()
+  @HttpCode(200)
+  async upload(
+    @Query('key') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Req() req: Request,
+  ): Promise<void> {
+    const driver = this.requireLocalDriver();
+    const contentType = req.headers['content-type'] || '';
+    if (!driver.verify('PUT', key, Number(expires), signature, contentType)) {
+      throw new ForbiddenException('Invalid or expired upload URL');
+    }
+
+    await driver.write(key, req);
+  }
+
+  @Get()
+  async download(
+    @Query('key') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    const driver = this.requireLocalDriver();
+    if (!driver.verify('GET', key, Number(expires), signature)) {
+      throw new ForbiddenException('Invalid or expired download URL');
+    }
+
+    const object = await driver.stat(key);
+    if (!object) {
+      throw new NotFoundException('Object not found');
+    }
+
+    res.set({
+      'Content-Type': contentTypeForKey(key),
+      'Content-Length': String(object.size),
+    });
+    return new StreamableFile(driver.read(key));
+  }
+
+  private requireLocalDriver(): LocalStorageDriver {
+    if (!(this.storage instanceof LocalStorageDriver)) {
+      throw new NotFoundException();
+    }
+    return this.storage;
+  }
+}
@@ -0,0 +1,50 @@
+import { Readable } from 'stream';
+
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+export interface SignedUrl {
+  url: string;
+  method: 'GET' | 'PUT';
+  // Headers the client must send with the request
+  headers: Record<string, string>;
+  expiresAt: Date;
+}
+
+export interface StoredObject {
+  size: number;
+  contentType: string | null;
+}
+
+// Object store for video assets. Clients upload and download directly
+// through signed URLs, so files never pass through the API.
+export interface StorageDriver {
+  readonly name: string;
+
+  // Stable reference stored on the video (e.g. in Video.videoUrl)
+  uriFor(key: string): string;
+
+  // Key of an object referenced by uriFor, or null if it is not ours
+  keyFromUri(uri: string): string | null;
+
+  createUploadUrl(
+    key: string,
+    contentType: string,
+    expiresInSeconds: number,
+  ): Promise<SignedUrl>;
+
+  createDownloadUrl(key: string, expiresInSeconds: number): Promise<SignedUrl>;
+
+  // Store a file received by the API itself
+  put(
+    key: string,
+    body: Readable,
+    contentType: string,
+    size: number,
+  ): Promise<void>;
+
+  // Size of a stored object, or null if it does not exist
+  stat(key: string): Promise<StoredObject | null>;
+
+  // Remove an object; deleting a missing object is not an error
+  delete(key: string): Promise<void>;
+}
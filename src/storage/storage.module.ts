@@ -0,0 +1,78 @@
+import { Module, OnModuleInit } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { JOB_TYPES } from '../database/job-queue.service';
+import { JobsModule } from '../jobs/jobs.module';
+import { JobWorkerService } from '../jobs/job-worker.service';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { S3StorageDriver } from './drivers/s3-storage.driver';
+import { LocalStorageController } from './local-storage.controller';
+import { STORAGE_DRIVER } from './storage-driver.interface';
+import { VideoStorageService } from './video-storage.service';
+
+@Module({
+  imports: [ConfigModule, DatabaseModule, JobsModule, SubscriptionsModule],
+  controllers: [LocalStorageController],
+  providers: [
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: (configService: ConfigService) => {
+        const driver = configService.get<string>('STORAGE_DRIVER');
+        switch (driver || 'local') {
+          case 'local': {
+            const secret =
+              configService.get<string>('STORAGE_SIGNING_SECRET') ||
+              configService.get<string>('JWT_SECRET');
+            const baseUrl =
+              configService.get<string>('PUBLIC_BASE_URL') ||
+              `http://localhost:${configService.get('PORT') || 3005}`;
+            return new LocalStorageDriver(
+              configService.get<string>('STORAGE_LOCAL_ROOT') || './storage',
+              baseUrl,
+              secret,
+            );
+          }
+          case 's3': {
+            const endpoint = configService.get<string>('S3_ENDPOINT');
+            const region =
+              configService.get<string>('S3_REGION') || 'us-east-1';
+            const forcePathStyle = configService.get<string>(
+              'S3_FORCE_PATH_STYLE',
+            );
+            return new S3StorageDriver({
+              endpoint: endpoint || `https://s3.${region}.amazonaws.com`,
+              region,
+              bucket: configService.get<string>('S3_BUCKET'),
+              accessKeyId: configService.get<string>('S3_ACCESS_KEY_ID'),
+              secretAccessKey: configService.get<string>(
+                'S3_SECRET_ACCESS_KEY',
+              ),
+              // Custom endpoints (MinIO and friends) default to path style
+              forcePathStyle: forcePathStyle
+                ? forcePathStyle === 'true'
+                : Boolean(endpoint),
+            });
+          }
+          default:
+            throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+        }
+      },
+      inject: [ConfigService],
+    },
+    VideoStorageService,
+  ],
+  exports: [VideoStorageService],
+})
+export class StorageModule implements OnModuleInit {
+  constructor(
+    private readonly jobWorker: JobWorkerService,
+    private readonly videoStorage: VideoStorageService,
+  ) {}
+
+  onModuleInit() {
+    this.jobWorker.registerHandler(JOB_TYPES.STORAGE_CLEANUP, (payload) =>
+      this.videoStorage.handleCleanupJob(payload),
+    );
+  }
+}
@@ -0,0 +1,45 @@
+export const VIDEO_ASSETS = ['video', 'thumbnail'] as const;
+
+export type VideoAsset = (typeof VIDEO_ASSETS)[number];
+
+// Accepted upload types per asset, with the file extension they are stored as
+export const ASSET_CONTENT_TYPES: Record<VideoAsset, Record<string, string>> = {
+  video: {
+    'video/mp4': 'mp4',
+    'video/quicktime': 'mov',
+    'video/webm': 'webm',
+  },
+  thumbnail: {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+  },
+};
+
+export const UPLOAD_CONTENT_TYPES = Object.values(ASSET_CONTENT_TYPES).flatMap(
+  (types) => Object.keys(types),
+);
+
+// Object key for a new upload. Every upload gets a fresh key, so a replaced
+// file never shadows the one a signed URL was issued for.
+export function videoAssetKey(
+  video: { id: string; userId: string },
+  asset: VideoAsset,
+  contentType: string,
+  uploadedAt = new Date(),
+): string {
+  const extension = ASSET_CONTENT_TYPES[asset][contentType];
+  return `users/${video.userId}/videos/${video.id}/${asset}-${uploadedAt.getTime()}.${extension}`;
+}
+
+// Content type of a stored asset, from its key's extension
+export function contentTypeForKey(key: string): string {
+  const extension = key.slice(key.lastIndexOf('.') + 1);
+  for (const types of Object.values(ASSET_CONTENT_TYPES)) {
+    const match = Object.entries(types).find(([, ext]) => ext === extension);
+    if (match) {
+      return match[0];
+    }
+  }
+  return 'application/octet-stream';
+}
@@ -0,0 +1,209 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { JobQueueService } from '../database/job-queue.service';
+import { SeriesService } from '../database/series.service';
+import { VideoService } from '../database/video.service';
+import { QuotaService } from '../subscriptions/quota.service';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { STORAGE_DRIVER } from './storage-driver.interface';
+import { VideoStorageService } from './video-storage.service';
+
+describe('VideoStorageService', () => {
+  let service: VideoStorageService;
+  let driver: LocalStorageDriver;
+  let root: string;
+  let videoService: Record<string, jest.Mock>;
+  let seriesService: Record<string, jest.Mock>;
+  let jobQueueService: Record<string, jest.Mock>;
+  let quotaService: Record<string, jest.Mock>;
+
+  const video = (overrides: Record<string, any> = {}) =>
+    ({
+      id: 'video-1',
+      userId: 'user-1',
+      seriesId: 'series-1',
+      videoUrl: null,
+      thumbnailUrl: null,
+      fileSizeMb: null,
+      series: { id: 'series-1', name: 'Space Facts' },
+      ...overrides,
+    }) as any;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'easy-reals-storage-'));
+    driver = new LocalStorageDriver(root, 'http://api.test', 'signing-secret');
+    videoService = {
+      updateVideoFiles: jest
+        .fn()
+        .mockImplementation(async (id, data) => ({ ...video(), ...data })),
+      deleteVideo: jest.fn().mockResolvedValue({}),
+      getSeriesVideoFiles: jest.fn().mockResolvedValue([]),
+    };
+    seriesService = {
+      deleteSeries: jest.fn().mockResolvedValue({}),
+    };
+    jobQueueService = {
+      addStorageCleanupJob: jest.fn().mockResolvedValue({}),
+    };
+    quotaService = {
+      assertCanStore: jest.fn().mockResolvedValue(undefined),
+      recordStorageUsage: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VideoStorageService,
+        { provide: STORAGE_DRIVER, useValue: driver },
+        { provide: VideoService, useValue: videoService },
+        { provide: SeriesService, useValue: seriesService },
+        { provide: JobQueueService, useValue: jobQueueService },
+        { provide: QuotaService, useValue: quotaService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(VideoStorageService);
+  });
+
+  afterEach(() => rm(root, { recursive: true, force: true }));
+
+  it('issues upload URLs only the signature holder can use', async () => {
+    const upload = await service.createUpload(video(), 'video', 'video/mp4');
+
+    const url = new URL(upload.url);
+    const params = (name: string) => url.searchParams.get(name);
+    expect(upload.key).toMatch(
+      /^users\/user-1\/videos\/video-1\/video-\d+\.mp4$/,
+    );
+    expect(upload.headers).toEqual({ 'Content-Type': 'video/mp4' });
+    expect(
+      driver.verify(
+        'PUT',
+        upload.key,
+        +params('expires'),
+        params('signature'),
+        'video/mp4',
+      ),
+    ).toBe(true);
+    expect(
+      driver.verify(
+        'PUT',
+        upload.key,
+        +params('expires'),
+        params('signature'),
+        'text/html',
+      ),
+    ).toBe(false);
+    expect(
+      driver.verify('GET', upload.key, +params('expires'), params('signature')),
+    ).toBe(false);
+  });
+
+  it('attaches an uploaded video and replaces the previous file', async () => {
+    const { key } = await service.createUpload(video(), 'video', 'video/mp4');
+    await driver.write(key, Readable.from(Buffer.alloc(3 * 1024 * 1024)));
+    const previous = video({
+      videoUrl: 'local://users/user-1/videos/video-1/video-1.mp4',
+      fileSizeMb: new Prisma.Decimal(1.5),
+    });
+
+    const updated = await service.completeUpload(previous, 'video', key);
+
+    expect(updated.videoUrl).toBe(`local://${key}`);
+    expect(videoService.updateVideoFiles).toHaveBeenCalledWith('video-1', {
+      videoUrl: `local://${key}`,
+      fileSizeMb: 3,
+    });
+    expect(quotaService.assertCanStore).toHaveBeenCalledWith('user-1', 1.5);
+    expect(quotaService.recordStorageUsage).toHaveBeenCalledWith('user-1', 1.5);
+    expect(jobQueueService.addStorageCleanupJob).toHaveBeenCalledWith(
+      ['users/user-1/videos/video-1/video-1.mp4'],
+      'user-1',
+    );
+  });
+
+  it('keeps the status of a video that is still generating', async () => {
+    const generating = video({ status: 'generating', generationProgress: 40 });
+    videoService.updateVideoFiles.mockImplementation(async (id, data) => ({
+      ...generating,
+      ...data,
+    }));
+    const { key } = await service.createUpload(
+      generating,
+      'thumbnail',
+      'image/jpeg',
+    );
+    await driver.write(key, Readable.from(Buffer.from('jpeg')));
+
+    const updated = await service.completeUpload(generating, 'thumbnail', key);
+
+    expect(updated.status).toBe('generating');
+    expect(updated.generationProgress).toBe(40);
+    expect(videoService.updateVideoFiles).toHaveBeenCalledWith('video-1', {
+      thumbnailUrl: `local://${key}`,
+    });
+  });
+
+  it('refuses to complete an upload that never happened', async () => {
+    const { key } = await service.createUpload(
+      video(),
+      'thumbnail',
+      'image/png',
+    );
+
+    await expect(
+      service.completeUpload(video(), 'thumbnail', key),
+    ).rejects.toThrow('No file has been uploaded for this key');
+    await expect(
+      service.completeUpload(
+        video(),
+        'thumbnail',
+        'users/user-2/videos/video-9/thumbnail-1.png',
+      ),
+    ).rejects.toThrow('Key does not belong to this thumbnail');
+  });
+
+  it('releases storage and queues file removal when a series is deleted', async () => {
+    videoService.getSeriesVideoFiles.mockResolvedValue([
+      video({
+        videoUrl: 'local://users/user-1/videos/video-1/video-1.mp4',
+        thumbnailUrl: 'local://users/user-1/videos/video-1/thumbnail-1.jpg',
+        fileSizeMb: new Prisma.Decimal(12.25),
+      }),
+      video({
+        id: 'video-2',
+        videoUrl: 'stub://generated/video-2/video.mp4',
+        fileSizeMb: new Prisma.Decimal(4.5),
+      }),
+    ]);
+
+    await service.deleteSeries({ id: 'series-1', userId: 'user-1' } as any);
+
+    expect(seriesService.deleteSeries).toHaveBeenCalledWith('series-1');
+    expect(quotaService.recordStorageUsage).toHaveBeenCalledWith(
+      'user-1',
+      -16.75,
+    );
+    expect(jobQueueService.addStorageCleanupJob).toHaveBeenCalledWith(
+      [
+        'users/user-1/videos/video-1/video-1.mp4',
+        'users/user-1/videos/video-1/thumbnail-1.jpg',
+      ],
+      'user-1',
+    );
+  });
+
+  it('deletes the objects of a cleanup job', async () => {
+    const key = 'users/user-1/videos/video-1/video-1.mp4';
+    await driver.write(key, Readable.from(Buffer.from('video')));
+
+    await service.handleCleanupJob({ keys: [key, 'users/user-1/missing.mp4'] });
+
+    expect(await driver.stat(key)).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, UserSeries, Video } from '@prisma/client';
+import { Readable } from 'stream';
+import { JobQueueService } from '../database/job-queue.service';
+import { SeriesService } from '../database/series.service';
+import { VideoService } from '../database/video.service';
+import { QuotaService } from '../subscriptions/quota.service';
+import {
+  SignedUrl,
+  STORAGE_DRIVER,
+  StorageDriver,
+} from './storage-driver.interface';
+import { ASSET_CONTENT_TYPES, VideoAsset, videoAssetKey } from './video-assets';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+type VideoFiles = Pick<
+  Video,
+  'id' | 'userId' | 'videoUrl' | 'thumbnailUrl' | 'fileSizeMb'
+>;
+
+// Uploads, downloads and removal of video files. Videos reference their
+// files through storage URIs in videoUrl and thumbnailUrl; only the video
+// file counts against the plan's storage, tracked through fileSizeMb.
+@Injectable()
+export class VideoStorageService {
+  private readonly logger = new Logger(VideoStorageService.name);
+
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+    private readonly videoService: VideoService,
+    private readonly seriesService: SeriesService,
+    private readonly jobQueueService: JobQueueService,
+    private readonly quotaService: QuotaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Issue a signed URL the client uploads the file to
+  async createUpload(
+    video: Video,
+    asset: VideoAsset,
+    contentType: string,
+    fileSizeBytes?: number,
+  ): Promise<SignedUrl & { key: string }> {
+    if (!ASSET_CONTENT_TYPES[asset][contentType]) {
+      throw new BadRequestException(
+        `Content type ${contentType} is not accepted for a ${asset}`,
+      );
+    }
+    if (asset === 'video' && fileSizeBytes) {
+      await this.quotaService.assertCanStore(
+        video.userId,
+        fileSizeBytes / BYTES_PER_MB - Number(video.fileSizeMb ?? 0),
+      );
+    }
+
+    const key = videoAssetKey(video, asset, contentType);
+    const upload = await this.storage.createUploadUrl(
+      key,
+      contentType,
+      this.urlTtlSeconds,
+    );
+    return { ...upload, key };
+  }
+
+  // Attach an uploaded file to the video, replacing the previous one
+  async completeUpload(
+    video: Video,
+    asset: VideoAsset,
+    key: string,
+  ): Promise<Video> {
+    if (!key.startsWith(`users/${video.userId}/videos/${video.id}/${asset}-`)) {
+      throw new BadRequestException(`Key does not belong to this ${asset}`);
+    }
+
+    const object = await this.storage.stat(key);
+    if (!object) {
+      throw new BadRequestException('No file has been uploaded for this key');
+    }
+
+    return this.attachObject(video, asset, key, object.size);
+  }
+
+  // Store a file the API received itself and attach it to the video
+  async storeFile(
+    video: Video,
+    asset: VideoAsset,
+    body: Readable,
+    contentType: string,
+    size: number,
+  ): Promise<Video> {
+    const key = videoAssetKey(video, asset, contentType);
+    await this.storage.put(key, body, contentType, size);
+    return this.attachObject(video, asset, key, size);
+  }
+
+  // Issue a signed URL to download one of the video's stored files
+  async createDownloadUrl(video: Video, asset: VideoAsset): Promise<SignedUrl> {
+    const uri = asset === 'video' ? video.videoUrl : video.thumbnailUrl;
+    const key = uri && this.storage.keyFromUri(uri);
+    if (!key) {
+      throw new NotFoundException(`The video has no stored ${asset} file`);
+    }
+    return this.storage.createDownloadUrl(key, this.urlTtlSeconds);
+  }
+
+  // Delete a video together with its stored files
+  async deleteVideo(video: VideoFiles): Promise<void> {
+    await this.videoService.deleteVideo(video.id);
+    await this.releaseFiles(video.userId, [video]);
+  }
+
+  // Delete a series; its videos go with it, and so do their files
+  async deleteSeries(series: UserSeries): Promise<void> {
+    const videos = await this.videoService.getSeriesVideoFiles(series.id);
+    await this.seriesService.deleteSeries(series.id);
+    await this.releaseFiles(series.userId, videos);
+  }
+
+  // Delete the objects of a storage cleanup job. Errors are rethrown so
+  // the job is retried.
+  async handleCleanupJob(payload: Record<string, any>): Promise<void> {
+    const keys: string[] = payload.keys || [];
+    for (const key of keys) {
+      await this.storage.delete(key);
+    }
+    this.logger.log(`Deleted ${keys.length} stored objects`);
+  }
+
+  // Point the video at a stored object, replacing the previous file
+  private async attachObject(
+    video: Video,
+    asset: VideoAsset,
+    key: string,
+    size: number,
+  ): Promise<Video> {
+    const previousUri = asset === 'video' ? video.videoUrl : video.thumbnailUrl;
+    const previousKey = previousUri && this.storage.keyFromUri(previousUri);
+    if (previousKey === key) {
+      return video;
+    }
+
+    let updated: Video;
+    if (asset === 'video') {
+      const fileSizeMb = roundMb(size / BYTES_PER_MB);
+      const deltaMb = fileSizeMb - Number(video.fileSizeMb ?? 0);
+      try {
+        await this.quotaService.assertCanStore(video.userId, deltaMb);
+      } catch (error) {
+        await this.removeObjects([key], video.userId);
+        throw error;
+      }
+
+      updated = await this.videoService.updateVideoFiles(video.id, {
+        videoUrl: this.storage.uriFor(key),
+        fileSizeMb,
+      });
+      await this.quotaService.recordStorageUsage(video.userId, deltaMb);
+    } else {
+      updated = await this.videoService.updateVideoFiles(video.id, {
+        thumbnailUrl: this.storage.uriFor(key),
+      });
+    }
+
+    if (previousKey) {
+      await this.removeObjects([previousKey], video.userId);
+    }
+    return updated;
+  }
+
+  // Give back the storage of deleted videos and queue removal of their files
+  private async releaseFiles(userId: string, videos: VideoFiles[]) {
+    const releasedMb = videos.reduce(
+      (total, video) => total.add(video.fileSizeMb ?? 0),
+      new Prisma.Decimal(0),
+    );
+    await this.quotaService.recordStorageUsage(userId, -releasedMb.toNumber());
+
+    const keys = videos
+      .flatMap((video) => [video.videoUrl, video.thumbnailUrl])
+      .map((uri) => uri && this.storage.keyFromUri(uri))
+      .filter(Boolean);
+    await this.removeObjects(keys, userId);
+  }
+
+  private async removeObjects(keys: string[], userId: string) {
+    if (keys.length === 0) {
+      return;
+    }
+    // Objects are deleted in the background so a storage outage never
+    // fails the request; the job retries until they are gone
+    try {
+      await this.jobQueueService.addStorageCleanupJob(keys, userId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue deletion of ${keys.join(', ')}: ${error.message}`,
+      );
+    }
+  }
+
+  private get urlTtlSeconds(): number {
+    return Number(this.configService.get('STORAGE_URL_TTL_SECONDS') ?? 900);
+  }
+}
+
+function roundMb(value: number): number {
+  return Math.round(value * 100) / 100;
+}
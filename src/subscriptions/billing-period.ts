@@ -0,0 +1,41 @@
+import { Prisma } from '@prisma/client';
+
+export type BillingCycle = 'monthly' | 'yearly';
+
+// Add whole months to a date, clamping to the last day of shorter months
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+// Billing period that starts at `start` for the given cycle
+export function billingPeriodFrom(
+  start: Date,
+  billingCycle: BillingCycle,
+): { currentPeriodStart: Date; currentPeriodEnd: Date } {
+  return {
+    currentPeriodStart: start,
+    currentPeriodEnd: addMonths(start, billingCycle === 'yearly' ? 12 : 1),
+  };
+}
+
+// Whether a plan costs nothing on the given cycle, so it can be activated
+// without a payment
+export function isFreePlan(
+  plan: {
+    priceMonthly: Prisma.Decimal | null;
+    priceYearly: Prisma.Decimal | null;
+  },
+  billingCycle: string,
+): boolean {
+  const price =
+    billingCycle === 'yearly' ? plan.priceYearly : plan.priceMonthly;
+  return !price || price.isZero();
+}
@@ -0,0 +1,51 @@
+import {
+  Controller,
+  Post,
+  Req,
+  Headers,
+  HttpCode,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Request } from 'express';
+import { BillingWebhookService } from './billing-webhook.service';
+import { ErrorResponseDto } from '../dto/common/error-response.dto';
+
+@ApiTags('Billing')
+@Controller('api/v1/billing')
+export class BillingWebhookController {
+  constructor(private readonly billingWebhookService: BillingWebhookService) {}
+
+  @Post('webhook')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Stripe webhook',
+    description:
+      'Receives Stripe-style subscription events. Requests must carry a valid Stripe-Signature header.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Event received',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid signature or payload',
+    type: ErrorResponseDto,
+  })
+  async handleWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('stripe-signature') signature: string,
+  ) {
+    const event = this.billingWebhookService.constructEvent(
+      req.rawBody,
+      signature,
+    );
+    const result = await this.billingWebhookService.handleEvent(event);
+
+    return {
+      received: true,
+      eventId: event.id,
+      handled: result.handled,
+    };
+  }
+}
@@ -0,0 +1,204 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SubscriptionService } from '../database/subscription.service';
+import { buildFakeEvent } from '../cli/send-fake-billing-event';
+import { BillingWebhookService } from './billing-webhook.service';
+import { signStripePayload } from './stripe-signature';
+
+describe('BillingWebhookService', () => {
+  const secret = 'whsec_test_secret';
+  let service: BillingWebhookService;
+  let subscriptionService: Record<string, jest.Mock>;
+
+  const sign = (event: Record<string, any>, timestamp?: number) => {
+    const body = Buffer.from(JSON.stringify(event));
+    return { body, signature: signStripePayload(body, secret, timestamp) };
+  };
+
+  beforeEach(async () => {
+    subscriptionService = {
+      recordBillingEvent: jest.fn().mockResolvedValue(true),
+      forgetBillingEvent: jest.fn().mockResolvedValue(undefined),
+      findByStripeSubscriptionId: jest.fn().mockResolvedValue(null),
+      getActiveSubscription: jest.fn().mockResolvedValue(null),
+      getPendingSubscription: jest.fn().mockResolvedValue(null),
+      cancelOtherSubscriptions: jest.fn().mockResolvedValue(undefined),
+      createSubscription: jest.fn().mockResolvedValue({ id: 'local-sub' }),
+      updateSubscription: jest.fn().mockResolvedValue({ id: 'local-sub' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BillingWebhookService,
+        { provide: SubscriptionService, useValue: subscriptionService },
+        {
+          provide: ConfigService,
+          useValue: { get: () => secret },
+        },
+      ],
+    }).compile();
+
+    service = module.get(BillingWebhookService);
+  });
+
+  it('accepts events signed by the fake event sender', () => {
+    const event = buildFakeEvent('customer.subscription.created', {
+      user: 'user-1',
+      plan: 'plan-1',
+    });
+    const { body, signature } = sign(event);
+
+    expect(service.constructEvent(body, signature)).toEqual(event);
+  });
+
+  it('rejects tampered and stale payloads', () => {
+    const event = buildFakeEvent('customer.subscription.created', {
+      user: 'user-1',
+      plan: 'plan-1',
+    });
+    const { signature } = sign(event);
+    const tampered = Buffer.from(
+      JSON.stringify({ ...event, type: 'customer.subscription.deleted' }),
+    );
+    expect(() => service.constructEvent(tampered, signature)).toThrow(
+      BadRequestException,
+    );
+
+    const stale = sign(event, Math.floor(Date.now() / 1000) - 3600);
+    expect(() => service.constructEvent(stale.body, stale.signature)).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('creates a subscription from metadata when none is linked yet', async () => {
+    const event = buildFakeEvent('customer.subscription.created', {
+      user: 'user-1',
+      plan: 'plan-1',
+      cycle: 'yearly',
+      subscription: 'sub_123',
+    });
+
+    await expect(service.handleEvent(event as any)).resolves.toEqual({
+      handled: true,
+    });
+    expect(subscriptionService.createSubscription).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        planId: 'plan-1',
+        billingCycle: 'yearly',
+        status: 'active',
+        stripeSubscriptionId: 'sub_123',
+      }),
+    );
+  });
+
+  it('resets usage only when a new period starts', async () => {
+    const periodStart = 1_700_000_000;
+    subscriptionService.findByStripeSubscriptionId.mockResolvedValue({
+      id: 'local-sub',
+      currentPeriodStart: new Date(periodStart * 1000),
+    });
+
+    const samePeriod = buildFakeEvent('customer.subscription.updated', {
+      user: 'user-1',
+      plan: 'plan-1',
+      periodStart: String(periodStart),
+    });
+    await service.handleEvent(samePeriod as any);
+    expect(subscriptionService.updateSubscription).toHaveBeenLastCalledWith(
+      'local-sub',
+      expect.not.objectContaining({ videosUsedThisMonth: 0 }),
+    );
+
+    const renewal = buildFakeEvent('customer.subscription.updated', {
+      user: 'user-1',
+      plan: 'plan-1',
+      periodStart: String(periodStart + 30 * 24 * 3600),
+    });
+    await service.handleEvent(renewal as any);
+    expect(subscriptionService.updateSubscription).toHaveBeenLastCalledWith(
+      'local-sub',
+      expect.objectContaining({ videosUsedThisMonth: 0 }),
+    );
+  });
+
+  it('activates the subscription waiting for payment and replaces the free one', async () => {
+    subscriptionService.getPendingSubscription.mockResolvedValue({
+      id: 'pending-sub',
+    });
+    subscriptionService.updateSubscription.mockResolvedValue({
+      id: 'pending-sub',
+      userId: 'user-1',
+      status: 'active',
+    });
+
+    const event = buildFakeEvent('customer.subscription.created', {
+      user: 'user-1',
+      plan: 'plan-1',
+      subscription: 'sub_123',
+    });
+    await service.handleEvent(event as any);
+
+    expect(subscriptionService.updateSubscription).toHaveBeenCalledWith(
+      'pending-sub',
+      expect.objectContaining({
+        status: 'active',
+        planId: 'plan-1',
+        stripeSubscriptionId: 'sub_123',
+      }),
+    );
+    expect(subscriptionService.cancelOtherSubscriptions).toHaveBeenCalledWith(
+      'user-1',
+      'pending-sub',
+    );
+  });
+
+  it('applies each event only once', async () => {
+    const event = buildFakeEvent('customer.subscription.created', {
+      user: 'user-1',
+      plan: 'plan-1',
+    });
+    subscriptionService.recordBillingEvent.mockResolvedValue(false);
+
+    await expect(service.handleEvent(event as any)).resolves.toEqual({
+      handled: false,
+    });
+    expect(subscriptionService.createSubscription).not.toHaveBeenCalled();
+  });
+
+  it('forgets events that failed to apply so their redelivery is retried', async () => {
+    const event = buildFakeEvent('customer.subscription.created', {
+      user: 'user-1',
+      plan: 'plan-1',
+    });
+    subscriptionService.createSubscription.mockRejectedValue(
+      new Error('connection lost'),
+    );
+
+    await expect(service.handleEvent(event as any)).rejects.toThrow(
+      'connection lost',
+    );
+    expect(subscriptionService.forgetBillingEvent).toHaveBeenCalledWith(
+      event.id,
+    );
+  });
+
+  it('skips events older than the last one applied', async () => {
+    const event = buildFakeEvent('customer.subscription.updated', {
+      user: 'user-1',
+      plan: 'plan-1',
+      status: 'active',
+    });
+    subscriptionService.findByStripeSubscriptionId.mockResolvedValue({
+      id: 'local-sub',
+      status: 'canceled',
+      stripeEventAt: new Date((event.created + 60) * 1000),
+    });
+
+    await expect(service.handleEvent(event as any)).resolves.toEqual({
+      handled: false,
+    });
+    expect(subscriptionService.updateSubscription).not.toHaveBeenCalled();
+  });
+});
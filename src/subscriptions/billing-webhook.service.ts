@@ -0,0 +1,262 @@
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ACTIVE_SUBSCRIPTION_STATUSES,
+  SubscriptionService,
+  UserSubscriptionWithPlan,
+} from '../database/subscription.service';
+import { verifyStripeSignature } from './stripe-signature';
+
+// Subset of the Stripe event envelope used by the webhook
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created?: number;
+  data: {
+    object: Record<string, any>;
+  };
+}
+
+@Injectable()
+export class BillingWebhookService {
+  private readonly logger = new Logger(BillingWebhookService.name);
+
+  constructor(
+    private readonly subscriptionService: SubscriptionService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Verify the Stripe-Signature header and parse the event
+  constructEvent(rawBody: Buffer | undefined, signature: string): StripeEvent {
+    const secret = this.configService.get<string>('STRIPE_WEBHOOK_SECRET');
+    if (!secret) {
+      throw new InternalServerErrorException(
+        'Billing webhook secret is not configured',
+      );
+    }
+
+    if (!rawBody || !verifyStripeSignature(rawBody, signature, secret)) {
+      throw new BadRequestException('Invalid webhook signature');
+    }
+
+    try {
+      const event = JSON.parse(rawBody.toString('utf8'));
+      if (!event?.type || !event?.data?.object) {
+        throw new Error('Missing event type or data');
+      }
+      return event;
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid webhook payload: ${error.message}`,
+      );
+    }
+  }
+
+  // Apply an event to local subscription records, once per event ID
+  async handleEvent(event: StripeEvent): Promise<{ handled: boolean }> {
+    if (
+      !(await this.subscriptionService.recordBillingEvent(event.id, event.type))
+    ) {
+      this.logger.debug(`Skipping billing event ${event.id}, already applied`);
+      return { handled: false };
+    }
+
+    try {
+      return await this.applyEvent(event);
+    } catch (error) {
+      await this.subscriptionService.forgetBillingEvent(event.id);
+      throw error;
+    }
+  }
+
+  private async applyEvent(event: StripeEvent): Promise<{ handled: boolean }> {
+    const object = event.data.object;
+    const eventAt = this.toDate(event.created);
+
+    switch (event.type) {
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+        return { handled: !!(await this.syncSubscription(object, eventAt)) };
+
+      case 'customer.subscription.deleted':
+        return {
+          handled: !!(await this.syncSubscription(
+            { ...object, status: 'canceled' },
+            eventAt,
+          )),
+        };
+
+      case 'invoice.payment_failed':
+        return {
+          handled: await this.markPastDue(object.subscription, eventAt),
+        };
+
+      default:
+        this.logger.debug(`Ignoring billing event ${event.type}`);
+        return { handled: false };
+    }
+  }
+
+  // Create or update the local subscription from a Stripe subscription object
+  private async syncSubscription(
+    stripeSubscription: Record<string, any>,
+    eventAt: Date | undefined,
+  ): Promise<UserSubscriptionWithPlan | null> {
+    const item = stripeSubscription.items?.data?.[0];
+    const periodStart = this.toDate(
+      stripeSubscription.current_period_start ?? item?.current_period_start,
+    );
+    const periodEnd = this.toDate(
+      stripeSubscription.current_period_end ?? item?.current_period_end,
+    );
+    const interval = item?.price?.recurring?.interval ?? item?.plan?.interval;
+    const planId: string | undefined = stripeSubscription.metadata?.planId;
+
+    const data = {
+      status: stripeSubscription.status,
+      stripeCustomerId: this.toId(stripeSubscription.customer),
+      ...(interval && {
+        billingCycle: interval === 'year' ? 'yearly' : 'monthly',
+      }),
+      ...(planId && { planId }),
+      ...(periodStart && { currentPeriodStart: periodStart }),
+      ...(periodEnd && { currentPeriodEnd: periodEnd }),
+      ...(eventAt && { stripeEventAt: eventAt }),
+    };
+
+    let subscription =
+      await this.subscriptionService.findByStripeSubscriptionId(
+        stripeSubscription.id,
+      );
+
+    if (!subscription) {
+      const userId: string | undefined = stripeSubscription.metadata?.userId;
+      if (!userId || !planId) {
+        this.logger.warn(
+          `Stripe subscription ${stripeSubscription.id} has no userId/planId metadata, skipping`,
+        );
+        return null;
+      }
+
+      // Link a subscription created through our API before checkout
+      // completed: one waiting for payment, or a free one being upgraded
+      const existing =
+        (await this.subscriptionService.getPendingSubscription(userId)) ??
+        (await this.subscriptionService.getActiveSubscription(userId));
+      if (existing && !existing.stripeSubscriptionId) {
+        subscription = existing;
+      } else {
+        const created = await this.subscriptionService.createSubscription({
+          userId,
+          planId,
+          billingCycle: data.billingCycle || 'monthly',
+          status: data.status,
+          stripeSubscriptionId: stripeSubscription.id,
+          stripeCustomerId: data.stripeCustomerId,
+          currentPeriodStart: periodStart,
+          currentPeriodEnd: periodEnd,
+          stripeEventAt: eventAt,
+        });
+        return this.supersedeOtherSubscriptions(created);
+      }
+    }
+
+    if (this.isOutOfOrder(subscription, eventAt)) {
+      return null;
+    }
+
+    // A new billing period starts with fresh usage counters. Events for the
+    // current or an earlier period do not reset them again.
+    const isNewPeriod =
+      periodStart &&
+      (!subscription.currentPeriodStart ||
+        periodStart > subscription.currentPeriodStart);
+
+    const updated = await this.subscriptionService.updateSubscription(
+      subscription.id,
+      {
+        ...data,
+        stripeSubscriptionId: stripeSubscription.id,
+        ...(isNewPeriod && {
+          videosUsedThisMonth: 0,
+          usageResetAt: new Date(),
+        }),
+      },
+    );
+    return this.supersedeOtherSubscriptions(updated);
+  }
+
+  // A paid subscription that became active replaces the free or unpaid ones
+  // the user had
+  private async supersedeOtherSubscriptions(
+    subscription: UserSubscriptionWithPlan,
+  ): Promise<UserSubscriptionWithPlan> {
+    if (ACTIVE_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
+      await this.subscriptionService.cancelOtherSubscriptions(
+        subscription.userId,
+        subscription.id,
+      );
+    }
+    return subscription;
+  }
+
+  private async markPastDue(
+    stripeSubscriptionId: unknown,
+    eventAt: Date | undefined,
+  ): Promise<boolean> {
+    const id = this.toId(stripeSubscriptionId);
+    if (!id) {
+      return false;
+    }
+
+    const subscription =
+      await this.subscriptionService.findByStripeSubscriptionId(id);
+    if (!subscription || this.isOutOfOrder(subscription, eventAt)) {
+      return false;
+    }
+
+    await this.subscriptionService.updateSubscription(subscription.id, {
+      status: 'past_due',
+      ...(eventAt && { stripeEventAt: eventAt }),
+    });
+    return true;
+  }
+
+  // Stripe does not deliver events in order; one created before the last
+  // event applied to the subscription describes an outdated state
+  private isOutOfOrder(
+    subscription: UserSubscriptionWithPlan,
+    eventAt: Date | undefined,
+  ): boolean {
+    if (
+      !eventAt ||
+      !subscription.stripeEventAt ||
+      eventAt >= subscription.stripeEventAt
+    ) {
+      return false;
+    }
+    this.logger.warn(
+      `Skipping billing event from ${eventAt.toISOString()} for subscription ${subscription.id}, a newer one was already applied`,
+    );
+    return true;
+  }
+
+  private toDate(unixSeconds: unknown): Date | undefined {
+    return typeof unixSeconds === 'number'
+      ? new Date(unixSeconds * 1000)
+      : undefined;
+  }
+
+  // Stripe fields may hold either an ID or an expanded object
+  private toId(value: unknown): string | undefined {
+    if (typeof value === 'string') {
+      return value;
+    }
+    return (value as { id?: string })?.id;
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  Controller,
+  Get,
+  Param,
+  NotFoundException,
+  ClassSerializerInterceptor,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { SubscriptionService } from '../database/subscription.service';
+import { PlanResponseDto } from '../dto/subscription/plan-response.dto';
+import { ErrorResponseDto } from '../dto/common/error-response.dto';
+import { plainToClass } from 'class-transformer';
+
+@ApiTags('Billing')
+@Controller('api/v1/plans')
+@UseInterceptors(ClassSerializerInterceptor)
+export class PlansController {
+  constructor(private readonly subscriptionService: SubscriptionService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List subscription plans',
+    description: 'Returns all active subscription plans with their limits',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Plans retrieved successfully',
+    type: [PlanResponseDto],
+  })
+  async getPlans(): Promise<PlanResponseDto[]> {
+    const plans = await this.subscriptionService.getActivePlans();
+    return plans.map((plan) => plainToClass(PlanResponseDto, plan));
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get plan by ID',
+    description: 'Returns a single subscription plan',
+  })
+  @ApiParam({ name: 'id', description: 'Plan ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Plan retrieved successfully',
+    type: PlanResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Plan not found',
+    type: ErrorResponseDto,
+  })
+  async getPlanById(@Param('id') id: string): Promise<PlanResponseDto> {
+    const plan = await this.subscriptionService.getPlanById(id);
+
+    if (!plan || !plan.isActive) {
+      throw new NotFoundException('Plan not found');
+    }
+
+    return plainToClass(PlanResponseDto, plan);
+  }
+}
@@ -0,0 +1,150 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { SeriesService } from '../database/series.service';
+import { SocialAccountService } from '../database/social-account.service';
+import { SubscriptionService } from '../database/subscription.service';
+import { QuotaService } from './quota.service';
+
+describe('QuotaService', () => {
+  let service: QuotaService;
+  let subscriptionService: Record<string, jest.Mock>;
+
+  const plan = {
+    name: 'Starter',
+    maxVideosPerMonth: 10,
+    maxStorageGb: 1,
+    maxSeries: null,
+    maxPostsPerWeek: null,
+    features: {},
+  };
+  const subscription = (overrides: Record<string, unknown> = {}) => ({
+    id: 'sub-1',
+    plan,
+    currentPeriodStart: new Date('2026-01-15T00:00:00Z'),
+    currentPeriodEnd: new Date('2027-01-15T00:00:00Z'),
+    usageResetAt: null,
+    stripeSubscriptionId: null,
+    videosUsedThisMonth: 4,
+    storageUsedMb: new Prisma.Decimal(0),
+    updatedAt: new Date('2026-01-15T00:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-20T12:00:00Z') });
+    subscriptionService = {
+      getActiveSubscription: jest.fn().mockResolvedValue(subscription()),
+      resetUsagePeriod: jest.fn().mockResolvedValue(true),
+      incrementVideoUsage: jest.fn().mockResolvedValue(true),
+      decrementVideoUsage: jest.fn(),
+      adjustStorageUsage: jest.fn(),
+    };
+    service = new QuotaService(
+      subscriptionService as unknown as SubscriptionService,
+      {} as SeriesService,
+      {} as SocialAccountService,
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('rolls a lapsed monthly period forward to the one containing today', async () => {
+    subscriptionService.getActiveSubscription.mockResolvedValue(
+      subscription({
+        currentPeriodStart: new Date('2025-12-31T00:00:00Z'),
+        currentPeriodEnd: new Date('2026-01-31T00:00:00Z'),
+      }),
+    );
+
+    await service.getCurrentSubscription('user-1');
+
+    expect(subscriptionService.resetUsagePeriod).toHaveBeenCalledWith(
+      'sub-1',
+      new Date('2026-02-28T00:00:00Z'),
+      {
+        currentPeriodStart: new Date('2026-02-28T00:00:00Z'),
+        currentPeriodEnd: new Date('2026-03-28T00:00:00Z'),
+      },
+    );
+  });
+
+  it('leaves the period of a Stripe subscription to the billing webhook', async () => {
+    subscriptionService.getActiveSubscription.mockResolvedValue(
+      subscription({
+        stripeSubscriptionId: 'sub_stripe',
+        currentPeriodStart: new Date('2026-01-31T00:00:00Z'),
+        currentPeriodEnd: new Date('2026-02-28T00:00:00Z'),
+      }),
+    );
+
+    await service.getCurrentSubscription('user-1');
+
+    expect(subscriptionService.resetUsagePeriod).toHaveBeenCalledTimes(1);
+    expect(subscriptionService.resetUsagePeriod).toHaveBeenCalledWith(
+      'sub-1',
+      new Date('2026-02-28T00:00:00Z'),
+    );
+  });
+
+  it('resets yearly plans once per monthly window, whatever else updated the row', async () => {
+    subscriptionService.getActiveSubscription.mockResolvedValue(
+      subscription({
+        usageResetAt: new Date('2026-02-15T00:00:00Z'),
+        updatedAt: new Date('2026-03-19T00:00:00Z'),
+      }),
+    );
+    await service.getCurrentSubscription('user-1');
+    expect(subscriptionService.resetUsagePeriod).toHaveBeenCalledWith(
+      'sub-1',
+      new Date('2026-03-15T00:00:00Z'),
+    );
+
+    subscriptionService.resetUsagePeriod.mockClear();
+    subscriptionService.getActiveSubscription.mockResolvedValue(
+      subscription({ usageResetAt: new Date('2026-03-15T00:00:01Z') }),
+    );
+    await service.getCurrentSubscription('user-1');
+    expect(subscriptionService.resetUsagePeriod).not.toHaveBeenCalled();
+  });
+
+  it('does not reset during the first month of a period', async () => {
+    jest.setSystemTime(new Date('2026-02-01T00:00:00Z'));
+
+    await service.getCurrentSubscription('user-1');
+
+    expect(subscriptionService.resetUsagePeriod).not.toHaveBeenCalled();
+  });
+
+  it('reserves videos with a conditional increment', async () => {
+    await service.reserveVideoGeneration('user-1');
+    expect(subscriptionService.incrementVideoUsage).toHaveBeenCalledWith(
+      'sub-1',
+      10,
+    );
+
+    subscriptionService.incrementVideoUsage.mockResolvedValue(false);
+    await expect(service.reserveVideoGeneration('user-1')).rejects.toThrow(
+      'Monthly video limit reached: 10/10 videos used on the Starter plan',
+    );
+  });
+
+  it('counts storage in MB against the GB limit', async () => {
+    subscriptionService.getActiveSubscription.mockResolvedValue(
+      subscription({
+        usageResetAt: new Date('2026-03-15T00:00:00Z'),
+        storageUsedMb: new Prisma.Decimal(1020),
+      }),
+    );
+
+    await expect(service.assertCanStore('user-1', 4)).resolves.toBeUndefined();
+    await expect(service.assertCanStore('user-1', 4.5)).rejects.toThrow(
+      ForbiddenException,
+    );
+
+    await service.recordStorageUsage('user-1', 0.4);
+    expect(subscriptionService.adjustStorageUsage).toHaveBeenCalledWith(
+      'sub-1',
+      0.4,
+    );
+  });
+});
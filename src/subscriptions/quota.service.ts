@@ -0,0 +1,250 @@
+import { ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { SeriesTemplate } from '@prisma/client';
+import {
+  SubscriptionService,
+  UserSubscriptionWithPlan,
+} from '../database/subscription.service';
+import { SeriesService } from '../database/series.service';
+import { SocialAccountService } from '../database/social-account.service';
+import { addMonths } from './billing-period';
+
+const PLAN_LIMIT_ERROR = 'Plan Limit Exceeded';
+const MB_PER_GB = 1024;
+
+@Injectable()
+export class QuotaService {
+  private readonly logger = new Logger(QuotaService.name);
+
+  constructor(
+    private readonly subscriptionService: SubscriptionService,
+    private readonly seriesService: SeriesService,
+    private readonly socialAccountService: SocialAccountService,
+  ) {}
+
+  // Get the active subscription, resetting usage if a new month has started.
+  // Monthly counters follow windows anchored on currentPeriodStart, so yearly
+  // plans still reset every month.
+  async getCurrentSubscription(
+    userId: string,
+  ): Promise<UserSubscriptionWithPlan | null> {
+    const subscription =
+      await this.subscriptionService.getActiveSubscription(userId);
+
+    if (!subscription?.currentPeriodStart) {
+      return subscription;
+    }
+
+    const now = new Date();
+
+    // Period ended without a renewal event: roll it forward month by month.
+    // Stripe owns the period of a paid subscription and moves it through the
+    // billing webhook, so only its usage window moves on here.
+    if (
+      !subscription.stripeSubscriptionId &&
+      subscription.currentPeriodEnd &&
+      subscription.currentPeriodEnd <= now
+    ) {
+      let start = subscription.currentPeriodEnd;
+      let end = addMonths(start, 1);
+      while (end <= now) {
+        start = end;
+        end = addMonths(start, 1);
+      }
+      this.logger.log(
+        `Rolling usage period for subscription ${subscription.id} to ${start.toISOString()}`,
+      );
+      await this.subscriptionService.resetUsagePeriod(subscription.id, start, {
+        currentPeriodStart: start,
+        currentPeriodEnd: end,
+      });
+      return this.subscriptionService.getActiveSubscription(userId);
+    }
+
+    // Inside a longer (yearly) period, or a Stripe period awaiting its
+    // renewal: reset once per monthly window
+    const windowStart = this.currentMonthlyWindowStart(
+      subscription.currentPeriodStart,
+      now,
+    );
+    const lastReset =
+      subscription.usageResetAt ?? subscription.currentPeriodStart;
+    if (
+      windowStart > subscription.currentPeriodStart &&
+      lastReset < windowStart
+    ) {
+      await this.subscriptionService.resetUsagePeriod(
+        subscription.id,
+        windowStart,
+      );
+      return this.subscriptionService.getActiveSubscription(userId);
+    }
+
+    return subscription;
+  }
+
+  // Count a video against the monthly allowance, or throw if the user
+  // cannot queue another one. Checking and counting is a single update, so
+  // concurrent requests cannot go over the limit.
+  async reserveVideoGeneration(
+    userId: string,
+  ): Promise<UserSubscriptionWithPlan> {
+    const subscription = await this.requireSubscription(
+      userId,
+      'generate videos',
+    );
+    const { plan } = subscription;
+    this.assertStorageAvailable(subscription);
+
+    const counted = await this.subscriptionService.incrementVideoUsage(
+      subscription.id,
+      plan.maxVideosPerMonth,
+    );
+    if (!counted) {
+      throw new ForbiddenException(
+        `Monthly video limit reached: ${plan.maxVideosPerMonth}/${plan.maxVideosPerMonth} videos used on the ${plan.name} plan`,
+        PLAN_LIMIT_ERROR,
+      );
+    }
+    return subscription;
+  }
+
+  // Give back a reserved video whose generation could not be queued
+  async releaseVideoGeneration(userId: string): Promise<void> {
+    const subscription = await this.getCurrentSubscription(userId);
+    if (subscription) {
+      await this.subscriptionService.decrementVideoUsage(subscription.id);
+    }
+  }
+
+  // Throw if the user cannot create another series (from the given template)
+  async assertCanCreateSeries(
+    userId: string,
+    template?: Pick<SeriesTemplate, 'name' | 'isPremium'>,
+  ): Promise<void> {
+    const subscription = await this.requireSubscription(
+      userId,
+      'create series',
+    );
+    const { plan } = subscription;
+
+    const features = (plan.features || {}) as Record<string, any>;
+    if (template?.isPremium && !features.premiumTemplates) {
+      throw new ForbiddenException(
+        `The premium template "${template.name}" is not available on the ${plan.name} plan`,
+        PLAN_LIMIT_ERROR,
+      );
+    }
+
+    if (plan.maxSeries === null) {
+      return;
+    }
+
+    const seriesCount = await this.seriesService.countUserSeries(userId);
+    if (seriesCount >= plan.maxSeries) {
+      throw new ForbiddenException(
+        `Series limit reached: ${seriesCount}/${plan.maxSeries} series on the ${plan.name} plan`,
+        PLAN_LIMIT_ERROR,
+      );
+    }
+  }
+
+  // Throw if scheduling `count` more posts would exceed the weekly limit
+  async assertCanSchedulePosts(userId: string, count = 1): Promise<void> {
+    const subscription = await this.requireSubscription(
+      userId,
+      'schedule posts',
+    );
+    const { plan } = subscription;
+
+    if (plan.maxPostsPerWeek === null) {
+      return;
+    }
+
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const postsThisWeek = await this.socialAccountService.countUserPostsSince(
+      userId,
+      weekAgo,
+    );
+    if (postsThisWeek + count > plan.maxPostsPerWeek) {
+      throw new ForbiddenException(
+        `Weekly post limit reached: ${postsThisWeek}/${plan.maxPostsPerWeek} posts in the last 7 days on the ${plan.name} plan` +
+          (count > 1 ? `, cannot schedule ${count} more` : ''),
+        PLAN_LIMIT_ERROR,
+      );
+    }
+  }
+
+  // Throw if storing another `fileSizeMb` would exceed the storage limit
+  async assertCanStore(userId: string, fileSizeMb: number): Promise<void> {
+    const subscription = await this.requireSubscription(userId, 'store files');
+    const { plan } = subscription;
+    const usedMb = Number(subscription.storageUsedMb);
+
+    if (
+      plan.maxStorageGb !== null &&
+      usedMb + fileSizeMb > plan.maxStorageGb * MB_PER_GB
+    ) {
+      throw new ForbiddenException(
+        `Storage limit reached: storing ${fileSizeMb.toFixed(2)} MB would exceed ${plan.maxStorageGb} GB (${toGb(usedMb)} GB used) on the ${plan.name} plan`,
+        PLAN_LIMIT_ERROR,
+      );
+    }
+  }
+
+  // Track storage used by a stored file (negative size releases storage)
+  async recordStorageUsage(userId: string, fileSizeMb: number): Promise<void> {
+    if (!fileSizeMb) {
+      return;
+    }
+
+    const subscription = await this.getCurrentSubscription(userId);
+    if (subscription) {
+      await this.subscriptionService.adjustStorageUsage(
+        subscription.id,
+        fileSizeMb,
+      );
+    }
+  }
+
+  private async requireSubscription(
+    userId: string,
+    action: string,
+  ): Promise<UserSubscriptionWithPlan> {
+    const subscription = await this.getCurrentSubscription(userId);
+    if (!subscription) {
+      throw new ForbiddenException(
+        `An active subscription is required to ${action}`,
+        PLAN_LIMIT_ERROR,
+      );
+    }
+    return subscription;
+  }
+
+  private assertStorageAvailable(subscription: UserSubscriptionWithPlan) {
+    const { plan } = subscription;
+    const usedMb = Number(subscription.storageUsedMb);
+
+    if (plan.maxStorageGb !== null && usedMb >= plan.maxStorageGb * MB_PER_GB) {
+      throw new ForbiddenException(
+        `Storage limit reached: ${toGb(usedMb)}/${plan.maxStorageGb} GB used on the ${plan.name} plan`,
+        PLAN_LIMIT_ERROR,
+      );
+    }
+  }
+
+  private currentMonthlyWindowStart(periodStart: Date, now: Date): Date {
+    let months =
+      (now.getUTCFullYear() - periodStart.getUTCFullYear()) * 12 +
+      (now.getUTCMonth() - periodStart.getUTCMonth());
+    let windowStart = addMonths(periodStart, months);
+    while (windowStart > now && months > 0) {
+      months--;
+      windowStart = addMonths(periodStart, months);
+    }
+    return windowStart;
+  }
+}
+
+function toGb(mb: number): number {
+  return Math.round((mb / MB_PER_GB) * 100) / 100;
+}
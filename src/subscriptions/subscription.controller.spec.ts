@@ -0,0 +1,127 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { SubscriptionService } from '../database/subscription.service';
+import { QuotaService } from './quota.service';
+import { SubscriptionController } from './subscription.controller';
+
+describe('SubscriptionController', () => {
+  let controller: SubscriptionController;
+  let subscriptionService: Record<string, jest.Mock>;
+  let quotaService: { getCurrentSubscription: jest.Mock };
+
+  const freePlan = {
+    id: 'plan-free',
+    isActive: true,
+    priceMonthly: new Prisma.Decimal(0),
+    priceYearly: null,
+  };
+  const paidPlan = {
+    id: 'plan-pro',
+    isActive: true,
+    priceMonthly: new Prisma.Decimal(29),
+    priceYearly: new Prisma.Decimal(290),
+  };
+  const saved = (data: Record<string, unknown>) => ({
+    id: 'sub-1',
+    createdAt: new Date(),
+    videosUsedThisMonth: 0,
+    storageUsedGb: 0,
+    ...data,
+  });
+
+  beforeEach(() => {
+    subscriptionService = {
+      getActiveSubscription: jest.fn().mockResolvedValue(null),
+      getPendingSubscription: jest.fn().mockResolvedValue(null),
+      getPlanById: jest
+        .fn()
+        .mockImplementation(async (id) =>
+          id === paidPlan.id ? paidPlan : freePlan,
+        ),
+      createSubscription: jest
+        .fn()
+        .mockImplementation(async (data) => saved(data)),
+      updateSubscription: jest
+        .fn()
+        .mockImplementation(async (id, data) => saved({ id, ...data })),
+    };
+    quotaService = { getCurrentSubscription: jest.fn() };
+    controller = new SubscriptionController(
+      subscriptionService as unknown as SubscriptionService,
+      quotaService as unknown as QuotaService,
+    );
+  });
+
+  it('activates free plans right away', async () => {
+    const response = await controller.subscribe('user-1', {
+      planId: freePlan.id,
+    });
+
+    expect(response.status).toBe('active');
+    expect(subscriptionService.createSubscription).toHaveBeenCalledWith(
+      expect.objectContaining({ planId: freePlan.id, status: 'active' }),
+    );
+  });
+
+  it('leaves paid plans incomplete until Stripe confirms the payment', async () => {
+    const response = await controller.subscribe('user-1', {
+      planId: paidPlan.id,
+    });
+
+    expect(response.status).toBe('incomplete');
+    expect(subscriptionService.createSubscription).toHaveBeenCalledWith({
+      userId: 'user-1',
+      planId: paidPlan.id,
+      billingCycle: 'monthly',
+      status: 'incomplete',
+    });
+  });
+
+  it('does not switch an active subscription to a paid plan', async () => {
+    quotaService.getCurrentSubscription.mockResolvedValue(
+      saved({
+        id: 'sub-free',
+        planId: freePlan.id,
+        plan: freePlan,
+        billingCycle: 'monthly',
+        status: 'active',
+      }),
+    );
+
+    const response = await controller.updateSubscription('user-1', {
+      planId: paidPlan.id,
+    });
+
+    expect(response.status).toBe('incomplete');
+    expect(subscriptionService.updateSubscription).not.toHaveBeenCalledWith(
+      'sub-free',
+      expect.anything(),
+    );
+  });
+
+  it('leaves plan changes of Stripe subscriptions to Stripe', async () => {
+    quotaService.getCurrentSubscription.mockResolvedValue(
+      saved({
+        planId: paidPlan.id,
+        plan: paidPlan,
+        billingCycle: 'monthly',
+        stripeSubscriptionId: 'sub_123',
+      }),
+    );
+
+    await expect(
+      controller.updateSubscription('user-1', { planId: freePlan.id }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('leaves cancellation of Stripe subscriptions to Stripe', async () => {
+    subscriptionService.getActiveSubscription.mockResolvedValue(
+      saved({ stripeSubscriptionId: 'sub_123' }),
+    );
+
+    await expect(controller.cancelSubscription('user-1')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(subscriptionService.updateSubscription).not.toHaveBeenCalled();
+  });
+});
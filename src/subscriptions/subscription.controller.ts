@@ -0,0 +1,304 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  UseGuards,
+  NotFoundException,
+  ClassSerializerInterceptor,
+  UseInterceptors,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import {
+  SubscriptionService,
+  UserSubscriptionWithPlan,
+} from '../database/subscription.service';
+import { QuotaService } from './quota.service';
+import { BillingCycle, billingPeriodFrom, isFreePlan } from './billing-period';
+import { CreateSubscriptionDto } from '../dto/subscription/create-subscription.dto';
+import { UpdateSubscriptionDto } from '../dto/subscription/update-subscription.dto';
+import { SubscriptionResponseDto } from '../dto/subscription/subscription-response.dto';
+import { ErrorResponseDto } from '../dto/common/error-response.dto';
+import { plainToClass } from 'class-transformer';
+import { SubscriptionPlan } from '@prisma/client';
+
+@ApiTags('Billing')
+@Controller('api/v1/users/me/subscription')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+@UseInterceptors(ClassSerializerInterceptor)
+export class SubscriptionController {
+  constructor(
+    private readonly subscriptionService: SubscriptionService,
+    private readonly quotaService: QuotaService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get current subscription',
+    description:
+      "Returns the authenticated user's active subscription and usage",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscription retrieved successfully',
+    type: SubscriptionResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No active subscription',
+    type: ErrorResponseDto,
+  })
+  async getSubscription(
+    @CurrentUser('id') userId: string,
+  ): Promise<SubscriptionResponseDto> {
+    const subscription = await this.quotaService.getCurrentSubscription(userId);
+
+    if (!subscription) {
+      throw new NotFoundException('No active subscription');
+    }
+
+    return this.toResponse(subscription);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Subscribe to a plan',
+    description:
+      'Free plans start right away. Paid plans are created as incomplete and become active when Stripe confirms the payment: start Stripe Checkout with userId and planId in the subscription metadata.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Subscription created, active or waiting for payment',
+    type: SubscriptionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data or plan not available',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'User already has an active subscription',
+    type: ErrorResponseDto,
+  })
+  async subscribe(
+    @CurrentUser('id') userId: string,
+    @Body() createSubscriptionDto: CreateSubscriptionDto,
+  ): Promise<SubscriptionResponseDto> {
+    const existing =
+      await this.subscriptionService.getActiveSubscription(userId);
+    if (existing) {
+      throw new ConflictException(
+        'You already have an active subscription. Use PUT to change plan or billing cycle.',
+      );
+    }
+
+    const plan = await this.getAvailablePlan(createSubscriptionDto.planId);
+    const billingCycle = createSubscriptionDto.billingCycle || 'monthly';
+
+    if (!isFreePlan(plan, billingCycle)) {
+      return this.toResponse(
+        await this.awaitPayment(userId, plan.id, billingCycle),
+      );
+    }
+
+    const subscription = await this.subscriptionService.createSubscription({
+      userId,
+      planId: plan.id,
+      billingCycle,
+      status: 'active',
+      ...billingPeriodFrom(new Date(), billingCycle),
+    });
+
+    return this.toResponse(subscription);
+  }
+
+  @Put()
+  @ApiOperation({
+    summary: 'Change plan or billing cycle',
+    description:
+      'Switching to a free plan applies right away; a billing cycle change starts a new period. Switching to a paid plan returns a subscription waiting for payment, which replaces the current one when Stripe confirms it. Subscriptions billed through Stripe are changed in Stripe.',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Subscription updated, or the new subscription waiting for payment',
+    type: SubscriptionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid input data, plan not available, or subscription billed through Stripe',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No active subscription',
+    type: ErrorResponseDto,
+  })
+  async updateSubscription(
+    @CurrentUser('id') userId: string,
+    @Body() updateSubscriptionDto: UpdateSubscriptionDto,
+  ): Promise<SubscriptionResponseDto> {
+    const subscription = await this.quotaService.getCurrentSubscription(userId);
+    if (!subscription) {
+      throw new NotFoundException('No active subscription');
+    }
+
+    const planId = updateSubscriptionDto.planId || subscription.planId;
+    const billingCycle =
+      updateSubscriptionDto.billingCycle || subscription.billingCycle;
+    if (
+      planId === subscription.planId &&
+      billingCycle === subscription.billingCycle
+    ) {
+      return this.toResponse(subscription);
+    }
+
+    if (subscription.stripeSubscriptionId) {
+      throw new BadRequestException(
+        'This subscription is billed through Stripe. Change it in Stripe; the change applies here once Stripe confirms it.',
+      );
+    }
+
+    const plan =
+      planId === subscription.planId
+        ? subscription.plan
+        : await this.getAvailablePlan(planId);
+    if (!isFreePlan(plan, billingCycle)) {
+      return this.toResponse(
+        await this.awaitPayment(userId, plan.id, billingCycle),
+      );
+    }
+
+    const updated = await this.subscriptionService.updateSubscription(
+      subscription.id,
+      {
+        planId,
+        billingCycle,
+        ...(billingCycle !== subscription.billingCycle &&
+          billingPeriodFrom(new Date(), billingCycle as BillingCycle)),
+      },
+    );
+
+    return this.toResponse(updated);
+  }
+
+  @Delete()
+  @ApiOperation({
+    summary: 'Cancel subscription',
+    description:
+      'Cancels the active subscription. Subscriptions billed through Stripe are cancelled in Stripe instead.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscription cancelled successfully',
+    type: SubscriptionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Subscription is billed through Stripe',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No active subscription',
+    type: ErrorResponseDto,
+  })
+  async cancelSubscription(
+    @CurrentUser('id') userId: string,
+  ): Promise<SubscriptionResponseDto> {
+    const subscription =
+      await this.subscriptionService.getActiveSubscription(userId);
+    if (!subscription) {
+      throw new NotFoundException('No active subscription');
+    }
+    if (subscription.stripeSubscriptionId) {
+      throw new BadRequestException(
+        'This subscription is billed through Stripe. Cancel it in Stripe; the cancellation applies here once Stripe confirms it.',
+      );
+    }
+
+    const cancelled = await this.subscriptionService.updateSubscription(
+      subscription.id,
+      { status: 'canceled' },
+    );
+
+    return this.toResponse(cancelled);
+  }
+
+  private async getAvailablePlan(planId: string): Promise<SubscriptionPlan> {
+    const plan = await this.subscriptionService.getPlanById(planId);
+    if (!plan || !plan.isActive) {
+      throw new BadRequestException('Plan not found or no longer available');
+    }
+    return plan;
+  }
+
+  // Record the plan the user is about to pay for. The billing webhook
+  // activates it; until then it grants nothing.
+  private async awaitPayment(
+    userId: string,
+    planId: string,
+    billingCycle: string,
+  ): Promise<UserSubscriptionWithPlan> {
+    const pending =
+      await this.subscriptionService.getPendingSubscription(userId);
+    if (pending) {
+      return this.subscriptionService.updateSubscription(pending.id, {
+        planId,
+        billingCycle,
+      });
+    }
+    return this.subscriptionService.createSubscription({
+      userId,
+      planId,
+      billingCycle,
+      status: 'incomplete',
+    });
+  }
+
+  private toResponse(
+    subscription: UserSubscriptionWithPlan,
+  ): SubscriptionResponseDto {
+    return plainToClass(SubscriptionResponseDto, {
+      ...subscription,
+      usage: {
+        videosUsedThisMonth: subscription.videosUsedThisMonth,
+        storageUsedGb: Number(subscription.storageUsedGb),
+      },
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { QuotaService } from './quota.service';
+import { BillingWebhookService } from './billing-webhook.service';
+import { PlansController } from './plans.controller';
+import { SubscriptionController } from './subscription.controller';
+import { BillingWebhookController } from './billing-webhook.controller';
+
+@Module({
+  imports: [ConfigModule, DatabaseModule],
+  controllers: [
+    PlansController,
+    SubscriptionController,
+    BillingWebhookController,
+  ],
+  providers: [QuotaService, BillingWebhookService],
+  exports: [QuotaService],
+})
+export class SubscriptionsModule {}
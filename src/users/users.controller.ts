@@ -8,7 +8,6 @@ import {
   Param,
   Query,
   UseGuards,
-  Request,
   NotFoundException,
   ClassSerializerInterceptor,
   UseInterceptors,
@@ -23,7 +22,10 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth-user';
 import { UserService } from '../database/user.service';
+import { CostAccountingService } from '../costs/cost-accounting.service';
 import { CreateProfileDto } from '../dto/user/create-profile.dto';
 import { UpdateProfileDto } from '../dto/user/update-profile.dto';
 import { ProfileResponseDto } from '../dto/user/profile-response.dto';
@@ -38,13 +40,17 @@ import { plainToClass } from 'class-transformer';
 @Controller('api/v1/users')
 @UseInterceptors(ClassSerializerInterceptor)
 export class UsersController {
-  constructor(private readonly userService: UserService) {}
+  constructor(
+    private readonly userService: UserService,
+    private readonly costAccounting: CostAccountingService,
+  ) {}
 
   @Post()
   @ApiOperation({
     summary: 'Create a new user profile',
     description:
-      'Creates a new user profile. This is typically called after Supabase auth registration.',
+      'Creates a new user profile. Profiles of Supabase users are now created automatically on their first authenticated request, so this is no longer needed.',
+    deprecated: true,
   })
   @ApiResponse({
     status: 201,
@@ -111,8 +117,9 @@ export class UsersController {
     description: 'Profile not found',
     type: ErrorResponseDto,
   })
-  async getCurrentProfile(@Request() req): Promise<ProfileResponseDto> {
-    const userId = req.user.id;
+  async getCurrentProfile(
+    @CurrentUser('id') userId: string,
+  ): Promise<ProfileResponseDto> {
     const profile = await this.userService.getProfileWithAnalytics(userId);
 
     if (!profile) {
@@ -174,10 +181,8 @@ export class UsersController {
   })
   async getProfileById(
     @Param('id') id: string,
-    @Request() req,
+    @CurrentUser('id') currentUserId: string,
   ): Promise<ProfileResponseDto> {
-    const currentUserId = req.user.id;
-
     // Users can only access their own profile (unless admin - add role check later)
     if (id !== currentUserId) {
       throw new BadRequestException('You can only access your own profile');
@@ -230,11 +235,9 @@ export class UsersController {
     type: ErrorResponseDto,
   })
   async updateCurrentProfile(
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Body() updateProfileDto: UpdateProfileDto,
   ): Promise<ProfileResponseDto> {
-    const userId = req.user.id;
-
     try {
       const updatedProfile = await this.userService.updateProfile(
         userId,
@@ -280,9 +283,9 @@ export class UsersController {
     description: 'Profile not found',
     type: ErrorResponseDto,
   })
-  async deactivateCurrentProfile(@Request() req): Promise<ProfileResponseDto> {
-    const userId = req.user.id;
-
+  async deactivateCurrentProfile(
+    @CurrentUser('id') userId: string,
+  ): Promise<ProfileResponseDto> {
     try {
       const deactivatedProfile =
         await this.userService.deactivateProfile(userId);
@@ -320,8 +323,7 @@ export class UsersController {
     description: 'Unauthorized',
     type: ErrorResponseDto,
   })
-  async getUserAnalytics(@Request() req) {
-    const userId = req.user.id;
+  async getUserAnalytics(@CurrentUser('id') userId: string) {
     const profile = await this.userService.getProfileWithAnalytics(userId);
 
     if (!profile) {
@@ -378,4 +380,58 @@ export class UsersController {
 
     return analytics;
   }
+
+  @Get('me/costs')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Get generation cost breakdown',
+    description:
+      "Returns the authenticated user's AI generation spend from the usage ledger, broken down by service and by series",
+  })
+  @ApiQuery({
+    name: 'days',
+    required: false,
+    description: 'Number of days to look back (1-365, default 30)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Cost breakdown retrieved successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid days',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  async getUserCosts(
+    @CurrentUser() user: AuthUser,
+    @Query('days') days: number = 30,
+  ) {
+    const periodDays = Number(days);
+    if (!Number.isInteger(periodDays) || periodDays < 1 || periodDays > 365) {
+      throw new BadRequestException('days must be an integer from 1 to 365');
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - periodDays * 24 * 60 * 60 * 1000);
+    const breakdown = await this.costAccounting.getUserCostBreakdown(
+      user.id,
+      from,
+      to,
+    );
+
+    return {
+      period: {
+        days: periodDays,
+        from: from.toISOString(),
+        to: to.toISOString(),
+      },
+      ...breakdown,
+    };
+  }
 }
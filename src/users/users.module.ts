@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { UsersController } from './users.controller';
 import { DatabaseModule } from '../database/database.module';
+import { CostsModule } from '../costs/costs.module';
 
 @Module({
-  imports: [DatabaseModule],
+  imports: [DatabaseModule, CostsModule],
   controllers: [UsersController],
 })
 export class UsersModule {}
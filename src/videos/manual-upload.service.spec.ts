@@ -0,0 +1,193 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { SocialAccountService } from '../database/social-account.service';
+import { VideoService } from '../database/video.service';
+import { VideoUploadService } from '../database/video-upload.service';
+import { VideoStorageService } from '../storage/video-storage.service';
+import { QuotaService } from '../subscriptions/quota.service';
+import {
+  ManualUploadService,
+  parseContentRange,
+} from './manual-upload.service';
+import { probeMp4 } from './mp4-probe';
+
+jest.mock('./mp4-probe');
+
+describe('ManualUploadService', () => {
+  let service: ManualUploadService;
+  let stagingDir: string;
+  let uploads: Map<string, any>;
+  let videoService: Record<string, jest.Mock>;
+  let socialAccountService: Record<string, jest.Mock>;
+  let videoStorageService: Record<string, jest.Mock>;
+  let storedBytes: Buffer;
+
+  const series = { id: 'series-1', userId: 'user-1' } as any;
+  const file = Buffer.from('0123456789');
+  const dto = {
+    seriesId: 'series-1',
+    title: 'Behind the scenes',
+    fileName: 'final-cut.mp4',
+    contentType: 'video/mp4',
+    fileSizeBytes: file.length,
+  };
+
+  beforeEach(async () => {
+    stagingDir = await mkdtemp(join(tmpdir(), 'easy-reals-uploads-'));
+    uploads = new Map();
+    storedBytes = Buffer.alloc(0);
+
+    const videoUploadService = {
+      createUpload: jest.fn().mockImplementation(async (data) => {
+        const upload = {
+          id: `upload-${uploads.size + 1}`,
+          ...data,
+          totalBytes: BigInt(data.totalBytes),
+          receivedBytes: BigInt(0),
+          status: 'uploading',
+        };
+        uploads.set(upload.id, upload);
+        return upload;
+      }),
+      updateUpload: jest.fn().mockImplementation(async (id, data) => {
+        const { receivedBytes, ...rest } = data;
+        const upload = {
+          ...uploads.get(id),
+          ...rest,
+          ...(receivedBytes !== undefined && {
+            receivedBytes: BigInt(receivedBytes),
+          }),
+        };
+        uploads.set(id, upload);
+        return upload;
+      }),
+      getExpiredUploads: jest.fn().mockResolvedValue([]),
+      expireUploads: jest.fn().mockResolvedValue({ count: 0 }),
+    };
+    videoService = {
+      createVideo: jest
+        .fn()
+        .mockImplementation(async (data) => ({ id: 'video-1', ...data })),
+      updateVideoStatus: jest.fn().mockResolvedValue({}),
+    };
+    socialAccountService = {
+      getActiveAccountsForPosting: jest
+        .fn()
+        .mockResolvedValue([{ platform: 'youtube' }, { platform: 'twitter' }]),
+    };
+    videoStorageService = {
+      storeFile: jest.fn().mockImplementation(async (video, asset, body) => {
+        for await (const chunk of body) {
+          storedBytes = Buffer.concat([storedBytes, chunk]);
+        }
+        return video;
+      }),
+    };
+    (probeMp4 as jest.Mock).mockResolvedValue({
+      durationSeconds: 42.4,
+      width: 1080,
+      height: 1920,
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ManualUploadService,
+        { provide: VideoUploadService, useValue: videoUploadService },
+        { provide: VideoService, useValue: videoService },
+        { provide: SocialAccountService, useValue: socialAccountService },
+        { provide: VideoStorageService, useValue: videoStorageService },
+        {
+          provide: QuotaService,
+          useValue: { assertCanStore: jest.fn().mockResolvedValue(undefined) },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'UPLOAD_STAGING_DIR' ? stagingDir : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ManualUploadService);
+  });
+
+  afterEach(() => rm(stagingDir, { recursive: true, force: true }));
+
+  const sendChunk = (id: string, start: number, end: number) =>
+    service.receiveChunk(
+      uploads.get(id),
+      { start, end, total: file.length },
+      Readable.from([file.subarray(start, end + 1)]),
+    );
+
+  it('assembles chunks and creates a ready video from the probed file', async () => {
+    const upload = await service.createUpload(series, dto);
+
+    const partial = await sendChunk(upload.id, 0, 5);
+    expect(partial.receivedBytes).toBe(BigInt(6));
+    expect(partial.status).toBe('uploading');
+
+    // A resent chunk must start where the upload left off
+    await expect(sendChunk(upload.id, 0, 5)).rejects.toThrow(
+      'starting at byte 6',
+    );
+
+    const completed = await sendChunk(upload.id, 6, 9);
+    expect(completed).toMatchObject({
+      status: 'completed',
+      videoId: 'video-1',
+    });
+    expect(storedBytes).toEqual(file);
+    expect(videoService.createVideo).toHaveBeenCalledWith(
+      expect.objectContaining({
+        seriesId: 'series-1',
+        status: 'processing',
+        duration: 42,
+        resolution: '1080x1920',
+      }),
+    );
+    expect(videoService.updateVideoStatus).toHaveBeenCalledWith(
+      'video-1',
+      'ready',
+      100,
+    );
+  });
+
+  it('rejects files larger than the strictest platform accepts', async () => {
+    await expect(
+      service.createUpload(series, { ...dto, fileSizeBytes: 600 * 1024 ** 2 }),
+    ).rejects.toThrow('larger than the 512 MB accepted by youtube, twitter');
+    expect(uploads.size).toBe(0);
+  });
+
+  it('fails the upload when the video is too long for a platform', async () => {
+    (probeMp4 as jest.Mock).mockResolvedValue({
+      durationSeconds: 900,
+      width: 1080,
+      height: 1920,
+    });
+    const upload = await service.createUpload(series, dto);
+
+    await expect(sendChunk(upload.id, 0, 9)).rejects.toThrow('accept at most');
+    expect(uploads.get(upload.id).status).toBe('failed');
+    expect(videoService.createVideo).not.toHaveBeenCalled();
+  });
+
+  it('parses Content-Range headers', () => {
+    expect(parseContentRange('bytes 0-99/1000')).toEqual({
+      start: 0,
+      end: 99,
+      total: 1000,
+    });
+    expect(parseContentRange('bytes 100-99/1000')).toBeNull();
+    expect(parseContentRange('bytes 0-1000/1000')).toBeNull();
+    expect(parseContentRange('items 0-9/10')).toBeNull();
+  });
+});
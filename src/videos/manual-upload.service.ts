@@ -0,0 +1,330 @@
+import {
+  BadRequestException,
+  ConflictException,
+  GoneException,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UserSeries, VideoUpload } from '@prisma/client';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { SocialAccountService } from '../database/social-account.service';
+import { VideoService } from '../database/video.service';
+import { VideoUploadService } from '../database/video-upload.service';
+import { CreateVideoUploadSessionDto } from '../dto/video/video-upload-session.dto';
+import {
+  PlatformUploadLimits,
+  strictestUploadLimits,
+} from '../social/supported-platforms';
+import { ASSET_CONTENT_TYPES } from '../storage/video-assets';
+import { VideoStorageService } from '../storage/video-storage.service';
+import { QuotaService } from '../subscriptions/quota.service';
+import { probeMp4, VideoProbe } from './mp4-probe';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export interface ContentRange {
+  start: number;
+  end: number;
+  total: number;
+}
+
+// Brings a user's own rendered video into a series. The file arrives in
+// chunks (a single chunk is fine) appended to a staging file, so an
+// interrupted upload resumes from the bytes already received. Once complete
+// the file is probed, checked against the target platforms and stored.
+//
+// Staging files live on the instance that received the first chunk, so
+// uploads need sticky routing when several API instances run.
+@Injectable()
+export class ManualUploadService {
+  private readonly logger = new Logger(ManualUploadService.name);
+  // Uploads with a chunk being written; chunks must not interleave
+  private readonly receiving = new Set<string>();
+
+  constructor(
+    private readonly videoUploadService: VideoUploadService,
+    private readonly videoService: VideoService,
+    private readonly socialAccountService: SocialAccountService,
+    private readonly videoStorageService: VideoStorageService,
+    private readonly quotaService: QuotaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Upload limits of a user's auto-post platforms, the series' targets
+  async getUploadLimits(userId: string): Promise<PlatformUploadLimits> {
+    const accounts =
+      await this.socialAccountService.getActiveAccountsForPosting(userId);
+    return strictestUploadLimits(accounts.map((account) => account.platform));
+  }
+
+  // Start an upload after checking the file against platform and plan limits
+  async createUpload(
+    series: UserSeries,
+    dto: CreateVideoUploadSessionDto,
+  ): Promise<VideoUpload> {
+    const limits = await this.getUploadLimits(series.userId);
+    const format = ASSET_CONTENT_TYPES.video[dto.contentType];
+    if (limits.supportedFormats && !limits.supportedFormats.includes(format)) {
+      throw new BadRequestException(
+        `${format} videos are not accepted by ${limits.platforms.join(', ')}`,
+      );
+    }
+    if (
+      limits.maxFileSizeBytes !== null &&
+      dto.fileSizeBytes > limits.maxFileSizeBytes
+    ) {
+      throw new BadRequestException(
+        `File is larger than the ${formatMb(limits.maxFileSizeBytes)} MB accepted by ${limits.platforms.join(', ')}`,
+      );
+    }
+    await this.quotaService.assertCanStore(
+      series.userId,
+      dto.fileSizeBytes / BYTES_PER_MB,
+    );
+
+    await this.purgeExpiredUploads();
+
+    const upload = await this.videoUploadService.createUpload({
+      userId: series.userId,
+      seriesId: series.id,
+      title: dto.title,
+      description: dto.description,
+      tags: dto.tags,
+      fileName: dto.fileName,
+      contentType: dto.contentType,
+      totalBytes: dto.fileSizeBytes,
+      expiresAt: new Date(Date.now() + this.sessionTtlMs),
+    });
+    await mkdir(this.stagingDir, { recursive: true });
+    await writeFile(this.stagingPath(upload), '');
+    return upload;
+  }
+
+  // Append a chunk. Completes the upload when the last byte arrives.
+  async receiveChunk(
+    upload: VideoUpload,
+    range: ContentRange,
+    body: Readable,
+  ): Promise<VideoUpload> {
+    await this.assertUploading(upload);
+    if (range.total !== Number(upload.totalBytes)) {
+      throw new BadRequestException(
+        `Content-Range total ${range.total} does not match the upload size ${upload.totalBytes}`,
+      );
+    }
+    if (this.receiving.has(upload.id)) {
+      throw new ConflictException('Another chunk is being uploaded');
+    }
+
+    this.receiving.add(upload.id);
+    try {
+      const offset = await this.receivedBytes(upload);
+      if (range.start !== offset) {
+        throw new ConflictException(
+          `Expected a chunk starting at byte ${offset}`,
+        );
+      }
+
+      try {
+        await pipeline(
+          body,
+          limitBytes(range.end - range.start + 1),
+          createWriteStream(this.stagingPath(upload), { flags: 'a' }),
+        );
+      } finally {
+        // Whatever arrived is kept, so the client can resume after it
+        upload = await this.videoUploadService.updateUpload(upload.id, {
+          receivedBytes: await this.receivedBytes(upload),
+        });
+      }
+
+      if (upload.receivedBytes === upload.totalBytes) {
+        return await this.complete(upload);
+      }
+      return upload;
+    } finally {
+      this.receiving.delete(upload.id);
+    }
+  }
+
+  // Abandon an upload and discard the received bytes
+  async cancelUpload(upload: VideoUpload): Promise<VideoUpload> {
+    if (upload.status !== 'uploading') {
+      throw new ConflictException(`Upload is already ${upload.status}`);
+    }
+    await rm(this.stagingPath(upload), { force: true });
+    return this.videoUploadService.updateUpload(upload.id, {
+      status: 'cancelled',
+    });
+  }
+
+  // Discard uploads whose session ran out before the last chunk arrived
+  async purgeExpiredUploads(): Promise<void> {
+    const expired = await this.videoUploadService.getExpiredUploads();
+    if (expired.length === 0) {
+      return;
+    }
+    for (const upload of expired) {
+      await rm(this.stagingPath(upload), { force: true });
+    }
+    await this.videoUploadService.expireUploads(
+      expired.map((upload) => upload.id),
+    );
+    this.logger.log(`Discarded ${expired.length} expired uploads`);
+  }
+
+  // Probe the staged file, create its video and move the file to storage
+  private async complete(upload: VideoUpload): Promise<VideoUpload> {
+    const path = this.stagingPath(upload);
+    try {
+      let probe: VideoProbe;
+      try {
+        probe = await probeMp4(path);
+      } catch (error) {
+        throw new UnprocessableEntityException(
+          `Could not read the video: ${error.message}`,
+        );
+      }
+
+      const limits = await this.getUploadLimits(upload.userId);
+      if (
+        limits.maxDurationSeconds !== null &&
+        probe.durationSeconds > limits.maxDurationSeconds
+      ) {
+        throw new UnprocessableEntityException(
+          `Video is ${Math.ceil(probe.durationSeconds)}s long; ${limits.platforms.join(', ')} accept at most ${limits.maxDurationSeconds}s`,
+        );
+      }
+
+      const video = await this.videoService.createVideo({
+        userId: upload.userId,
+        seriesId: upload.seriesId,
+        title: upload.title,
+        description: upload.description,
+        script: '',
+        promptUsed: 'Uploaded by the user',
+        tags: upload.tags,
+        generationSettings: { source: 'upload', fileName: upload.fileName },
+        status: 'processing',
+        duration: Math.round(probe.durationSeconds),
+        resolution: `${probe.width}x${probe.height}`,
+      });
+      try {
+        await this.videoStorageService.storeFile(
+          video,
+          'video',
+          createReadStream(path),
+          upload.contentType,
+          Number(upload.totalBytes),
+        );
+        await this.videoService.updateVideoStatus(video.id, 'ready', 100);
+      } catch (error) {
+        await this.videoService.updateVideoStatus(
+          video.id,
+          'failed',
+          undefined,
+          `Storing the upload failed: ${error.message}`,
+        );
+        throw error;
+      }
+
+      this.logger.log(`Stored uploaded video ${video.id} from ${upload.id}`);
+      return await this.videoUploadService.updateUpload(upload.id, {
+        status: 'completed',
+        videoId: video.id,
+      });
+    } catch (error) {
+      await this.videoUploadService.updateUpload(upload.id, {
+        status: 'failed',
+        errorMessage: error.message,
+      });
+      throw error;
+    } finally {
+      await rm(path, { force: true });
+    }
+  }
+
+  private async assertUploading(upload: VideoUpload): Promise<void> {
+    if (upload.status !== 'uploading') {
+      throw new ConflictException(`Upload is already ${upload.status}`);
+    }
+    if (upload.expiresAt <= new Date()) {
+      await rm(this.stagingPath(upload), { force: true });
+      await this.videoUploadService.expireUploads([upload.id]);
+      throw new GoneException('Upload session has expired');
+    }
+  }
+
+  // Bytes staged so far; the staging file is the source of truth
+  private async receivedBytes(upload: VideoUpload): Promise<number> {
+    try {
+      return (await stat(this.stagingPath(upload))).size;
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new ConflictException(
+          'Upload data is not available on this server; start a new upload',
+        );
+      }
+      throw error;
+    }
+  }
+
+  private stagingPath(upload: VideoUpload): string {
+    return join(this.stagingDir, `${upload.id}.part`);
+  }
+
+  private get stagingDir(): string {
+    return (
+      this.configService.get<string>('UPLOAD_STAGING_DIR') ||
+      join(tmpdir(), 'easy-reals-uploads')
+    );
+  }
+
+  private get sessionTtlMs(): number {
+    const hours = Number(
+      this.configService.get('UPLOAD_SESSION_TTL_HOURS') ?? 24,
+    );
+    return hours * 60 * 60 * 1000;
+  }
+}
+
+// Parse a "bytes <start>-<end>/<total>" Content-Range header
+export function parseContentRange(header: string): ContentRange | null {
+  const match = /^bytes (\d+)-(\d+)\/(\d+)$/.exec(header?.trim() ?? '');
+  if (!match) {
+    return null;
+  }
+  const [start, end, total] = match.slice(1).map(Number);
+  if (start > end || end >= total) {
+    return null;
+  }
+  return { start, end, total };
+}
+
+// Fail the stream once more than `max` bytes pass through
+function limitBytes(max: number): Transform {
+  let seen = 0;
+  return new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      seen += chunk.length;
+      if (seen > max) {
+        callback(
+          new BadRequestException('Chunk is larger than its Content-Range'),
+        );
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+}
+
+function formatMb(bytes: number): string {
+  return (bytes / BYTES_PER_MB).toFixed(0);
+}
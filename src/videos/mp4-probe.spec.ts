@@ -0,0 +1,99 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { probeMp4 } from './mp4-probe';
+
+const box = (type: string, ...payloads: Buffer[]) => {
+  const body = Buffer.concat(payloads);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+};
+
+const mvhd = (timescale: number, duration: number) => {
+  const payload = Buffer.alloc(100);
+  payload.writeUInt32BE(timescale, 12);
+  payload.writeUInt32BE(duration, 16);
+  return box('mvhd', payload);
+};
+
+const tkhd = (width: number, height: number, rotated = false) => {
+  const payload = Buffer.alloc(84);
+  // Matrix: identity, or a 90 degree rotation
+  const [a, b, c, d] = rotated
+    ? [0, 0x10000, -0x10000, 0]
+    : [0x10000, 0, 0, 0x10000];
+  payload.writeInt32BE(a, 40);
+  payload.writeInt32BE(b, 44);
+  payload.writeInt32BE(c, 52);
+  payload.writeInt32BE(d, 56);
+  payload.writeInt32BE(0x40000000, 72);
+  payload.writeUInt32BE(width * 65536, 76);
+  payload.writeUInt32BE(height * 65536, 80);
+  return box('tkhd', payload);
+};
+
+const track = (handler: string, header: Buffer) => {
+  const hdlr = Buffer.alloc(24);
+  hdlr.write(handler, 8, 'latin1');
+  return box('trak', header, box('mdia', box('hdlr', hdlr)));
+};
+
+describe('probeMp4', () => {
+  let dir: string;
+
+  const writeVideo = async (...boxes: Buffer[]) => {
+    const path = join(dir, 'video.mp4');
+    await writeFile(path, Buffer.concat(boxes));
+    return path;
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'easy-reals-probe-'));
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  it('reads duration and size of the video track after the media data', async () => {
+    const path = await writeVideo(
+      box('ftyp', Buffer.from('isom')),
+      box('mdat', Buffer.alloc(4096)),
+      box(
+        'moov',
+        mvhd(1000, 45500),
+        track('soun', tkhd(0, 0)),
+        track('vide', tkhd(1920, 1080)),
+      ),
+    );
+
+    await expect(probeMp4(path)).resolves.toEqual({
+      durationSeconds: 45.5,
+      width: 1920,
+      height: 1080,
+    });
+  });
+
+  it('reports the displayed size of rotated phone recordings', async () => {
+    const path = await writeVideo(
+      box('ftyp', Buffer.from('qt  ')),
+      box('moov', mvhd(600, 18000), track('vide', tkhd(1920, 1080, true))),
+    );
+
+    await expect(probeMp4(path)).resolves.toEqual({
+      durationSeconds: 30,
+      width: 1080,
+      height: 1920,
+    });
+  });
+
+  it('rejects files without a movie box or video track', async () => {
+    const noMoov = await writeVideo(box('ftyp', Buffer.from('isom')));
+    await expect(probeMp4(noMoov)).rejects.toThrow('no moov box');
+
+    const audioOnly = await writeVideo(
+      box('moov', mvhd(1000, 1000), track('soun', tkhd(0, 0))),
+    );
+    await expect(probeMp4(audioOnly)).rejects.toThrow('no video track');
+  });
+});
@@ -0,0 +1,125 @@
+import { open } from 'fs/promises';
+
+export interface VideoProbe {
+  durationSeconds: number;
+  width: number;
+  height: number;
+}
+
+// moov holds metadata only; anything bigger is not a file we can handle
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+
+// Read duration and display size from an MP4 or QuickTime (.mov) file.
+// Only the box headers and the moov box are read, so large files are cheap
+// to probe. Throws when the file is not a playable ISO media file.
+export async function probeMp4(path: string): Promise<VideoProbe> {
+  const file = await open(path, 'r');
+  try {
+    const { size } = await file.stat();
+    const header = Buffer.alloc(16);
+
+    let offset = 0;
+    while (offset + 8 <= size) {
+      await file.read(header, 0, 16, offset);
+      let boxSize = header.readUInt32BE(0);
+      const type = header.toString('latin1', 4, 8);
+      let headerSize = 8;
+      if (boxSize === 1) {
+        boxSize = Number(header.readBigUInt64BE(8));
+        headerSize = 16;
+      } else if (boxSize === 0) {
+        boxSize = size - offset;
+      }
+      if (boxSize < headerSize) {
+        break;
+      }
+
+      if (type === 'moov') {
+        if (boxSize > MAX_MOOV_BYTES) {
+          throw new Error('Video metadata is too large');
+        }
+        const moov = Buffer.alloc(boxSize - headerSize);
+        await file.read(moov, 0, moov.length, offset + headerSize);
+        return parseMoov(moov);
+      }
+      offset += boxSize;
+    }
+  } finally {
+    await file.close();
+  }
+  throw new Error('Not an MP4 or QuickTime video (no moov box)');
+}
+
+function parseMoov(moov: Buffer): VideoProbe {
+  const mvhd = findBox(moov, 'mvhd');
+  if (!mvhd) {
+    throw new Error('Video has no movie header');
+  }
+  const version = mvhd[0];
+  const timescale = mvhd.readUInt32BE(version === 1 ? 20 : 12);
+  const duration =
+    version === 1 ? Number(mvhd.readBigUInt64BE(24)) : mvhd.readUInt32BE(16);
+  if (!timescale) {
+    throw new Error('Video has an invalid timescale');
+  }
+
+  for (const trak of childBoxes(moov, 'trak')) {
+    const mdia = findBox(trak, 'mdia');
+    const hdlr = mdia && findBox(mdia, 'hdlr');
+    // hdlr: version/flags (4), pre_defined (4), handler_type (4)
+    if (hdlr?.toString('latin1', 8, 12) !== 'vide') {
+      continue;
+    }
+    const tkhd = findBox(trak, 'tkhd');
+    if (!tkhd) {
+      continue;
+    }
+
+    // tkhd ends with a 3x3 matrix (36 bytes), then 16.16 width and height
+    const end = tkhd.length;
+    let width = Math.round(tkhd.readUInt32BE(end - 8) / 65536);
+    let height = Math.round(tkhd.readUInt32BE(end - 4) / 65536);
+    // A 90 or 270 degree rotation (a = d = 0) swaps the displayed sides
+    const a = tkhd.readInt32BE(end - 44);
+    const d = tkhd.readInt32BE(end - 28);
+    if (a === 0 && d === 0) {
+      [width, height] = [height, width];
+    }
+
+    return {
+      durationSeconds: duration / timescale,
+      width,
+      height,
+    };
+  }
+
+  throw new Error('Video has no video track');
+}
+
+// Contents (without header) of the first direct child box of a type
+function findBox(parent: Buffer, type: string): Buffer | null {
+  return childBoxes(parent, type)[0] ?? null;
+}
+
+function childBoxes(parent: Buffer, type: string): Buffer[] {
+  const boxes: Buffer[] = [];
+  let offset = 0;
+  while (offset + 8 <= parent.length) {
+    let size = parent.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(parent.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = parent.length - offset;
+    }
+    if (size < headerSize || offset + size > parent.length) {
+      break;
+    }
+    if (parent.toString('latin1', offset + 4, offset + 8) === type) {
+      boxes.push(parent.subarray(offset + headerSize, offset + size));
+    }
+    offset += size;
+  }
+  return boxes;
+}
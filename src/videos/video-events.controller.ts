@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Param,
+  UseGuards,
+  NotFoundException,
+  ForbiddenException,
+  Sse,
+  MessageEvent,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth-user';
+import { VideoService } from '../database/video.service';
+import { VideoProgressService } from '../generation/video-progress.service';
+import { ErrorResponseDto } from '../dto/common/error-response.dto';
+
+// Server-Sent Events streams of video generation progress. Kept apart from
+// VideosController because its serializer interceptor would turn errors
+// thrown before the stream starts into SSE messages instead of HTTP errors.
+@ApiTags('Videos')
+@Controller('api/v1/videos')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class VideoEventsController {
+  constructor(
+    private readonly videoService: VideoService,
+    private readonly videoProgressService: VideoProgressService,
+  ) {}
+
+  @Sse('events')
+  @ApiOperation({
+    summary: "Stream progress of user's videos",
+    description:
+      "Server-Sent Events stream that starts with the videos currently being generated, then sends a progress event whenever any of the user's videos changes status or progress. Sends a ping event periodically to keep the connection open.",
+  })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({
+    status: 200,
+    description: 'Event stream opened',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  streamUserVideos(@CurrentUser() user: AuthUser): Observable<MessageEvent> {
+    return this.videoProgressService.watchUser(user.id);
+  }
+
+  @Sse(':id/events')
+  @ApiOperation({
+    summary: 'Stream progress of a video',
+    description:
+      'Server-Sent Events stream that starts with the current state of the video and sends a progress event on every change. The stream ends once the video is ready or failed.',
+  })
+  @ApiParam({ name: 'id', description: 'Video ID' })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({
+    status: 200,
+    description: 'Event stream opened',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not your video',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Video not found',
+    type: ErrorResponseDto,
+  })
+  async streamVideo(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<Observable<MessageEvent>> {
+    const video = await this.videoService.getVideoProgress(id);
+
+    if (!video) {
+      throw new NotFoundException('Video not found');
+    }
+
+    // Check ownership
+    if (video.userId !== user.id) {
+      throw new ForbiddenException('You can only access your own videos');
+    }
+
+    return this.videoProgressService.watchVideo(video);
+  }
+}
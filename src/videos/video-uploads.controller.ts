@@ -0,0 +1,282 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Req,
+  Headers,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ClassSerializerInterceptor,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiHeader,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { plainToClass } from 'class-transformer';
+import { Request } from 'express';
+import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth-user';
+import { SeriesService } from '../database/series.service';
+import { VideoUploadService } from '../database/video-upload.service';
+import {
+  CreateVideoUploadSessionDto,
+  VideoUploadSessionResponseDto,
+} from '../dto/video/video-upload-session.dto';
+import { ErrorResponseDto } from '../dto/common/error-response.dto';
+import { PlatformUploadLimits } from '../social/supported-platforms';
+import {
+  ManualUploadService,
+  parseContentRange,
+} from './manual-upload.service';
+
+@ApiTags('Videos')
+@Controller('api/v1/videos/uploads')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+@UseInterceptors(ClassSerializerInterceptor)
+export class VideoUploadsController {
+  constructor(
+    private readonly seriesService: SeriesService,
+    private readonly videoUploadService: VideoUploadService,
+    private readonly manualUploadService: ManualUploadService,
+  ) {}
+
+  @Get('limits')
+  @ApiOperation({
+    summary: 'Get upload limits',
+    description:
+      "Returns the strictest file format, size and duration limits across the platforms of the user's auto-post accounts. Limits are null when no platform sets one.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Limits retrieved successfully',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  async getUploadLimits(
+    @CurrentUser() user: AuthUser,
+  ): Promise<PlatformUploadLimits> {
+    return this.manualUploadService.getUploadLimits(user.id);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Start uploading a video',
+    description:
+      'Starts a resumable upload of a rendered MP4 or QuickTime video into a series. The format and size are checked against the strictest limits of the target platforms and against the storage limit. Send the file with PUT, in one or more chunks.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Upload started',
+    type: VideoUploadSessionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Format or size not accepted by the target platforms',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not your series, or storage limit reached',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Series not found',
+    type: ErrorResponseDto,
+  })
+  async createUpload(
+    @CurrentUser() user: AuthUser,
+    @Body() createUploadDto: CreateVideoUploadSessionDto,
+  ): Promise<VideoUploadSessionResponseDto> {
+    const series = await this.seriesService.getSeriesById(
+      createUploadDto.seriesId,
+    );
+    if (!series) {
+      throw new NotFoundException('Series not found');
+    }
+    if (series.userId !== user.id) {
+      throw new ForbiddenException('You can only upload to your own series');
+    }
+
+    const upload = await this.manualUploadService.createUpload(
+      series,
+      createUploadDto,
+    );
+    return plainToClass(VideoUploadSessionResponseDto, upload);
+  }
+
+  @Get(':uploadId')
+  @ApiOperation({
+    summary: 'Get upload status',
+    description:
+      'Returns the upload; receivedBytes is where an interrupted upload resumes',
+  })
+  @ApiParam({ name: 'uploadId', description: 'Upload ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Upload retrieved successfully',
+    type: VideoUploadSessionResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Upload not found',
+    type: ErrorResponseDto,
+  })
+  async getUpload(
+    @Param('uploadId') uploadId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<VideoUploadSessionResponseDto> {
+    const upload = await this.findOwnUpload(uploadId, user.id);
+    return plainToClass(VideoUploadSessionResponseDto, upload);
+  }
+
+  @Put(':uploadId')
+  @ApiOperation({
+    summary: 'Upload a chunk of the video',
+    description:
+      'Appends the raw request body (application/octet-stream) at the byte range given by Content-Range. Without Content-Range the body is taken as the rest of the file. When the last byte arrives the video is probed for duration and resolution, checked against the platform duration limit, stored and created in the series as ready.',
+  })
+  @ApiParam({ name: 'uploadId', description: 'Upload ID' })
+  @ApiConsumes('application/octet-stream')
+  @ApiHeader({
+    name: 'Content-Range',
+    required: false,
+    description: 'Byte range of the chunk, e.g. "bytes 0-5242879/52428800"',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Chunk received; status is completed after the last chunk',
+    type: VideoUploadSessionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid Content-Range',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Upload not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Chunk does not start at receivedBytes, or upload finished',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 410,
+    description: 'Upload session expired',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Video unreadable or longer than the platforms accept',
+    type: ErrorResponseDto,
+  })
+  async uploadChunk(
+    @Param('uploadId') uploadId: string,
+    @CurrentUser() user: AuthUser,
+    @Req() req: Request,
+    @Headers('content-range') contentRange: string,
+  ): Promise<VideoUploadSessionResponseDto> {
+    const upload = await this.findOwnUpload(uploadId, user.id);
+
+    const totalBytes = Number(upload.totalBytes);
+    const range = contentRange
+      ? parseContentRange(contentRange)
+      : {
+          start: Number(upload.receivedBytes),
+          end: totalBytes - 1,
+          total: totalBytes,
+        };
+    if (!range) {
+      throw new BadRequestException(
+        'Content-Range must look like "bytes <start>-<end>/<total>"',
+      );
+    }
+
+    // The request itself is the body stream
+    const updated = await this.manualUploadService.receiveChunk(
+      upload,
+      range,
+      req,
+    );
+    return plainToClass(VideoUploadSessionResponseDto, updated);
+  }
+
+  @Delete(':uploadId')
+  @ApiOperation({
+    summary: 'Cancel an upload',
+    description: 'Discards the bytes received so far',
+  })
+  @ApiParam({ name: 'uploadId', description: 'Upload ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Upload cancelled',
+    type: VideoUploadSessionResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Upload not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Upload already finished',
+    type: ErrorResponseDto,
+  })
+  async cancelUpload(
+    @Param('uploadId') uploadId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<VideoUploadSessionResponseDto> {
+    const upload = await this.findOwnUpload(uploadId, user.id);
+    const cancelled = await this.manualUploadService.cancelUpload(upload);
+    return plainToClass(VideoUploadSessionResponseDto, cancelled);
+  }
+
+  // Uploads of other users are reported as missing
+  private async findOwnUpload(id: string, userId: string) {
+    const upload = await this.videoUploadService.findUploadById(id);
+    if (!upload || upload.userId !== userId) {
+      throw new NotFoundException('Upload not found');
+    }
+    return upload;
+  }
+}
@@ -8,7 +8,6 @@ import {
   Param,
   Query,
   UseGuards,
-  Request,
   NotFoundException,
   ClassSerializerInterceptor,
   UseInterceptors,
@@ -24,8 +23,14 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt.auth.guard';
-import { VideoService } from '../database/video.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth-user';
+import { VIDEO_SORT_FIELDS, VideoService } from '../database/video.service';
+import { decodeCursor } from '../database/page-cursor';
 import { SeriesService } from '../database/series.service';
+import { VideoGenerationService } from '../generation/video-generation.service';
+import { VideoStorageService } from '../storage/video-storage.service';
+import { PostSchedulingService } from '../publishing/post-scheduling.service';
 import {
   CreateVideoDto,
   GenerateVideoDto,
@@ -33,9 +38,18 @@ import {
 import { UpdateVideoDto } from '../dto/video/update-video.dto';
 import { VideoResponseDto } from '../dto/video/video-response.dto';
 import {
-  PaginationDto,
-  PaginatedResponseDto,
-} from '../dto/common/pagination.dto';
+  CompleteVideoUploadDto,
+  CreateVideoUploadDto,
+  SignedUrlResponseDto,
+  VideoAssetQueryDto,
+  VideoUploadResponseDto,
+} from '../dto/video/video-upload.dto';
+import {
+  VideoPreflightQueryDto,
+  VideoPreflightResponseDto,
+} from '../dto/video/video-preflight.dto';
+import { PaginatedResponseDto } from '../dto/common/pagination.dto';
+import { VideoQueryDto } from '../dto/video/video-query.dto';
 import { ErrorResponseDto } from '../dto/common/error-response.dto';
 import { plainToClass } from 'class-transformer';
 
@@ -48,6 +62,9 @@ export class VideosController {
   constructor(
     private readonly videoService: VideoService,
     private readonly seriesService: SeriesService,
+    private readonly videoGenerationService: VideoGenerationService,
+    private readonly videoStorageService: VideoStorageService,
+    private readonly postSchedulingService: PostSchedulingService,
   ) {}
 
   @Post()
@@ -77,11 +94,9 @@ export class VideosController {
     type: ErrorResponseDto,
   })
   async createVideo(
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Body() createVideoDto: CreateVideoDto,
   ): Promise<VideoResponseDto> {
-    const userId = req.user.id;
-
     // Verify series ownership
     const series = await this.seriesService.getSeriesById(
       createVideoDto.seriesId,
@@ -150,11 +165,9 @@ export class VideosController {
     type: ErrorResponseDto,
   })
   async generateVideo(
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Body() generateVideoDto: GenerateVideoDto,
   ): Promise<VideoResponseDto> {
-    const userId = req.user.id;
-
     // Verify series ownership and settings
     const series = await this.seriesService.getSeriesById(
       generateVideoDto.seriesId,
@@ -175,55 +188,15 @@ export class VideosController {
       );
     }
 
-    // TODO: Check subscription limits here
-    // const subscription = await this.checkSubscriptionLimits(userId);
-
-    // Create video record in "queued" status
-    const videoTitle =
-      generateVideoDto.topic ||
-      `${series.name} Episode ${series.totalVideosGenerated + 1}`;
-    const prompt =
-      series.customPrompt ||
-      'Generate engaging video content based on series theme';
-
-    const videoData = {
-      userId,
-      seriesId: generateVideoDto.seriesId,
-      title: videoTitle,
-      description: `Auto-generated video for ${series.name} series`,
-      script: '[AI Generated Script - Processing...]',
-      promptUsed: prompt,
-      generationSettings: {
-        ...((series.visualStyle as Record<string, any>) || {}),
-        ...((series.voiceSettings as Record<string, any>) || {}),
-        ...((series.musicSettings as Record<string, any>) || {}),
-        duration: series.videoDuration,
-        style: series.contentStyle,
-        useTrending: series.useTrendingTopics,
-        priority: generateVideoDto.priority || 'normal',
-        ...generateVideoDto.generationSettings,
-      },
-      tags: [`${series.name}`, 'ai-generated'],
-    };
-
-    // Create video with "queued" status
-    const video = await this.videoService.createVideo(videoData);
-
-    // Update video status to queued for generation
-    await this.videoService.updateVideoStatus(video.id, 'queued', 0);
-
-    // TODO: Add to background job queue for actual generation
-    // await this.jobQueueService.addVideoGenerationJob(video.id, generateVideoDto.priority);
-
-    // Update series stats
-    await this.seriesService.updateSeriesStats(generateVideoDto.seriesId, {
-      totalVideosGenerated: series.totalVideosGenerated + 1,
+    // Create the video in "queued" status and add it to the job queue
+    const video = await this.videoGenerationService.queueVideo(series, {
+      topic: generateVideoDto.topic,
+      priority: generateVideoDto.priority,
+      generationSettings: generateVideoDto.generationSettings,
     });
 
     const response = {
       ...video,
-      status: 'queued',
-      generationProgress: 0,
       series: {
         id: series.id,
         name: series.name,
@@ -240,60 +213,54 @@ export class VideosController {
     description:
       'Returns paginated list of videos belonging to the authenticated user',
   })
-  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
-  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
-  @ApiQuery({ name: 'search', required: false, description: 'Search query' })
-  @ApiQuery({
-    name: 'status',
-    required: false,
-    description: 'Filter by status',
-  })
-  @ApiQuery({
-    name: 'seriesId',
-    required: false,
-    description: 'Filter by series ID',
-  })
   @ApiResponse({
     status: 200,
     description: 'Videos retrieved successfully',
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid query or cursor',
+    type: ErrorResponseDto,
+  })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized',
     type: ErrorResponseDto,
   })
   async getUserVideos(
-    @Request() req,
-    @Query() paginationDto: PaginationDto,
-    @Query('status') status?: string,
-    @Query('seriesId') seriesId?: string,
+    @CurrentUser('id') userId: string,
+    @Query() query: VideoQueryDto,
   ) {
-    const userId = req.user.id;
-    const page = paginationDto.page || 1;
-    const limit = paginationDto.limit || 10;
-    const offset = (page - 1) * limit;
-
-    const videos = await this.videoService.getUserVideos(userId, {
-      status,
-      seriesId,
-      limit,
-      offset,
-    });
-
-    // Apply search filter if provided
-    let filteredVideos = videos;
-    if (paginationDto.search) {
-      const searchTerm = paginationDto.search.toLowerCase();
-      filteredVideos = videos.filter(
-        (video) =>
-          video.title.toLowerCase().includes(searchTerm) ||
-          video.description?.toLowerCase().includes(searchTerm) ||
-          video.tags.some((tag) => tag.toLowerCase().includes(searchTerm)),
-      );
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+    const cursor = query.cursor
+      ? decodeCursor(
+          query.cursor,
+          query.sortBy,
+          query.sortOrder,
+          VIDEO_SORT_FIELDS,
+        )
+      : undefined;
+    if (cursor === null) {
+      throw new BadRequestException('Invalid cursor for this sort');
     }
 
+    const { videos, total, nextCursor } = await this.videoService.getUserVideos(
+      userId,
+      {
+        status: query.status,
+        seriesId: query.seriesId,
+        search: query.search,
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
+        skip: (page - 1) * limit,
+        take: limit,
+        cursor,
+      },
+    );
+
     // Transform to response format
-    const responseData = filteredVideos.map((video) => {
+    const responseData = videos.map((video) => {
       const socialPosts =
         (video as any).socialPosts?.map((post: any) => ({
           id: post.id,
@@ -315,9 +282,10 @@ export class VideosController {
       });
     });
 
-    // For pagination, we'd need a separate count query in a real implementation
-    const total = filteredVideos.length;
-    return new PaginatedResponseDto(responseData, total, page, limit);
+    return new PaginatedResponseDto(responseData, total, page, limit, {
+      next: nextCursor,
+      used: !!cursor,
+    });
   }
 
   @Get(':id')
@@ -348,9 +316,8 @@ export class VideosController {
   })
   async getVideoById(
     @Param('id') id: string,
-    @Request() req,
+    @CurrentUser('id') userId: string,
   ): Promise<VideoResponseDto> {
-    const userId = req.user.id;
     const video = await this.videoService.findVideoById(id);
 
     if (!video) {
@@ -417,11 +384,9 @@ export class VideosController {
   })
   async updateVideo(
     @Param('id') id: string,
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Body() updateVideoDto: UpdateVideoDto,
   ): Promise<VideoResponseDto> {
-    const userId = req.user.id;
-
     // Verify ownership
     const existingVideo = await this.videoService.findVideoById(id);
     if (!existingVideo) {
@@ -490,7 +455,8 @@ export class VideosController {
   @Delete(':id')
   @ApiOperation({
     summary: 'Delete video',
-    description: 'Permanently deletes a video and all associated social posts',
+    description:
+      'Permanently deletes a video, its stored files and all associated social posts',
   })
   @ApiParam({ name: 'id', description: 'Video ID' })
   @ApiResponse({
@@ -512,9 +478,10 @@ export class VideosController {
     description: 'Video not found',
     type: ErrorResponseDto,
   })
-  async deleteVideo(@Param('id') id: string, @Request() req): Promise<void> {
-    const userId = req.user.id;
-
+  async deleteVideo(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<void> {
     // Verify ownership
     const existingVideo = await this.videoService.findVideoById(id);
     if (!existingVideo) {
@@ -526,7 +493,7 @@ export class VideosController {
     }
 
     try {
-      await this.videoService.deleteVideo(id);
+      await this.videoStorageService.deleteVideo(existingVideo);
     } catch (error) {
       if (error.code === 'P2025') {
         throw new NotFoundException('Video not found');
@@ -535,6 +502,195 @@ export class VideosController {
     }
   }
 
+  @Post(':id/uploads')
+  @ApiOperation({
+    summary: 'Start a video file upload',
+    description:
+      'Returns a signed URL to upload the video or thumbnail file to. Send the file with the returned method and headers, then complete the upload. When fileSizeBytes is given for a video, the storage limit is checked up front.',
+  })
+  @ApiParam({ name: 'id', description: 'Video ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Upload URL created',
+    type: VideoUploadResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Content type not accepted for the asset',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not your video, or storage limit reached',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Video not found',
+    type: ErrorResponseDto,
+  })
+  async createUpload(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Body() createUploadDto: CreateVideoUploadDto,
+  ): Promise<VideoUploadResponseDto> {
+    const video = await this.findOwnVideo(id, user.id);
+
+    const upload = await this.videoStorageService.createUpload(
+      video,
+      createUploadDto.asset,
+      createUploadDto.contentType,
+      createUploadDto.fileSizeBytes,
+    );
+    return { ...upload, expiresAt: upload.expiresAt.toISOString() };
+  }
+
+  @Post(':id/uploads/complete')
+  @ApiOperation({
+    summary: 'Complete a video file upload',
+    description:
+      'Attaches the uploaded file to the video. For video files the stored size becomes fileSizeMb and counts against the storage limit. A previously stored file is deleted.',
+  })
+  @ApiParam({ name: 'id', description: 'Video ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Upload attached to the video',
+    type: VideoResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Nothing was uploaded for the key',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not your video, or storage limit reached',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Video not found',
+    type: ErrorResponseDto,
+  })
+  async completeUpload(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Body() completeUploadDto: CompleteVideoUploadDto,
+  ): Promise<VideoResponseDto> {
+    const video = await this.findOwnVideo(id, user.id);
+
+    const updatedVideo = await this.videoStorageService.completeUpload(
+      video,
+      completeUploadDto.asset,
+      completeUploadDto.key,
+    );
+    return plainToClass(VideoResponseDto, {
+      ...updatedVideo,
+      series: {
+        id: (video as any).series.id,
+        name: (video as any).series.name,
+      },
+    });
+  }
+
+  @Get(':id/download-url')
+  @ApiOperation({
+    summary: 'Get a video file download URL',
+    description:
+      'Returns a short-lived signed URL for the stored video or thumbnail file',
+  })
+  @ApiParam({ name: 'id', description: 'Video ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Download URL created',
+    type: SignedUrlResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not your video',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Video not found or the file is not stored',
+    type: ErrorResponseDto,
+  })
+  async getDownloadUrl(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Query() query: VideoAssetQueryDto,
+  ): Promise<SignedUrlResponseDto> {
+    const video = await this.findOwnVideo(id, user.id);
+
+    const download = await this.videoStorageService.createDownloadUrl(
+      video,
+      query.asset,
+    );
+    return { ...download, expiresAt: download.expiresAt.toISOString() };
+  }
+
+  @Get(':id/preflight')
+  @ApiOperation({
+    summary: 'Check a video against connected platforms',
+    description:
+      'Reports, for each connected social account, whether the video can be posted and why not: duration, file size, format, aspect ratio and caption or hashtag limits of the platform. Scheduling a post runs the same checks.',
+  })
+  @ApiParam({ name: 'id', description: 'Video ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Checks completed',
+    type: VideoPreflightResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - not your video',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Video not found',
+    type: ErrorResponseDto,
+  })
+  async preflightVideo(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Query() query: VideoPreflightQueryDto,
+  ): Promise<VideoPreflightResponseDto> {
+    const video = await this.findOwnVideo(id, user.id);
+
+    const results = await this.postSchedulingService.preflight(video, query);
+    return {
+      videoId: video.id,
+      accounts: results.map(({ account, problems }) => ({
+        socialAccountId: account.id,
+        platform: account.platform,
+        username: account.username,
+        canPost: problems.length === 0,
+        problems,
+      })),
+    };
+  }
+
   @Get('analytics/dashboard')
   @ApiOperation({
     summary: 'Get video analytics dashboard',
@@ -556,10 +712,9 @@ export class VideosController {
     type: ErrorResponseDto,
   })
   async getVideoAnalytics(
-    @Request() req,
+    @CurrentUser('id') userId: string,
     @Query('period') period: number = 30,
   ) {
-    const userId = req.user.id;
     const videos = await this.videoService.getVideoAnalytics(userId, period);
 
     // Process analytics data
@@ -625,4 +780,15 @@ export class VideosController {
       },
     };
   }
+
+  private async findOwnVideo(id: string, userId: string) {
+    const video = await this.videoService.findVideoById(id);
+    if (!video) {
+      throw new NotFoundException('Video not found');
+    }
+    if (video.userId !== userId) {
+      throw new ForbiddenException('You can only access your own videos');
+    }
+    return video;
+  }
 }
@@ -1,9 +1,30 @@
 import { Module } from '@nestjs/common';
 import { VideosController } from './videos.controller';
+import { VideoEventsController } from './video-events.controller';
+import { VideoUploadsController } from './video-uploads.controller';
+import { ManualUploadService } from './manual-upload.service';
 import { DatabaseModule } from '../database/database.module';
+import { GenerationModule } from '../generation/generation.module';
+import { StorageModule } from '../storage/storage.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { PublishingModule } from '../publishing/publishing.module';
 
 @Module({
-  imports: [DatabaseModule],
-  controllers: [VideosController],
+  imports: [
+    DatabaseModule,
+    GenerationModule,
+    StorageModule,
+    SubscriptionsModule,
+    PublishingModule,
+  ],
+  // VideoEventsController and VideoUploadsController go first so
+  // GET /videos/events and /videos/uploads/... are not matched by the
+  // GET /videos/:id route
+  controllers: [
+    VideoEventsController,
+    VideoUploadsController,
+    VideosController,
+  ],
+  providers: [ManualUploadService],
 })
 export class VideosModule {}